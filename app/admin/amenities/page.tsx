@@ -0,0 +1,204 @@
+'use client';
+
+/**
+ * COMPONENT: AdminAmenitiesPage
+ *
+ * PURPOSE: Lets admins manage the room amenities catalog and which rooms
+ * have each amenity
+ *
+ * CONTEXT: Accessed via /admin/amenities, admins only (PAGE_ACCESS).
+ * Amenities managed here are listed in RoomDetailsPanel and offered as
+ * filters in the reservations room search.
+ *
+ * DATA FLOW: Reads and writes amenities and room_amenities through
+ * lib/amenities; writes use the audited admin_* functions, which reject
+ * non-admin accounts
+ *
+ * KEY DEPENDENCIES: lib/amenities, AmenityForm, RoomAmenitiesEditor, sonner toasts
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AMENITY_CATEGORIES,
+  Amenity,
+  AmenityInput,
+  createAmenity,
+  deleteAmenity,
+  getAmenities,
+  updateAmenity,
+} from '@/lib/amenities';
+import AmenityForm from '../components/AmenityForm';
+import RoomAmenitiesEditor from '../components/RoomAmenitiesEditor';
+
+// Postgres unique_violation: an amenity with this ID already exists
+const UNIQUE_VIOLATION = '23505';
+
+export default function AdminAmenitiesPage() {
+  const [amenities, setAmenities] = useState<Amenity[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // undefined: form closed, null: creating, amenity: editing
+  const [editing, setEditing] = useState<Amenity | null | undefined>(undefined);
+
+  const loadAmenities = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setAmenities(await getAmenities({ includeInactive: true }));
+    } catch (error) {
+      console.error('Error loading amenities:', error);
+      toast.error('Failed to load amenities');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAmenities();
+  }, [loadAmenities]);
+
+  const handleSubmit = async (id: string, values: AmenityInput) => {
+    if (editing) {
+      await updateAmenity(editing.id, values);
+      toast.success(`Updated ${values.name}`);
+    } else {
+      try {
+        await createAmenity(id, values);
+      } catch (error) {
+        if ((error as { code?: string })?.code === UNIQUE_VIOLATION) {
+          toast.error(`An amenity with the ID "${id}" already exists`);
+          return;
+        }
+        throw error;
+      }
+      toast.success(`Created ${values.name}`);
+    }
+    setEditing(undefined);
+    await loadAmenities();
+  };
+
+  const handleToggleActive = async (amenity: Amenity) => {
+    try {
+      await updateAmenity(amenity.id, { isActive: !amenity.isActive });
+      toast.success(amenity.isActive ? `Retired ${amenity.name}` : `Reactivated ${amenity.name}`);
+      await loadAmenities();
+    } catch {
+      toast.error('Failed to update amenity');
+    }
+  };
+
+  const handleDelete = async (amenity: Amenity) => {
+    if (!window.confirm(`Delete ${amenity.name}? It will be removed from every room.`)) return;
+
+    try {
+      await deleteAmenity(amenity.id);
+      toast.success(`Deleted ${amenity.name}`);
+      await loadAmenities();
+    } catch {
+      toast.error('Failed to delete amenity');
+    }
+  };
+
+  const categoryLabel = (amenity: Amenity) =>
+    AMENITY_CATEGORIES.find(category => category.id === amenity.category)?.label ?? amenity.category;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-300 via-amber-50 to-amber-100">
+      <div className="container mx-auto px-8 pt-10 pb-10 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl md:text-4xl font-ancizar font-semibold">Room Amenities</h1>
+          {editing === undefined && (
+            <Button onClick={() => setEditing(null)}>Add amenity</Button>
+          )}
+        </div>
+
+        {editing !== undefined && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{editing ? `Edit ${editing.name}` : 'New amenity'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AmenityForm
+                key={editing?.id ?? 'new'}
+                amenity={editing ?? undefined}
+                onSubmit={handleSubmit}
+                onCancel={() => setEditing(undefined)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-10">Loading amenities...</div>
+            ) : amenities.length === 0 ? (
+              <div className="text-center py-10 text-gray-500">No amenities yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>ID</TableHead>
+                    <TableHead>Category</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {amenities.map((amenity) => (
+                    <TableRow key={amenity.id}>
+                      <TableCell>
+                        <div className="font-medium">{amenity.name}</div>
+                        {amenity.description && (
+                          <div className="text-xs text-gray-500">{amenity.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{amenity.id}</TableCell>
+                      <TableCell>{categoryLabel(amenity)}</TableCell>
+                      <TableCell>
+                        <Badge variant={amenity.isActive ? 'default' : 'secondary'}>
+                          {amenity.isActive ? 'Active' : 'Retired'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setEditing(amenity)}>
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleToggleActive(amenity)}>
+                          {amenity.isActive ? 'Retire' : 'Reactivate'}
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDelete(amenity)}>
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Amenities by room</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RoomAmenitiesEditor amenities={amenities} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { AMENITY_CATEGORIES, Amenity, AmenityCategory, AmenityInput } from '@/lib/amenities';
+
+/**
+ * AmenityForm Component
+ * =====================
+ * PURPOSE:
+ *   Create or edit an amenity in the room amenities catalog.
+ *
+ * INPUTS:
+ *   - amenity: Amenity being edited, or undefined to create a new one
+ *   - onSubmit: Persists the slug and values; resolves when saved
+ *   - onCancel: Closes the form without saving
+ */
+
+interface AmenityFormProps {
+  amenity?: Amenity;
+  onSubmit: (id: string, values: AmenityInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const EMPTY_AMENITY: AmenityInput = {
+  name: '',
+  category: 'equipment',
+  description: null,
+  sortOrder: 100,
+  isActive: true,
+};
+
+/**
+ * Suggests a slug from an amenity name, e.g. "TV / HDMI" -> "tv_hdmi"
+ */
+function toSlug(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+}
+
+export default function AmenityForm({ amenity, onSubmit, onCancel }: AmenityFormProps) {
+  const [values, setValues] = useState<AmenityInput>(amenity ?? EMPTY_AMENITY);
+  // Slugs are fixed once created; they are used in search URLs
+  const [id, setId] = useState(amenity?.id ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof AmenityInput>(key: K, value: AmenityInput[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  /**
+   * Validates inputs before saving
+   * Mirrors the slug check on amenities.id
+   */
+  const validate = () => {
+    if (!values.name.trim()) return 'Name is required';
+    if (!/^[a-z0-9_]+$/.test(id)) return 'ID may only use lowercase letters, digits and _';
+    if (!Number.isInteger(values.sortOrder)) return 'Sort order must be a whole number';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSubmit(id, {
+        ...values,
+        name: values.name.trim(),
+        description: values.description?.trim() || null,
+      });
+    } catch (err) {
+      console.error('Error saving amenity:', err);
+      setError('Failed to save amenity. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="amenity-name">Name</Label>
+          <Input
+            id="amenity-name"
+            value={values.name}
+            onChange={(e) => {
+              update('name', e.target.value);
+              if (!amenity) setId(toSlug(e.target.value));
+            }}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="amenity-id">ID</Label>
+          <Input
+            id="amenity-id"
+            value={id}
+            disabled={Boolean(amenity)}
+            onChange={(e) => setId(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Category</Label>
+          <Select value={values.category} onValueChange={(value) => update('category', value as AmenityCategory)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AMENITY_CATEGORIES.map(category => (
+                <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="amenity-sort">Sort order</Label>
+          <Input
+            id="amenity-sort"
+            type="number"
+            value={values.sortOrder}
+            onChange={(e) => update('sortOrder', parseInt(e.target.value, 10) || 0)}
+          />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="amenity-description">Description</Label>
+          <Textarea
+            id="amenity-description"
+            value={values.description ?? ''}
+            onChange={(e) => update('description', e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : amenity ? 'Save changes' : 'Create amenity'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,113 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatBangkokDateTime } from '@/lib/logic/reservations';
+import { AuditEntry, AuditTargetType, getAuditLog } from '@/lib/admin';
+
+/**
+ * AuditLogPanel Component
+ * =======================
+ * PURPOSE:
+ *   Shows the most recent admin actions: who did what, to which record,
+ *   when and why. Entries are written by the admin_* database functions
+ *   and cannot be edited.
+ */
+
+type TargetFilter = AuditTargetType | 'all';
+
+const TARGET_OPTIONS: { id: TargetFilter; label: string }[] = [
+  { id: 'all', label: 'Everything' },
+  { id: 'room', label: 'Rooms' },
+  { id: 'reservation', label: 'Reservations' },
+  { id: 'maintenance_window', label: 'Maintenance' },
+  { id: 'user', label: 'Users' },
+  { id: 'post', label: 'Posts' },
+  { id: 'word_filter', label: 'Word filters' },
+  { id: 'zone', label: 'Zones' },
+  { id: 'amenity', label: 'Amenities' },
+];
+
+export default function AuditLogPanel() {
+  const [target, setTarget] = useState<TargetFilter>('all');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      try {
+        setIsLoading(true);
+        setEntries(await getAuditLog({ targetType: target === 'all' ? undefined : target }));
+      } catch {
+        toast.error('Failed to load the audit log');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    loadEntries();
+  }, [target]);
+
+  return (
+    <div className="space-y-6">
+      <div className="max-w-xs">
+        <Select value={target} onValueChange={(value) => setTarget(value as TargetFilter)}>
+          <SelectTrigger className="bg-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TARGET_OPTIONS.map(option => (
+              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="text-center py-10">Loading audit log...</div>
+          ) : entries.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">No admin actions recorded yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead>Reason</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell className="whitespace-nowrap">{formatBangkokDateTime(entry.createdAt)}</TableCell>
+                    <TableCell>{entry.actorEmail}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className="font-mono">{entry.action}</Badge>
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{entry.targetId}</TableCell>
+                    <TableCell>{entry.reason ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
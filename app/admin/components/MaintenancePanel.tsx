@@ -0,0 +1,250 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { bangkokSlotToDate, formatBangkokDateTime } from '@/lib/logic/reservations';
+import {
+  AdminRoom,
+  MaintenanceWindow,
+  blockRoom,
+  describeAdminError,
+  getAdminRooms,
+  getMaintenanceWindows,
+  removeRoomBlock,
+} from '@/lib/admin';
+import ReasonDialog from './ReasonDialog';
+
+/**
+ * MaintenancePanel Component
+ * ==========================
+ * PURPOSE:
+ *   Blocks rooms for maintenance windows and lists the windows that have
+ *   not ended yet. Blocked times show as busy when users book.
+ *
+ * NOTES:
+ *   Blocking a window that already has bookings fails unless "Cancel
+ *   bookings in this window" is ticked.
+ */
+
+export default function MaintenancePanel() {
+  const [rooms, setRooms] = useState<AdminRoom[]>([]);
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [roomId, setRoomId] = useState<number | null>(null);
+  // Bangkok wall-clock values from datetime-local inputs ("yyyy-MM-ddTHH:mm")
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+  const [reason, setReason] = useState('');
+  const [cancelConflicts, setCancelConflicts] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [removing, setRemoving] = useState<MaintenanceWindow | null>(null);
+
+  const loadWindows = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setWindows(await getMaintenanceWindows());
+    } catch {
+      toast.error('Failed to load maintenance windows');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    getAdminRooms()
+      .then(setRooms)
+      .catch(() => setRooms([]));
+    loadWindows();
+  }, [loadWindows]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (roomId === null || !start || !end) {
+      toast.error('Choose a room, start and end');
+      return;
+    }
+
+    if (end <= start) {
+      toast.error('End time must be after start time');
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast.error('Please give a reason for the maintenance');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      const cancelled = await blockRoom({
+        roomId,
+        startTime: bangkokSlotToDate(`${start}:00`).toISOString(),
+        endTime: bangkokSlotToDate(`${end}:00`).toISOString(),
+        reason: reason.trim(),
+        cancelConflicts,
+      });
+      toast.success('Room blocked', {
+        description: cancelled.length > 0 ? `${cancelled.length} booking(s) cancelled` : undefined,
+      });
+      setStart('');
+      setEnd('');
+      setReason('');
+      setCancelConflicts(false);
+      await loadWindows();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to block room'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (removalReason: string) => {
+    if (!removing) return;
+
+    try {
+      await removeRoomBlock(removing.id, removalReason);
+      toast.success(`Reopened ${removing.roomName}`);
+      await loadWindows();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to remove maintenance window'));
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Block a room</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div className="space-y-1">
+                <Label>Room</Label>
+                <Select
+                  value={roomId === null ? '' : String(roomId)}
+                  onValueChange={(value) => setRoomId(Number(value))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Choose a room" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rooms.filter(room => room.isActive).map(room => (
+                      <SelectItem key={room.id} value={String(room.id)}>{room.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-start">Start</Label>
+                <Input
+                  id="maintenance-start"
+                  type="datetime-local"
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="maintenance-end">End</Label>
+                <Input
+                  id="maintenance-end"
+                  type="datetime-local"
+                  value={end}
+                  onChange={(e) => setEnd(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1 sm:col-span-3">
+                <Label htmlFor="maintenance-reason">Reason</Label>
+                <Textarea
+                  id="maintenance-reason"
+                  placeholder="e.g. Projector replacement"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="maintenance-cancel-conflicts"
+                checked={cancelConflicts}
+                onCheckedChange={(checked) => setCancelConflicts(checked === true)}
+              />
+              <Label htmlFor="maintenance-cancel-conflicts">Cancel bookings in this window</Label>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" disabled={isSaving}>
+                {isSaving ? 'Saving...' : 'Block room'}
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Upcoming maintenance</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-10">Loading maintenance windows...</div>
+          ) : windows.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">No rooms are blocked</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Room</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {windows.map((block) => (
+                  <TableRow key={block.id}>
+                    <TableCell className="font-medium">{block.roomName}</TableCell>
+                    <TableCell>{formatBangkokDateTime(block.startTime)}</TableCell>
+                    <TableCell>{formatBangkokDateTime(block.endTime)}</TableCell>
+                    <TableCell>{block.reason}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setRemoving(block)}>
+                        Remove
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReasonDialog
+        open={removing !== null}
+        onOpenChange={(open) => !open && setRemoving(null)}
+        title={`Reopen ${removing?.roomName}?`}
+        description="The maintenance window will be removed and the room can be booked again."
+        confirmLabel="Remove window"
+        onConfirm={handleRemove}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,310 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatBangkokDateTime } from '@/lib/logic/reservations';
+import { describeAdminError } from '@/lib/admin';
+import {
+  BAN_DURATIONS,
+  ModerationQueueItem,
+  PostingBan,
+  REPORT_CATEGORIES,
+  banUser,
+  deletePostAsModerator,
+  dismissReports,
+  getActiveBans,
+  getModerationQueue,
+  liftBan,
+  setPostHidden,
+  warnUser,
+} from '@/lib/moderation';
+import ReasonDialog from './ReasonDialog';
+
+/**
+ * ModerationPanel Component
+ * =========================
+ * PURPOSE:
+ *   The moderation queue: communication posts with open reports, most
+ *   reported first, and the actions staff can take on them. Also lists
+ *   current posting bans so they can be lifted early.
+ *
+ * NOTES:
+ *   Hiding, deleting, warning or banning closes the post's reports as
+ *   actioned; Dismiss closes them with no action. A warning's reason is
+ *   shown to the user.
+ */
+
+type ModerationAction = 'hide' | 'unhide' | 'delete' | 'warn' | 'ban' | 'dismiss';
+
+const ACTION_COPY: Record<ModerationAction, { title: string; description: string; confirmLabel: string; destructive?: boolean }> = {
+  hide: {
+    title: 'Hide this post?',
+    description: 'The post disappears from the feed for everyone except its author and staff.',
+    confirmLabel: 'Hide post',
+  },
+  unhide: {
+    title: 'Restore this post?',
+    description: 'The post will show in the feed again.',
+    confirmLabel: 'Restore post',
+  },
+  delete: {
+    title: 'Delete this post?',
+    description: 'The post and its replies are removed permanently. A copy is kept in the audit log.',
+    confirmLabel: 'Delete post',
+    destructive: true,
+  },
+  warn: {
+    title: 'Warn the author?',
+    description: 'The reason below is shown to the author as the warning.',
+    confirmLabel: 'Send warning',
+  },
+  ban: {
+    title: 'Ban the author from posting?',
+    description: 'They will not be able to post or reply until the ban ends.',
+    confirmLabel: 'Ban',
+    destructive: true,
+  },
+  dismiss: {
+    title: 'Dismiss these reports?',
+    description: 'The reports are closed and the post is left as it is.',
+    confirmLabel: 'Dismiss reports',
+  },
+};
+
+const categoryLabel = (id: string) =>
+  REPORT_CATEGORIES.find(category => category.id === id)?.label ?? id;
+
+export default function ModerationPanel() {
+  const [queue, setQueue] = useState<ModerationQueueItem[]>([]);
+  const [bans, setBans] = useState<PostingBan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pending, setPending] = useState<{ action: ModerationAction; item: ModerationQueueItem } | null>(null);
+  const [banHours, setBanHours] = useState(BAN_DURATIONS[0].hours);
+  const [lifting, setLifting] = useState<PostingBan | null>(null);
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [queueData, bansData] = await Promise.all([getModerationQueue(), getActiveBans()]);
+      setQueue(queueData);
+      setBans(bansData);
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to load the moderation queue'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadQueue();
+  }, [loadQueue]);
+
+  const openAction = (action: ModerationAction, item: ModerationQueueItem) => {
+    setBanHours(BAN_DURATIONS[0].hours);
+    setPending({ action, item });
+  };
+
+  const handleAction = async (reason: string) => {
+    if (!pending) return;
+    const { action, item } = pending;
+
+    try {
+      switch (action) {
+        case 'hide':
+        case 'unhide':
+          await setPostHidden(item.postId, action === 'hide', reason);
+          break;
+        case 'delete':
+          await deletePostAsModerator(item.postId, reason);
+          break;
+        case 'warn':
+          await warnUser(item.authorId, reason, item.postId);
+          break;
+        case 'ban':
+          await banUser(item.authorId, banHours, reason, item.postId);
+          break;
+        case 'dismiss':
+          await dismissReports(item.postId, reason);
+          break;
+      }
+      toast.success('Moderation action recorded');
+      await loadQueue();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to apply the moderation action'));
+      throw error;
+    }
+  };
+
+  const handleLift = async (reason: string) => {
+    if (!lifting) return;
+
+    try {
+      await liftBan(lifting.id, reason);
+      toast.success(`Lifted the ban on ${lifting.userName || lifting.userEmail}`);
+      await loadQueue();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to lift the ban'));
+      throw error;
+    }
+  };
+
+  const copy = pending ? ACTION_COPY[pending.action] : null;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Reported posts</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-10">Loading moderation queue...</div>
+          ) : queue.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">No reports waiting for review</div>
+          ) : (
+            queue.map((item) => (
+              <div key={item.postId} className="rounded-lg border bg-white p-4 space-y-3">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div>
+                    <p className="font-medium">{item.authorName || item.authorEmail || 'Unknown user'}</p>
+                    <p className="text-xs text-gray-500">
+                      Posted {formatBangkokDateTime(item.createdAt)}
+                      {item.authorName && item.authorEmail ? ` · ${item.authorEmail}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    {item.isHidden && <Badge variant="secondary">Hidden</Badge>}
+                    <Badge variant="destructive">
+                      {item.reportCount} {item.reportCount === 1 ? 'report' : 'reports'}
+                    </Badge>
+                  </div>
+                </div>
+
+                <p className="whitespace-pre-wrap break-words text-sm">{item.content}</p>
+                {item.imageUrl && (
+                  <a href={item.imageUrl} target="_blank" rel="noreferrer" className="text-sm text-blue-600 underline">
+                    View attached image
+                  </a>
+                )}
+
+                <ul className="space-y-1 text-sm text-gray-700">
+                  {item.reports.map((report, index) => (
+                    <li key={index}>
+                      <span className="font-medium">{categoryLabel(report.category)}</span>
+                      {report.details ? `: ${report.details}` : ''}
+                      <span className="text-xs text-gray-500">
+                        {' '}({report.reporter || 'unknown'}, {formatBangkokDateTime(report.createdAt)})
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+
+                <div className="flex flex-wrap justify-end gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openAction('dismiss', item)}>
+                    Dismiss
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openAction(item.isHidden ? 'unhide' : 'hide', item)}>
+                    {item.isHidden ? 'Restore' : 'Hide'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openAction('warn', item)}>
+                    Warn author
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => openAction('ban', item)}>
+                    Ban author
+                  </Button>
+                  <Button size="sm" variant="destructive" onClick={() => openAction('delete', item)}>
+                    Delete
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Posting bans</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {bans.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">Nobody is banned from posting</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bans.map((ban) => (
+                  <TableRow key={ban.id}>
+                    <TableCell className="font-medium">{ban.userName || ban.userEmail}</TableCell>
+                    <TableCell>{formatBangkokDateTime(ban.endsAt)}</TableCell>
+                    <TableCell>{ban.reason}</TableCell>
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => setLifting(ban)}>
+                        Lift ban
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReasonDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+        title={copy?.title ?? ''}
+        description={copy?.description ?? ''}
+        confirmLabel={copy?.confirmLabel ?? 'Confirm'}
+        destructive={copy?.destructive}
+        onConfirm={handleAction}
+      >
+        {pending?.action === 'ban' && (
+          <div className="space-y-1">
+            <Label>Ban length</Label>
+            <Select value={String(banHours)} onValueChange={(value) => setBanHours(Number(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {BAN_DURATIONS.map(duration => (
+                  <SelectItem key={duration.hours} value={String(duration.hours)}>{duration.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+      </ReasonDialog>
+
+      <ReasonDialog
+        open={lifting !== null}
+        onOpenChange={(open) => !open && setLifting(null)}
+        title="Lift this ban?"
+        description="The user will be able to post and reply again straight away."
+        confirmLabel="Lift ban"
+        onConfirm={handleLift}
+      />
+    </div>
+  );
+}
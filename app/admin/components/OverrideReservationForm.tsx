@@ -0,0 +1,166 @@
+'use client';
+
+import { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { bangkokSlotToDate, toBangkokSlot } from '@/lib/logic/reservations';
+import {
+  AdminReservation,
+  AdminRoom,
+  ReservationOverride,
+  describeAdminError,
+  overrideReservation,
+} from '@/lib/admin';
+
+/**
+ * OverrideReservationForm Component
+ * =================================
+ * PURPOSE:
+ *   Lets staff move any user's booking to another room or time, or
+ *   change its party size, without the user's booking quota applying.
+ *
+ * INPUTS:
+ *   - reservation: Booking being overridden
+ *   - rooms: Rooms it can be moved to
+ *   - onSaved: Called after the override is applied
+ *   - onClose: Closes the form without saving
+ */
+
+interface OverrideReservationFormProps {
+  reservation: AdminReservation;
+  rooms: AdminRoom[];
+  onSaved: () => void;
+  onClose: () => void;
+}
+
+export default function OverrideReservationForm({
+  reservation,
+  rooms,
+  onSaved,
+  onClose,
+}: OverrideReservationFormProps) {
+  // Bangkok wall-clock values for datetime-local inputs ("yyyy-MM-ddTHH:mm")
+  const originalStart = toBangkokSlot(reservation.startTime).slice(0, 16);
+  const originalEnd = toBangkokSlot(reservation.endTime).slice(0, 16);
+
+  const [roomId, setRoomId] = useState(reservation.roomId);
+  const [start, setStart] = useState(originalStart);
+  const [end, setEnd] = useState(originalEnd);
+  const [numPeople, setNumPeople] = useState(reservation.numPeople);
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedRoom = rooms.find(room => room.id === roomId);
+
+  /**
+   * Collects the fields that differ from the booking
+   */
+  const getChanges = () => {
+    const changes: ReservationOverride = {};
+
+    if (roomId !== reservation.roomId) changes.roomId = roomId;
+    if (start !== originalStart) changes.startTime = bangkokSlotToDate(`${start}:00`).toISOString();
+    if (end !== originalEnd) changes.endTime = bangkokSlotToDate(`${end}:00`).toISOString();
+    if (numPeople !== reservation.numPeople) changes.numPeople = numPeople;
+
+    return changes;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const changes = getChanges();
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    if (end <= start) {
+      toast.error('End time must be after start time');
+      return;
+    }
+
+    if (selectedRoom && numPeople > selectedRoom.capacity) {
+      toast.error(`The room capacity is ${selectedRoom.capacity} people`);
+      return;
+    }
+
+    if (!reason.trim()) {
+      toast.error('Please give a reason for the override');
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await overrideReservation(reservation.id, changes, reason.trim());
+      toast.success(`Updated ${reservation.userEmail}'s booking`);
+      onSaved();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to override reservation'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="space-y-1">
+          <Label>Room</Label>
+          <Select value={String(roomId)} onValueChange={(value) => setRoomId(Number(value))}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {rooms.filter(room => room.isActive || room.id === reservation.roomId).map(room => (
+                <SelectItem key={room.id} value={String(room.id)}>
+                  {room.name} ({room.capacity})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-start">Start</Label>
+          <Input id="override-start" type="datetime-local" value={start} onChange={(e) => setStart(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-end">End</Label>
+          <Input id="override-end" type="datetime-local" value={end} onChange={(e) => setEnd(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="override-people">People</Label>
+          <Input
+            id="override-people"
+            type="number"
+            min={1}
+            value={numPeople}
+            onChange={(e) => setNumPeople(parseInt(e.target.value, 10) || 0)}
+          />
+        </div>
+        <div className="space-y-1 sm:col-span-2 lg:col-span-4">
+          <Label htmlFor="override-reason">Reason</Label>
+          <Textarea
+            id="override-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Recorded in the audit log"
+          />
+        </div>
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Apply override'}
+        </Button>
+      </div>
+    </form>
+  );
+}
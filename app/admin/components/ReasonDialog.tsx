@@ -0,0 +1,105 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+
+/**
+ * ReasonDialog Component
+ * ======================
+ * PURPOSE:
+ *   Confirms an admin action and asks why it is being taken. The reason
+ *   is stored with the action in the audit log.
+ *
+ * INPUTS:
+ *   - open / onOpenChange: Controlled visibility
+ *   - title, description: What is about to happen
+ *   - confirmLabel: Text of the confirm button
+ *   - destructive: Styles the confirm button as destructive
+ *   - children: Extra fields shown above the reason (e.g. a ban length)
+ *   - onConfirm: Runs the action with the reason; the dialog closes when
+ *     it resolves and stays open if it throws
+ */
+
+interface ReasonDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: (reason: string) => Promise<void>;
+  children?: React.ReactNode;
+}
+
+export default function ReasonDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  destructive = false,
+  onConfirm,
+  children,
+}: ReasonDialogProps) {
+  const [reason, setReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) setReason('');
+    onOpenChange(next);
+  };
+
+  const handleConfirm = async () => {
+    try {
+      setIsSaving(true);
+      await onConfirm(reason.trim());
+      handleOpenChange(false);
+    } catch {
+      // The caller reports the error; keep the dialog open to retry
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>{title}</AlertDialogTitle>
+          <AlertDialogDescription>{description}</AlertDialogDescription>
+        </AlertDialogHeader>
+        {children}
+        <div className="space-y-1">
+          <Label htmlFor="admin-action-reason">Reason</Label>
+          <Textarea
+            id="admin-action-reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="Recorded in the audit log"
+          />
+        </div>
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isSaving}>Back</AlertDialogCancel>
+          <Button
+            variant={destructive ? 'destructive' : 'default'}
+            onClick={handleConfirm}
+            disabled={isSaving || !reason.trim()}
+          >
+            {isSaving ? 'Saving...' : confirmLabel}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
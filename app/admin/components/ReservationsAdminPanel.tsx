@@ -0,0 +1,251 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import { addDays, format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  bangkokSlotToDate,
+  formatBangkokDateTime,
+  getBangkokToday,
+} from '@/lib/logic/reservations';
+import {
+  AdminReservation,
+  AdminRoom,
+  cancelReservationAsStaff,
+  describeAdminError,
+  getAdminRooms,
+  getAllReservations,
+} from '@/lib/admin';
+import OverrideReservationForm from './OverrideReservationForm';
+import ReasonDialog from './ReasonDialog';
+
+/**
+ * ReservationsAdminPanel Component
+ * ================================
+ * PURPOSE:
+ *   Shows every user's reservations for a Bangkok day and lets staff
+ *   override or cancel them, giving a reason each time.
+ */
+
+type StatusFilter = AdminReservation['status'] | 'all';
+
+const STATUS_OPTIONS: { id: StatusFilter; label: string }[] = [
+  { id: 'all', label: 'All statuses' },
+  { id: 'confirmed', label: 'Confirmed' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'cancelled', label: 'Cancelled' },
+  { id: 'no_show', label: 'No-show' },
+];
+
+const STATUS_BADGES: Record<AdminReservation['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  confirmed: 'default',
+  pending: 'outline',
+  cancelled: 'secondary',
+  no_show: 'destructive',
+};
+
+export default function ReservationsAdminPanel() {
+  const [date, setDate] = useState(getBangkokToday);
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [email, setEmail] = useState('');
+  const [reservations, setReservations] = useState<AdminReservation[]>([]);
+  const [rooms, setRooms] = useState<AdminRoom[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [overridingId, setOverridingId] = useState<string | null>(null);
+  const [cancelling, setCancelling] = useState<AdminReservation | null>(null);
+
+  useEffect(() => {
+    getAdminRooms()
+      .then(setRooms)
+      .catch(() => setRooms([]));
+  }, []);
+
+  const loadReservations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const nextDay = format(addDays(parseISO(date), 1), 'yyyy-MM-dd');
+      setReservations(await getAllReservations({
+        from: bangkokSlotToDate(`${date}T00:00:00`).toISOString(),
+        to: bangkokSlotToDate(`${nextDay}T00:00:00`).toISOString(),
+        status: status === 'all' ? undefined : status,
+        email: email.trim() || undefined,
+      }));
+    } catch {
+      toast.error('Failed to load reservations');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [date, status, email]);
+
+  useEffect(() => {
+    loadReservations();
+  }, [loadReservations]);
+
+  const handleCancel = async (reason: string) => {
+    if (!cancelling) return;
+
+    try {
+      await cancelReservationAsStaff(cancelling.id, reason);
+      toast.success(`Cancelled ${cancelling.userEmail}'s booking`);
+      await loadReservations();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to cancel reservation'));
+      throw error;
+    }
+  };
+
+  const isLive = (reservation: AdminReservation) =>
+    (reservation.status === 'confirmed' || reservation.status === 'pending')
+    && new Date(reservation.endTime) > new Date();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6 grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div className="space-y-1">
+            <Label htmlFor="admin-reservations-date">Date</Label>
+            <Input
+              id="admin-reservations-date"
+              type="date"
+              value={date}
+              onChange={(e) => e.target.value && setDate(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value) => setStatus(value as StatusFilter)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {STATUS_OPTIONS.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="admin-reservations-email">User email</Label>
+            <Input
+              id="admin-reservations-email"
+              placeholder="Search by email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="text-center py-10">Loading reservations...</div>
+          ) : reservations.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">No reservations for these filters</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Agenda</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {reservations.map((reservation) => (
+                  <Fragment key={reservation.id}>
+                    <TableRow>
+                      <TableCell className="whitespace-nowrap">
+                        {formatBangkokDateTime(reservation.startTime)}
+                        {' – '}
+                        {formatBangkokDateTime(reservation.endTime).slice(-5)}
+                      </TableCell>
+                      <TableCell>{reservation.roomName}</TableCell>
+                      <TableCell>
+                        <div>{reservation.userEmail}</div>
+                        <div className="text-xs text-gray-500">{reservation.numPeople} people</div>
+                      </TableCell>
+                      <TableCell className="max-w-xs truncate">{reservation.agenda}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_BADGES[reservation.status]}>
+                          {STATUS_OPTIONS.find(option => option.id === reservation.status)?.label}
+                        </Badge>
+                        {reservation.checkedInAt && (
+                          <div className="text-xs text-gray-500 mt-1">Checked in</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        {isLive(reservation) && (
+                          <>
+                            {reservation.status === 'confirmed' && (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setOverridingId(
+                                  overridingId === reservation.id ? null : reservation.id
+                                )}
+                              >
+                                Override
+                              </Button>
+                            )}
+                            <Button size="sm" variant="destructive" onClick={() => setCancelling(reservation)}>
+                              Cancel
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {overridingId === reservation.id && (
+                      <TableRow>
+                        <TableCell colSpan={6} className="bg-amber-50">
+                          <OverrideReservationForm
+                            reservation={reservation}
+                            rooms={rooms}
+                            onSaved={() => {
+                              setOverridingId(null);
+                              loadReservations();
+                            }}
+                            onClose={() => setOverridingId(null)}
+                          />
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReasonDialog
+        open={cancelling !== null}
+        onOpenChange={(open) => !open && setCancelling(null)}
+        title="Cancel this reservation?"
+        description={cancelling
+          ? `${cancelling.userEmail}'s booking of ${cancelling.roomName} at ${formatBangkokDateTime(cancelling.startTime)} will be cancelled.`
+          : ''}
+        confirmLabel="Cancel reservation"
+        destructive
+        onConfirm={handleCancel}
+      />
+    </div>
+  );
+}
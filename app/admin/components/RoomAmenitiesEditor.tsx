@@ -0,0 +1,156 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/lib/supabase';
+import { Amenity, RoomAmenity, getRoomAmenities, setRoomAmenities } from '@/lib/amenities';
+
+/**
+ * RoomAmenitiesEditor Component
+ * =============================
+ * PURPOSE:
+ *   Lets admins choose which catalog amenities a room has, with an
+ *   optional room-specific note for each.
+ *
+ * INPUTS:
+ *   - amenities: The full catalog, retired amenities included
+ */
+
+interface RoomAmenitiesEditorProps {
+  amenities: Amenity[];
+}
+
+interface RoomOption {
+  id: number;
+  name: string;
+}
+
+export default function RoomAmenitiesEditor({ amenities }: RoomAmenitiesEditorProps) {
+  const [rooms, setRooms] = useState<RoomOption[]>([]);
+  const [roomId, setRoomId] = useState<number | null>(null);
+  const [fitted, setFitted] = useState<RoomAmenity[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchRooms = async () => {
+      const { data, error } = await supabase.from('rooms').select('id, name').order('name');
+
+      if (error) {
+        console.error('Error fetching rooms:', error);
+        toast.error('Failed to load rooms');
+        return;
+      }
+
+      setRooms(data || []);
+    };
+
+    fetchRooms();
+  }, []);
+
+  useEffect(() => {
+    if (roomId === null) return;
+
+    const fetchFitted = async () => {
+      try {
+        setIsLoading(true);
+        setFitted(await getRoomAmenities(roomId));
+      } catch {
+        toast.error('Failed to load room amenities');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchFitted();
+  }, [roomId]);
+
+  const toggle = (amenityId: string, checked: boolean) => {
+    setFitted((current) => checked
+      ? [...current, { amenityId, notes: null }]
+      : current.filter(item => item.amenityId !== amenityId));
+  };
+
+  const updateNotes = (amenityId: string, notes: string) => {
+    setFitted((current) => current.map(item =>
+      item.amenityId === amenityId ? { ...item, notes: notes || null } : item
+    ));
+  };
+
+  const handleSave = async () => {
+    if (roomId === null) return;
+
+    try {
+      setIsSaving(true);
+      await setRoomAmenities(roomId, fitted.map(item => ({ ...item, notes: item.notes?.trim() || null })));
+      toast.success(`Saved amenities for ${rooms.find(room => room.id === roomId)?.name}`);
+    } catch {
+      toast.error('Failed to save room amenities');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1 max-w-xs">
+        <Label>Room</Label>
+        <Select value={roomId === null ? '' : String(roomId)} onValueChange={(value) => setRoomId(Number(value))}>
+          <SelectTrigger>
+            <SelectValue placeholder="Choose a room" />
+          </SelectTrigger>
+          <SelectContent>
+            {rooms.map(room => (
+              <SelectItem key={room.id} value={String(room.id)}>{room.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {roomId !== null && (isLoading ? (
+        <div className="text-sm text-gray-500">Loading amenities...</div>
+      ) : (
+        <>
+          <div className="space-y-2">
+            {amenities.map(amenity => {
+              const item = fitted.find(entry => entry.amenityId === amenity.id);
+
+              return (
+                <div key={amenity.id} className="grid grid-cols-1 sm:grid-cols-2 gap-2 items-center">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id={`room-amenity-${amenity.id}`}
+                      checked={Boolean(item)}
+                      onCheckedChange={(checked) => toggle(amenity.id, checked === true)}
+                    />
+                    <Label htmlFor={`room-amenity-${amenity.id}`}>
+                      {amenity.name}
+                      {!amenity.isActive && <span className="text-gray-400"> (retired)</span>}
+                    </Label>
+                  </div>
+                  {item && (
+                    <Input
+                      placeholder="Notes for this room (optional)"
+                      value={item.notes ?? ''}
+                      onChange={(e) => updateNotes(amenity.id, e.target.value)}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          <div className="flex justify-end">
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? 'Saving...' : 'Save room amenities'}
+            </Button>
+          </div>
+        </>
+      ))}
+    </div>
+  );
+}
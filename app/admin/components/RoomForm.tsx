@@ -0,0 +1,132 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AdminRoom, AdminRoomInput } from '@/lib/admin';
+
+/**
+ * RoomForm Component
+ * ==================
+ * PURPOSE:
+ *   Create or edit a bookable room.
+ *
+ * INPUTS:
+ *   - room: Room being edited, or undefined to create a new one
+ *   - onSubmit: Persists the values with an optional audit note; resolves when saved
+ *   - onCancel: Closes the form without saving
+ */
+
+interface RoomFormProps {
+  room?: AdminRoom;
+  onSubmit: (values: AdminRoomInput, note: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const EMPTY_ROOM: AdminRoomInput = {
+  name: '',
+  capacity: 4,
+  location: null,
+  photoUrl: null,
+};
+
+export default function RoomForm({ room, onSubmit, onCancel }: RoomFormProps) {
+  const [values, setValues] = useState<AdminRoomInput>(room ?? EMPTY_ROOM);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof AdminRoomInput>(key: K, value: AdminRoomInput[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  /**
+   * Validates inputs before saving
+   * Mirrors the checks in admin_save_room
+   */
+  const validate = () => {
+    if (!values.name.trim()) return 'Name is required';
+    if (!Number.isInteger(values.capacity) || values.capacity < 1) return 'Capacity must be at least 1';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSubmit({
+        name: values.name.trim(),
+        capacity: values.capacity,
+        location: values.location?.trim() || null,
+        photoUrl: values.photoUrl?.trim() || null,
+      }, note.trim());
+    } catch (err) {
+      console.error('Error saving room:', err);
+      setError('Failed to save room. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="room-name">Name</Label>
+          <Input id="room-name" value={values.name} onChange={(e) => update('name', e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="room-capacity">Capacity</Label>
+          <Input
+            id="room-capacity"
+            type="number"
+            min={1}
+            value={values.capacity}
+            onChange={(e) => update('capacity', parseInt(e.target.value, 10) || 0)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="room-location">Location</Label>
+          <Input
+            id="room-location"
+            placeholder="e.g. 2nd Floor, East Wing"
+            value={values.location ?? ''}
+            onChange={(e) => update('location', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="room-photo">Photo URL</Label>
+          <Input
+            id="room-photo"
+            value={values.photoUrl ?? ''}
+            onChange={(e) => update('photoUrl', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="room-note">Note for the audit log (optional)</Label>
+          <Input id="room-note" value={note} onChange={(e) => setNote(e.target.value)} />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : room ? 'Save changes' : 'Create room'}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AdminRoom,
+  AdminRoomInput,
+  describeAdminError,
+  getAdminRooms,
+  saveRoom,
+  setRoomActive,
+} from '@/lib/admin';
+import RoomForm from './RoomForm';
+import ReasonDialog from './ReasonDialog';
+
+/**
+ * RoomsAdminPanel Component
+ * =========================
+ * PURPOSE:
+ *   Lists every room, retired ones included, and lets staff create,
+ *   edit, retire and reactivate them.
+ *
+ * NOTES:
+ *   Retiring hides the room from booking and cancels its upcoming
+ *   reservations, so it asks for a reason first.
+ */
+
+export default function RoomsAdminPanel() {
+  const [rooms, setRooms] = useState<AdminRoom[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // undefined: form closed, null: creating, room: editing
+  const [editing, setEditing] = useState<AdminRoom | null | undefined>(undefined);
+  const [toggling, setToggling] = useState<AdminRoom | null>(null);
+
+  const loadRooms = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setRooms(await getAdminRooms());
+    } catch {
+      toast.error('Failed to load rooms');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRooms();
+  }, [loadRooms]);
+
+  const handleSubmit = async (values: AdminRoomInput, note: string) => {
+    await saveRoom(editing?.id ?? null, values, note);
+    toast.success(editing ? `Updated ${values.name}` : `Created ${values.name}`);
+    setEditing(undefined);
+    await loadRooms();
+  };
+
+  const handleToggleActive = async (reason: string) => {
+    if (!toggling) return;
+
+    try {
+      await setRoomActive(toggling.id, !toggling.isActive, reason);
+      toast.success(toggling.isActive ? `Retired ${toggling.name}` : `Reactivated ${toggling.name}`);
+      await loadRooms();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to update room'));
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-end">
+        {editing === undefined && (
+          <Button onClick={() => setEditing(null)}>Add room</Button>
+        )}
+      </div>
+
+      {editing !== undefined && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editing ? `Edit ${editing.name}` : 'New room'}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <RoomForm
+              key={editing?.id ?? 'new'}
+              room={editing ?? undefined}
+              onSubmit={handleSubmit}
+              onCancel={() => setEditing(undefined)}
+            />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="text-center py-10">Loading rooms...</div>
+          ) : rooms.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">No rooms yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Capacity</TableHead>
+                  <TableHead>Location</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rooms.map((room) => (
+                  <TableRow key={room.id}>
+                    <TableCell className="font-medium">{room.name}</TableCell>
+                    <TableCell>{room.capacity}</TableCell>
+                    <TableCell>{room.location ?? '—'}</TableCell>
+                    <TableCell>
+                      <Badge variant={room.isActive ? 'default' : 'secondary'}>
+                        {room.isActive ? 'Active' : 'Retired'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2">
+                      <Button size="sm" variant="outline" onClick={() => setEditing(room)}>
+                        Edit
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant={room.isActive ? 'destructive' : 'outline'}
+                        onClick={() => setToggling(room)}
+                      >
+                        {room.isActive ? 'Retire' : 'Reactivate'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReasonDialog
+        open={toggling !== null}
+        onOpenChange={(open) => !open && setToggling(null)}
+        title={toggling?.isActive ? `Retire ${toggling.name}?` : `Reactivate ${toggling?.name}?`}
+        description={toggling?.isActive
+          ? 'The room will no longer be bookable and its upcoming reservations will be cancelled.'
+          : 'The room will be bookable again.'}
+        confirmLabel={toggling?.isActive ? 'Retire room' : 'Reactivate room'}
+        destructive={toggling?.isActive}
+        onConfirm={handleToggleActive}
+      />
+    </div>
+  );
+}
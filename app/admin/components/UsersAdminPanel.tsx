@@ -0,0 +1,149 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  AdminUser,
+  USER_ROLES,
+  UserRole,
+  describeAdminError,
+  getUsers,
+  setUserRole,
+} from '@/lib/admin';
+import ReasonDialog from './ReasonDialog';
+
+/**
+ * UsersAdminPanel Component
+ * =========================
+ * PURPOSE:
+ *   Lists users with their roles. Admins can change another user's
+ *   role; staff see the list read-only.
+ */
+
+interface PendingRoleChange {
+  user: AdminUser;
+  role: UserRole;
+}
+
+const roleLabel = (role: string) => USER_ROLES.find(option => option.id === role)?.label ?? role;
+
+export default function UsersAdminPanel() {
+  const { user: currentUser, role: currentRole } = useAuth();
+  const [search, setSearch] = useState('');
+  const [users, setUsers] = useState<AdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [pending, setPending] = useState<PendingRoleChange | null>(null);
+
+  const canChangeRoles = currentRole === 'admin';
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setUsers(await getUsers(search));
+    } catch {
+      toast.error('Failed to load users');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [search]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleRoleChange = async (reason: string) => {
+    if (!pending) return;
+
+    try {
+      await setUserRole(pending.user.id, pending.role, reason);
+      toast.success(`${pending.user.email} is now ${roleLabel(pending.role)}`);
+      await loadUsers();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to change role'));
+      throw error;
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Input
+        className="max-w-sm bg-white"
+        placeholder="Search by email or name"
+        value={search}
+        onChange={(e) => setSearch(e.target.value)}
+      />
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <div className="text-center py-10">Loading users...</div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-10 text-gray-500">No users found</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Email</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Joined</TableHead>
+                  <TableHead>Role</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map((user) => (
+                  <TableRow key={user.id}>
+                    <TableCell className="font-medium">{user.email}</TableCell>
+                    <TableCell>{user.name ?? '—'}</TableCell>
+                    <TableCell>{new Date(user.createdAt).toLocaleDateString()}</TableCell>
+                    <TableCell className="w-44">
+                      {canChangeRoles && user.id !== currentUser?.id ? (
+                        <Select
+                          value={user.role}
+                          onValueChange={(value) => setPending({ user, role: value as UserRole })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {USER_ROLES.map(option => (
+                              <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        roleLabel(user.role)
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ReasonDialog
+        open={pending !== null}
+        onOpenChange={(open) => !open && setPending(null)}
+        title={`Change ${pending?.user.email}'s role?`}
+        description={pending
+          ? `${roleLabel(pending.user.role)} → ${roleLabel(pending.role)}. This changes what they can book and which admin screens they can open.`
+          : ''}
+        confirmLabel="Change role"
+        onConfirm={handleRoleChange}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { formatBangkokDateTime } from '@/lib/logic/reservations';
+import { describeAdminError } from '@/lib/admin';
+import { WordFilter, addWordFilter, getWordFilters, removeWordFilter } from '@/lib/moderation';
+
+/**
+ * WordFiltersPanel Component
+ * ==========================
+ * PURPOSE:
+ *   Manages the words and phrases that posts and replies may not contain.
+ *   Content is checked against this list before it is published.
+ *
+ * NOTES:
+ *   Terms match case-insensitively anywhere in the text, so a short term
+ *   also blocks longer words that contain it.
+ */
+
+export default function WordFiltersPanel() {
+  const [filters, setFilters] = useState<WordFilter[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [term, setTerm] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const loadFilters = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setFilters(await getWordFilters());
+    } catch {
+      toast.error('Failed to load word filters');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFilters();
+  }, [loadFilters]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!term.trim()) return;
+
+    try {
+      setIsSaving(true);
+      await addWordFilter(term.trim());
+      setTerm('');
+      await loadFilters();
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to add word filter'));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async (filter: WordFilter) => {
+    try {
+      setRemovingId(filter.id);
+      await removeWordFilter(filter.id);
+      setFilters(prev => prev.filter(existing => existing.id !== filter.id));
+    } catch (error) {
+      toast.error(describeAdminError(error, 'Failed to remove word filter'));
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Word filters</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleAdd} className="flex gap-2 max-w-md">
+          <Input
+            placeholder="Word or phrase"
+            value={term}
+            onChange={(e) => setTerm(e.target.value)}
+          />
+          <Button type="submit" disabled={isSaving || !term.trim()}>
+            {isSaving ? 'Adding...' : 'Add'}
+          </Button>
+        </form>
+
+        {isLoading ? (
+          <div className="text-center py-10">Loading word filters...</div>
+        ) : filters.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">No words are filtered</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Term</TableHead>
+                <TableHead>Added</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filters.map((filter) => (
+                <TableRow key={filter.id}>
+                  <TableCell className="font-medium">{filter.term}</TableCell>
+                  <TableCell>{formatBangkokDateTime(filter.createdAt)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleRemove(filter)}
+                      disabled={removingId === filter.id}
+                    >
+                      Remove
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
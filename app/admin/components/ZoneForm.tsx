@@ -0,0 +1,154 @@
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { LibraryZone, LibraryZoneInput } from '@/lib/zones';
+
+/**
+ * ZoneForm Component
+ * ==================
+ * PURPOSE:
+ *   Create or edit a library zone in the shared zone registry.
+ *
+ * INPUTS:
+ *   - zone: Zone being edited, or undefined to create a new one
+ *   - onSubmit: Persists the values; resolves when saved
+ *   - onCancel: Closes the form without saving
+ */
+
+interface ZoneFormProps {
+  zone?: LibraryZone;
+  onSubmit: (values: LibraryZoneInput) => Promise<void>;
+  onCancel: () => void;
+}
+
+const EMPTY_ZONE: LibraryZoneInput = {
+  name: '',
+  floor: 1,
+  capacity: 10,
+  description: null,
+  opensAt: '08:00',
+  closesAt: '22:00',
+  isActive: true,
+};
+
+export default function ZoneForm({ zone, onSubmit, onCancel }: ZoneFormProps) {
+  const [values, setValues] = useState<LibraryZoneInput>(zone ?? EMPTY_ZONE);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const update = <K extends keyof LibraryZoneInput>(key: K, value: LibraryZoneInput[K]) => {
+    setValues((current) => ({ ...current, [key]: value }));
+  };
+
+  /**
+   * Validates inputs before saving
+   * Mirrors the capacity and opening-hours constraints on library_zones
+   */
+  const validate = () => {
+    if (!values.name.trim()) return 'Name is required';
+    if (!Number.isInteger(values.capacity) || values.capacity < 1) return 'Capacity must be at least 1';
+    if (!Number.isInteger(values.floor)) return 'Floor must be a whole number';
+    if (values.opensAt >= values.closesAt) return 'Opening time must be before closing time';
+    return null;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const validationError = validate();
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setError(null);
+      await onSubmit({
+        ...values,
+        name: values.name.trim(),
+        description: values.description?.trim() || null,
+      });
+    } catch (err) {
+      console.error('Error saving zone:', err);
+      setError('Failed to save zone. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="zone-name">Name</Label>
+          <Input
+            id="zone-name"
+            value={values.name}
+            onChange={(e) => update('name', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="zone-floor">Floor</Label>
+          <Input
+            id="zone-floor"
+            type="number"
+            value={values.floor}
+            onChange={(e) => update('floor', parseInt(e.target.value, 10) || 0)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="zone-capacity">Capacity</Label>
+          <Input
+            id="zone-capacity"
+            type="number"
+            min={1}
+            value={values.capacity}
+            onChange={(e) => update('capacity', parseInt(e.target.value, 10) || 0)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="zone-opens">Opens at</Label>
+          <Input
+            id="zone-opens"
+            type="time"
+            value={values.opensAt}
+            onChange={(e) => update('opensAt', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="zone-closes">Closes at</Label>
+          <Input
+            id="zone-closes"
+            type="time"
+            value={values.closesAt}
+            onChange={(e) => update('closesAt', e.target.value)}
+          />
+        </div>
+        <div className="space-y-1 sm:col-span-2">
+          <Label htmlFor="zone-description">Description</Label>
+          <Textarea
+            id="zone-description"
+            value={values.description ?? ''}
+            onChange={(e) => update('description', e.target.value)}
+          />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={isSaving}>
+          {isSaving ? 'Saving...' : zone ? 'Save changes' : 'Create zone'}
+        </Button>
+      </div>
+    </form>
+  );
+}
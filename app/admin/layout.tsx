@@ -0,0 +1,10 @@
+import RoleGuard from "@/components/RoleGuard"
+
+export default function AdminLayout({
+  children,
+}: {
+  children: React.ReactNode
+}) {
+  // Required roles are declared in PAGE_ACCESS (lib/authz)
+  return <RoleGuard>{children}</RoleGuard>
+}
@@ -0,0 +1,87 @@
+'use client';
+
+/**
+ * COMPONENT: AdminConsolePage
+ *
+ * PURPOSE: Library staff console for rooms, reservations, maintenance
+ * windows, user roles and communication moderation, with the audit log
+ * of every change made here
+ *
+ * CONTEXT: Accessed via /admin (staff and admin only, see PAGE_ACCESS). Role
+ * changes and the zone and amenity catalogs are limited to admins.
+ *
+ * DATA FLOW: Each tab reads through lib/admin and writes through the
+ * admin_* (or moderate_*) database functions, which check the caller's
+ * role and record the action, with its reason, in admin_audit_log
+ *
+ * KEY DEPENDENCIES: lib/admin, lib/moderation, the admin panels in ./components
+ */
+
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useAuth } from '@/contexts/AuthContext';
+import RoomsAdminPanel from './components/RoomsAdminPanel';
+import ReservationsAdminPanel from './components/ReservationsAdminPanel';
+import MaintenancePanel from './components/MaintenancePanel';
+import UsersAdminPanel from './components/UsersAdminPanel';
+import ModerationPanel from './components/ModerationPanel';
+import WordFiltersPanel from './components/WordFiltersPanel';
+import AuditLogPanel from './components/AuditLogPanel';
+
+export default function AdminConsolePage() {
+  const { role } = useAuth();
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-300 via-amber-50 to-amber-100">
+      <div className="container mx-auto px-8 pt-10 pb-10 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-2xl md:text-4xl font-ancizar font-semibold">Admin Console</h1>
+          {role === 'admin' && (
+            <div className="flex gap-2">
+              <Button asChild variant="outline">
+                <Link href="/admin/zones">Zones</Link>
+              </Button>
+              <Button asChild variant="outline">
+                <Link href="/admin/amenities">Amenities</Link>
+              </Button>
+            </div>
+          )}
+        </div>
+
+        <Tabs defaultValue="reservations">
+          <TabsList>
+            <TabsTrigger value="reservations">Reservations</TabsTrigger>
+            <TabsTrigger value="rooms">Rooms</TabsTrigger>
+            <TabsTrigger value="maintenance">Maintenance</TabsTrigger>
+            <TabsTrigger value="users">Users</TabsTrigger>
+            <TabsTrigger value="moderation">Moderation</TabsTrigger>
+            <TabsTrigger value="word-filters">Word filters</TabsTrigger>
+            <TabsTrigger value="audit">Audit log</TabsTrigger>
+          </TabsList>
+          <TabsContent value="reservations" className="mt-6">
+            <ReservationsAdminPanel />
+          </TabsContent>
+          <TabsContent value="rooms" className="mt-6">
+            <RoomsAdminPanel />
+          </TabsContent>
+          <TabsContent value="maintenance" className="mt-6">
+            <MaintenancePanel />
+          </TabsContent>
+          <TabsContent value="users" className="mt-6">
+            <UsersAdminPanel />
+          </TabsContent>
+          <TabsContent value="moderation" className="mt-6">
+            <ModerationPanel />
+          </TabsContent>
+          <TabsContent value="word-filters" className="mt-6">
+            <WordFiltersPanel />
+          </TabsContent>
+          <TabsContent value="audit" className="mt-6">
+            <AuditLogPanel />
+          </TabsContent>
+        </Tabs>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+'use client';
+
+/**
+ * COMPONENT: AdminZonesPage
+ *
+ * PURPOSE: Lets admins manage the library zone registry
+ *
+ * CONTEXT: Accessed via /admin/zones, admins only (PAGE_ACCESS). Zones
+ * managed here are the ones shown in occupancy monitoring and offered in
+ * the communication ZoneSelector.
+ *
+ * DATA FLOW: Reads and writes library_zones through lib/zones; writes use
+ * the audited admin_* functions, which reject non-admin accounts
+ *
+ * KEY DEPENDENCIES: lib/zones, ZoneForm, sonner toasts
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  LibraryZone,
+  LibraryZoneInput,
+  createZone,
+  deleteZone,
+  getZones,
+  updateZone,
+} from '@/lib/zones';
+import ZoneForm from '../components/ZoneForm';
+
+// Postgres foreign_key_violation: zone still referenced by posts or history
+const FOREIGN_KEY_VIOLATION = '23503';
+
+export default function AdminZonesPage() {
+  const [zones, setZones] = useState<LibraryZone[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  // undefined: form closed, null: creating, zone: editing
+  const [editing, setEditing] = useState<LibraryZone | null | undefined>(undefined);
+
+  const loadZones = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setZones(await getZones({ includeInactive: true }));
+    } catch (error) {
+      console.error('Error loading zones:', error);
+      toast.error('Failed to load zones');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadZones();
+  }, [loadZones]);
+
+  const handleSubmit = async (values: LibraryZoneInput) => {
+    if (editing) {
+      await updateZone(editing.id, values);
+      toast.success(`Updated ${values.name}`);
+    } else {
+      await createZone(values);
+      toast.success(`Created ${values.name}`);
+    }
+    setEditing(undefined);
+    await loadZones();
+  };
+
+  const handleToggleActive = async (zone: LibraryZone) => {
+    try {
+      await updateZone(zone.id, { isActive: !zone.isActive });
+      toast.success(zone.isActive ? `Retired ${zone.name}` : `Reactivated ${zone.name}`);
+      await loadZones();
+    } catch {
+      toast.error('Failed to update zone');
+    }
+  };
+
+  const handleDelete = async (zone: LibraryZone) => {
+    if (!window.confirm(`Delete ${zone.name}? This cannot be undone.`)) return;
+
+    try {
+      await deleteZone(zone.id);
+      toast.success(`Deleted ${zone.name}`);
+      await loadZones();
+    } catch (error) {
+      if ((error as { code?: string })?.code === FOREIGN_KEY_VIOLATION) {
+        toast.error(`${zone.name} is still in use. Retire it instead.`);
+      } else {
+        toast.error('Failed to delete zone');
+      }
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-300 via-amber-50 to-amber-100">
+      <div className="container mx-auto px-8 pt-10 pb-10 space-y-6">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl md:text-4xl font-ancizar font-semibold">Library Zones</h1>
+          {editing === undefined && (
+            <Button onClick={() => setEditing(null)}>Add zone</Button>
+          )}
+        </div>
+
+        {editing !== undefined && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{editing ? `Edit ${editing.name}` : 'New zone'}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ZoneForm
+                key={editing?.id ?? 'new'}
+                zone={editing ?? undefined}
+                onSubmit={handleSubmit}
+                onCancel={() => setEditing(undefined)}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="text-center py-10">Loading zones...</div>
+            ) : zones.length === 0 ? (
+              <div className="text-center py-10 text-gray-500">No zones yet</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Floor</TableHead>
+                    <TableHead>Capacity</TableHead>
+                    <TableHead>Hours</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {zones.map((zone) => (
+                    <TableRow key={zone.id}>
+                      <TableCell>
+                        <div className="font-medium">{zone.name}</div>
+                        {zone.description && (
+                          <div className="text-xs text-gray-500">{zone.description}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{zone.floor}</TableCell>
+                      <TableCell>{zone.capacity}</TableCell>
+                      <TableCell>{zone.opensAt}–{zone.closesAt}</TableCell>
+                      <TableCell>
+                        <Badge variant={zone.isActive ? 'default' : 'secondary'}>
+                          {zone.isActive ? 'Active' : 'Retired'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button size="sm" variant="outline" onClick={() => setEditing(zone)}>
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => handleToggleActive(zone)}>
+                          {zone.isActive ? 'Retire' : 'Reactivate'}
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleDelete(zone)}>
+                          Delete
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * COMPONENT: AgendaKeywords
+ *
+ * PURPOSE: Lists the most common words in booking agendas, with a bar
+ * showing each word's share relative to the most common one
+ *
+ * CONTEXT: Used on the analytics page to show what rooms are booked for
+ */
+
+"use client";
+
+import { AgendaKeyword } from "../types/analyticsTypes";
+
+interface AgendaKeywordsProps {
+  keywords: AgendaKeyword[];
+}
+
+export default function AgendaKeywords({ keywords }: AgendaKeywordsProps) {
+  if (keywords.length === 0) {
+    return <p className="text-sm text-gray-500">No agendas in this period</p>;
+  }
+
+  const max = keywords[0].count;
+
+  return (
+    <ul className="space-y-2">
+      {keywords.map((keyword) => (
+        <li key={keyword.word} className="text-sm">
+          <div className="flex justify-between mb-1">
+            <span>{keyword.word}</span>
+            <span className="font-semibold">{keyword.count}</span>
+          </div>
+          <div className="h-2 rounded-full bg-gray-100">
+            <div
+              className="h-2 rounded-full bg-blue-400"
+              style={{ width: `${(keyword.count / max) * 100}%` }}
+            />
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * COMPONENT: AnalyticsFilterBar
+ *
+ * PURPOSE: Date-range and room filters for the utilization reports
+ *
+ * DATA FLOW: Controlled by the analytics page; emits a full
+ * AnalyticsFilters object on every change
+ *
+ * KEY DEPENDENCIES: shadcn/ui Input, Label and Select
+ */
+
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { AnalyticsFilters, RoomRecord } from "../types/analyticsTypes";
+
+const ALL_ROOMS = "all";
+
+interface AnalyticsFilterBarProps {
+  filters: AnalyticsFilters;
+  rooms: RoomRecord[];
+  onChange: (filters: AnalyticsFilters) => void;
+}
+
+export default function AnalyticsFilterBar({ filters, rooms, onChange }: AnalyticsFilterBarProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-1">
+        <Label htmlFor="analytics-from">From</Label>
+        <Input
+          id="analytics-from"
+          type="date"
+          value={filters.from}
+          max={filters.to}
+          onChange={(e) => e.target.value && onChange({ ...filters, from: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="analytics-to">To</Label>
+        <Input
+          id="analytics-to"
+          type="date"
+          value={filters.to}
+          min={filters.from}
+          onChange={(e) => e.target.value && onChange({ ...filters, to: e.target.value })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label>Room</Label>
+        <Select
+          value={filters.roomId === null ? ALL_ROOMS : String(filters.roomId)}
+          onValueChange={(value) =>
+            onChange({ ...filters, roomId: value === ALL_ROOMS ? null : Number(value) })
+          }
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_ROOMS}>All rooms</SelectItem>
+            {rooms.map((room) => (
+              <SelectItem key={room.id} value={String(room.id)}>
+                {room.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
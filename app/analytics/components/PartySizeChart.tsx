@@ -0,0 +1,52 @@
+/**
+ * COMPONENT: PartySizeChart
+ *
+ * PURPOSE: Compares the average party size of each room's bookings with
+ * the room's capacity, to show rooms that are routinely over-sized
+ *
+ * CONTEXT: Used on the analytics page
+ *
+ * KEY DEPENDENCIES: recharts
+ */
+
+"use client";
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  Legend,
+} from "recharts";
+import { RoomPartySize } from "../types/analyticsTypes";
+
+interface PartySizeChartProps {
+  data: RoomPartySize[];
+}
+
+export default function PartySizeChart({ data }: PartySizeChartProps) {
+  return (
+    <div className="h-[300px] w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <BarChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+          <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+          <XAxis dataKey="name" tick={{ fontSize: 12 }} />
+          <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+          <Tooltip
+            formatter={(value: number, name: string, item: { payload?: RoomPartySize }) =>
+              name === "Average party" && item.payload
+                ? [`${value} (${Math.round(item.payload.fillRatio * 100)}% of capacity)`, name]
+                : [value, name]
+            }
+          />
+          <Legend />
+          <Bar dataKey="capacity" name="Capacity" fill="#e5e7eb" radius={[4, 4, 0, 0]} />
+          <Bar dataKey="averageParty" name="Average party" fill="#10b981" radius={[4, 4, 0, 0]} />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+/**
+ * COMPONENT: PeakSlotsChart
+ *
+ * PURPOSE: Shows how many bookings overlap each hour of the day, with the
+ * busiest weekday/hour slots listed underneath
+ *
+ * CONTEXT: Used on the analytics page to spot peak booking times
+ *
+ * KEY DEPENDENCIES: recharts
+ */
+
+"use client";
+
+import {
+  BarChart,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+} from "recharts";
+import { BusiestSlot, PeakSlot } from "../types/analyticsTypes";
+
+interface PeakSlotsChartProps {
+  data: PeakSlot[];
+  busiest: BusiestSlot[];
+}
+
+export default function PeakSlotsChart({ data, busiest }: PeakSlotsChartProps) {
+  return (
+    <div className="space-y-4">
+      <div className="h-[250px] w-full">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+            <CartesianGrid strokeDasharray="3 3" opacity={0.3} />
+            <XAxis dataKey="label" tick={{ fontSize: 12 }} />
+            <YAxis allowDecimals={false} tick={{ fontSize: 12 }} />
+            <Tooltip formatter={(value: number) => [value, "Bookings"]} />
+            <Bar dataKey="bookings" name="Bookings" fill="#60a5fa" radius={[4, 4, 0, 0]} />
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {busiest.length > 0 && (
+        <div>
+          <p className="text-sm font-medium text-gray-700 mb-2">Busiest slots</p>
+          <ol className="space-y-1 text-sm">
+            {busiest.map((slot) => (
+              <li key={slot.label} className="flex justify-between">
+                <span>{slot.label}</span>
+                <span className="font-semibold">{slot.bookings} bookings</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+/**
+ * COMPONENT: ReportExportPanel
+ *
+ * PURPOSE: Download buttons for CSV, XLSX and PDF report exports
+ *
+ * CONTEXT: Used on the analytics page (with the page's filters) and the
+ * occupancy page (with its own date range)
+ *
+ * DATA FLOW:
+ *   - Calls GET /api/reports/export with the signed-in user's access token
+ *   - Saves the returned file through a temporary object URL
+ *
+ * KEY DEPENDENCIES: Supabase auth session, sonner toasts
+ */
+
+"use client";
+
+import { useState } from "react";
+import { format, subDays } from "date-fns";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/lib/supabase";
+import { AnalyticsFilters, ExportFormat, ReportName } from "../types/analyticsTypes";
+
+const REPORT_LABELS: Record<ReportName, string> = {
+  "occupancy-hourly": "Hourly occupancy",
+  "occupancy-daily": "Daily occupancy",
+  reservations: "Reservation log",
+  utilization: "Room utilization",
+};
+
+const FORMATS: ExportFormat[] = ["csv", "xlsx", "pdf"];
+
+// Default range when the panel manages its own dates
+const DEFAULT_RANGE_DAYS = 7;
+
+interface ReportExportPanelProps {
+  reports: ReportName[];
+  /** Range and room to export; when omitted the panel shows its own date inputs */
+  filters?: AnalyticsFilters;
+}
+
+export default function ReportExportPanel({ reports, filters }: ReportExportPanelProps) {
+  const [report, setReport] = useState<ReportName>(reports[0]);
+  const [range, setRange] = useState(() => ({
+    from: format(subDays(new Date(), DEFAULT_RANGE_DAYS - 1), "yyyy-MM-dd"),
+    to: format(new Date(), "yyyy-MM-dd"),
+  }));
+  const [downloading, setDownloading] = useState<ExportFormat | null>(null);
+
+  const from = filters?.from ?? range.from;
+  const to = filters?.to ?? range.to;
+
+  /**
+   * Requests the export and saves the file
+   *
+   * @param fileFormat - Format to download
+   */
+  const handleDownload = async (fileFormat: ExportFormat) => {
+    setDownloading(fileFormat);
+
+    try {
+      const params = new URLSearchParams({ report, format: fileFormat, from, to });
+      if (filters?.roomId != null) {
+        params.set("roomId", String(filters.roomId));
+      }
+
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch(`/api/reports/export?${params}`, {
+        headers: session ? { Authorization: `Bearer ${session.access_token}` } : {},
+      });
+
+      if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new Error(body?.error || "Export failed");
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${report}_${from}_${to}.${fileFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting report:", error);
+      toast.error(error instanceof Error ? error.message : "Export failed");
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      {reports.length > 1 && (
+        <div className="space-y-1">
+          <Label>Report</Label>
+          <Select value={report} onValueChange={(value) => setReport(value as ReportName)}>
+            <SelectTrigger className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {reports.map((name) => (
+                <SelectItem key={name} value={name}>
+                  {REPORT_LABELS[name]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {!filters && (
+        <>
+          <div className="space-y-1">
+            <Label htmlFor="export-from">From</Label>
+            <Input
+              id="export-from"
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => e.target.value && setRange({ ...range, from: e.target.value })}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="export-to">To</Label>
+            <Input
+              id="export-to"
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => e.target.value && setRange({ ...range, to: e.target.value })}
+            />
+          </div>
+        </>
+      )}
+
+      <div className="flex gap-2">
+        {FORMATS.map((fileFormat) => (
+          <Button
+            key={fileFormat}
+            variant="outline"
+            disabled={downloading !== null}
+            onClick={() => handleDownload(fileFormat)}
+          >
+            <Download className="h-4 w-4 mr-1" />
+            {downloading === fileFormat ? "Exporting..." : fileFormat.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+}
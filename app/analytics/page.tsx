@@ -1,10 +1,210 @@
+'use client';
+
+/**
+ * COMPONENT: AnalyticsPage
+ *
+ * PURPOSE: Room-utilization reports for library staff
+ *
+ * CONTEXT: Accessed via /analytics (staff and admin only, see PAGE_ACCESS).
+ * Reports booked hours per room, cancellation and no-show rates, peak
+ * booking slots, party size against capacity and common agenda keywords.
+ *
+ * DATA FLOW: Filters -> analyticsService.getUtilizationReport -> report
+ * sections. Reloads whenever a filter changes.
+ *
+ * KEY DEPENDENCIES: analyticsService, recharts report components
+ */
+
+import { useEffect, useState } from 'react';
+import { format, subDays } from 'date-fns';
+import { toZonedTime } from 'date-fns-tz';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BANGKOK_TZ } from '@/constants/reservationsConstants';
+import { getRooms, getUtilizationReport } from './services/analyticsService';
+import { AnalyticsFilters, RoomRecord, UtilizationReport } from './types/analyticsTypes';
+import AnalyticsFilterBar from './components/AnalyticsFilterBar';
+import BookedHoursChart from './components/BookedHoursChart';
+import PeakSlotsChart from './components/PeakSlotsChart';
+import PartySizeChart from './components/PartySizeChart';
+import AgendaKeywords from './components/AgendaKeywords';
+import ReportExportPanel from './components/ReportExportPanel';
+
+// Default report window: the last 30 days including today
+const DEFAULT_RANGE_DAYS = 30;
+
+function defaultFilters(): AnalyticsFilters {
+  const today = toZonedTime(new Date(), BANGKOK_TZ);
+  return {
+    from: format(subDays(today, DEFAULT_RANGE_DAYS - 1), 'yyyy-MM-dd'),
+    to: format(today, 'yyyy-MM-dd'),
+    roomId: null,
+  };
+}
+
+function formatPercent(value: number) {
+  return `${Math.round(value * 100)}%`;
+}
+
 export default function AnalyticsPage() {
+  const [filters, setFilters] = useState<AnalyticsFilters>(defaultFilters);
+  const [rooms, setRooms] = useState<RoomRecord[]>([]);
+  const [report, setReport] = useState<UtilizationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getRooms()
+      .then(setRooms)
+      .catch(() => setRooms([]));
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setIsLoading(true);
+    setError(null);
+
+    getUtilizationReport(filters)
+      .then((result) => {
+        if (!cancelled) setReport(result);
+      })
+      .catch(() => {
+        if (!cancelled) setError('Failed to load utilization data');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    // Ignore responses for filters that have since changed
+    return () => {
+      cancelled = true;
+    };
+  }, [filters]);
+
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-50">
-      <div className="max-w-lg w-full p-8 bg-white rounded-lg shadow">
-        <h1 className="text-2xl font-bold mb-4">Analytics</h1>
-        <p className="text-gray-600">Explore usage analytics and reports here. (Feature coming soon!)</p>
+    <div className="min-h-screen bg-gradient-to-br from-slate-300 via-amber-50 to-amber-100">
+      <div className="container mx-auto px-8 pt-10 pb-10 space-y-6">
+        <h1 className="text-2xl md:text-4xl font-ancizar font-semibold text-center">Room Utilization</h1>
+
+        <Card>
+          <CardContent className="pt-6">
+            <AnalyticsFilterBar filters={filters} rooms={rooms} onChange={setFilters} />
+          </CardContent>
+        </Card>
+
+        {error && <div className="text-center py-10 text-red-600">{error}</div>}
+
+        {!error && (isLoading || !report) && (
+          <div className="text-center py-10">Loading utilization data...</div>
+        )}
+
+        {!error && !isLoading && report && (
+          <>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Booked hours</CardDescription>
+                  <CardTitle className="text-3xl">{report.totalBookedHours}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-gray-500">
+                  {formatPercent(report.utilizationRate)} of bookable hours
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Bookings</CardDescription>
+                  <CardTitle className="text-3xl">{report.outcomes.bookings}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-gray-500">
+                  {report.outcomes.abandonedHolds} holds expired unconfirmed
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Cancellation rate</CardDescription>
+                  <CardTitle className="text-3xl">{formatPercent(report.outcomes.cancellationRate)}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-gray-500">
+                  {report.outcomes.cancelled} cancelled after confirming
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>No-show rate</CardDescription>
+                  <CardTitle className="text-3xl">{formatPercent(report.outcomes.noShowRate)}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-xs text-gray-500">
+                  {report.outcomes.noShows} bookings not checked in
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Booked hours per room</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Tabs defaultValue="daily">
+                  <TabsList className="mb-4">
+                    <TabsTrigger value="daily">Daily</TabsTrigger>
+                    <TabsTrigger value="weekly">Weekly</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="daily" className="m-0">
+                    <BookedHoursChart data={report.dailyHours} roomNames={report.roomNames} />
+                  </TabsContent>
+                  <TabsContent value="weekly" className="m-0">
+                    <BookedHoursChart data={report.weeklyHours} roomNames={report.roomNames} />
+                  </TabsContent>
+                </Tabs>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Peak booking times</CardTitle>
+                  <CardDescription>Bookings overlapping each hour (Bangkok time)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PeakSlotsChart data={report.peakSlots} busiest={report.busiestSlots} />
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader>
+                  <CardTitle>Party size vs capacity</CardTitle>
+                  <CardDescription>Average attendees per booking</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <PartySizeChart data={report.partySizes} />
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Common agenda keywords</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <AgendaKeywords keywords={report.keywords} />
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Export</CardTitle>
+                <CardDescription>Download the selected range as CSV, Excel or PDF</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ReportExportPanel
+                  reports={['utilization', 'reservations', 'occupancy-daily', 'occupancy-hourly']}
+                  filters={filters}
+                />
+              </CardContent>
+            </Card>
+          </>
+        )}
       </div>
     </div>
-  )
-} 
\ No newline at end of file
+  );
+}
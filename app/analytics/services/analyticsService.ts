@@ -0,0 +1,134 @@
+/**
+ * Analytics Service
+ * =================
+ * PURPOSE:
+ *   Loads the reservation and room data behind the room-utilization reports.
+ *
+ * CONTEXT:
+ *   Reads every reservation in the selected range, including cancelled ones
+ *   and expired holds. RLS only allows that for staff and admin profiles;
+ *   other users would see a partial picture, so /analytics is role-guarded.
+ *
+ * DATA FLOW:
+ *   1. Resolve the Bangkok date range to UTC bounds
+ *   2. Load rooms and reservations (paged past the PostgREST row cap)
+ *   3. Build the report with buildUtilizationReport
+ *
+ * KEY DEPENDENCIES:
+ *   - Supabase client
+ *   - utilizationReport for the calculations
+ */
+
+import { addDays, format, parseISO } from 'date-fns';
+import { fromZonedTime } from 'date-fns-tz';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+import { BANGKOK_TZ } from '@/constants/reservationsConstants';
+import {
+  AnalyticsFilters,
+  ReservationRecord,
+  RoomRecord,
+  UtilizationReport,
+} from '../types/analyticsTypes';
+import { buildUtilizationReport } from '../utils/utilizationReport';
+
+const PAGE_SIZE = 1000;
+
+/**
+ * UTC bounds of a Bangkok date range
+ *
+ * @param filters - Range with inclusive "yyyy-MM-dd" days
+ * @returns Start of the first day and start of the day after the last
+ */
+export function getRangeBounds(filters: Pick<AnalyticsFilters, 'from' | 'to'>) {
+  return {
+    start: fromZonedTime(`${filters.from}T00:00:00`, BANGKOK_TZ),
+    end: fromZonedTime(`${format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd')}T00:00:00`, BANGKOK_TZ),
+  };
+}
+
+/**
+ * Fetch all rooms
+ *
+ * @param client - Supabase client to read with (default: browser client)
+ * @returns Rooms ordered by ID
+ */
+export async function getRooms(client: SupabaseClient<Database> = supabase): Promise<RoomRecord[]> {
+  const { data, error } = await client
+    .from('rooms')
+    .select('id, name, capacity')
+    .order('id');
+
+  if (error) {
+    console.error('Error fetching rooms:', error);
+    throw error;
+  }
+
+  return data || [];
+}
+
+/**
+ * Fetch reservations starting within the filter range
+ *
+ * @param filters - Bangkok date range and optional room
+ * @param client - Supabase client to read with (default: browser client)
+ * @returns Reservations of any status
+ */
+export async function getReservationsInRange(
+  filters: AnalyticsFilters,
+  client: SupabaseClient<Database> = supabase
+): Promise<ReservationRecord[]> {
+  const { start, end } = getRangeBounds(filters);
+
+  const rows: ReservationRecord[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = client
+      .from('reservations')
+      .select('id, room_id, start_time, end_time, agenda, num_people, status, hold_expiry')
+      .gte('start_time', start.toISOString())
+      .lt('start_time', end.toISOString())
+      .order('start_time')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filters.roomId !== null) {
+      query = query.eq('room_id', filters.roomId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching reservations:', error);
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Build the utilization report for the selected filters
+ *
+ * @param filters - Bangkok date range and optional room
+ * @param client - Supabase client to read with (default: browser client)
+ * @returns Utilization report
+ */
+export async function getUtilizationReport(
+  filters: AnalyticsFilters,
+  client: SupabaseClient<Database> = supabase
+): Promise<UtilizationReport> {
+  const [rooms, reservations] = await Promise.all([
+    getRooms(client),
+    getReservationsInRange(filters, client),
+  ]);
+
+  const selectedRooms = filters.roomId === null
+    ? rooms
+    : rooms.filter(room => room.id === filters.roomId);
+
+  return buildUtilizationReport(reservations, selectedRooms, filters);
+}
@@ -0,0 +1,247 @@
+/**
+ * Export Service
+ * ==============
+ * PURPOSE:
+ *   Builds the exportable reports (occupancy history, reservation log,
+ *   per-room utilization) as format-independent ReportTables.
+ *
+ * CONTEXT:
+ *   Called by GET /api/reports/export, which writes the table as CSV, XLSX
+ *   or PDF. Reservation reports are read with the caller's Supabase client
+ *   so RLS decides what they may see.
+ *
+ * DATA FLOW:
+ *   1. Load rows for the Bangkok date range
+ *   2. Map them onto the report's fixed column layout
+ *   3. Hand the table to reportFormats
+ *
+ * KEY DEPENDENCIES:
+ *   - occupancyService for hourly and daily occupancy rollups
+ *   - analyticsService and utilizationReport for reservations
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Database } from '@/types/supabase';
+import { BANGKOK_TZ } from '@/constants/reservationsConstants';
+import {
+  getDailyOccupancyRange,
+  getHourlyOccupancyRange,
+} from '@/app/occupancy/services/occupancyService';
+import { AnalyticsFilters, ReportName, ReportTable } from '../types/analyticsTypes';
+import { getRangeBounds, getReservationsInRange, getRooms } from './analyticsService';
+import { buildRoomUtilization } from '../utils/utilizationReport';
+
+const PAGE_SIZE = 1000;
+
+const REPORT_TITLES: Record<ReportName, string> = {
+  'occupancy-hourly': 'Hourly Occupancy',
+  'occupancy-daily': 'Daily Occupancy',
+  reservations: 'Reservation Log',
+  utilization: 'Room Utilization',
+};
+
+/**
+ * Reports that contain reservation data (and so need a signed-in caller)
+ */
+export const RESERVATION_REPORTS: ReportName[] = ['reservations', 'utilization'];
+
+function bangkokTime(value: string | Date): string {
+  return formatInTimeZone(value, BANGKOK_TZ, 'yyyy-MM-dd HH:mm');
+}
+
+function percent(fraction: number): number {
+  return Math.round(fraction * 1000) / 10;
+}
+
+function subtitle(filters: AnalyticsFilters, roomName?: string): string {
+  const scope = roomName ? ` · ${roomName}` : '';
+  return `${filters.from} to ${filters.to}${scope} · Generated ${bangkokTime(new Date())} (Bangkok time)`;
+}
+
+/**
+ * Library-wide occupancy per hour (HistoricalDataPoint series)
+ */
+async function buildHourlyOccupancy(filters: AnalyticsFilters): Promise<ReportTable> {
+  const { start, end } = getRangeBounds(filters);
+  const points = await getHourlyOccupancyRange(start, end);
+
+  return {
+    title: REPORT_TITLES['occupancy-hourly'],
+    subtitle: subtitle(filters),
+    columns: [
+      { key: 'hour', header: 'Hour', width: 3 },
+      { key: 'occupied', header: 'Occupied', width: 2, align: 'right' },
+      { key: 'capacity', header: 'Capacity', width: 2, align: 'right' },
+      { key: 'occupancy', header: 'Occupancy (%)', width: 2, align: 'right' },
+    ],
+    rows: points.map(point => ({
+      hour: bangkokTime(point.time),
+      occupied: point.totalOccupancy,
+      capacity: point.totalCapacity,
+      occupancy: percent(point.overall),
+    })),
+  };
+}
+
+/**
+ * Daily occupancy aggregates (WeeklyDataPoint series)
+ */
+async function buildDailyOccupancy(filters: AnalyticsFilters): Promise<ReportTable> {
+  const points = await getDailyOccupancyRange(filters.from, filters.to);
+
+  return {
+    title: REPORT_TITLES['occupancy-daily'],
+    subtitle: subtitle(filters),
+    columns: [
+      { key: 'date', header: 'Date', width: 2 },
+      { key: 'weekday', header: 'Weekday', width: 2 },
+      { key: 'peak', header: 'Peak Occupancy (%)', width: 3, align: 'right' },
+      { key: 'average', header: 'Average Occupancy (%)', width: 3, align: 'right' },
+      { key: 'visitors', header: 'Total Visitors', width: 2, align: 'right' },
+    ],
+    rows: points.map(point => ({
+      date: formatInTimeZone(point.date, BANGKOK_TZ, 'yyyy-MM-dd'),
+      weekday: point.formattedDay,
+      peak: percent(point.peakOccupancy),
+      average: percent(point.averageOccupancy),
+      visitors: point.totalVisitors,
+    })),
+  };
+}
+
+/**
+ * Every reservation starting in the range, any status
+ */
+async function buildReservationLog(
+  filters: AnalyticsFilters,
+  client: SupabaseClient<Database>
+): Promise<ReportTable> {
+  const { start, end } = getRangeBounds(filters);
+  const rooms = await getRooms(client);
+  const roomNames = new Map(rooms.map(room => [room.id, room.name]));
+
+  const rows: Database['public']['Tables']['reservations']['Row'][] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = client
+      .from('reservations')
+      .select('*')
+      .gte('start_time', start.toISOString())
+      .lt('start_time', end.toISOString())
+      .order('start_time')
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (filters.roomId !== null) {
+      query = query.eq('room_id', filters.roomId);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching reservations:', error);
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return {
+    title: REPORT_TITLES.reservations,
+    subtitle: subtitle(filters, filters.roomId !== null ? roomNames.get(filters.roomId) : undefined),
+    columns: [
+      { key: 'id', header: 'Reservation ID', width: 5 },
+      { key: 'room', header: 'Room', width: 2 },
+      { key: 'start', header: 'Start', width: 3 },
+      { key: 'end', header: 'End', width: 3 },
+      { key: 'status', header: 'Status', width: 2 },
+      { key: 'people', header: 'People', width: 1, align: 'right' },
+      { key: 'agenda', header: 'Agenda', width: 5 },
+      { key: 'email', header: 'Booked By', width: 4 },
+      { key: 'created', header: 'Created', width: 3 },
+    ],
+    rows: rows.map(row => ({
+      id: row.id,
+      room: roomNames.get(row.room_id) || `Room ${row.room_id}`,
+      start: bangkokTime(row.start_time),
+      end: bangkokTime(row.end_time),
+      status: row.status,
+      people: row.num_people ?? null,
+      agenda: row.agenda ?? null,
+      email: row.user_email,
+      created: bangkokTime(row.created_at),
+    })),
+  };
+}
+
+/**
+ * Utilization summary per room
+ */
+async function buildUtilization(
+  filters: AnalyticsFilters,
+  client: SupabaseClient<Database>
+): Promise<ReportTable> {
+  const [rooms, reservations] = await Promise.all([
+    getRooms(client),
+    getReservationsInRange(filters, client),
+  ]);
+
+  const selectedRooms = filters.roomId === null
+    ? rooms
+    : rooms.filter(room => room.id === filters.roomId);
+
+  return {
+    title: REPORT_TITLES.utilization,
+    subtitle: subtitle(filters, filters.roomId !== null ? selectedRooms[0]?.name : undefined),
+    columns: [
+      { key: 'room', header: 'Room', width: 3 },
+      { key: 'capacity', header: 'Capacity', width: 2, align: 'right' },
+      { key: 'bookings', header: 'Bookings', width: 2, align: 'right' },
+      { key: 'hours', header: 'Booked Hours', width: 2, align: 'right' },
+      { key: 'utilization', header: 'Utilization (%)', width: 2, align: 'right' },
+      { key: 'cancelled', header: 'Cancelled', width: 2, align: 'right' },
+      { key: 'noShows', header: 'No-shows', width: 2, align: 'right' },
+      { key: 'party', header: 'Average Party', width: 2, align: 'right' },
+    ],
+    rows: buildRoomUtilization(reservations, selectedRooms, filters).map(room => ({
+      room: room.name,
+      capacity: room.capacity,
+      bookings: room.bookings,
+      hours: room.bookedHours,
+      utilization: percent(room.utilizationRate),
+      cancelled: room.cancelled,
+      noShows: room.noShows,
+      party: room.averageParty,
+    })),
+  };
+}
+
+/**
+ * Build a report for export
+ *
+ * @param report - Which report to build
+ * @param filters - Bangkok date range and optional room (reservation reports only)
+ * @param client - Caller's Supabase client, required for reservation reports
+ * @returns Format-independent report table
+ */
+export async function buildReport(
+  report: ReportName,
+  filters: AnalyticsFilters,
+  client?: SupabaseClient<Database>
+): Promise<ReportTable> {
+  if (RESERVATION_REPORTS.includes(report) && !client) {
+    throw new Error(`The ${report} report needs an authenticated client`);
+  }
+
+  switch (report) {
+    case 'occupancy-hourly':
+      return buildHourlyOccupancy(filters);
+    case 'occupancy-daily':
+      return buildDailyOccupancy(filters);
+    case 'reservations':
+      return buildReservationLog(filters, client!);
+    case 'utilization':
+      return buildUtilization(filters, client!);
+  }
+}
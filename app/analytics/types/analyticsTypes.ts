@@ -0,0 +1,185 @@
+/**
+ * ANALYTICS TYPES
+ *
+ * Type definitions for the room-utilization reports.
+ *
+ * DATA FLOW:
+ * - analyticsService loads reservation and room rows
+ * - utilizationReport turns them into a UtilizationReport
+ * - Analytics components render the report sections
+ */
+
+/**
+ * Reservation fields the reports need
+ */
+export interface ReservationRecord {
+  id: string;
+  room_id: number;
+  start_time: string;
+  end_time: string;
+  agenda: string | null;
+  num_people: number | null;
+  /** pending, confirmed, cancelled (wider set once check-in lands) */
+  status: string;
+  hold_expiry: string | null;
+}
+
+/**
+ * Room fields the reports need
+ */
+export interface RoomRecord {
+  id: number;
+  name: string;
+  capacity: number;
+}
+
+/**
+ * Report filters chosen on the analytics page
+ */
+export interface AnalyticsFilters {
+  /** First day included, "yyyy-MM-dd" Bangkok time */
+  from: string;
+  /** Last day included, "yyyy-MM-dd" Bangkok time */
+  to: string;
+  /** Restrict to one room, or null for all rooms */
+  roomId: number | null;
+}
+
+/**
+ * Booked hours for one period, keyed by room name
+ */
+export interface BookedHoursPoint {
+  /** Period start, "yyyy-MM-dd" */
+  period: string;
+  /** Short label for the chart axis */
+  label: string;
+  /** Hours per room name, plus the period total */
+  rooms: Record<string, number>;
+  total: number;
+}
+
+/**
+ * Share of bookings that did not go ahead
+ */
+export interface BookingOutcomes {
+  /** Bookings that were confirmed at some point */
+  bookings: number;
+  cancelled: number;
+  noShows: number;
+  /** Holds that expired before confirmation; not counted as bookings */
+  abandonedHolds: number;
+  cancellationRate: number;
+  noShowRate: number;
+}
+
+/**
+ * Booking demand for one hour of the day
+ */
+export interface PeakSlot {
+  hour: number;
+  label: string;
+  /** Confirmed bookings overlapping this hour */
+  bookings: number;
+}
+
+/**
+ * Most demanded weekday and hour combination
+ */
+export interface BusiestSlot {
+  weekday: string;
+  hour: number;
+  label: string;
+  bookings: number;
+}
+
+/**
+ * Average party size against room capacity
+ */
+export interface RoomPartySize {
+  roomId: number;
+  name: string;
+  capacity: number;
+  averageParty: number;
+  /** averageParty / capacity (0-1) */
+  fillRatio: number;
+  bookings: number;
+}
+
+/**
+ * Utilization summary for one room over the selected range
+ */
+export interface RoomUtilization {
+  roomId: number;
+  name: string;
+  capacity: number;
+  bookings: number;
+  bookedHours: number;
+  /** bookedHours / bookable hours in the range (0-1) */
+  utilizationRate: number;
+  cancelled: number;
+  noShows: number;
+  averageParty: number;
+}
+
+/**
+ * Word frequency in booking agendas
+ */
+export interface AgendaKeyword {
+  word: string;
+  count: number;
+}
+
+/**
+ * Everything shown on the analytics page
+ */
+export interface UtilizationReport {
+  totalBookedHours: number;
+  /** Booked hours / open hours across the selected rooms and days (0-1) */
+  utilizationRate: number;
+  dailyHours: BookedHoursPoint[];
+  weeklyHours: BookedHoursPoint[];
+  roomNames: string[];
+  outcomes: BookingOutcomes;
+  peakSlots: PeakSlot[];
+  busiestSlots: BusiestSlot[];
+  partySizes: RoomPartySize[];
+  keywords: AgendaKeyword[];
+}
+
+/**
+ * Reports that can be exported
+ * - occupancy-hourly: library-wide HistoricalDataPoint series
+ * - occupancy-daily: WeeklyDataPoint series (one row per day)
+ * - reservations: reservation log
+ * - utilization: per-room utilization summary
+ */
+export type ReportName = 'occupancy-hourly' | 'occupancy-daily' | 'reservations' | 'utilization';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf';
+
+/**
+ * One column of an exported report
+ *
+ * Column order and headers are part of the file layout; change them only
+ * together with anything that imports the files.
+ */
+export interface ReportColumn {
+  key: string;
+  header: string;
+  /** Relative column width in the PDF layout */
+  width: number;
+  align?: 'left' | 'right';
+}
+
+export type ReportCell = string | number | null;
+
+/**
+ * A report ready to be written in any export format
+ */
+export interface ReportTable {
+  title: string;
+  /** Date range and generation time, shown under the title in PDFs */
+  subtitle: string;
+  columns: ReportColumn[];
+  rows: Array<Record<string, ReportCell>>;
+}
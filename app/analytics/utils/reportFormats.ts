@@ -0,0 +1,234 @@
+/**
+ * REPORT FILE FORMATS
+ *
+ * PURPOSE: Writes a ReportTable as CSV, XLSX or a print-ready PDF.
+ *
+ * LAYOUT:
+ *   Every format has the same columns, in the same order, with the same
+ *   header row, one record per row. Numbers stay plain numbers and times
+ *   are Bangkok-local "yyyy-MM-dd HH:mm" text, so files load cleanly into
+ *   spreadsheets.
+ *
+ * SERVER ONLY: the PDF writer reads the bundled Sarabun fonts from disk.
+ *
+ * KEY DEPENDENCIES: exceljs, pdf-lib, @pdf-lib/fontkit
+ */
+
+import { readFile } from 'fs/promises';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import fontkit from '@pdf-lib/fontkit';
+import { PDFDocument, PDFFont, PDFPage, PageSizes, rgb } from 'pdf-lib';
+import { ExportFormat, ReportCell, ReportTable } from '../types/analyticsTypes';
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf',
+};
+
+function cellText(value: ReportCell): string {
+  return value === null ? '' : String(value);
+}
+
+// ----------------------------------------------------------------------------
+// CSV
+// ----------------------------------------------------------------------------
+
+function csvField(value: ReportCell): string {
+  const text = cellText(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Write a report as RFC 4180 CSV
+ *
+ * Starts with a UTF-8 byte order mark so Excel shows Thai text correctly.
+ */
+export function toCsv(table: ReportTable): string {
+  const lines = [
+    table.columns.map(column => csvField(column.header)).join(','),
+    ...table.rows.map(row => table.columns.map(column => csvField(row[column.key])).join(',')),
+  ];
+  return `\uFEFF${lines.join('\r\n')}\r\n`;
+}
+
+// ----------------------------------------------------------------------------
+// XLSX
+// ----------------------------------------------------------------------------
+
+// Excel limits sheet names to 31 characters and forbids some punctuation
+function sheetName(title: string): string {
+  return title.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31);
+}
+
+/**
+ * Write a report as a single-sheet XLSX workbook with a frozen header row
+ */
+export async function toXlsx(table: ReportTable): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName(table.title), {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+
+  sheet.columns = table.columns.map(column => ({
+    header: column.header,
+    key: column.key,
+    width: Math.max(column.header.length + 2, column.width * 6),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(table.rows);
+
+  return Buffer.from(await workbook.xlsx.writeBuffer());
+}
+
+// ----------------------------------------------------------------------------
+// PDF
+// ----------------------------------------------------------------------------
+
+const FONT_DIR = path.join(process.cwd(), 'public', 'fonts', 'sarabun');
+
+const PAGE_MARGIN = 36;
+const FONT_SIZE = 9;
+const TITLE_SIZE = 16;
+const ROW_HEIGHT = 16;
+const CELL_PADDING = 4;
+
+// The bundled Sarabun files are split into Thai and Latin subsets, so text
+// is drawn in runs with whichever font covers the script
+const THAI_RUN = /[\u0E00-\u0E7F]+|[^\u0E00-\u0E7F]+/g;
+const THAI_CHAR = /[\u0E00-\u0E7F]/;
+
+interface FontPair {
+  latin: PDFFont;
+  thai: PDFFont;
+}
+
+async function embedFonts(doc: PDFDocument, weight: 400 | 700): Promise<FontPair> {
+  const [latin, thai] = await Promise.all(
+    ['latin', 'thai'].map(subset => readFile(path.join(FONT_DIR, `sarabun-${subset}-${weight}-normal.woff`)))
+  );
+  return {
+    latin: await doc.embedFont(latin, { subset: true }),
+    thai: await doc.embedFont(thai, { subset: true }),
+  };
+}
+
+function runs(text: string, fonts: FontPair) {
+  return (text.match(THAI_RUN) || []).map(run => ({
+    text: run,
+    font: THAI_CHAR.test(run) ? fonts.thai : fonts.latin,
+  }));
+}
+
+function textWidth(text: string, fonts: FontPair, size: number): number {
+  return runs(text, fonts).reduce((sum, run) => sum + run.font.widthOfTextAtSize(run.text, size), 0);
+}
+
+/**
+ * Shorten text with an ellipsis until it fits the given width
+ */
+function fitText(text: string, fonts: FontPair, size: number, maxWidth: number): string {
+  if (textWidth(text, fonts, size) <= maxWidth) return text;
+
+  const chars = Array.from(text);
+  while (chars.length > 0 && textWidth(`${chars.join('')}...`, fonts, size) > maxWidth) {
+    chars.pop();
+  }
+  return `${chars.join('')}...`;
+}
+
+function drawText(page: PDFPage, text: string, x: number, y: number, fonts: FontPair, size: number) {
+  let cursor = x;
+  runs(text, fonts).forEach(run => {
+    page.drawText(run.text, { x: cursor, y, size, font: run.font, color: rgb(0.1, 0.1, 0.1) });
+    cursor += run.font.widthOfTextAtSize(run.text, size);
+  });
+}
+
+/**
+ * Write a report as an A4 landscape PDF
+ *
+ * The header row repeats on every page and pages are numbered.
+ */
+export async function toPdf(table: ReportTable): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  doc.registerFontkit(fontkit);
+  doc.setTitle(table.title);
+
+  const [regular, bold] = await Promise.all([embedFonts(doc, 400), embedFonts(doc, 700)]);
+
+  const [pageWidth, pageHeight] = [PageSizes.A4[1], PageSizes.A4[0]];
+  const tableWidth = pageWidth - PAGE_MARGIN * 2;
+  const totalWeight = table.columns.reduce((sum, column) => sum + column.width, 0);
+  const columnWidths = table.columns.map(column => (column.width / totalWeight) * tableWidth);
+
+  const pages: PDFPage[] = [];
+  let page!: PDFPage;
+  let y = 0;
+
+  const drawRow = (cells: string[], fonts: FontPair, shaded: boolean) => {
+    if (shaded) {
+      page.drawRectangle({
+        x: PAGE_MARGIN,
+        y: y - 4,
+        width: tableWidth,
+        height: ROW_HEIGHT,
+        color: rgb(0.95, 0.95, 0.95),
+      });
+    }
+
+    let x = PAGE_MARGIN;
+    cells.forEach((cell, index) => {
+      const maxWidth = columnWidths[index] - CELL_PADDING * 2;
+      const text = fitText(cell, fonts, FONT_SIZE, maxWidth);
+      const offset = table.columns[index].align === 'right'
+        ? maxWidth - textWidth(text, fonts, FONT_SIZE)
+        : 0;
+      drawText(page, text, x + CELL_PADDING + offset, y, fonts, FONT_SIZE);
+      x += columnWidths[index];
+    });
+    y -= ROW_HEIGHT;
+  };
+
+  const startPage = () => {
+    page = doc.addPage([pageWidth, pageHeight]);
+    pages.push(page);
+    y = pageHeight - PAGE_MARGIN - TITLE_SIZE;
+
+    if (pages.length === 1) {
+      drawText(page, table.title, PAGE_MARGIN, y, bold, TITLE_SIZE);
+      y -= TITLE_SIZE;
+      drawText(page, table.subtitle, PAGE_MARGIN, y, regular, FONT_SIZE);
+      y -= ROW_HEIGHT * 1.5;
+    }
+
+    drawRow(table.columns.map(column => column.header), bold, true);
+  };
+
+  startPage();
+  table.rows.forEach((row, index) => {
+    if (y < PAGE_MARGIN + ROW_HEIGHT) {
+      startPage();
+    }
+    drawRow(table.columns.map(column => cellText(row[column.key])), regular, index % 2 === 1);
+  });
+
+  if (table.rows.length === 0) {
+    drawText(page, 'No data for this period', PAGE_MARGIN + CELL_PADDING, y, regular, FONT_SIZE);
+  }
+
+  pages.forEach((current, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    drawText(
+      current,
+      label,
+      pageWidth - PAGE_MARGIN - textWidth(label, regular, FONT_SIZE),
+      PAGE_MARGIN / 2,
+      regular,
+      FONT_SIZE
+    );
+  });
+
+  return doc.save();
+}
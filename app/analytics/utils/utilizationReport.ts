@@ -0,0 +1,353 @@
+/**
+ * ROOM UTILIZATION REPORT
+ *
+ * PURPOSE: Turns raw reservation and room rows into the figures shown on
+ * the analytics page.
+ *
+ * DEFINITIONS:
+ *   - booked: any reservation that was confirmed (confirmed, and later
+ *     check-in states such as no_show); cancelled bookings and unconfirmed
+ *     holds never occupied the room
+ *   - cancelled: a confirmed booking the user later cancelled. Confirming
+ *     clears hold_expiry, so a cancelled row that still has hold_expiry was a
+ *     hold that expired or was dropped before confirmation ("abandoned hold")
+ *   - open hours: the bookable TIME_SLOTS window, per room per day
+ *
+ * All day and hour bucketing uses Bangkok local time.
+ *
+ * KEY DEPENDENCIES: date-fns, date-fns-tz, Intl.Segmenter (Thai and English
+ * word splitting for agenda keywords)
+ */
+
+import { addDays, differenceInCalendarDays, format, parseISO, startOfISOWeek } from 'date-fns';
+import { formatInTimeZone, toZonedTime } from 'date-fns-tz';
+import { BANGKOK_TZ, TIME_SLOTS } from '@/constants/reservationsConstants';
+import {
+  AgendaKeyword,
+  AnalyticsFilters,
+  BookedHoursPoint,
+  BookingOutcomes,
+  BusiestSlot,
+  PeakSlot,
+  ReservationRecord,
+  RoomPartySize,
+  RoomRecord,
+  RoomUtilization,
+  UtilizationReport,
+} from '../types/analyticsTypes';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Bookable hours per room per day (TIME_SLOTS are half-hour slot starts)
+const OPEN_HOURS_PER_DAY = TIME_SLOTS.length / 2;
+const FIRST_HOUR = parseInt(TIME_SLOTS[0], 10);
+const LAST_HOUR = FIRST_HOUR + Math.ceil(OPEN_HOURS_PER_DAY) - 1;
+
+const KEYWORD_LIMIT = 15;
+const BUSIEST_SLOT_LIMIT = 5;
+
+// Filler words left out of agenda keywords
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'at', 'by', 'for', 'from', 'in', 'is', 'of', 'on',
+  'or', 'the', 'to', 'with', 'we', 'our', 'my', 'meeting',
+  'และ', 'ที่', 'การ', 'ของ', 'กับ', 'ใน', 'เพื่อ', 'ให้', 'จะ', 'ได้', 'มี', 'เป็น', 'ประชุม',
+]);
+
+const NON_BOOKED_STATUSES = new Set(['pending', 'cancelled']);
+
+/**
+ * Whether a reservation actually held its room
+ */
+export function isBooked(reservation: ReservationRecord): boolean {
+  return !NON_BOOKED_STATUSES.has(reservation.status);
+}
+
+function durationHours(reservation: ReservationRecord): number {
+  const ms = new Date(reservation.end_time).getTime() - new Date(reservation.start_time).getTime();
+  return Math.max(0, ms / HOUR_MS);
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Every "yyyy-MM-dd" day from `from` to `to`, inclusive
+ */
+function listDays(from: string, to: string): string[] {
+  const start = parseISO(from);
+  const count = differenceInCalendarDays(parseISO(to), start) + 1;
+  return Array.from({ length: Math.max(0, count) }, (_, i) =>
+    format(addDays(start, i), 'yyyy-MM-dd')
+  );
+}
+
+function weekOf(day: string): string {
+  return format(startOfISOWeek(parseISO(day)), 'yyyy-MM-dd');
+}
+
+/**
+ * Booked hours per room, bucketed by Bangkok day and by ISO week
+ */
+function buildBookedHours(booked: ReservationRecord[], rooms: RoomRecord[], days: string[]) {
+  const roomNames = new Map(rooms.map(room => [room.id, room.name]));
+
+  const emptyPoint = (period: string, label: string): BookedHoursPoint => ({
+    period,
+    label,
+    rooms: Object.fromEntries(rooms.map(room => [room.name, 0])),
+    total: 0,
+  });
+
+  const daily = new Map(days.map(day => [day, emptyPoint(day, format(parseISO(day), 'd MMM'))]));
+  const weekly = new Map<string, BookedHoursPoint>();
+  days.forEach(day => {
+    const week = weekOf(day);
+    if (!weekly.has(week)) {
+      weekly.set(week, emptyPoint(week, `Week of ${format(parseISO(week), 'd MMM')}`));
+    }
+  });
+
+  booked.forEach(reservation => {
+    const name = roomNames.get(reservation.room_id);
+    const day = formatInTimeZone(reservation.start_time, BANGKOK_TZ, 'yyyy-MM-dd');
+    const point = daily.get(day);
+    if (!name || !point) return;
+
+    const hours = durationHours(reservation);
+    const weekPoint = weekly.get(weekOf(day))!;
+    [point, weekPoint].forEach(target => {
+      target.rooms[name] += hours;
+      target.total += hours;
+    });
+  });
+
+  const finish = (points: BookedHoursPoint[]) =>
+    points.map(point => ({
+      ...point,
+      rooms: Object.fromEntries(Object.entries(point.rooms).map(([name, hours]) => [name, round(hours)])),
+      total: round(point.total),
+    }));
+
+  return {
+    dailyHours: finish(Array.from(daily.values())),
+    weeklyHours: finish(Array.from(weekly.values())),
+  };
+}
+
+/**
+ * Cancellation and no-show counts
+ */
+function buildOutcomes(reservations: ReservationRecord[]): BookingOutcomes {
+  let booked = 0;
+  let cancelled = 0;
+  let noShows = 0;
+  let abandonedHolds = 0;
+
+  reservations.forEach(reservation => {
+    if (reservation.status === 'cancelled') {
+      if (reservation.hold_expiry) {
+        abandonedHolds++;
+      } else {
+        cancelled++;
+      }
+    } else if (isBooked(reservation)) {
+      booked++;
+      if (reservation.status === 'no_show') noShows++;
+    }
+  });
+
+  const bookings = booked + cancelled;
+
+  return {
+    bookings,
+    cancelled,
+    noShows,
+    abandonedHolds,
+    cancellationRate: bookings > 0 ? cancelled / bookings : 0,
+    noShowRate: booked > 0 ? noShows / booked : 0,
+  };
+}
+
+/**
+ * Booking demand per hour of day, and the busiest weekday/hour slots
+ *
+ * A booking counts towards every Bangkok hour it overlaps.
+ */
+function buildPeakSlots(booked: ReservationRecord[]) {
+  const byHour = new Map<number, number>();
+  const bySlot = new Map<string, BusiestSlot>();
+
+  for (let hour = FIRST_HOUR; hour <= LAST_HOUR; hour++) {
+    byHour.set(hour, 0);
+  }
+
+  booked.forEach(reservation => {
+    const end = new Date(reservation.end_time).getTime();
+    // Bangkok is a whole-hour offset from UTC, so UTC hour starts are local hour starts
+    let cursor = Math.floor(new Date(reservation.start_time).getTime() / HOUR_MS) * HOUR_MS;
+
+    while (cursor < end) {
+      const local = toZonedTime(cursor, BANGKOK_TZ);
+      const hour = local.getHours();
+      const weekday = DAY_NAMES[local.getDay()];
+
+      byHour.set(hour, (byHour.get(hour) || 0) + 1);
+
+      const key = `${weekday}-${hour}`;
+      const slot = bySlot.get(key) || {
+        weekday,
+        hour,
+        label: `${weekday} ${hour.toString().padStart(2, '0')}:00`,
+        bookings: 0,
+      };
+      slot.bookings++;
+      bySlot.set(key, slot);
+
+      cursor += HOUR_MS;
+    }
+  });
+
+  const peakSlots: PeakSlot[] = Array.from(byHour.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([hour, bookings]) => ({
+      hour,
+      label: `${hour.toString().padStart(2, '0')}:00`,
+      bookings,
+    }));
+
+  const busiestSlots = Array.from(bySlot.values())
+    .sort((a, b) => b.bookings - a.bookings)
+    .slice(0, BUSIEST_SLOT_LIMIT);
+
+  return { peakSlots, busiestSlots };
+}
+
+/**
+ * Average party size per room, compared to its capacity
+ */
+function buildPartySizes(booked: ReservationRecord[], rooms: RoomRecord[]): RoomPartySize[] {
+  return rooms.map(room => {
+    const parties = booked
+      .filter(reservation => reservation.room_id === room.id && (reservation.num_people ?? 0) > 0)
+      .map(reservation => reservation.num_people as number);
+
+    const averageParty = parties.length > 0
+      ? parties.reduce((sum, size) => sum + size, 0) / parties.length
+      : 0;
+
+    return {
+      roomId: room.id,
+      name: room.name,
+      capacity: room.capacity,
+      averageParty: round(averageParty),
+      fillRatio: room.capacity > 0 ? averageParty / room.capacity : 0,
+      bookings: parties.length,
+    };
+  });
+}
+
+/**
+ * Split free text into lowercase words (Thai has no spaces between words)
+ */
+export function tokenize(text: string): string[] {
+  const segmenter = new Intl.Segmenter(['th', 'en'], { granularity: 'word' });
+  return Array.from(segmenter.segment(text.toLowerCase()))
+    .filter(segment => segment.isWordLike)
+    .map(segment => segment.segment);
+}
+
+/**
+ * Most common words across booking agendas
+ */
+function buildKeywords(reservations: ReservationRecord[]): AgendaKeyword[] {
+  const counts = new Map<string, number>();
+
+  reservations.forEach(reservation => {
+    if (!reservation.agenda) return;
+
+    // Count each word once per agenda so one long agenda can't dominate
+    new Set(tokenize(reservation.agenda)).forEach(word => {
+      if (word.length < 2 || STOP_WORDS.has(word) || /^\d+$/.test(word)) return;
+      counts.set(word, (counts.get(word) || 0) + 1);
+    });
+  });
+
+  return Array.from(counts.entries())
+    .map(([word, count]) => ({ word, count }))
+    .sort((a, b) => b.count - a.count || a.word.localeCompare(b.word))
+    .slice(0, KEYWORD_LIMIT);
+}
+
+/**
+ * Build the utilization report for the selected filters
+ *
+ * @param reservations - Reservations starting within the filter range (any status)
+ * @param rooms - Rooms to report on (already narrowed to the room filter)
+ * @param filters - Date range used to lay out the day and week buckets
+ * @returns Report for the analytics page
+ */
+export function buildUtilizationReport(
+  reservations: ReservationRecord[],
+  rooms: RoomRecord[],
+  filters: AnalyticsFilters
+): UtilizationReport {
+  const roomIds = new Set(rooms.map(room => room.id));
+  const inScope = reservations.filter(reservation => roomIds.has(reservation.room_id));
+  const booked = inScope.filter(isBooked);
+  const days = listDays(filters.from, filters.to);
+
+  const totalBookedHours = booked.reduce((sum, reservation) => sum + durationHours(reservation), 0);
+  const openHours = days.length * rooms.length * OPEN_HOURS_PER_DAY;
+
+  return {
+    totalBookedHours: round(totalBookedHours),
+    utilizationRate: openHours > 0 ? Math.min(1, totalBookedHours / openHours) : 0,
+    ...buildBookedHours(booked, rooms, days),
+    roomNames: rooms.map(room => room.name),
+    outcomes: buildOutcomes(inScope),
+    ...buildPeakSlots(booked),
+    partySizes: buildPartySizes(booked, rooms),
+    keywords: buildKeywords(booked),
+  };
+}
+
+/**
+ * Per-room utilization summary for the selected filters
+ *
+ * @param reservations - Reservations starting within the filter range (any status)
+ * @param rooms - Rooms to report on
+ * @param filters - Date range the bookable hours are counted over
+ * @returns One summary per room, in the order of `rooms`
+ */
+export function buildRoomUtilization(
+  reservations: ReservationRecord[],
+  rooms: RoomRecord[],
+  filters: AnalyticsFilters
+): RoomUtilization[] {
+  const openHours = listDays(filters.from, filters.to).length * OPEN_HOURS_PER_DAY;
+  const partySizes = new Map(
+    buildPartySizes(reservations.filter(isBooked), rooms).map(party => [party.roomId, party.averageParty])
+  );
+
+  return rooms.map(room => {
+    const roomReservations = reservations.filter(reservation => reservation.room_id === room.id);
+    const booked = roomReservations.filter(isBooked);
+    const outcomes = buildOutcomes(roomReservations);
+    const bookedHours = booked.reduce((sum, reservation) => sum + durationHours(reservation), 0);
+
+    return {
+      roomId: room.id,
+      name: room.name,
+      capacity: room.capacity,
+      bookings: outcomes.bookings,
+      bookedHours: round(bookedHours),
+      utilizationRate: openHours > 0 ? Math.min(1, bookedHours / openHours) : 0,
+      cancelled: outcomes.cancelled,
+      noShows: outcomes.noShows,
+      averageParty: partySizes.get(room.id) ?? 0,
+    };
+  });
+}
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+
+// Shared secret that door counters send as a bearer token
+const ingestKey = process.env.OCCUPANCY_INGEST_KEY;
+
+// Upper bound on events per request so a misbehaving counter can't flood the table
+const MAX_EVENTS_PER_REQUEST = 500;
+
+const occupancyEventSchema = z.object({
+  zone_id: z.string().uuid(),
+  direction: z.enum(['entry', 'exit']),
+  count: z.number().int().positive().default(1),
+  sensor_id: z.string().max(100).optional(),
+  recorded_at: z.string().datetime({ offset: true }).optional(),
+});
+
+const ingestRequestSchema = z.object({
+  events: z.array(occupancyEventSchema).min(1).max(MAX_EVENTS_PER_REQUEST),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    // Counters authenticate with a shared key, not a user session
+    if (!ingestKey) {
+      console.error('OCCUPANCY_INGEST_KEY is not configured');
+      return NextResponse.json(
+        { error: 'Occupancy ingestion is not configured' },
+        { status: 503 }
+      );
+    }
+
+    const authHeader = request.headers.get('authorization');
+    if (authHeader !== `Bearer ${ingestKey}`) {
+      return NextResponse.json(
+        { error: 'Invalid ingestion key' },
+        { status: 401 }
+      );
+    }
+
+    // Validate the payload before touching the database (malformed JSON is a 400 too)
+    const parsed = ingestRequestSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid event payload', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { events } = parsed.data;
+    const supabaseAdmin = getSupabaseAdmin();
+
+    // Insert events in chronological order so the trigger applies them in sequence
+    // (events without a timestamp are stamped "now" by the database)
+    const receivedAt = Date.now();
+    const rows = [...events]
+      .sort((a, b) =>
+        (a.recorded_at ? new Date(a.recorded_at).getTime() : receivedAt) -
+        (b.recorded_at ? new Date(b.recorded_at).getTime() : receivedAt)
+      )
+      .map((event) => ({
+        zone_id: event.zone_id,
+        direction: event.direction,
+        count: event.count,
+        sensor_id: event.sensor_id ?? null,
+        ...(event.recorded_at ? { recorded_at: event.recorded_at } : {}),
+      }));
+
+    const { error: insertError } = await supabaseAdmin
+      .from('occupancy_events')
+      .insert(rows);
+
+    if (insertError) {
+      console.error('Supabase error:', insertError);
+      return NextResponse.json(
+        { error: insertError.message },
+        { status: 400 }
+      );
+    }
+
+    // Return the updated live counts for the zones touched by this batch
+    const zoneIds = [...new Set(events.map((event) => event.zone_id))];
+    const { data: zones, error: countsError } = await supabaseAdmin
+      .from('zone_occupancy')
+      .select('zone_id, current_count, updated_at')
+      .in('zone_id', zoneIds);
+
+    if (countsError) {
+      console.error('Supabase error:', countsError);
+      return NextResponse.json(
+        { error: countsError.message },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ accepted: rows.length, zones });
+  } catch (error) {
+    console.error('Server error:', error);
+    return NextResponse.json(
+      { error: 'Failed to ingest occupancy events' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOccupancyBacktest } from '@/app/occupancy/services/occupancyService';
+
+// Longest forecast horizon the backtest will score
+const MAX_HORIZON_HOURS = 24;
+
+export async function GET(request: NextRequest) {
+  try {
+    const horizonParam = request.nextUrl.searchParams.get('horizon');
+    const horizon = horizonParam ? parseInt(horizonParam, 10) : 1;
+
+    if (Number.isNaN(horizon) || horizon < 1 || horizon > MAX_HORIZON_HOURS) {
+      return NextResponse.json(
+        { error: `horizon must be between 1 and ${MAX_HORIZON_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    // Scores forecasts for the most recent week against what actually happened
+    const report = await getOccupancyBacktest(horizon);
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error('Server error:', error);
+    return NextResponse.json(
+      { error: 'Failed to run occupancy forecast backtest' },
+      { status: 500 }
+    );
+  }
+}
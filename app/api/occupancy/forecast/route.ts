@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getOccupancyForecast } from '@/app/occupancy/services/occupancyService';
+
+// Longest forecast horizon the API will compute
+const MAX_FORECAST_HOURS = 48;
+
+export async function GET(request: NextRequest) {
+  try {
+    const hoursParam = request.nextUrl.searchParams.get('hours');
+    const hours = hoursParam ? parseInt(hoursParam, 10) : 12;
+
+    if (Number.isNaN(hours) || hours < 1 || hours > MAX_FORECAST_HOURS) {
+      return NextResponse.json(
+        { error: `hours must be between 1 and ${MAX_FORECAST_HOURS}` },
+        { status: 400 }
+      );
+    }
+
+    const forecast = await getOccupancyForecast(hours);
+    return NextResponse.json(forecast);
+  } catch (error) {
+    console.error('Server error:', error);
+    return NextResponse.json(
+      { error: 'Failed to compute occupancy forecast' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,45 +1,44 @@
 import { NextResponse } from 'next/server'
-import { supabase } from '@/lib/supabase'
+import { withAuth } from '@/lib/supabase-server'
+import { DEFAULT_ROLE } from '@/lib/authz'
 
-export async function POST(request: Request) {
+// Creates the signed-in caller's profile; the user comes from their session,
+// never from the request body
+export const POST = withAuth('authenticated', async (request, caller) => {
   try {
-    const { userId } = await request.json()
-    
-    if (!userId) {
-      return NextResponse.json({ error: 'User ID is required' }, { status: 400 })
-    }
-    
+    const userId = caller.user.id
+
     // Check if profile already exists
-    const { data: existingProfile } = await supabase
+    const { data: existingProfile } = await caller.client
       .from('profiles')
       .select('id')
       .eq('id', userId)
       .single()
-    
+
     if (existingProfile) {
       // Profile already exists
       return NextResponse.json({ success: true, message: 'Profile already exists' })
     }
-    
+
     // Create new profile
-    const { data, error } = await supabase
+    const { data, error } = await caller.client
       .from('profiles')
       .insert({
         id: userId,
         name: '',
         avatar_url: '',
-        role: 'student',
+        role: DEFAULT_ROLE,
         created_at: new Date().toISOString()
       })
       .select()
-    
+
     if (error) {
       return NextResponse.json({ error: error.message }, { status: 500 })
     }
-    
+
     return NextResponse.json({ success: true, data })
   } catch (error) {
     console.error('Error creating profile:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-} 
\ No newline at end of file
+})
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import { authorizeRequest } from '@/lib/supabase-server';
+import { STAFF_ROLES } from '@/lib/authz';
+import { buildReport, RESERVATION_REPORTS } from '@/app/analytics/services/exportService';
+import { CONTENT_TYPES, toCsv, toPdf, toXlsx } from '@/app/analytics/utils/reportFormats';
+
+// Longest date range a single export may cover
+const MAX_RANGE_DAYS = 366;
+
+const day = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected yyyy-MM-dd');
+
+const exportQuerySchema = z.object({
+  report: z.enum(['occupancy-hourly', 'occupancy-daily', 'reservations', 'utilization']),
+  format: z.enum(['csv', 'xlsx', 'pdf']),
+  from: day,
+  to: day,
+  roomId: z.coerce.number().int().positive().optional(),
+}).refine(
+  ({ from, to }) => {
+    const days = differenceInCalendarDays(parseISO(to), parseISO(from));
+    return days >= 0 && days < MAX_RANGE_DAYS;
+  },
+  { message: `from must be on or before to, at most ${MAX_RANGE_DAYS} days apart`, path: ['to'] }
+);
+
+export async function GET(request: NextRequest) {
+  try {
+    const parsed = exportQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Invalid export request', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { report, format, from, to, roomId } = parsed.data;
+
+    // Occupancy history is public; reservation reports are for library staff
+    let client;
+    if (RESERVATION_REPORTS.includes(report)) {
+      // Matches the reservations RLS policy for reading every booking
+      const { caller, response } = await authorizeRequest(request, STAFF_ROLES);
+      if (response) {
+        return response;
+      }
+      client = caller.client;
+    }
+
+    const table = await buildReport(report, { from, to, roomId: roomId ?? null }, client);
+
+    const body = format === 'csv'
+      ? toCsv(table)
+      : format === 'xlsx'
+        ? await toXlsx(table)
+        : await toPdf(table);
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${report}_${from}_${to}.${format}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    return NextResponse.json(
+      { error: 'Failed to export report' },
+      { status: 500 }
+    );
+  }
+}
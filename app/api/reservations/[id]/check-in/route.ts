@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/supabase-server';
+import { mapDatabaseError, reservationError } from '@/lib/reservations-server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const reservationIdSchema = z.string().uuid();
+
+/**
+ * POST /api/reservations/[id]/check-in
+ * Checks the caller in to a booking that is about to start or running
+ * (check_in_reservation). Checking in twice is not an error.
+ */
+export const POST = withAuth('authenticated', async (request, caller, { params }: RouteContext) => {
+  try {
+    const id = reservationIdSchema.safeParse((await params).id);
+    if (!id.success) {
+      return reservationError('NOT_FOUND', 'Reservation not found');
+    }
+
+    const { data, error } = await caller.client.rpc('check_in_reservation', {
+      p_reservation_id: id.data,
+    });
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+    if (data?.checkInError) {
+      return mapDatabaseError({ message: data.checkInError });
+    }
+
+    const { data: reservation, error: fetchError } = await caller.client
+      .from('reservations')
+      .select('checked_in_at')
+      .eq('id', id.data)
+      .single();
+
+    if (fetchError) {
+      return mapDatabaseError(fetchError);
+    }
+
+    return NextResponse.json({ checkedInAt: reservation.checked_in_at });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to check in');
+  }
+});
@@ -0,0 +1,148 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/supabase-server';
+import {
+  mapDatabaseError,
+  modifyReservationSchema,
+  reservationError,
+  validateBookingTimes,
+} from '@/lib/reservations-server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const reservationIdSchema = z.string().uuid();
+
+/**
+ * PATCH /api/reservations/[id]
+ * Changes any of an upcoming booking's room, time range, agenda and
+ * number of people. The change is atomic (modify_reservation): if the
+ * new room or time is taken the booking is left untouched.
+ */
+export const PATCH = withAuth('authenticated', async (request, caller, { params }: RouteContext) => {
+  try {
+    const id = reservationIdSchema.safeParse((await params).id);
+    if (!id.success) {
+      return reservationError('NOT_FOUND', 'Reservation not found');
+    }
+
+    const parsed = modifyReservationSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid reservation change', parsed.error.flatten());
+    }
+
+    const { roomId, agenda, numPeople } = parsed.data;
+    const startTime = parsed.data.startTime ? new Date(parsed.data.startTime) : undefined;
+    const endTime = parsed.data.endTime ? new Date(parsed.data.endTime) : undefined;
+
+    // The booking horizon (reservation_policy) is checked by
+    // modify_reservation, which exempts series occurrences
+    if (startTime && endTime) {
+      const timeError = validateBookingTimes(startTime, endTime);
+      if (timeError) {
+        return timeError;
+      }
+    }
+
+    // Capacity, overlap and quota are checked by the database function
+    // against the booking's merged old and new values
+    const { data: reservation, error } = await caller.client.rpc('modify_reservation', {
+      p_reservation_id: id.data,
+      p_room_id: roomId,
+      p_start_time: startTime?.toISOString(),
+      p_end_time: endTime?.toISOString(),
+      p_agenda: agenda,
+      p_num_people: numPeople,
+    });
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    const { data: room } = await caller.client
+      .from('rooms')
+      .select('name')
+      .eq('id', reservation.room_id)
+      .maybeSingle();
+
+    return NextResponse.json({
+      reservation: { ...reservation, room_name: room?.name || 'Unknown Room' },
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to change reservation');
+  }
+});
+
+/**
+ * DELETE /api/reservations/[id]
+ * Cancels a booking (status 'cancelled', the row is kept for history).
+ * With ?scope=series, cancels every upcoming booking in its series.
+ */
+export const DELETE = withAuth('authenticated', async (request, caller, { params }: RouteContext) => {
+  try {
+    const id = reservationIdSchema.safeParse((await params).id);
+    if (!id.success) {
+      return reservationError('NOT_FOUND', 'Reservation not found');
+    }
+
+    const email = caller.user.email!;
+    const cancelSeries = request.nextUrl.searchParams.get('scope') === 'series';
+
+    const { data: reservation, error: fetchError } = await caller.client
+      .from('reservations')
+      .select('id, status, series_id')
+      .eq('id', id.data)
+      .eq('user_email', email)
+      .maybeSingle();
+
+    if (fetchError) {
+      return mapDatabaseError(fetchError);
+    }
+    if (!reservation) {
+      return reservationError('NOT_FOUND', 'Reservation not found');
+    }
+
+    if (cancelSeries) {
+      if (!reservation.series_id) {
+        return reservationError('INVALID_REQUEST', 'This reservation is not part of a series');
+      }
+
+      // Dates that have already started keep their history
+      const { data, error } = await caller.client
+        .from('reservations')
+        .update({ status: 'cancelled' })
+        .eq('series_id', reservation.series_id)
+        .eq('user_email', email)
+        .eq('status', 'confirmed')
+        .gt('start_time', new Date().toISOString())
+        .select('id');
+
+      if (error) {
+        return mapDatabaseError(error);
+      }
+
+      return NextResponse.json({ cancelled: data?.map(row => row.id) || [] });
+    }
+
+    if (reservation.status !== 'confirmed' && reservation.status !== 'pending') {
+      return reservationError('NOT_MODIFIABLE', 'This reservation is no longer active');
+    }
+
+    const { error } = await caller.client
+      .from('reservations')
+      .update({ status: 'cancelled' })
+      .eq('id', reservation.id)
+      .eq('user_email', email);
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    return NextResponse.json({ cancelled: [reservation.id] });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to cancel reservation');
+  }
+});
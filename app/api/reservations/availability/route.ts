@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase-server';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { bangkokSlotToDate } from '@/lib/logic/reservations';
+import { availabilityQuerySchema, mapDatabaseError, reservationError } from '@/lib/reservations-server';
+
+/**
+ * GET /api/reservations/availability?roomId=&date=yyyy-MM-dd
+ * Busy time ranges in a room on a Bangkok day: confirmed bookings, live
+ * holds and maintenance windows. RLS hides other users' holds from the
+ * browser, so this reads with the service role and returns only the times.
+ */
+export const GET = withAuth('authenticated', async (request, caller) => {
+  try {
+    const parsed = availabilityQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid availability request', parsed.error.flatten());
+    }
+
+    const { roomId, date } = parsed.data;
+    const dayStart = bangkokSlotToDate(`${date}T00:00:00`);
+    const dayEnd = bangkokSlotToDate(`${date}T23:59:59.999`);
+
+    const [bookings, maintenance] = await Promise.all([
+      getSupabaseAdmin()
+        .from('reservations')
+        .select('start_time, end_time')
+        .eq('room_id', roomId)
+        .or(`status.eq.confirmed,and(status.eq.pending,hold_expiry.gt.${new Date().toISOString()})`)
+        .lt('start_time', dayEnd.toISOString())
+        .gt('end_time', dayStart.toISOString()),
+      caller.client
+        .from('room_maintenance_windows')
+        .select('start_time, end_time')
+        .eq('room_id', roomId)
+        .lt('start_time', dayEnd.toISOString())
+        .gt('end_time', dayStart.toISOString()),
+    ]);
+
+    const busyError = bookings.error ?? maintenance.error;
+    if (busyError) {
+      return mapDatabaseError(busyError);
+    }
+
+    const busy = [...(bookings.data || []), ...(maintenance.data || [])]
+      .sort((a, b) => a.start_time.localeCompare(b.start_time));
+
+    return NextResponse.json({ roomId, date, busy });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to load availability');
+  }
+});
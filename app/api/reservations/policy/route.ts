@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase-server';
+import { mapDatabaseError, reservationError } from '@/lib/reservations-server';
+
+/**
+ * GET /api/reservations/policy
+ * The check-in, no-show and booking horizon settings (reservation_policy)
+ * and the end of the caller's active booking block, or null when they may
+ * book
+ */
+export const GET = withAuth('authenticated', async (request, caller) => {
+  try {
+    const [policyResult, blockResult] = await Promise.all([
+      caller.client.from('reservation_policy').select('*').maybeSingle(),
+      caller.client
+        .from('booking_blocks')
+        .select('blocked_until')
+        .eq('user_email', caller.user.email!)
+        .gt('blocked_until', new Date().toISOString())
+        .order('blocked_until', { ascending: false })
+        .limit(1),
+    ]);
+
+    if (policyResult.error) {
+      return mapDatabaseError(policyResult.error);
+    }
+    if (blockResult.error) {
+      return mapDatabaseError(blockResult.error);
+    }
+
+    return NextResponse.json({
+      policy: policyResult.data,
+      blockedUntil: blockResult.data?.[0]?.blocked_until ?? null,
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to load the booking policy');
+  }
+});
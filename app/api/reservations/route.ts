@@ -1,63 +1,132 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { createClient } from '@supabase/supabase-js';
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase-server';
+import { bangkokSlotToDate, getBangkokToday } from '@/lib/logic/reservations';
+import {
+  createReservationSchema,
+  mapDatabaseError,
+  reservationError,
+  validateBookingTimes,
+} from '@/lib/reservations-server';
 
-// Supabase URL and anon key
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
-const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
-
-export async function POST(request: NextRequest) {
+/**
+ * GET /api/reservations
+ * Lists the caller's confirmed reservations from today (Bangkok) onwards,
+ * with room names and series frequency
+ */
+export const GET = withAuth('authenticated', async (request, caller) => {
   try {
-    // Create a standard Supabase client for the current request
-    // This will include the user's session cookie automatically
-    const supabaseClient = createClient(
-      supabaseUrl,
-      supabaseAnonKey,
-      {
-        cookies: {
-          get: (name: string) => request.cookies.get(name)?.value,
-        },
-      } as any // Type assertion needed for cookies option
-    );
+    const todayStart = bangkokSlotToDate(`${getBangkokToday()}T00:00:00`);
 
-    // Get user session from Supabase Auth
-    const { data: { session } } = await supabaseClient.auth.getSession();
-    
-    if (!session?.user?.email) {
-      return NextResponse.json(
-        { error: 'You must be signed in to create a reservation' },
-        { status: 401 }
-      );
-    }
-    
-    // Extract reservation data from request
-    const reservationData = await request.json();
-    
-    // Add user_email from session
-    const completeReservationData = {
-      ...reservationData,
-      user_email: session.user.email,
-    };
-    
-    // Use the client with the user's session - RLS will work correctly
-    const { data, error } = await supabaseClient
+    const { data, error } = await caller.client
       .from('reservations')
-      .insert(completeReservationData)
-      .select();
-    
+      .select('*, rooms(name), reservation_series(frequency)')
+      .eq('user_email', caller.user.email!)
+      .eq('status', 'confirmed')
+      .gte('start_time', todayStart.toISOString())
+      .order('start_time');
+
     if (error) {
-      console.error('Supabase error:', error);
-      return NextResponse.json(
-        { error: error.message },
-        { status: 400 }
-      );
-    }
-    
-    return NextResponse.json(data);
+      return mapDatabaseError(error);
+    }
+
+    const reservations = (data || []).map(({ rooms, reservation_series, ...reservation }) => ({
+      ...reservation,
+      room_name: rooms?.name || 'Unknown Room',
+      series_frequency: reservation_series?.frequency ?? null,
+    }));
+
+    return NextResponse.json({ reservations });
   } catch (error) {
     console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to load reservations');
+  }
+});
+
+/**
+ * POST /api/reservations
+ * Books a room: validates the request, checks capacity, then places and
+ * confirms a hold (create_reservation_with_hold + confirm_reservation)
+ */
+export const POST = withAuth('authenticated', async (request, caller) => {
+  try {
+    const parsed = createReservationSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid reservation request', parsed.error.flatten());
+    }
+
+    const { roomId, agenda, numPeople } = parsed.data;
+    const startTime = new Date(parsed.data.startTime);
+    const endTime = new Date(parsed.data.endTime);
+
+    const timeError = validateBookingTimes(startTime, endTime);
+    if (timeError) {
+      return timeError;
+    }
+
+    const { data: room, error: roomError } = await caller.client
+      .from('rooms')
+      .select('id, name, capacity')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (roomError) {
+      return mapDatabaseError(roomError);
+    }
+    if (!room) {
+      return reservationError('ROOM_NOT_FOUND', 'Room not found');
+    }
+    if (numPeople > room.capacity) {
+      return reservationError('OVER_CAPACITY', `The room capacity is ${room.capacity} people`);
+    }
+
+    // The database functions run the horizon, overlap, quota and booking-block checks
+    const { data: reservationId, error: holdError } = await caller.client.rpc('create_reservation_with_hold', {
+      p_room_id: roomId,
+      p_start_time: startTime.toISOString(),
+      p_end_time: endTime.toISOString(),
+      p_agenda: agenda,
+      p_num_people: numPeople,
+    });
+
+    if (holdError) {
+      return mapDatabaseError(holdError);
+    }
+
+    const { data: confirmResult, error: confirmError } = await caller.client.rpc('confirm_reservation', {
+      p_reservation_id: reservationId,
+    });
+
+    if (confirmError || confirmResult?.confirmError) {
+      // Release the hold now instead of leaving the slot blocked until it expires
+      const { error: releaseError } = await caller.client
+        .from('reservations')
+        .update({ status: 'cancelled' })
+        .eq('id', reservationId)
+        .eq('status', 'pending');
+
+      if (releaseError) {
+        console.error('Failed to release reservation hold:', releaseError);
+      }
+
+      return mapDatabaseError(confirmError ?? { message: confirmResult.confirmError });
+    }
+
+    const { data: reservation, error: fetchError } = await caller.client
+      .from('reservations')
+      .select('*')
+      .eq('id', reservationId)
+      .single();
+
+    if (fetchError) {
+      return mapDatabaseError(fetchError);
+    }
+
     return NextResponse.json(
-      { error: 'Failed to create reservation' },
-      { status: 500 }
+      { reservation: { ...reservation, room_name: room.name } },
+      { status: 201 }
     );
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to create reservation');
   }
-} 
\ No newline at end of file
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase-server';
+import {
+  mapDatabaseError,
+  reservationError,
+  seriesRuleSchema,
+  toSeriesArgs,
+} from '@/lib/reservations-server';
+
+/**
+ * POST /api/reservations/series/preview
+ * Lists the dates a recurrence rule would book and which of them are
+ * already taken (preview_reservation_series), without booking anything
+ */
+export const POST = withAuth('authenticated', async (request, caller) => {
+  try {
+    const parsed = seriesRuleSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid recurrence rule', parsed.error.flatten());
+    }
+
+    const { data, error } = await caller.client.rpc('preview_reservation_series', toSeriesArgs(parsed.data));
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    return NextResponse.json({ occurrences: data || [] });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to check availability');
+  }
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase-server';
+import {
+  createSeriesSchema,
+  mapDatabaseError,
+  reservationError,
+  toSeriesArgs,
+} from '@/lib/reservations-server';
+
+/**
+ * POST /api/reservations/series
+ * Books every free date of a recurring booking in one transaction
+ * (create_reservation_series) and skips the dates already taken. The
+ * function checks capacity, opening hours and slots for each date (a
+ * series may run past the single-booking horizon); quotas and booking
+ * blocks are enforced on insert.
+ */
+export const POST = withAuth('authenticated', async (request, caller) => {
+  try {
+    const parsed = createSeriesSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid recurring reservation request', parsed.error.flatten());
+    }
+
+    const { data, error } = await caller.client.rpc('create_reservation_series', {
+      ...toSeriesArgs(parsed.data),
+      p_agenda: parsed.data.agenda,
+      p_num_people: parsed.data.numPeople,
+    });
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    return NextResponse.json(data, { status: 201 });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to create recurring reservation');
+  }
+});
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/supabase-server';
+import { mapDatabaseError, reservationError } from '@/lib/reservations-server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const entryIdSchema = z.string().uuid();
+
+/**
+ * POST /api/reservations/waitlist/[id]/confirm
+ * Confirms the hold offered for a waitlist entry, with the same
+ * confirm_reservation call as POST /api/reservations
+ */
+export const POST = withAuth('authenticated', async (request, caller, { params }: RouteContext) => {
+  try {
+    const id = entryIdSchema.safeParse((await params).id);
+    if (!id.success) {
+      return reservationError('NOT_FOUND', 'Waitlist entry not found');
+    }
+
+    const { data: entry, error: entryError } = await caller.client
+      .from('reservation_waitlist')
+      .select('status, reservation_id')
+      .eq('id', id.data)
+      .eq('user_email', caller.user.email!)
+      .maybeSingle();
+
+    if (entryError) {
+      return mapDatabaseError(entryError);
+    }
+    if (!entry) {
+      return reservationError('NOT_FOUND', 'Waitlist entry not found');
+    }
+    if (entry.status !== 'offered' || !entry.reservation_id) {
+      return reservationError('NOT_MODIFIABLE', 'No time slot has been offered for this entry');
+    }
+
+    const { data: confirmResult, error: confirmError } = await caller.client.rpc('confirm_reservation', {
+      p_reservation_id: entry.reservation_id,
+    });
+
+    if (confirmError) {
+      return mapDatabaseError(confirmError);
+    }
+    if (confirmResult?.confirmError) {
+      return mapDatabaseError({ message: confirmResult.confirmError });
+    }
+
+    return NextResponse.json({ reservationId: entry.reservation_id });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to confirm the reservation');
+  }
+});
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { withAuth } from '@/lib/supabase-server';
+import { mapDatabaseError, reservationError } from '@/lib/reservations-server';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const entryIdSchema = z.string().uuid();
+
+/**
+ * DELETE /api/reservations/waitlist/[id]
+ * Leaves the waitlist (leave_reservation_waitlist); an outstanding offer
+ * is passed on to the next person in line
+ */
+export const DELETE = withAuth('authenticated', async (request, caller, { params }: RouteContext) => {
+  try {
+    const id = entryIdSchema.safeParse((await params).id);
+    if (!id.success) {
+      return reservationError('NOT_FOUND', 'Waitlist entry not found');
+    }
+
+    const { error } = await caller.client.rpc('leave_reservation_waitlist', { p_entry_id: id.data });
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    return NextResponse.json({ left: id.data });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to leave the waitlist');
+  }
+});
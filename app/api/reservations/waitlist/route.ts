@@ -0,0 +1,70 @@
+import { NextResponse } from 'next/server';
+import { withAuth } from '@/lib/supabase-server';
+import {
+  joinWaitlistSchema,
+  mapDatabaseError,
+  reservationError,
+} from '@/lib/reservations-server';
+
+/**
+ * GET /api/reservations/waitlist
+ * Lists the caller's waiting and offered entries for ranges that have
+ * not ended, with room names and the expiry of any offered hold
+ */
+export const GET = withAuth('authenticated', async (request, caller) => {
+  try {
+    const { data, error } = await caller.client
+      .from('reservation_waitlist')
+      .select('*, rooms(name), reservations(hold_expiry)')
+      .eq('user_email', caller.user.email!)
+      .in('status', ['waiting', 'offered'])
+      .gt('end_time', new Date().toISOString())
+      .order('start_time');
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    const entries = (data || []).map(({ rooms, reservations, ...entry }) => ({
+      ...entry,
+      room_name: rooms?.name || 'Unknown Room',
+      hold_expiry: reservations?.hold_expiry ?? null,
+    }));
+
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to load the waitlist');
+  }
+});
+
+/**
+ * POST /api/reservations/waitlist
+ * Queues the caller for a booked time range (join_reservation_waitlist).
+ * If the booking is released they are offered a hold to confirm.
+ */
+export const POST = withAuth('authenticated', async (request, caller) => {
+  try {
+    const parsed = joinWaitlistSchema.safeParse(await request.json().catch(() => null));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid waitlist request', parsed.error.flatten());
+    }
+
+    const { data: entryId, error } = await caller.client.rpc('join_reservation_waitlist', {
+      p_room_id: parsed.data.roomId,
+      p_start_time: parsed.data.startTime,
+      p_end_time: parsed.data.endTime,
+      p_agenda: parsed.data.agenda,
+      p_num_people: parsed.data.numPeople,
+    });
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    return NextResponse.json({ id: entryId }, { status: 201 });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to join the waitlist');
+  }
+});
@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { addMinutes } from 'date-fns';
+import { withAuth } from '@/lib/supabase-server';
+import { getSupabaseAdmin } from '@/lib/supabase-admin';
+import { rankRoomsForParty } from '@/lib/logic/reservations';
+import { mapDatabaseError, reservationError, roomSearchQuerySchema } from '@/lib/reservations-server';
+
+/**
+ * GET /api/rooms/search
+ * Rooms matching a party size, amenities and location, optionally free
+ * for the next N minutes (freeForMinutes) or a range (freeFrom/freeTo).
+ * Results are ranked so the smallest room that fits comes first.
+ */
+export const GET = withAuth('authenticated', async (request, caller) => {
+  try {
+    const parsed = roomSearchQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+    if (!parsed.success) {
+      return reservationError('INVALID_REQUEST', 'Invalid room search', parsed.error.flatten());
+    }
+
+    const { partySize, amenities, location, freeForMinutes, freeFrom, freeTo } = parsed.data;
+
+    let query = caller.client
+      .from('rooms')
+      .select('*, room_amenities(amenity_id)')
+      .eq('is_active', true);
+
+    if (partySize) {
+      query = query.gte('capacity', partySize);
+    }
+    if (location) {
+      query = query.ilike('location', `%${location}%`);
+    }
+
+    const { data: rooms, error } = await query;
+
+    if (error) {
+      return mapDatabaseError(error);
+    }
+
+    // Availability window, if one was asked for
+    const now = new Date();
+    const from = freeFrom ? new Date(freeFrom) : freeForMinutes ? now : null;
+    const to = freeTo ? new Date(freeTo) : freeForMinutes ? addMinutes(now, freeForMinutes) : null;
+
+    // Rooms must have every requested amenity
+    let candidates = (rooms || [])
+      .map(({ room_amenities, ...room }) => ({
+        ...room,
+        amenity_ids: (room_amenities || []).map((amenity: { amenity_id: string }) => amenity.amenity_id),
+      }))
+      .filter(room => amenities.every(amenity => room.amenity_ids.includes(amenity)));
+
+    if (from && to && candidates.length > 0) {
+      const candidateIds = candidates.map(room => room.id);
+
+      // Other users' holds are hidden by RLS, so busy rooms are read with the service role
+      const [bookings, maintenance] = await Promise.all([
+        getSupabaseAdmin()
+          .from('reservations')
+          .select('room_id')
+          .in('room_id', candidateIds)
+          .or(`status.eq.confirmed,and(status.eq.pending,hold_expiry.gt.${now.toISOString()})`)
+          .lt('start_time', to.toISOString())
+          .gt('end_time', from.toISOString()),
+        caller.client
+          .from('room_maintenance_windows')
+          .select('room_id')
+          .in('room_id', candidateIds)
+          .lt('start_time', to.toISOString())
+          .gt('end_time', from.toISOString()),
+      ]);
+
+      const busyError = bookings.error ?? maintenance.error;
+      if (busyError) {
+        return mapDatabaseError(busyError);
+      }
+
+      const busyRoomIds = new Set(
+        [...(bookings.data || []), ...(maintenance.data || [])].map(busy => busy.room_id)
+      );
+      candidates = candidates.filter(room => !busyRoomIds.has(room.id));
+    }
+
+    return NextResponse.json({
+      rooms: rankRoomsForParty(candidates, partySize),
+      window: from && to ? { from: from.toISOString(), to: to.toISOString() } : null,
+    });
+  } catch (error) {
+    console.error('Server error:', error);
+    return reservationError('SERVER_ERROR', 'Failed to search rooms');
+  }
+});
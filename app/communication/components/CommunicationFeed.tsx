@@ -17,6 +17,13 @@
  * - Uses useCommunication hook to access and modify data
  * - Receives real-time updates through Supabase subscriptions
  * - Handles filtering and post interaction (like, reply)
+ * - Loads older posts as the end of the feed scrolls into view
+ * - Shows a "N new posts" banner rather than inserting posts above the
+ *   ones being read
+ * - Shows the notification bell; opening a notification scrolls to the
+ *   post and opens its replies, if the post is loaded
+ * - While a search is active, shows the search results instead of the
+ *   latest posts
  * - Manages loading and empty states
  * 
  * KEY DEPENDENCIES:
@@ -24,58 +31,205 @@
  * - PostCard for rendering individual posts
  * - FilterBar for post filtering
  * - CreatePost for post creation
+ * - useNotifications and NotificationBell for reply notifications
+ * - useSearch, SearchBar and SearchResults for search
  */
 
+import { useCallback, useEffect, useRef, useState } from "react";
+import { toast } from "sonner";
 import CreatePost from "./CreatePost";
 import PostCard from "./PostCard";
 import FilterBar from "./FilterBar";
+import NotificationBell from "./NotificationBell";
+import SearchBar from "./SearchBar";
+import SearchResults from "./SearchResults";
 import { useCommunication } from "../hooks/useCommunication";
+import { useNotifications } from "../hooks/useNotifications";
+import { useSearch } from "../hooks/useSearch";
+import { ReplyNotification } from "../types/communicationTypes";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
-import { RefreshCw } from "lucide-react";
+import { ArrowUp, RefreshCw } from "lucide-react";
 
 export default function CommunicationFeed() {
   // Get communication data and functions from our custom hook
   const { 
     posts, 
+    newPostCount,
+    warnings,
+    postingBan,
+    zones,
     topics,
     loading, 
+    loadingMore,
+    hasMorePosts,
     error, 
     filter, 
     setFilter,
     toggleLike,
+    loadReplies,
     addReply,
+    searchMentions,
+    reportPost,
+    dismissWarning,
     deletePost,
     currentUser,
-    refreshPosts
+    isSubmitting,
+    createPost,
+    refreshPosts,
+    loadMorePosts
   } = useCommunication();
 
+  const { notifications, unreadCount, markRead, markAllRead } = useNotifications();
+  const {
+    activeSearch,
+    results: searchResults,
+    searching,
+    loadingMore: loadingMoreResults,
+    hasMore: hasMoreResults,
+    error: searchError,
+    search,
+    loadMore: loadMoreResults,
+    clearSearch
+  } = useSearch();
+
+  // Post to scroll to and open, from a notification
+  const [focusedPostId, setFocusedPostId] = useState<string | null>(null);
+  const clearFocusedPost = useCallback(() => setFocusedPostId(null), []);
+
+  /**
+   * Mark a notification read and show its thread
+   */
+  const openNotification = (notification: ReplyNotification) => {
+    markRead(notification.id);
+
+    if (posts.some((post) => post.id === notification.postId)) {
+      clearSearch();
+      setFocusedPostId(notification.postId);
+    } else {
+      toast.info("That post is not loaded in the feed. It may have expired, or be further down or outside the current filter.");
+    }
+  };
+
+  /**
+   * Load the new posts and scroll back up to them
+   */
+  const showNewPosts = async () => {
+    await refreshPosts();
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  // Sentinel below the last post; loads the next page when it comes into view
+  // (re-observed when the feed is shown again after a search)
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasMorePosts) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) {
+          loadMorePosts();
+        }
+      },
+      { rootMargin: "400px" }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMorePosts, loadMorePosts, activeSearch]);
+
   return (
     <div className="w-full mx-auto md:max-w-2xl">
+      {/* Moderation notices */}
+      {postingBan && (
+        <div className="bg-amber-50 text-amber-800 p-4 rounded-lg mb-4 text-sm">
+          You cannot post or reply until {new Date(postingBan.endsAt).toLocaleString()}.
+          <span className="block mt-1 text-amber-700">Reason: {postingBan.reason}</span>
+        </div>
+      )}
+      {warnings.map((warning) => (
+        <div key={warning.id} className="bg-amber-50 text-amber-800 p-4 rounded-lg mb-4 text-sm">
+          <p className="font-medium">A moderator has sent you a warning</p>
+          <p className="mt-1">{warning.message}</p>
+          <button
+            className="underline mt-2"
+            onClick={() => dismissWarning(warning.id)}
+          >
+            Got it
+          </button>
+        </div>
+      ))}
+
       {/* Post creation form */}
-      <CreatePost />
+      <CreatePost
+        createPost={createPost}
+        currentUser={currentUser}
+        isSubmitting={isSubmitting}
+      />
+
+      {/* Search */}
+      <div className="mt-6">
+        <SearchBar
+          zones={zones}
+          activeSearch={activeSearch}
+          onSearch={search}
+          onClear={clearSearch}
+        />
+      </div>
 
       {/* Filtering options and refresh button */}
       <div className="my-6 flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3">
         <div className="w-full sm:w-auto">
-          <FilterBar 
-            topics={topics}
-            currentFilter={filter} 
-            onFilterChange={setFilter} 
-          />
+          {activeSearch ? (
+            <p className="text-sm text-gray-600">
+              Search results for &ldquo;{activeSearch.query}&rdquo;
+            </p>
+          ) : (
+            <FilterBar 
+              topics={topics}
+              currentFilter={filter} 
+              onFilterChange={setFilter} 
+            />
+          )}
+        </div>
+        <div className="flex items-center gap-2 self-end sm:self-auto">
+          {currentUser && (
+            <NotificationBell
+              notifications={notifications}
+              unreadCount={unreadCount}
+              onOpen={openNotification}
+              onMarkAllRead={markAllRead}
+            />
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={refreshPosts}
+            disabled={loading}
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
         </div>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={refreshPosts}
-          disabled={loading}
-          className="flex items-center gap-2 self-end sm:self-auto"
-        >
-          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-          Refresh
-        </Button>
       </div>
 
+      {/* New posts banner */}
+      {!activeSearch && newPostCount > 0 && (
+        <div className="sticky top-4 z-10 flex justify-center mb-4">
+          <Button
+            size="sm"
+            onClick={showNewPosts}
+            className="rounded-full shadow-md flex items-center gap-2"
+          >
+            <ArrowUp className="w-4 h-4" />
+            {newPostCount} new {newPostCount === 1 ? "post" : "posts"}
+          </Button>
+        </div>
+      )}
+
       {/* Error state */}
       {error && (
         <div className="bg-red-50 text-red-500 p-4 rounded-lg mb-6">
@@ -89,8 +243,27 @@ export default function CommunicationFeed() {
         </div>
       )}
 
+      {/* Search results */}
+      {activeSearch && (
+        <>
+          {searchError && (
+            <div className="bg-red-50 text-red-500 p-4 rounded-lg mb-6">
+              <p>{searchError}</p>
+            </div>
+          )}
+          <SearchResults
+            query={activeSearch.query}
+            results={searchResults}
+            searching={searching}
+            loadingMore={loadingMoreResults}
+            hasMore={hasMoreResults}
+            onLoadMore={loadMoreResults}
+          />
+        </>
+      )}
+
       {/* Loading state */}
-      {loading && (
+      {!activeSearch && loading && (
         <div className="space-y-6">
           {[1, 2, 3].map((i) => (
             <div key={i} className="bg-white p-4 rounded-lg border shadow-sm">
@@ -112,7 +285,7 @@ export default function CommunicationFeed() {
       )}
 
       {/* Post feed */}
-      {!loading && (
+      {!activeSearch && !loading && (
         <div className="space-y-6">
           {posts.length === 0 ? (
             <div className="text-center p-8 bg-gray-50 rounded-lg">
@@ -137,11 +310,32 @@ export default function CommunicationFeed() {
                 key={post.id}
                 post={post}
                 onLike={() => toggleLike(post.id)}
-                onAddReply={(content) => addReply(post.id, content)}
+                onLoadReplies={() => loadReplies(post.id)}
+                onAddReply={(content, parentId) => addReply(post.id, content, parentId)}
+                onSearchMentions={searchMentions}
+                onReport={currentUser && post.user.id !== currentUser.id
+                  ? (category, details) => reportPost(post.id, category, details)
+                  : undefined}
                 onDelete={currentUser && post.user.id === currentUser.id ? () => deletePost(post.id) : undefined}
+                focused={post.id === focusedPostId}
+                onFocused={clearFocusedPost}
               />
             ))
           )}
+
+          {/* Infinite scroll: the button is a fallback if the observer does not fire */}
+          {hasMorePosts && (
+            <div ref={loadMoreRef} className="flex justify-center">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={loadMorePosts}
+                disabled={loadingMore}
+              >
+                {loadingMore ? "Loading..." : "Load older posts"}
+              </Button>
+            </div>
+          )}
         </div>
       )}
     </div>
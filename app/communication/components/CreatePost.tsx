@@ -15,12 +15,12 @@
  * 
  * DATA FLOW:
  * - Captures user input from form elements
- * - Uses useCommunication hook to submit post to database
+ * - Submits the post through the feed's useCommunication (passed as props,
+ *   so the page keeps a single feed and realtime subscription)
  * - Handles image uploads via uploadthing
  * - Extracts hashtags for automatic topic categorization
  * 
  * KEY DEPENDENCIES:
- * - useCommunication hook for data operations
  * - ZoneSelector for selecting library zones
  * - ImageUpload for handling image attachments
  */
@@ -36,12 +36,28 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import ImageUpload from "./ImageUpload";
-import { useCommunication } from "../hooks/useCommunication";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { User } from "../types/communicationTypes";
+
+interface CreatePostProps {
+  createPost: (
+    content: string,
+    selectedZoneId: string | null,
+    imageUrl: string | null,
+    expiresInHours: number
+  ) => Promise<boolean>;
+  currentUser: User | null;
+  isSubmitting: boolean;
+}
 
-export default function CreatePost() {
-  // Get communication context
-  const { createPost, currentUser, isSubmitting } = useCommunication();
+/**
+ * Form for composing a new post
+ *
+ * @param createPost - Submits the post (useCommunication.createPost)
+ * @param currentUser - Signed-in user, for the avatar
+ * @param isSubmitting - Whether a post is being submitted
+ */
+export default function CreatePost({ createPost, currentUser, isSubmitting }: CreatePostProps) {
 
   // Form state
   const [content, setContent] = useState("");
@@ -0,0 +1,132 @@
+"use client";
+
+/**
+ * NOTIFICATION BELL COMPONENT
+ *
+ * Bell button with the unread count, opening a list of the latest
+ * notifications about replies and mentions.
+ *
+ * PURPOSE:
+ * Lets users see when someone replied to their post or reply, or
+ * mentioned them, and jump to the thread.
+ *
+ * CONTEXT:
+ * Shown above the communication feed for signed-in users.
+ *
+ * DATA FLOW:
+ * - Receives notifications and the unread count from the parent
+ *   (useNotifications keeps them up to date)
+ * - Calls parent callbacks to open a notification or mark all read
+ *
+ * KEY DEPENDENCIES:
+ * - shadcn/ui Popover for the dropdown
+ * - date-fns for time formatting
+ */
+
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Bell } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { NotificationType, ReplyNotification } from "../types/communicationTypes";
+
+const NOTIFICATION_TEXT: Record<NotificationType, string> = {
+  post_reply: "replied to your post",
+  reply_reply: "replied to your reply",
+  mention: "mentioned you",
+};
+
+interface NotificationBellProps {
+  notifications: ReplyNotification[];
+  unreadCount: number;
+  onOpen: (notification: ReplyNotification) => void;
+  onMarkAllRead: () => void;
+}
+
+/**
+ * Notification bell with dropdown list
+ *
+ * @param notifications - Latest notifications, newest first
+ * @param unreadCount - Unread notifications, including ones not in the list
+ * @param onOpen - Callback function when a notification is chosen
+ * @param onMarkAllRead - Callback function to mark every notification read
+ * @returns A bell button with a notification list
+ */
+export default function NotificationBell({
+  notifications,
+  unreadCount,
+  onOpen,
+  onMarkAllRead,
+}: NotificationBellProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="relative"
+          aria-label={unreadCount > 0 ? `Notifications (${unreadCount} unread)` : "Notifications"}
+        >
+          <Bell className="w-4 h-4" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs leading-5 text-center">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0 bg-white">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <span className="font-medium text-sm">Notifications</span>
+          {unreadCount > 0 && (
+            <button className="text-xs text-blue-600 hover:text-blue-800" onClick={onMarkAllRead}>
+              Mark all as read
+            </button>
+          )}
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-6">No notifications yet</p>
+        ) : (
+          <ul className="max-h-96 overflow-y-auto">
+            {notifications.map((notification) => (
+              <li key={notification.id}>
+                <button
+                  className={`w-full flex items-start gap-2 px-3 py-2 text-left hover:bg-gray-50 ${
+                    notification.read ? "" : "bg-blue-50"
+                  }`}
+                  onClick={() => {
+                    setOpen(false);
+                    onOpen(notification);
+                  }}
+                >
+                  <Avatar className="w-6 h-6">
+                    <AvatarImage src={notification.actor.avatar} alt={notification.actor.name} />
+                    <AvatarFallback>{notification.actor.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs">
+                      <span className="font-medium">{notification.actor.name}</span>{" "}
+                      {NOTIFICATION_TEXT[notification.type]}
+                    </p>
+                    <p className="text-xs text-gray-600 truncate">{notification.excerpt}</p>
+                    <p className="text-xs text-gray-400">
+                      {formatDistanceToNow(notification.createdAt, { addSuffix: true })}
+                    </p>
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
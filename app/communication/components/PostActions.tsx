@@ -31,11 +31,14 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Post } from "../types/communicationTypes";
+import { ReportCategory } from "@/lib/moderation";
+import ReportPostDialog from "./ReportPostDialog";
 
 interface PostActionsProps {
   post: Post;
   onLike: () => void;
   onReply: () => void;
+  onReport?: (category: ReportCategory, details: string) => Promise<void>;
 }
 
 /**
@@ -44,13 +47,18 @@ interface PostActionsProps {
  * @param post - The post data to display actions for
  * @param onLike - Callback function when like button is clicked
  * @param onReply - Callback function when reply button is clicked
+ * @param onReport - Callback function to report the post (not offered on the user's own posts)
  * @returns A component with social interaction buttons
  */
 export default function PostActions({ 
   post, 
   onLike, 
-  onReply 
+  onReply,
+  onReport
 }: PostActionsProps) {
+  // Track report dialog open state
+  const [reportOpen, setReportOpen] = useState(false);
+
   // Track share popover open state
   const [sharePopoverOpen, setSharePopoverOpen] = useState(false);
   
@@ -100,7 +108,7 @@ export default function PostActions({
         aria-label="Reply to post"
       >
         <span>💬</span>
-        <span>{post.replies.length}</span>
+        <span>{post.replyCount}</span>
       </button>
 
       {/* Share button with popover */}
@@ -139,6 +147,25 @@ export default function PostActions({
           </div>
         </PopoverContent>
       </Popover>
+
+      {/* Report button */}
+      {onReport && (
+        <>
+          <button
+            className="flex items-center gap-1 text-xs sm:text-sm text-gray-500"
+            onClick={() => setReportOpen(true)}
+            aria-label="Report post"
+          >
+            <span>🚩</span>
+            <span className="hidden sm:inline">Report</span>
+          </button>
+          <ReportPostDialog
+            open={reportOpen}
+            onOpenChange={setReportOpen}
+            onReport={onReport}
+          />
+        </>
+      )}
     </div>
   );
 } 
\ No newline at end of file
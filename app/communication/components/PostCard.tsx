@@ -26,14 +26,16 @@
  * - ExpirationTimer for countdown display
  */
 
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { formatDistanceToNow } from "date-fns";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Post } from "../types/communicationTypes";
+import { Post, User } from "../types/communicationTypes";
+import { ReportCategory } from "@/lib/moderation";
 import PostActions from "./PostActions";
 import ReplySection from "./ReplySection";
 import TopicTags from "./TopicTags";
 import ExpirationTimer from "./ExpirationTimer";
+import ZoneOccupancyBadge from "./ZoneOccupancyBadge";
 import { Button } from "@/components/ui/button";
 import { Trash2 } from "lucide-react";
 import {
@@ -96,8 +98,14 @@ function ImageWithFallback({
 interface PostCardProps {
   post: Post;
   onLike: () => void;
-  onAddReply: (content: string) => Promise<boolean>;
+  onLoadReplies: () => Promise<void>;
+  onAddReply: (content: string, parentId: string | null) => Promise<boolean>;
+  onSearchMentions: (prefix: string) => Promise<User[]>;
+  onReport?: (category: ReportCategory, details: string) => Promise<void>;
   onDelete?: () => Promise<boolean>;
+  // Set when a notification about this post is opened
+  focused?: boolean;
+  onFocused?: () => void;
 }
 
 /**
@@ -105,27 +113,54 @@ interface PostCardProps {
  * 
  * @param post - Post data to display
  * @param onLike - Callback function when like button is clicked
+ * @param onLoadReplies - Callback function to load replies the first time they are shown
  * @param onAddReply - Callback function when a reply is added
+ * @param onSearchMentions - Looks up users for @mention suggestions
+ * @param onReport - Callback function when the post is reported
  * @param onDelete - Callback function when a post is deleted
+ * @param focused - Scroll to the post and open its replies
+ * @param onFocused - Called once the post has been focused
  * @returns A card component with the post content and interactions
  */
 export default function PostCard({ 
   post, 
   onLike, 
+  onLoadReplies,
   onAddReply,
-  onDelete 
+  onSearchMentions,
+  onReport,
+  onDelete,
+  focused,
+  onFocused
 }: PostCardProps) {
   // Track if reply section is expanded
   const [showReplies, setShowReplies] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
+  const cardRef = useRef<HTMLDivElement>(null);
 
   /**
-   * Toggle visibility of the reply section
+   * Toggle visibility of the reply section, loading the replies the
+   * first time it opens
    */
   const toggleReplies = () => {
+    if (!showReplies && post.replies === null && post.replyCount > 0) {
+      onLoadReplies();
+    }
     setShowReplies(!showReplies);
   };
 
+  // Open the thread of a post chosen from the notifications
+  useEffect(() => {
+    if (!focused) return;
+
+    if (post.replies === null && post.replyCount > 0) {
+      onLoadReplies();
+    }
+    setShowReplies(true);
+    cardRef.current?.scrollIntoView({ behavior: "smooth", block: "start" });
+    onFocused?.();
+  }, [focused, onFocused, onLoadReplies, post.replies, post.replyCount]);
+
   /**
    * Handle post deletion with confirmation
    */
@@ -143,7 +178,7 @@ export default function PostCard({
   };
 
   return (
-    <div className="bg-white p-3 sm:p-4 rounded-lg border shadow-sm">
+    <div ref={cardRef} className="bg-white p-3 sm:p-4 rounded-lg border shadow-sm scroll-mt-4">
       {/* Post header with user info and metadata */}
       <div className="flex items-start gap-2 sm:gap-3">
         <Avatar className="h-8 w-8 sm:h-10 sm:w-10">
@@ -203,6 +238,7 @@ export default function PostCard({
               {post.zone && (
                 <div className="px-2 py-1 bg-blue-50 text-blue-700 rounded-full text-xs hidden sm:block">
                   {post.zone.name}
+                  <ZoneOccupancyBadge zoneId={post.zone.id} />
                 </div>
               )}
             </div>
@@ -213,6 +249,7 @@ export default function PostCard({
             <div className="mt-1 sm:hidden">
               <span className="inline-block px-2 py-1 bg-blue-50 text-blue-700 rounded-full text-xs">
                 {post.zone.name}
+                <ZoneOccupancyBadge zoneId={post.zone.id} />
               </span>
             </div>
           )}
@@ -242,16 +279,17 @@ export default function PostCard({
 
           {/* Post actions (like, reply, share) */}
           <div className="mt-3">
-            <PostActions post={post} onLike={onLike} onReply={toggleReplies} />
+            <PostActions post={post} onLike={onLike} onReply={toggleReplies} onReport={onReport} />
           </div>
 
           {/* Replies section - conditionally shown based on state */}
-          {(showReplies || post.replies.length > 0) && (
+          {(showReplies || post.replyCount > 0) && (
             <div className="mt-3">
               <ReplySection
-                postId={post.id}
                 replies={post.replies}
+                replyCount={post.replyCount}
                 onAddReply={onAddReply}
+                onSearchMentions={onSearchMentions}
                 isExpanded={showReplies}
                 onToggle={toggleReplies}
               />
@@ -2,81 +2,178 @@
 
 /**
  * REPLY SECTION COMPONENT
- * 
+ *
  * Displays and manages replies/comments for a communication post.
- * 
+ *
  * PURPOSE:
  * Enables threaded discussions around posts by showing existing replies
- * and providing an interface for adding new ones.
- * 
+ * and providing an interface for adding new ones, either to the post or
+ * in answer to another reply.
+ *
  * CONTEXT:
  * Appears within post cards when a post has replies or when a user
  * clicks to view/add replies.
- * 
+ *
  * DATA FLOW:
- * - Receives replies data from parent via props
- * - Manages reply form state locally
+ * - Receives replies data from parent via props (null until the parent
+ *   has loaded them; replyCount is known before that). Replies come as
+ *   one list in created order and are nested here by parentId
+ * - Manages reply form state locally, including which reply is being
+ *   answered and @mention suggestions
  * - Sends new reply content to parent for database submission
  * - Formats dates and renders threaded conversation
- * 
+ *
  * KEY DEPENDENCIES:
  * - TextareaAutosize for expandable reply input
  * - Avatar component for user profile images
  * - date-fns for time formatting
+ * - mentions utilities for @name suggestions and highlighting
  */
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { formatDistanceToNow } from "date-fns";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Button } from "@/components/ui/button";
 import TextareaAutosize from "react-textarea-autosize";
-import { Reply } from "../types/communicationTypes";
+import { Reply, User } from "../types/communicationTypes";
+import { getMentionQuery, splitMentions } from "../utils/mentions";
+
+// Deeper replies are still threaded but not indented any further
+const MAX_REPLY_DEPTH = 3;
 
 interface ReplySectionProps {
-  replies: Reply[];
-  onAddReply: (content: string) => Promise<boolean>;
+  replies: Reply[] | null;
+  replyCount: number;
+  onAddReply: (content: string, parentId: string | null) => Promise<boolean>;
+  onSearchMentions: (prefix: string) => Promise<User[]>;
   isExpanded: boolean;
   onToggle: () => void;
 }
 
 /**
- * Section for viewing and adding replies to a post
- * 
- * @param replies - Array of existing replies
- * @param onAddReply - Callback function when a new reply is submitted
- * @param isExpanded - Whether the reply section is expanded to show input
- * @param onToggle - Callback function to toggle expanded state
- * @returns A component for viewing and adding replies
+ * Group replies by the reply they answer. Replies whose parent is not in
+ * the list are shown at the top level.
+ *
+ * @param replies - Replies in created order
+ * @returns Replies by parent ID, with null for top-level replies
  */
-export default function ReplySection({
-  replies,
-  onAddReply,
-  isExpanded,
-  onToggle,
-}: ReplySectionProps) {
-  // State for reply content input
-  const [replyContent, setReplyContent] = useState("");
+function groupRepliesByParent(replies: Reply[]): Map<string | null, Reply[]> {
+  const replyIds = new Set(replies.map((reply) => reply.id));
+  const children = new Map<string | null, Reply[]>();
+
+  replies.forEach((reply) => {
+    const parentId = reply.parentId && replyIds.has(reply.parentId) ? reply.parentId : null;
+    children.set(parentId, [...(children.get(parentId) || []), reply]);
+  });
+
+  return children;
+}
+
+/**
+ * Reply text with @mentions highlighted
+ */
+function ReplyContent({ reply }: { reply: Reply }) {
+  return (
+    <p className="text-xs sm:text-sm mt-1 whitespace-pre-wrap break-words">
+      {splitMentions(reply.content, reply.mentions).map((segment, index) =>
+        segment.user ? (
+          <span key={index} className="text-blue-600 font-medium">
+            {segment.text}
+          </span>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+interface ReplyFormProps {
+  placeholder: string;
+  onSubmit: (content: string) => Promise<boolean>;
+  onSearchMentions: (prefix: string) => Promise<User[]>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+}
+
+/**
+ * Reply input with @mention suggestions
+ */
+function ReplyForm({ placeholder, onSubmit, onSearchMentions, onCancel, autoFocus }: ReplyFormProps) {
+  const [content, setContent] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [suggestions, setSuggestions] = useState<User[]>([]);
+  // Where the @word being completed starts and ends in the content
+  const [mentionRange, setMentionRange] = useState<{ start: number; end: number } | null>(null);
+  // Ignore suggestions for a query that has since changed
+  const searchVersion = useRef(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  /**
+   * Track the text and look up names for an @word at the caret
+   */
+  const handleChange = async (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const value = e.target.value;
+    const caret = e.target.selectionStart ?? value.length;
+    setContent(value);
+
+    const query = getMentionQuery(value.slice(0, caret));
+    const version = ++searchVersion.current;
+
+    if (!query) {
+      setSuggestions([]);
+      setMentionRange(null);
+      return;
+    }
+
+    setMentionRange({ start: caret - query.length - 1, end: caret });
+    const users = await onSearchMentions(query);
+    if (version === searchVersion.current) {
+      setSuggestions(users);
+    }
+  };
+
+  /**
+   * Replace the @word being typed with the chosen name
+   */
+  const chooseMention = (user: User) => {
+    if (!mentionRange) return;
+
+    const inserted = `@${user.name} `;
+    const value = content.slice(0, mentionRange.start) + inserted + content.slice(mentionRange.end);
+    const caret = mentionRange.start + inserted.length;
+
+    searchVersion.current += 1;
+    setContent(value);
+    setSuggestions([]);
+    setMentionRange(null);
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
 
   /**
    * Handle reply form submission
    * Submits the reply content to the parent component
    */
-  const handleSubmitReply = async (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     // Don't submit empty replies
-    if (!replyContent.trim()) return;
-    
+    if (!content.trim()) return;
+
     setIsSubmitting(true);
 
     try {
-      // Pass the reply content to the parent handler
-      const success = await onAddReply(replyContent);
+      const success = await onSubmit(content);
 
       // Reset form after successful submission
       if (success) {
-        setReplyContent("");
+        setContent("");
+        setSuggestions([]);
+        setMentionRange(null);
       }
     } catch (error) {
       console.error("Error creating reply:", error);
@@ -85,8 +182,165 @@ export default function ReplySection({
     }
   };
 
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 sm:mt-3">
+      <div className="flex items-start gap-1 sm:gap-2">
+        <Avatar className="w-5 h-5 sm:w-6 sm:h-6">
+          <AvatarImage src="/avatars/default.jpg" alt="Current User" />
+          <AvatarFallback>U</AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1 relative">
+          <TextareaAutosize
+            ref={textareaRef}
+            placeholder={placeholder}
+            className="w-full border rounded-md px-2 py-1 sm:px-3 sm:py-2 text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+            value={content}
+            onChange={handleChange}
+            onKeyDown={(e) => {
+              if (e.key === "Escape" && suggestions.length > 0) {
+                setSuggestions([]);
+              }
+            }}
+            autoFocus={autoFocus}
+            maxRows={4}
+          />
+
+          {/* @mention suggestions */}
+          {suggestions.length > 0 && (
+            <ul className="absolute z-10 left-0 right-0 mt-1 bg-white border rounded-md shadow-md text-xs sm:text-sm">
+              {suggestions.map((user) => (
+                <li key={user.id}>
+                  <button
+                    type="button"
+                    className="w-full flex items-center gap-2 px-2 py-1.5 text-left hover:bg-gray-50"
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => chooseMention(user)}
+                  >
+                    <Avatar className="w-5 h-5">
+                      <AvatarImage src={user.avatar} alt={user.name} />
+                      <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+                    </Avatar>
+                    {user.name}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex justify-end gap-2 mt-1 sm:mt-2">
+            {onCancel && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs sm:text-sm px-2 sm:px-3"
+                onClick={onCancel}
+              >
+                Cancel
+              </Button>
+            )}
+            <Button
+              type="submit"
+              size="sm"
+              className="h-7 text-xs sm:text-sm px-2 sm:px-3"
+              disabled={isSubmitting || content.length === 0}
+            >
+              {isSubmitting ? "Sending..." : "Reply"}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * Section for viewing and adding replies to a post
+ *
+ * @param replies - Array of existing replies, or null while they are not loaded
+ * @param replyCount - Number of replies on the post, nested ones included
+ * @param onAddReply - Callback function when a new reply is submitted, with the reply it answers
+ * @param onSearchMentions - Looks up users for @mention suggestions
+ * @param isExpanded - Whether the reply section is expanded to show input
+ * @param onToggle - Callback function to toggle expanded state
+ * @returns A component for viewing and adding replies
+ */
+export default function ReplySection({
+  replies,
+  replyCount,
+  onAddReply,
+  onSearchMentions,
+  isExpanded,
+  onToggle,
+}: ReplySectionProps) {
+  // Reply being answered, if the inline form is open
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+
+  const repliesByParent = groupRepliesByParent(replies || []);
+
+  /**
+   * Render a reply and, below it, the replies that answer it
+   */
+  const renderReply = (reply: Reply, depth: number) => {
+    const children = repliesByParent.get(reply.id) || [];
+
+    return (
+      <div key={reply.id}>
+        <div className="flex items-start gap-1 sm:gap-2">
+          <Avatar className="w-5 h-5 sm:w-6 sm:h-6">
+            <AvatarImage src={reply.user.avatar} alt={reply.user.name} />
+            <AvatarFallback>{reply.user.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+
+          <div className="flex-1 min-w-0">
+            <div className="bg-gray-50 rounded-md p-1.5 sm:p-2">
+              <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start">
+                <span className="font-medium text-xs">{reply.user.name}</span>
+                <span className="text-gray-500 text-xs mt-0.5 sm:mt-0">
+                  {formatDistanceToNow(reply.createdAt, {
+                    addSuffix: true,
+                  })}
+                </span>
+              </div>
+              <ReplyContent reply={reply} />
+            </div>
+
+            <button
+              className="text-xs text-gray-500 hover:text-blue-600 mt-0.5 ml-1"
+              onClick={() => setReplyingTo(replyingTo === reply.id ? null : reply.id)}
+            >
+              Reply
+            </button>
+
+            {replyingTo === reply.id && (
+              <ReplyForm
+                placeholder={`Reply to ${reply.user.name}...`}
+                onSubmit={async (content) => {
+                  const success = await onAddReply(content, reply.id);
+                  if (success) setReplyingTo(null);
+                  return success;
+                }}
+                onSearchMentions={onSearchMentions}
+                onCancel={() => setReplyingTo(null)}
+                autoFocus
+              />
+            )}
+          </div>
+        </div>
+
+        {children.length > 0 && (
+          <div className={`space-y-2 sm:space-y-3 mt-2 ${depth < MAX_REPLY_DEPTH ? "ml-4 sm:ml-6 pl-2 border-l border-gray-100" : ""}`}>
+            {children.map((child) => renderReply(child, depth + 1))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   // Determine if we should show the "View replies" button
-  const shouldShowViewButton = replies.length > 0 && !isExpanded;
+  const shouldShowViewButton = replyCount > 0 && !isExpanded;
+  const topLevelReplies = repliesByParent.get(null) || [];
 
   return (
     <div className="pl-1 sm:pl-2 border-l-2 border-gray-100">
@@ -96,68 +350,30 @@ export default function ReplySection({
           className="text-xs sm:text-sm text-blue-600 hover:text-blue-800 mt-2"
           onClick={onToggle}
         >
-          View {replies.length} {replies.length === 1 ? "reply" : "replies"}
+          View {replyCount} {replyCount === 1 ? "reply" : "replies"}
         </button>
       )}
 
-      {/* Reply list - only shown when expanded or there are replies to show */}
-      {isExpanded && replies.length > 0 && (
+      {/* Placeholder while the replies load */}
+      {isExpanded && replies === null && replyCount > 0 && (
+        <p className="text-xs text-gray-500 my-2">Loading replies...</p>
+      )}
+
+      {/* Reply threads - only shown when expanded or there are replies to show */}
+      {isExpanded && topLevelReplies.length > 0 && (
         <div className="space-y-2 sm:space-y-3 my-2 sm:my-3">
-          {replies.map((reply) => (
-            <div key={reply.id} className="flex items-start gap-1 sm:gap-2">
-              <Avatar className="w-5 h-5 sm:w-6 sm:h-6">
-                <AvatarImage src={reply.user.avatar} alt={reply.user.name} />
-                <AvatarFallback>{reply.user.name.charAt(0)}</AvatarFallback>
-              </Avatar>
-
-              <div className="bg-gray-50 rounded-md p-1.5 sm:p-2 flex-1">
-                <div className="flex flex-col sm:flex-row sm:justify-between sm:items-start">
-                  <span className="font-medium text-xs">{reply.user.name}</span>
-                  <span className="text-gray-500 text-xs mt-0.5 sm:mt-0">
-                    {formatDistanceToNow(reply.createdAt, {
-                      addSuffix: true,
-                    })}
-                  </span>
-                </div>
-                <p className="text-xs sm:text-sm mt-1">{reply.content}</p>
-              </div>
-            </div>
-          ))}
+          {topLevelReplies.map((reply) => renderReply(reply, 1))}
         </div>
       )}
 
-      {/* Reply form - only shown when expanded */}
+      {/* Reply form for the post itself - only shown when expanded */}
       {isExpanded && (
-        <form onSubmit={handleSubmitReply} className="mt-2 sm:mt-3">
-          <div className="flex items-start gap-1 sm:gap-2">
-            <Avatar className="w-5 h-5 sm:w-6 sm:h-6">
-              <AvatarImage src="/avatars/default.jpg" alt="Current User" />
-              <AvatarFallback>U</AvatarFallback>
-            </Avatar>
-
-            <div className="flex-1">
-              <TextareaAutosize
-                placeholder="Write a reply..."
-                className="w-full border rounded-md px-2 py-1 sm:px-3 sm:py-2 text-xs sm:text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
-                value={replyContent}
-                onChange={(e) => setReplyContent(e.target.value)}
-                maxRows={4}
-              />
-
-              <div className="flex justify-end mt-1 sm:mt-2">
-                <Button
-                  type="submit"
-                  size="sm"
-                  className="h-7 text-xs sm:text-sm px-2 sm:px-3"
-                  disabled={isSubmitting || replyContent.length === 0}
-                >
-                  {isSubmitting ? "Sending..." : "Reply"}
-                </Button>
-              </div>
-            </div>
-          </div>
-        </form>
+        <ReplyForm
+          placeholder="Write a reply... (type @ to mention someone)"
+          onSubmit={(content) => onAddReply(content, null)}
+          onSearchMentions={onSearchMentions}
+        />
       )}
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,154 @@
+"use client";
+
+/**
+ * REPORT POST DIALOG COMPONENT
+ *
+ * Lets a user flag a post for the library's moderators.
+ *
+ * PURPOSE:
+ * Collects a reason category and an optional explanation (required for
+ * "Something else") and files a report.
+ *
+ * CONTEXT:
+ * Opened from the report button in PostActions; reports appear in the
+ * moderation queue of the admin console.
+ *
+ * DATA FLOW:
+ * - Receives the submit handler from the parent via props
+ * - Manages the form state locally
+ * - Confirms or explains failures with toasts
+ *
+ * KEY DEPENDENCIES:
+ * - AlertDialog for the modal
+ * - REPORT_CATEGORIES from lib/moderation
+ */
+
+import { useState } from "react";
+import { toast } from "sonner";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { REPORT_CATEGORIES, ReportCategory } from "@/lib/moderation";
+
+interface ReportPostDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReport: (category: ReportCategory, details: string) => Promise<void>;
+}
+
+/**
+ * Dialog for reporting a post
+ *
+ * @param open - Whether the dialog is shown
+ * @param onOpenChange - Callback function when the dialog opens or closes
+ * @param onReport - Files the report; the dialog closes when it resolves
+ * @returns A modal form for reporting a post
+ */
+export default function ReportPostDialog({
+  open,
+  onOpenChange,
+  onReport,
+}: ReportPostDialogProps) {
+  const [category, setCategory] = useState<ReportCategory | "">("");
+  const [details, setDetails] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const needsDetails = category === "other" && !details.trim();
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setCategory("");
+      setDetails("");
+    }
+    onOpenChange(next);
+  };
+
+  /**
+   * Submit the report and close the dialog on success
+   */
+  const handleSubmit = async () => {
+    if (!category) return;
+
+    setIsSubmitting(true);
+    try {
+      await onReport(category, details);
+      toast.success("Thanks, a moderator will review this post");
+      handleOpenChange(false);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to report post");
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <AlertDialog open={open} onOpenChange={handleOpenChange}>
+      <AlertDialogContent className="max-w-[90vw] sm:max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Report Post</AlertDialogTitle>
+          <AlertDialogDescription>
+            Tell the library staff what is wrong with this post. The author will not see who reported it.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="report-category">Reason</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as ReportCategory)}>
+              <SelectTrigger id="report-category">
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                {REPORT_CATEGORIES.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="report-details">
+              Details {category === "other" ? "" : "(optional)"}
+            </Label>
+            <Textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Anything that helps the moderators"
+              maxLength={500}
+            />
+          </div>
+        </div>
+
+        <AlertDialogFooter className="flex-col sm:flex-row gap-2 sm:gap-0">
+          <AlertDialogCancel disabled={isSubmitting}>Cancel</AlertDialogCancel>
+          <Button
+            variant="destructive"
+            onClick={handleSubmit}
+            disabled={isSubmitting || !category || needsDetails}
+          >
+            {isSubmitting ? "Reporting..." : "Report"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+/**
+ * SEARCH BAR COMPONENT
+ *
+ * Search box for the communication feed, with optional filters.
+ *
+ * PURPOSE:
+ * Lets users find live posts by words in the post, its replies or its
+ * topics, in Thai or English, narrowed down by zone, date range and
+ * whether the post has an image.
+ *
+ * CONTEXT:
+ * Appears above the filter tabs; while a search is active the feed shows
+ * the search results instead of the latest posts.
+ *
+ * DATA FLOW:
+ * - Receives zones and the active search from parent via props
+ * - Manages the search text and filter inputs locally
+ * - Sends the search to the parent on submit, or clears it
+ *
+ * KEY DEPENDENCIES:
+ * - shadcn/ui Input, Select and Checkbox components
+ */
+
+import { useState } from "react";
+import { Search, SlidersHorizontal, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { SearchFilters, Zone } from "../types/communicationTypes";
+
+// Select value for "any zone" (Radix Select does not allow an empty value)
+const ANY_ZONE = "any";
+
+interface SearchBarProps {
+  zones: Zone[];
+  activeSearch: SearchFilters | null;
+  onSearch: (filters: SearchFilters) => void;
+  onClear: () => void;
+}
+
+/**
+ * Search box with zone, date and image filters
+ *
+ * @param zones - Zones to filter by
+ * @param activeSearch - The search being shown, or null
+ * @param onSearch - Callback function when a search is submitted
+ * @param onClear - Callback function to go back to the feed
+ * @returns A search form
+ */
+export default function SearchBar({
+  zones,
+  activeSearch,
+  onSearch,
+  onClear,
+}: SearchBarProps) {
+  const [query, setQuery] = useState("");
+  const [zoneId, setZoneId] = useState<string>(ANY_ZONE);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [hasImage, setHasImage] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+
+  /**
+   * Submit the search with the current filters
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+
+    onSearch({
+      query: query.trim(),
+      zoneId: zoneId === ANY_ZONE ? null : zoneId,
+      from: from || null,
+      to: to || null,
+      hasImage,
+    });
+  };
+
+  /**
+   * Reset the form and go back to the feed
+   */
+  const handleClear = () => {
+    setQuery("");
+    setZoneId(ANY_ZONE);
+    setFrom("");
+    setTo("");
+    setHasImage(false);
+    onClear();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <Input
+            type="search"
+            placeholder="Search posts, replies and topics"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-8 bg-white"
+            aria-label="Search posts"
+          />
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          onClick={() => setShowFilters(!showFilters)}
+          aria-label="Search filters"
+          aria-expanded={showFilters}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </Button>
+        <Button type="submit" disabled={!query.trim()}>
+          Search
+        </Button>
+        {activeSearch && (
+          <Button type="button" variant="ghost" size="icon" onClick={handleClear} aria-label="Clear search">
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {showFilters && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 bg-white rounded-lg border">
+          <div className="space-y-1">
+            <Label htmlFor="search-zone">Zone</Label>
+            <Select value={zoneId} onValueChange={setZoneId}>
+              <SelectTrigger id="search-zone">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-white">
+                <SelectItem value={ANY_ZONE}>Any zone</SelectItem>
+                {zones.map((zone) => (
+                  <SelectItem key={zone.id} value={zone.id}>
+                    {zone.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="flex items-end gap-2 pb-2">
+            <Checkbox
+              id="search-has-image"
+              checked={hasImage}
+              onCheckedChange={(checked) => setHasImage(checked === true)}
+            />
+            <Label htmlFor="search-has-image">Has image</Label>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="search-from">From</Label>
+            <Input
+              id="search-from"
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="search-to">To</Label>
+            <Input
+              id="search-to"
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+    </form>
+  );
+}
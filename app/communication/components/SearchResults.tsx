@@ -0,0 +1,181 @@
+"use client";
+
+/**
+ * SEARCH RESULTS COMPONENT
+ *
+ * Lists the posts found by a search, best match first.
+ *
+ * PURPOSE:
+ * Shows each matching post with the search words highlighted, along
+ * with the replies that matched, so users can see why it was found.
+ *
+ * CONTEXT:
+ * Replaces the post feed while a search is active.
+ *
+ * DATA FLOW:
+ * - Receives results and paging state from parent via props (useSearch)
+ * - Calls the parent to load more results
+ *
+ * KEY DEPENDENCIES:
+ * - highlight utilities for marking matches
+ * - TopicTags for hashtag display
+ * - date-fns for time formatting
+ */
+
+import { formatDistanceToNow } from "date-fns";
+import { ImageIcon, Heart, MessageCircle } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { SearchResult } from "../types/communicationTypes";
+import { getSearchTerms, splitHighlights } from "../utils/highlight";
+import TopicTags from "./TopicTags";
+
+interface SearchResultsProps {
+  query: string;
+  results: SearchResult[];
+  searching: boolean;
+  loadingMore: boolean;
+  hasMore: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Text with the search words marked
+ */
+function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {splitHighlights(text, terms).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-200 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+/**
+ * List of search results
+ *
+ * @param query - Search text, for highlighting
+ * @param results - Posts found, best match first
+ * @param searching - Whether the first page is loading
+ * @param loadingMore - Whether another page is loading
+ * @param hasMore - Whether there are more results
+ * @param onLoadMore - Callback function to load the next page
+ * @returns The results, or an empty state
+ */
+export default function SearchResults({
+  query,
+  results,
+  searching,
+  loadingMore,
+  hasMore,
+  onLoadMore,
+}: SearchResultsProps) {
+  const terms = getSearchTerms(query);
+
+  if (searching) {
+    return (
+      <div className="space-y-6">
+        {[1, 2].map((i) => (
+          <div key={i} className="bg-white p-4 rounded-lg border shadow-sm">
+            <Skeleton className="h-4 w-1/3 mb-2" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  if (results.length === 0) {
+    return (
+      <div className="text-center p-8 bg-gray-50 rounded-lg">
+        <p className="text-gray-500">No live posts match &ldquo;{query}&rdquo;.</p>
+        <p className="text-sm text-gray-400 mt-2">Posts expire after a day, so older ones cannot be found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {results.map(({ post, matchingReplies }) => (
+        <div key={post.id} className="bg-white p-3 sm:p-4 rounded-lg border shadow-sm">
+          <div className="flex items-start gap-2 sm:gap-3">
+            <Avatar className="h-8 w-8 sm:h-10 sm:w-10">
+              <AvatarImage src={post.user.avatar} alt={post.user.name} />
+              <AvatarFallback>{post.user.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+
+            <div className="flex-1 min-w-0">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div>
+                  <h3 className="font-medium text-sm">{post.user.name}</h3>
+                  <p className="text-gray-500 text-xs">
+                    {formatDistanceToNow(post.createdAt, { addSuffix: true })}
+                  </p>
+                </div>
+                {post.zone && (
+                  <span className="px-2 py-1 bg-blue-50 text-blue-700 rounded-full text-xs">
+                    {post.zone.name}
+                  </span>
+                )}
+              </div>
+
+              <p className="mt-2 whitespace-pre-wrap break-words text-sm sm:text-base">
+                <Highlighted text={post.content} terms={terms} />
+              </p>
+
+              {post.topics.length > 0 && (
+                <div className="mt-2">
+                  <TopicTags topics={post.topics} />
+                </div>
+              )}
+
+              <div className="flex items-center gap-4 mt-2 text-xs text-gray-500">
+                <span className="flex items-center gap-1">
+                  <Heart className="w-3.5 h-3.5" /> {post.likeCount}
+                </span>
+                <span className="flex items-center gap-1">
+                  <MessageCircle className="w-3.5 h-3.5" /> {post.replyCount}
+                </span>
+                {post.imageUrl && (
+                  <span className="flex items-center gap-1">
+                    <ImageIcon className="w-3.5 h-3.5" /> Image
+                  </span>
+                )}
+              </div>
+
+              {/* Replies that matched */}
+              {matchingReplies.length > 0 && (
+                <div className="mt-3 pl-2 border-l-2 border-gray-100 space-y-2">
+                  {matchingReplies.map((reply) => (
+                    <div key={reply.id} className="bg-gray-50 rounded-md p-1.5 sm:p-2">
+                      <span className="font-medium text-xs">{reply.authorName}</span>
+                      <p className="text-xs sm:text-sm mt-1 whitespace-pre-wrap break-words">
+                        <Highlighted text={reply.content} terms={terms} />
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {hasMore && (
+        <div className="flex justify-center">
+          <Button variant="ghost" size="sm" onClick={onLoadMore} disabled={loadingMore}>
+            {loadingMore ? "Loading..." : "More results"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
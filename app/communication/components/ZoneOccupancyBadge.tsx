@@ -0,0 +1,44 @@
+"use client";
+
+/**
+ * ZONE OCCUPANCY BADGE COMPONENT
+ *
+ * Shows a zone's live occupancy next to its name on a post.
+ *
+ * PURPOSE:
+ * Lets readers see how busy the zone a post refers to is right now.
+ *
+ * DATA FLOW:
+ * - Reads live per-zone counts from OccupancyContext
+ * - Renders nothing when the zone has no live count (e.g. retired zones)
+ *
+ * KEY DEPENDENCIES:
+ * - OccupancyContext (zones share IDs with the library_zones registry)
+ */
+
+import { useOccupancy } from "@/contexts/OccupancyContext";
+
+interface ZoneOccupancyBadgeProps {
+  zoneId: string;
+}
+
+export default function ZoneOccupancyBadge({ zoneId }: ZoneOccupancyBadgeProps) {
+  const { currentOccupancy } = useOccupancy();
+  const zone = currentOccupancy?.zones?.find((z) => z.id === zoneId);
+
+  if (!zone) return null;
+
+  // Same bands as getOccupancyStatus
+  const color =
+    zone.percentage >= 0.85
+      ? "text-red-600"
+      : zone.percentage >= 0.6
+      ? "text-amber-600"
+      : "text-green-600";
+
+  return (
+    <span className={`ml-1 font-medium ${color}`} title={`${zone.current}/${zone.capacity} people`}>
+      · {Math.round(zone.percentage * 100)}% full
+    </span>
+  );
+}
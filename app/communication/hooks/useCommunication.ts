@@ -14,20 +14,29 @@
  * DATA FLOW:
  * - Components call this hook to access and modify communication data
  * - Hook calls Supabase service methods to perform database operations
- * - Hook maintains local state for filtering and caching
- * - Hook subscribes to real-time updates when needed
+ * - Posts are loaded a page at a time for the current filter; the filter
+ *   is applied by the database, and changing it reloads from the first page
+ * - Replies are loaded when a post's thread is first opened; nested
+ *   replies are kept in the same flat list and point at their parent
+ * - Realtime changes to posts, replies and likes are applied to the posts
+ *   on screen; new posts are held back behind a "N new posts" banner
+ *   until the user chooses to show them
  * 
  * KEY DEPENDENCIES:
- * - React hooks (useState, useEffect, useCallback)
+ * - React hooks (useState, useEffect, useCallback, useRef)
  * - Supabase client for real-time subscriptions
  * - Communication service for CRUD operations
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { supabase } from '@/lib/supabase';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import * as communicationService from '../services/communicationService';
-import { Post, User, Zone, Topic, PostFilter } from '../types/communicationTypes';
+import { Post, User, Zone, Topic, PostFilter, FeedCursor, FeedEvent } from '../types/communicationTypes';
 import { extractHashtags } from '../utils/extractHashtags';
+import { applyPostStats, insertReply, postMatchesFilter, updatePost } from '../utils/feedUpdates';
+import * as moderation from '@/lib/moderation';
+
+// Wait for a burst of unplaceable deletions to settle before re-counting
+const RECONCILE_DELAY_MS = 1000;
 
 export function useCommunication() {
   // State for posts and loading status
@@ -35,67 +44,278 @@ export function useCommunication() {
   const [zones, setZones] = useState<Zone[]>([]);
   const [topics, setTopics] = useState<Topic[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [nextCursor, setNextCursor] = useState<FeedCursor | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [filter, setFilter] = useState<PostFilter>('all');
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [isSubmitting, setIsSubmitting] = useState<boolean>(false);
+  // Posts created since the feed was loaded, not shown until requested
+  const [newPostIds, setNewPostIds] = useState<string[]>([]);
+  // Moderator warnings the user has not dismissed, and any posting ban
+  const [warnings, setWarnings] = useState<moderation.ModerationWarning[]>([]);
+  const [postingBan, setPostingBan] = useState<{ endsAt: string; reason: string } | null>(null);
+
+  // Incremented whenever the feed restarts from the first page, so a page
+  // that arrives after the filter changed is dropped instead of appended
+  const feedVersion = useRef(0);
+
+  // Realtime bookkeeping. Events can arrive twice (API response and
+  // broadcast), late (after a page that already counts them) or out of
+  // order (a delete before its insert), so every applied id is recorded.
+  // Deletions only carry an id, hence the maps back to the post.
+  const deletedIds = useRef(new Set<string>());
+  const replyPostIds = useRef(new Map<string, string>());
+  const likes = useRef(new Map<string, { postId: string; userId: string }>());
+  const reconcileTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const postsRef = useRef<Post[]>([]);
+
+  useEffect(() => {
+    postsRef.current = posts;
+  }, [posts]);
 
   // Initialize data and subscriptions
   useEffect(() => {
     const initData = async () => {
       try {
-        setLoading(true);
         setError(null);
         
         // Get current user
         const user = await communicationService.getCurrentUser();
         setCurrentUser(user);
         
-        // Load zones, topics, and posts
-        const [zonesData, topicsData, postsData] = await Promise.all([
+        // Load zones and topics; posts are loaded by the filter effect below
+        const [zonesData, topicsData, warningsData, banData] = await Promise.all([
           communicationService.getZones(),
           communicationService.getTopics(),
-          communicationService.getPosts()
+          moderation.getMyWarnings(),
+          moderation.getMyPostingBan()
         ]);
         
         setZones(zonesData);
         setTopics(topicsData);
-        setPosts(postsData);
+        setWarnings(warningsData);
+        setPostingBan(banData);
       } catch (err) {
         console.error('Error initializing communication data:', err);
         setError('Failed to load communication data. Please try again later.');
-      } finally {
-        setLoading(false);
       }
     };
 
     initData();
+  }, []);
 
-    // Subscribe to real-time updates
-    const postsSubscription = supabase
-      .channel('communications_channel')
-      .on('postgres_changes', { 
-        event: '*', 
-        schema: 'public', 
-        table: 'communications' 
-      }, async () => {
-        // Refresh all posts when any change happens
-        // This is simpler than handling each change type individually
-        try {
-          const refreshedPosts = await communicationService.getPosts();
-          setPosts(refreshedPosts);
-        } catch (err) {
-          console.error('Error refreshing posts after real-time update:', err);
-        }
-      })
-      .subscribe();
+  // Load the first page of the feed for the current filter
+  const refreshPosts = useCallback(async () => {
+    const version = ++feedVersion.current;
+
+    try {
+      setLoading(true);
+      const page = await communicationService.getFeedPage(filter, null);
+      if (version !== feedVersion.current) return;
 
-    // Cleanup function to unsubscribe
+      setPosts(page.posts.filter(post => !deletedIds.current.has(post.id)));
+      setNextCursor(page.nextCursor);
+      setNewPostIds([]);
+    } catch (err) {
+      console.error('Error refreshing posts:', err);
+      setError('Failed to refresh posts. Please try again later.');
+    } finally {
+      if (version === feedVersion.current) {
+        setLoading(false);
+      }
+    }
+  }, [filter]);
+
+  // Append the next (older) page of the feed
+  const loadMorePosts = useCallback(async () => {
+    if (!nextCursor || loadingMore || loading) return;
+
+    const version = feedVersion.current;
+
+    try {
+      setLoadingMore(true);
+      const page = await communicationService.getFeedPage(filter, nextCursor);
+      if (version !== feedVersion.current) return;
+
+      // A post can be on both pages if it was deleted and the feed shifted
+      setPosts(prevPosts => {
+        const loadedIds = new Set(prevPosts.map(post => post.id));
+        return [
+          ...prevPosts,
+          ...page.posts.filter(post => !loadedIds.has(post.id) && !deletedIds.current.has(post.id))
+        ];
+      });
+      setNextCursor(page.nextCursor);
+    } catch (err) {
+      console.error('Error loading more posts:', err);
+      setError('Failed to load more posts. Please try again later.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filter, nextCursor, loadingMore, loading]);
+
+  // Reload from the first page whenever the filter changes
+  useEffect(() => {
+    refreshPosts();
+  }, [refreshPosts]);
+
+  // Re-count likes and replies for the posts on screen, for deletions
+  // whose post is not known
+  const scheduleReconcile = useCallback(() => {
+    if (reconcileTimer.current) return;
+
+    reconcileTimer.current = setTimeout(async () => {
+      reconcileTimer.current = null;
+      try {
+        const stats = await communicationService.getPostStats(postsRef.current.map(post => post.id));
+        setPosts(prevPosts => applyPostStats(prevPosts, stats));
+      } catch (err) {
+        console.error('Error reconciling post counts:', err);
+      }
+    }, RECONCILE_DELAY_MS);
+  }, []);
+
+  useEffect(() => {
     return () => {
-      supabase.removeChannel(postsSubscription);
+      if (reconcileTimer.current) clearTimeout(reconcileTimer.current);
     };
   }, []);
 
+  // Apply one realtime change to local state
+  const handleFeedEvent = useCallback((event: FeedEvent) => {
+    switch (event.type) {
+      case 'post_created': {
+        const { post } = event;
+        if (deletedIds.current.has(post.id) || !postMatchesFilter(post, filter)) return;
+        if (postsRef.current.some(existing => existing.id === post.id)) return;
+
+        setNewPostIds(prevIds => (prevIds.includes(post.id) ? prevIds : [...prevIds, post.id]));
+        return;
+      }
+
+      case 'post_updated': {
+        const { post: change } = event;
+        if (deletedIds.current.has(change.id)) return;
+
+        // Drop posts that expired, were hidden or moved out of the current filter
+        if (change.expiresAt <= new Date() || !postMatchesFilter(change, filter)) {
+          setPosts(prevPosts => prevPosts.filter(post => post.id !== change.id));
+          return;
+        }
+
+        setPosts(prevPosts => updatePost(prevPosts, change.id, post => ({
+          ...post,
+          content: change.content,
+          imageUrl: change.imageUrl,
+          expiresAt: change.expiresAt,
+          zone: change.zoneId
+            ? zones.find(zone => zone.id === change.zoneId) || post.zone
+            : null
+        })));
+        return;
+      }
+
+      case 'post_deleted':
+        deletedIds.current.add(event.id);
+        setPosts(prevPosts => prevPosts.filter(post => post.id !== event.id));
+        setNewPostIds(prevIds => prevIds.filter(id => id !== event.id));
+        return;
+
+      case 'reply_created': {
+        const { postId, reply } = event;
+        if (deletedIds.current.has(reply.id) || replyPostIds.current.has(reply.id)) return;
+        replyPostIds.current.set(reply.id, postId);
+
+        setPosts(prevPosts => updatePost(prevPosts, postId, post => ({
+          ...post,
+          replyCount: post.replyCount + 1
+        })));
+
+        // Only threads that are open need the reply itself
+        if (postsRef.current.find(post => post.id === postId)?.replies) {
+          communicationService.getUserProfiles([reply.userId, ...reply.mentionedUserIds]).then(users => {
+            if (deletedIds.current.has(reply.id)) return;
+
+            const newReply = {
+              id: reply.id,
+              parentId: reply.parentId,
+              user: users.get(reply.userId) || { id: reply.userId, name: 'Anonymous User', avatar: '/avatars/default.jpg' },
+              content: reply.content,
+              mentions: reply.mentionedUserIds
+                .map(userId => users.get(userId))
+                .filter((user): user is User => user !== undefined),
+              createdAt: reply.createdAt
+            };
+
+            setPosts(prevPosts => updatePost(prevPosts, postId, post => ({
+              ...post,
+              replies: post.replies ? insertReply(post.replies, newReply) : null
+            })));
+          }).catch(err => console.error('Error loading reply authors:', err));
+        }
+        return;
+      }
+
+      case 'reply_deleted': {
+        deletedIds.current.add(event.id);
+        const postId = replyPostIds.current.get(event.id);
+        if (!postId) {
+          scheduleReconcile();
+          return;
+        }
+
+        setPosts(prevPosts => updatePost(prevPosts, postId, post => ({
+          ...post,
+          replyCount: Math.max(post.replyCount - 1, 0),
+          replies: post.replies ? post.replies.filter(reply => reply.id !== event.id) : null
+        })));
+        return;
+      }
+
+      case 'like_added': {
+        if (deletedIds.current.has(event.id) || likes.current.has(event.id)) return;
+        likes.current.set(event.id, { postId: event.postId, userId: event.userId });
+
+        // The user's own likes are already counted by the optimistic update
+        const isOwn = event.userId === currentUser?.id;
+        setPosts(prevPosts => updatePost(prevPosts, event.postId, post => {
+          if (isOwn && post.liked) return post;
+          return { ...post, liked: post.liked || isOwn, likeCount: post.likeCount + 1 };
+        }));
+        return;
+      }
+
+      case 'reaction_deleted': {
+        deletedIds.current.add(event.id);
+        const like = likes.current.get(event.id);
+        if (!like) {
+          // A like from before the feed loaded, or another reaction type
+          scheduleReconcile();
+          return;
+        }
+
+        const isOwn = like.userId === currentUser?.id;
+        setPosts(prevPosts => updatePost(prevPosts, like.postId, post => {
+          if (isOwn && !post.liked) return post;
+          return { ...post, liked: isOwn ? false : post.liked, likeCount: Math.max(post.likeCount - 1, 0) };
+        }));
+        return;
+      }
+    }
+  }, [filter, zones, currentUser, scheduleReconcile]);
+
+  // Subscribe once; the handler ref always points at the latest filter and user
+  const handleFeedEventRef = useRef(handleFeedEvent);
+
+  useEffect(() => {
+    handleFeedEventRef.current = handleFeedEvent;
+  }, [handleFeedEvent]);
+
+  useEffect(() => {
+    return communicationService.subscribeToFeed(event => handleFeedEventRef.current(event));
+  }, []);
+
   // Function to check and remove expired posts
   const removeExpiredPosts = useCallback(() => {
     const now = new Date();
@@ -112,20 +332,6 @@ export function useCommunication() {
     return () => clearInterval(intervalId);
   }, [removeExpiredPosts]);
 
-  // Refresh posts data
-  const refreshPosts = useCallback(async () => {
-    try {
-      setLoading(true);
-      const refreshedPosts = await communicationService.getPosts();
-      setPosts(refreshedPosts);
-    } catch (err) {
-      console.error('Error refreshing posts:', err);
-      setError('Failed to refresh posts. Please try again later.');
-    } finally {
-      setLoading(false);
-    }
-  }, []);
-
   // Create new post
   const createPost = useCallback(async (
     content: string,
@@ -158,7 +364,9 @@ export function useCommunication() {
       return true;
     } catch (err) {
       console.error('Error creating post:', err);
-      setError('Failed to create post. Please try again later.');
+      setError(err instanceof moderation.ModerationError
+        ? err.message
+        : 'Failed to create post. Please try again later.');
       return false;
     } finally {
       setIsSubmitting(false);
@@ -195,31 +403,82 @@ export function useCommunication() {
     }
   }, [refreshPosts]);
 
-  // Add a reply to a post
-  const addReply = useCallback(async (postId: string, content: string) => {
+  // Load a post's replies the first time its thread is opened
+  const loadReplies = useCallback(async (postId: string) => {
+    try {
+      const fetchedReplies = await communicationService.getReplies(postId);
+      fetchedReplies.forEach(reply => replyPostIds.current.set(reply.id, postId));
+
+      setPosts(prevPosts => updatePost(prevPosts, postId, post => {
+        // Keep any reply that arrived while the thread was loading
+        const replies = (post.replies || [])
+          .reduce(insertReply, fetchedReplies)
+          .filter(reply => !deletedIds.current.has(reply.id));
+
+        return { ...post, replies, replyCount: replies.length };
+      }));
+    } catch (err) {
+      console.error('Error loading replies:', err);
+      setError('Failed to load replies. Please try again later.');
+    }
+  }, []);
+
+  // Add a reply to a post, or to one of its replies
+  const addReply = useCallback(async (postId: string, content: string, parentId: string | null = null) => {
     try {
       // Call API to add reply
-      const newReply = await communicationService.addReply(postId, content);
-      
+      const newReply = await communicationService.addReply(postId, content, parentId);
+
+      // The realtime event for this reply may already have been counted
+      const alreadyCounted = replyPostIds.current.has(newReply.id);
+      replyPostIds.current.set(newReply.id, postId);
+
       // Update local state
-      setPosts(prevPosts => prevPosts.map(post => {
-        if (post.id === postId) {
-          return {
-            ...post,
-            replies: [...post.replies, newReply]
-          };
-        }
-        return post;
-      }));
+      setPosts(prevPosts => updatePost(prevPosts, postId, post => ({
+        ...post,
+        replyCount: alreadyCounted ? post.replyCount : post.replyCount + 1,
+        replies: post.replies ? insertReply(post.replies, newReply) : null
+      })));
       
       return true;
     } catch (err) {
       console.error('Error adding reply:', err);
-      setError('Failed to add reply. Please try again later.');
+      setError(err instanceof moderation.ModerationError
+        ? err.message
+        : 'Failed to add reply. Please try again later.');
       return false;
     }
   }, []);
 
+  // Users whose name starts with the text typed after an @
+  const searchMentions = useCallback(async (prefix: string) => {
+    try {
+      return await communicationService.searchProfiles(prefix);
+    } catch {
+      return [];
+    }
+  }, []);
+
+  // Report a post to the moderators
+  const reportPost = useCallback(async (
+    postId: string,
+    category: moderation.ReportCategory,
+    details: string
+  ) => {
+    await moderation.reportPost(postId, category, details);
+  }, []);
+
+  // Dismiss a moderator warning
+  const dismissWarning = useCallback(async (warningId: string) => {
+    setWarnings(prevWarnings => prevWarnings.filter(warning => warning.id !== warningId));
+
+    try {
+      await moderation.acknowledgeWarning(warningId);
+    } catch (err) {
+      console.error('Error dismissing warning:', err);
+    }
+  }, []);
+
   // Delete a post
   const deletePost = useCallback(async (postId: string) => {
     try {
@@ -237,28 +496,16 @@ export function useCommunication() {
     }
   }, []);
 
-  // Filter posts based on current filter
-  const filteredPosts = posts.filter((post) => {
-    if (filter === 'all') return true;
-
-    if (filter.startsWith('zone:')) {
-      const zoneId = filter.split(':')[1];
-      return post.zone && post.zone.id === zoneId;
-    }
-
-    if (filter.startsWith('topic:')) {
-      const topicName = filter.split(':')[1];
-      return post.topics.some((topic) => topic.name === topicName);
-    }
-
-    return true;
-  });
-
   return {
-    posts: filteredPosts,
+    posts,
+    newPostCount: newPostIds.length,
+    warnings,
+    postingBan,
     zones,
     topics,
     loading,
+    loadingMore,
+    hasMorePosts: nextCursor !== null,
     error,
     filter,
     currentUser,
@@ -266,8 +513,13 @@ export function useCommunication() {
     setFilter,
     createPost,
     toggleLike,
+    loadReplies,
     addReply,
+    searchMentions,
+    reportPost,
+    dismissWarning,
     deletePost,
     refreshPosts,
+    loadMorePosts,
   };
-} 
\ No newline at end of file
+}
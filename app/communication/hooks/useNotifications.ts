@@ -0,0 +1,92 @@
+/**
+ * NOTIFICATIONS HOOK
+ *
+ * State for the notification bell: the latest notifications and the
+ * unread count for the signed-in user.
+ *
+ * DATA FLOW:
+ * - Loads notifications and the unread count when the user signs in
+ * - Reloads both whenever the user's notifications change (a new reply,
+ *   or notifications read on another device)
+ * - Marking read updates local state first, then the database
+ *
+ * KEY DEPENDENCIES:
+ * - AuthContext for the signed-in user
+ * - Notification service for queries and realtime
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import * as notificationService from '../services/notificationService';
+import { ReplyNotification } from '../types/communicationTypes';
+
+export function useNotifications() {
+  const { user } = useAuth();
+  const [notifications, setNotifications] = useState<ReplyNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const loadNotifications = useCallback(async () => {
+    try {
+      const [notificationsData, count] = await Promise.all([
+        notificationService.getNotifications(),
+        notificationService.getUnreadNotificationCount()
+      ]);
+      setNotifications(notificationsData);
+      setUnreadCount(count);
+    } catch (err) {
+      console.error('Error loading notifications:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setNotifications([]);
+      setUnreadCount(0);
+      setLoading(false);
+      return;
+    }
+
+    loadNotifications();
+    return notificationService.subscribeToNotifications(user.id, loadNotifications);
+  }, [user, loadNotifications]);
+
+  // Mark one notification read
+  const markRead = useCallback(async (notificationId: string) => {
+    const notification = notifications.find(item => item.id === notificationId);
+    if (!notification || notification.read) return;
+
+    setNotifications(prev => prev.map(item => (item.id === notificationId ? { ...item, read: true } : item)));
+    setUnreadCount(prev => Math.max(prev - 1, 0));
+
+    try {
+      await notificationService.markNotificationsRead([notificationId]);
+    } catch (err) {
+      console.error('Error marking notification read:', err);
+      await loadNotifications();
+    }
+  }, [notifications, loadNotifications]);
+
+  // Mark every notification read, including ones not loaded
+  const markAllRead = useCallback(async () => {
+    setNotifications(prev => prev.map(item => ({ ...item, read: true })));
+    setUnreadCount(0);
+
+    try {
+      await notificationService.markNotificationsRead(null);
+    } catch (err) {
+      console.error('Error marking notifications read:', err);
+      await loadNotifications();
+    }
+  }, [loadNotifications]);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    markRead,
+    markAllRead,
+  };
+}
@@ -0,0 +1,103 @@
+/**
+ * SEARCH HOOK
+ *
+ * State for searching the communication feed.
+ *
+ * DATA FLOW:
+ * - search() runs a new search from the first page
+ * - loadMore() appends the next page of the same search
+ * - clearSearch() returns the feed to normal
+ * - Results are ranked by the database; a page that arrives after the
+ *   search changed is dropped
+ *
+ * KEY DEPENDENCIES:
+ * - Communication service for the search query
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import * as communicationService from '../services/communicationService';
+import { SearchFilters, SearchResult } from '../types/communicationTypes';
+
+export function useSearch() {
+  // The search being shown, or null when the normal feed is shown
+  const [activeSearch, setActiveSearch] = useState<SearchFilters | null>(null);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [hasMore, setHasMore] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Incremented for every new search, like feedVersion in useCommunication
+  const searchVersion = useRef(0);
+
+  const search = useCallback(async (filters: SearchFilters) => {
+    const version = ++searchVersion.current;
+
+    try {
+      setActiveSearch(filters);
+      setSearching(true);
+      setError(null);
+      const page = await communicationService.searchPosts(filters);
+      if (version !== searchVersion.current) return;
+
+      setResults(page.results);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error searching posts:', err);
+      if (version === searchVersion.current) {
+        setResults([]);
+        setHasMore(false);
+        setError('Search failed. Please try again later.');
+      }
+    } finally {
+      if (version === searchVersion.current) {
+        setSearching(false);
+      }
+    }
+  }, []);
+
+  const loadMore = useCallback(async () => {
+    if (!activeSearch || !hasMore || searching || loadingMore) return;
+
+    const version = searchVersion.current;
+
+    try {
+      setLoadingMore(true);
+      const page = await communicationService.searchPosts(activeSearch, results.length);
+      if (version !== searchVersion.current) return;
+
+      // Ranks shift as posts age, so a post can come back on a later page
+      setResults(prevResults => {
+        const loadedIds = new Set(prevResults.map(result => result.post.id));
+        return [...prevResults, ...page.results.filter(result => !loadedIds.has(result.post.id))];
+      });
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error loading more results:', err);
+      setError('Failed to load more results. Please try again later.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [activeSearch, hasMore, searching, loadingMore, results.length]);
+
+  const clearSearch = useCallback(() => {
+    searchVersion.current += 1;
+    setActiveSearch(null);
+    setResults([]);
+    setHasMore(false);
+    setSearching(false);
+    setError(null);
+  }, []);
+
+  return {
+    activeSearch,
+    results,
+    searching,
+    loadingMore,
+    hasMore,
+    error,
+    search,
+    loadMore,
+    clearSearch,
+  };
+}
@@ -19,50 +19,61 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { addDays, format, parseISO } from 'date-fns';
 import { supabase } from '@/lib/supabase';
-import { Post, User, Zone, Topic, Reply } from '../types/communicationTypes';
+import * as zoneRegistry from '@/lib/zones';
+import { assertCanPublish, ModerationError } from '@/lib/moderation';
+import { bangkokSlotToDate } from '@/lib/logic/reservations';
+import { Database } from '@/types/supabase';
+import {
+  User,
+  Zone,
+  Topic,
+  Post,
+  Reply,
+  PostFilter,
+  FeedCursor,
+  FeedPage,
+  FeedEvent,
+  PostStats,
+  SearchFilters,
+  SearchPage
+} from '../types/communicationTypes';
+import { MAX_MENTIONS, extractMentionPrefixes, mentionsName } from '../utils/mentions';
 
 /**
- * Fetch all library zones
+ * Fetch all active library zones from the shared zone registry
  * 
  * @returns Array of zones with id, name, floor, and capacity
  */
 export async function getZones(): Promise<Zone[]> {
-  const { data, error } = await supabase
-    .from('library_zones')
-    .select('id, name, floor, capacity')
-    .order('floor, name');
-
-  if (error) {
-    console.error('Error fetching zones:', error);
-    throw error;
-  }
-
-  return data || [];
+  const zones = await zoneRegistry.getZones();
+
+  return zones.map(zone => ({
+    id: zone.id,
+    name: zone.name,
+    floor: zone.floor,
+    capacity: zone.capacity
+  }));
 }
 
 /**
- * Fetch a specific zone by ID
+ * Fetch a specific zone by ID from the shared zone registry
  * 
  * @param zoneId - The ID of the zone to fetch
  * @returns Zone data or null if not found
  */
 export async function getZoneById(zoneId: string): Promise<Zone | null> {
-  const { data, error } = await supabase
-    .from('library_zones')
-    .select('id, name, floor, capacity, description')
-    .eq('id', zoneId)
-    .single();
+  const zone = await zoneRegistry.getZoneById(zoneId);
+  if (!zone) return null;
 
-  if (error) {
-    if (error.code === 'PGRST116') { // Record not found
-      return null;
-    }
-    console.error('Error fetching zone:', error);
-    throw error;
-  }
-
-  return data;
+  return {
+    id: zone.id,
+    name: zone.name,
+    floor: zone.floor,
+    capacity: zone.capacity,
+    description: zone.description || undefined
+  };
 }
 
 /**
@@ -84,234 +95,330 @@ export async function getTopics(): Promise<Topic[]> {
   return data || [];
 }
 
+// Posts per feed page; the database caps a page at 50
+export const FEED_PAGE_SIZE = 20;
+
+type FeedRow = Database['public']['Functions']['get_communication_feed']['Returns'][number];
+type SearchRow = Database['public']['Functions']['search_communications']['Returns'][number];
+type ProfileRow = Database['public']['Functions']['search_profiles']['Returns'][number];
+
+// Feed and search rows share their post columns
+function mapFeedRow(row: FeedRow): Post {
+  return {
+    id: row.id,
+    user: {
+      id: row.user_id,
+      name: row.author_name || 'Anonymous User',
+      avatar: row.author_avatar || '/avatars/default.jpg'
+    },
+    content: row.content,
+    zone: row.zone_id
+      ? {
+          id: row.zone_id,
+          name: row.zone_name || '',
+          floor: row.zone_floor ?? 0,
+          capacity: row.zone_capacity ?? 0
+        }
+      : null,
+    topics: row.topics as unknown as Topic[],
+    likeCount: row.like_count,
+    liked: row.liked,
+    replyCount: row.reply_count,
+    replies: null,
+    imageUrl: row.image_url,
+    expiresAt: new Date(row.expires_at),
+    createdAt: new Date(row.created_at)
+  };
+}
+
 /**
- * Fetch all communications posts, including user, zone, and topics
- * 
- * @returns Array of communication posts with related data
+ * Fetch one page of live posts, newest first, with author, zone, topics,
+ * like and reply counts (replies themselves are loaded with getReplies)
+ *
+ * @param filter - 'all', 'zone:<zone id>' or 'topic:<topic name>', applied in the database
+ * @param cursor - Last post of the previous page, or null for the first page
+ * @param limit - Number of posts to return
+ * @returns The posts and the cursor for the next page
  */
-export async function getPosts(): Promise<Post[]> {
-  // First get all posts
-  const { data: postsData, error: postsError } = await supabase
-    .from('communications')
-    .select(`
-      id, 
-      content, 
-      image_url,
-      created_at,
-      expires_at,
-      zone_id,
-      user_id
-    `)
-    .order('created_at', { ascending: false })
-    .gt('expires_at', new Date().toISOString()); // Only non-expired posts
-
-  if (postsError) {
-    console.error('Error fetching posts:', postsError);
-    throw postsError;
-  }
+export async function getFeedPage(
+  filter: PostFilter,
+  cursor: FeedCursor | null,
+  limit: number = FEED_PAGE_SIZE
+): Promise<FeedPage> {
+  const [kind, value] = filter.split(/:(.*)/);
+
+  // Ask for one extra row to know whether there is another page
+  const { data, error } = await supabase.rpc('get_communication_feed', {
+    p_zone_id: kind === 'zone' ? value : null,
+    p_topic: kind === 'topic' ? value : null,
+    p_before_created_at: cursor?.createdAt ?? null,
+    p_before_id: cursor?.id ?? null,
+    p_limit: limit + 1
+  });
 
-  if (!postsData || postsData.length === 0) {
-    return [];
+  if (error) {
+    console.error('Error fetching posts:', error);
+    throw error;
   }
 
-  // Get users for the posts
-  const userIds = [...new Set(postsData.map(post => post.user_id))];
-  const { data: usersData, error: usersError } = await supabase
-    .from('profiles')
-    .select('id, name, avatar_url')
-    .in('id', userIds);
+  const feedRows = (data as FeedRow[] | null) || [];
+  const rows = feedRows.slice(0, limit);
+  const last = rows[rows.length - 1];
 
-  if (usersError) {
-    console.error('Error fetching users:', usersError);
-    throw usersError;
-  }
+  return {
+    posts: rows.map(mapFeedRow),
+    nextCursor: feedRows.length > limit && last
+      ? { createdAt: last.created_at, id: last.id }
+      : null
+  };
+}
 
-  const usersMap = new Map<string, User>();
-  usersData?.forEach(user => {
-    usersMap.set(user.id, {
-      id: user.id,
-      name: user.name || 'Anonymous User',
-      avatar: user.avatar_url || '/avatars/default.jpg'
-    });
+/**
+ * Search live posts by their text, their replies and their topics, best
+ * match first (recent posts rank higher)
+ *
+ * @param filters - Search text, zone, Bangkok date range and image filter
+ * @param offset - Number of results already loaded
+ * @param limit - Number of results to return
+ * @returns The results and whether there are more
+ */
+export async function searchPosts(
+  filters: SearchFilters,
+  offset: number = 0,
+  limit: number = FEED_PAGE_SIZE
+): Promise<SearchPage> {
+  // The end date is included, so search up to the start of the next day
+  const to = filters.to
+    ? bangkokSlotToDate(`${format(addDays(parseISO(filters.to), 1), 'yyyy-MM-dd')}T00:00:00`).toISOString()
+    : null;
+
+  // Ask for one extra row to know whether there is another page
+  const { data, error } = await supabase.rpc('search_communications', {
+    p_query: filters.query.trim(),
+    p_zone_id: filters.zoneId,
+    p_from: filters.from ? bangkokSlotToDate(`${filters.from}T00:00:00`).toISOString() : null,
+    p_to: to,
+    p_has_image: filters.hasImage ? true : null,
+    p_limit: limit + 1,
+    p_offset: offset
   });
 
-  // Get zones
-  const zoneIds = [...new Set(postsData.filter(post => post.zone_id).map(post => post.zone_id))];
-  const zonesMap = new Map<string, Zone>();
-  
-  if (zoneIds.length > 0) {
-    const { data: zonesData, error: zonesError } = await supabase
-      .from('library_zones')
-      .select('id, name, floor, capacity')
-      .in('id', zoneIds);
-
-    if (zonesError) {
-      console.error('Error fetching zones:', zonesError);
-      throw zonesError;
-    }
-
-    zonesData?.forEach(zone => {
-      zonesMap.set(zone.id, {
-        id: zone.id,
-        name: zone.name,
-        floor: zone.floor,
-        capacity: zone.capacity
-      });
-    });
+  if (error) {
+    console.error('Error searching posts:', error);
+    throw error;
   }
 
-  // Get post topics
-  const postIds = postsData.map(post => post.id);
-  const { data: postTopicsData, error: postTopicsError } = await supabase
-    .from('post_topics')
-    .select('post_id, topic_id, topics(id, name)')
-    .in('post_id', postIds);
+  const rows = (data as SearchRow[] | null) || [];
+
+  return {
+    results: rows.slice(0, limit).map(row => ({
+      post: mapFeedRow(row),
+      rank: row.rank,
+      matchingReplies: (row.matching_replies as unknown as { id: string; content: string; author_name: string | null }[])
+        .map(reply => ({
+          id: reply.id,
+          content: reply.content,
+          authorName: reply.author_name || 'Anonymous User'
+        }))
+    })),
+    hasMore: rows.length > limit
+  };
+}
+
+/**
+ * Fetch the replies to a post, oldest first. Nested replies are in the
+ * same list and point at the reply they answer through parentId.
+ *
+ * @param postId - ID of the post
+ * @returns Replies with their authors and mentioned users
+ */
+export async function getReplies(postId: string): Promise<Reply[]> {
+  const { data: repliesData, error: repliesError } = await supabase
+    .from('replies')
+    .select('id, parent_id, content, mentioned_user_ids, created_at, user_id')
+    .eq('post_id', postId)
+    .order('created_at');
 
-  if (postTopicsError) {
-    console.error('Error fetching post topics:', postTopicsError);
-    throw postTopicsError;
+  if (repliesError) {
+    console.error('Error fetching replies:', repliesError);
+    throw repliesError;
   }
 
-  // Group topics by post
-  const postTopicsMap = new Map<string, Topic[]>();
-  postTopicsData?.forEach(pt => {
-    const topic = pt.topics as unknown as Topic;
-    const postId = pt.post_id;
-    
-    if (!postTopicsMap.has(postId)) {
-      postTopicsMap.set(postId, []);
-    }
-    
-    postTopicsMap.get(postId)?.push({
-      id: topic.id,
-      name: topic.name
-    });
-  });
+  if (!repliesData || repliesData.length === 0) {
+    return [];
+  }
 
-  // Get reactions (likes) counts
-  const { data: likesData, error: likesError } = await supabase
-    .from('reactions')
-    .select('post_id, user_id')
-    .eq('type', 'like')
-    .in('post_id', postIds);
+  // Get users for replies and mentions
+  const usersMap = await getUserProfiles(
+    repliesData.flatMap(reply => [reply.user_id, ...reply.mentioned_user_ids])
+  );
 
-  if (likesError) {
-    console.error('Error fetching likes:', likesError);
-    throw likesError;
+  return repliesData.map(reply => ({
+    id: reply.id,
+    parentId: reply.parent_id,
+    user: usersMap.get(reply.user_id) || {
+      id: reply.user_id,
+      name: 'Unknown User',
+      avatar: '/avatars/default.jpg'
+    },
+    content: reply.content,
+    mentions: (reply.mentioned_user_ids as string[])
+      .map(userId => usersMap.get(userId))
+      .filter((user): user is User => user !== undefined),
+    createdAt: new Date(reply.created_at)
+  }));
+}
+
+/**
+ * Fetch the current like and reply totals for posts already in the feed
+ *
+ * @param postIds - Posts to count
+ * @returns Totals by post ID (posts with no likes or replies included)
+ */
+export async function getPostStats(postIds: string[]): Promise<Map<string, PostStats>> {
+  const stats = new Map<string, PostStats>();
+  if (postIds.length === 0) {
+    return stats;
   }
 
-  // Count likes per post and check if current user liked it
-  const likesCountMap = new Map<string, number>();
-  const userLikesMap = new Map<string, boolean>();
-  
-  // Get current user
   const { data: { session } } = await supabase.auth.getSession();
   const currentUserId = session?.user?.id;
 
-  likesData?.forEach(like => {
-    const postId = like.post_id;
-    likesCountMap.set(postId, (likesCountMap.get(postId) || 0) + 1);
-    
+  const [likesResult, repliesResult] = await Promise.all([
+    supabase
+      .from('reactions')
+      .select('post_id, user_id')
+      .eq('type', 'like')
+      .in('post_id', postIds),
+    supabase
+      .from('replies')
+      .select('post_id')
+      .in('post_id', postIds)
+  ]);
+
+  if (likesResult.error) {
+    console.error('Error fetching likes:', likesResult.error);
+    throw likesResult.error;
+  }
+
+  if (repliesResult.error) {
+    console.error('Error fetching replies:', repliesResult.error);
+    throw repliesResult.error;
+  }
+
+  postIds.forEach(postId => {
+    stats.set(postId, { likeCount: 0, liked: false, replyCount: 0 });
+  });
+
+  likesResult.data?.forEach(like => {
+    const postStats = stats.get(like.post_id);
+    if (!postStats) return;
+
+    postStats.likeCount += 1;
     if (like.user_id === currentUserId) {
-      userLikesMap.set(postId, true);
+      postStats.liked = true;
     }
   });
 
-  // Get replies
-  const { data: repliesData, error: repliesError } = await supabase
-    .from('replies')
-    .select(`
-      id, 
-      post_id, 
-      content, 
-      created_at,
-      user_id
-    `)
-    .in('post_id', postIds)
-    .order('created_at');
+  repliesResult.data?.forEach(reply => {
+    const postStats = stats.get(reply.post_id);
+    if (postStats) {
+      postStats.replyCount += 1;
+    }
+  });
 
-  if (repliesError) {
-    console.error('Error fetching replies:', repliesError);
-    throw repliesError;
+  return stats;
+}
+
+/**
+ * Fetch the public profiles of several users, e.g. the author and
+ * mentioned users of a reply that arrived in real time
+ *
+ * @param userIds - auth.users IDs (duplicates are fine)
+ * @returns Users by ID; IDs without a profile are left out
+ */
+export async function getUserProfiles(userIds: string[]): Promise<Map<string, User>> {
+  const usersMap = new Map<string, User>();
+  const uniqueIds = [...new Set(userIds)];
+  if (uniqueIds.length === 0) {
+    return usersMap;
   }
 
-  // Group replies by post
-  const repliesMap = new Map<string, Reply[]>();
-  
-  // Get users for replies
-  const replyUserIds = [...new Set(repliesData?.map(reply => reply.user_id) || [])];
-  const replyUsersMap = new Map<string, User>();
-  
-  if (replyUserIds.length > 0) {
-    const { data: replyUsersData, error: replyUsersError } = await supabase
-      .from('profiles')
-      .select('id, name, avatar_url')
-      .in('id', replyUserIds);
-
-    if (replyUsersError) {
-      console.error('Error fetching reply users:', replyUsersError);
-      throw replyUsersError;
-    }
+  // Other users' profiles are only readable through this function
+  const { data: usersData, error } = await supabase
+    .rpc('get_public_profiles', { p_user_ids: uniqueIds });
 
-    replyUsersData?.forEach(user => {
-      replyUsersMap.set(user.id, {
-        id: user.id,
-        name: user.name || 'Anonymous User',
-        avatar: user.avatar_url || '/avatars/default.jpg'
-      });
-    });
+  if (error) {
+    console.error('Error fetching profiles:', error);
+    throw error;
   }
 
-  // Map replies to posts
-  repliesData?.forEach(reply => {
-    const postId = reply.post_id;
-    
-    if (!repliesMap.has(postId)) {
-      repliesMap.set(postId, []);
-    }
-    
-    const user = replyUsersMap.get(reply.user_id) || {
-      id: reply.user_id,
-      name: 'Unknown User',
-      avatar: '/avatars/default.jpg'
-    };
-    
-    repliesMap.get(postId)?.push({
-      id: reply.id,
-      user,
-      content: reply.content,
-      createdAt: new Date(reply.created_at)
+  ((usersData as ProfileRow[] | null) || []).forEach(user => {
+    usersMap.set(user.id, {
+      id: user.id,
+      name: user.name || 'Anonymous User',
+      avatar: user.avatar_url || '/avatars/default.jpg'
     });
   });
 
-  // Combine all data into post objects
-  return postsData.map(post => {
-    const user = usersMap.get(post.user_id) || {
-      id: post.user_id,
-      name: 'Unknown User',
-      avatar: '/avatars/default.jpg'
-    };
-    
-    const zone = post.zone_id ? zonesMap.get(post.zone_id) || null : null;
-    const topics = postTopicsMap.get(post.id) || [];
-    const likeCount = likesCountMap.get(post.id) || 0;
-    const liked = userLikesMap.get(post.id) || false;
-    const replies = repliesMap.get(post.id) || [];
-    
-    return {
-      id: post.id,
-      user,
-      content: post.content,
-      zone,
-      topics,
-      likeCount,
-      liked,
-      replies,
-      imageUrl: post.image_url,
-      expiresAt: new Date(post.expires_at),
-      createdAt: new Date(post.created_at)
-    };
+  return usersMap;
+}
+
+/**
+ * Find users whose name starts with some text, for @mention suggestions
+ *
+ * @param prefix - Text typed after the @
+ * @param limit - Maximum number of users
+ * @returns Matching users, by name
+ */
+export async function searchProfiles(prefix: string, limit: number = 5): Promise<User[]> {
+  if (!prefix.trim()) return [];
+
+  const { data, error } = await supabase
+    .rpc('search_profiles', { p_prefix: prefix.trim(), p_limit: limit });
+
+  if (error) {
+    console.error('Error searching profiles:', error);
+    throw error;
+  }
+
+  return ((data as ProfileRow[] | null) || [])
+    .filter(user => user.name)
+    .map(user => ({
+      id: user.id,
+      name: user.name as string,
+      avatar: user.avatar_url || '/avatars/default.jpg'
+    }));
+}
+
+/**
+ * Resolve the @name mentions in a reply against profiles. A name shared
+ * by several profiles is ambiguous and is not treated as a mention.
+ *
+ * @param content - Reply content
+ * @returns Mentioned users, at most MAX_MENTIONS
+ */
+export async function resolveMentions(content: string): Promise<User[]> {
+  const prefixes = extractMentionPrefixes(content).slice(0, MAX_MENTIONS);
+  if (prefixes.length === 0) return [];
+
+  const candidates = (await Promise.all(prefixes.map(prefix => searchProfiles(prefix, 20)))).flat();
+
+  const byName = new Map<string, User[]>();
+  candidates.forEach(user => {
+    if (!mentionsName(content, user.name)) return;
+
+    const key = user.name.toLowerCase();
+    const users = byName.get(key) || [];
+    if (!users.some(existing => existing.id === user.id)) {
+      byName.set(key, [...users, user]);
+    }
   });
+
+  return [...byName.values()]
+    .filter(users => users.length === 1)
+    .map(users => users[0])
+    .slice(0, MAX_MENTIONS);
 }
 
 /**
@@ -337,6 +444,9 @@ export async function createPost(
     throw new Error('You must be logged in to create a post');
   }
 
+  // Posting bans and word filters (throws ModerationError)
+  await assertCanPublish(content);
+
   const userId = session.user.id;
   const postId = uuidv4();
   
@@ -358,6 +468,10 @@ export async function createPost(
 
   if (postError) {
     console.error('Error creating post:', postError);
+    // A filter added after assertCanPublish ran is caught by the database
+    if (postError.hint === 'word_filter') {
+      throw new ModerationError(postError.message);
+    }
     throw postError;
   }
 
@@ -480,21 +594,28 @@ export async function toggleLike(postId: string): Promise<boolean> {
 }
 
 /**
- * Add a reply to a post
+ * Add a reply to a post, or to another reply on it. The post's author,
+ * the author of the reply being answered and mentioned users are
+ * notified by the database.
  * 
  * @param postId - ID of the post to reply to
  * @param content - Reply content text
+ * @param parentId - Reply being answered, or null to reply to the post
  * @returns The created reply object
  */
-export async function addReply(postId: string, content: string): Promise<Reply> {
+export async function addReply(postId: string, content: string, parentId: string | null = null): Promise<Reply> {
   // Get current user
   const { data: { session } } = await supabase.auth.getSession();
   if (!session?.user) {
     throw new Error('You must be logged in to reply to posts');
   }
 
+  // Posting bans and word filters (throws ModerationError)
+  await assertCanPublish(content);
+
   const userId = session.user.id;
   const replyId = uuidv4();
+  const mentions = await resolveMentions(content);
 
   // Create the reply
   const { error: replyError } = await supabase
@@ -502,12 +623,17 @@ export async function addReply(postId: string, content: string): Promise<Reply>
     .insert({
       id: replyId,
       post_id: postId,
+      parent_id: parentId,
       user_id: userId,
-      content
+      content,
+      mentioned_user_ids: mentions.map(user => user.id)
     });
 
   if (replyError) {
     console.error('Error creating reply:', replyError);
+    if (replyError.hint === 'word_filter') {
+      throw new ModerationError(replyError.message);
+    }
     throw replyError;
   }
 
@@ -526,12 +652,14 @@ export async function addReply(postId: string, content: string): Promise<Reply>
   // Return the created reply
   return {
     id: replyId,
+    parentId,
     user: {
       id: userId,
       name: profile?.name || session.user.email || 'Anonymous User',
       avatar: profile?.avatar_url || '/avatars/default.jpg'
     },
     content,
+    mentions,
     createdAt: new Date()
   };
 }
@@ -584,4 +712,90 @@ export async function getCurrentUser(): Promise<User | null> {
     name: profile?.name || session.user.email || 'Anonymous User',
     avatar: profile?.avatar_url || '/avatars/default.jpg'
   };
-} 
\ No newline at end of file
+}
+
+/**
+ * Subscribe to live changes to posts, replies and likes over Supabase
+ * Realtime
+ *
+ * @param onEvent - Called with each change, in the order it arrives
+ * @returns Unsubscribe function
+ */
+export function subscribeToFeed(onEvent: (event: FeedEvent) => void): () => void {
+  const channel = supabase
+    .channel('communications_feed_channel')
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'communications'
+    }, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const old = payload.old as { id?: string };
+        if (old.id) onEvent({ type: 'post_deleted', id: old.id });
+        return;
+      }
+
+      const row = payload.new as Database['public']['Tables']['communications']['Row'];
+      onEvent({
+        type: payload.eventType === 'INSERT' ? 'post_created' : 'post_updated',
+        post: {
+          id: row.id,
+          userId: row.user_id,
+          content: row.content,
+          zoneId: row.zone_id,
+          imageUrl: row.image_url,
+          expiresAt: new Date(row.expires_at),
+          createdAt: new Date(row.created_at),
+          isHidden: row.is_hidden
+        }
+      });
+    })
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'replies'
+    }, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const old = payload.old as { id?: string };
+        if (old.id) onEvent({ type: 'reply_deleted', id: old.id });
+        return;
+      }
+
+      if (payload.eventType !== 'INSERT') return;
+
+      const row = payload.new as Database['public']['Tables']['replies']['Row'];
+      onEvent({
+        type: 'reply_created',
+        postId: row.post_id,
+        reply: {
+          id: row.id,
+          parentId: row.parent_id,
+          userId: row.user_id,
+          content: row.content,
+          mentionedUserIds: row.mentioned_user_ids ?? [],
+          createdAt: new Date(row.created_at)
+        }
+      });
+    })
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'reactions'
+    }, (payload) => {
+      if (payload.eventType === 'DELETE') {
+        const old = payload.old as { id?: string };
+        if (old.id) onEvent({ type: 'reaction_deleted', id: old.id });
+        return;
+      }
+
+      const row = payload.new as Database['public']['Tables']['reactions']['Row'];
+      if (payload.eventType === 'INSERT' && row.type === 'like') {
+        onEvent({ type: 'like_added', id: row.id, postId: row.post_id, userId: row.user_id });
+      }
+    })
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
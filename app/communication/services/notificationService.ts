@@ -0,0 +1,116 @@
+/**
+ * NOTIFICATION SERVICE
+ *
+ * Data access for in-app notifications about replies: replies to the
+ * user's posts or replies, and @mentions.
+ *
+ * CONTEXT:
+ * Notifications are created by a database trigger when a reply is
+ * inserted, so this service only reads them and marks them read. Read
+ * state is stored in the database, so the unread count survives reloads
+ * and is shared between devices.
+ *
+ * KEY DEPENDENCIES:
+ * - Supabase client for queries and realtime
+ */
+
+import { supabase } from '@/lib/supabase';
+import { Database } from '@/types/supabase';
+import { ReplyNotification } from '../types/communicationTypes';
+
+type NotificationRow = Database['public']['Functions']['get_notifications']['Returns'][number];
+
+/**
+ * Fetch the signed-in user's latest notifications, newest first
+ *
+ * @param limit - Number of notifications to return (the database caps it at 50)
+ * @returns Notifications with who replied and the start of the reply
+ */
+export async function getNotifications(limit: number = 20): Promise<ReplyNotification[]> {
+  const { data, error } = await supabase.rpc('get_notifications', { p_limit: limit });
+
+  if (error) {
+    console.error('Error fetching notifications:', error);
+    throw error;
+  }
+
+  return ((data as NotificationRow[] | null) || []).map(row => ({
+    id: row.id,
+    type: row.type,
+    postId: row.post_id,
+    replyId: row.reply_id,
+    actor: {
+      id: row.actor_id || '',
+      name: row.actor_name || 'Anonymous User',
+      avatar: row.actor_avatar || '/avatars/default.jpg'
+    },
+    excerpt: row.excerpt,
+    createdAt: new Date(row.created_at),
+    read: row.read_at !== null
+  }));
+}
+
+/**
+ * Count the signed-in user's unread notifications
+ *
+ * @returns Number of unread notifications (0 when signed out)
+ */
+export async function getUnreadNotificationCount(): Promise<number> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session?.user) {
+    return 0;
+  }
+
+  const { count, error } = await supabase
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('recipient_id', session.user.id)
+    .is('read_at', null);
+
+  if (error) {
+    console.error('Error counting notifications:', error);
+    throw error;
+  }
+
+  return count ?? 0;
+}
+
+/**
+ * Mark notifications read
+ *
+ * @param notificationIds - Notifications to mark, or null for all of them
+ */
+export async function markNotificationsRead(notificationIds: string[] | null) {
+  const { error } = await supabase.rpc('mark_notifications_read', {
+    p_notification_ids: notificationIds
+  });
+
+  if (error) {
+    console.error('Error marking notifications read:', error);
+    throw error;
+  }
+}
+
+/**
+ * Subscribe to changes to a user's notifications (new ones, and ones
+ * marked read on another device)
+ *
+ * @param userId - Recipient
+ * @param onChange - Called after each change
+ * @returns Unsubscribe function
+ */
+export function subscribeToNotifications(userId: string, onChange: () => void): () => void {
+  const channel = supabase
+    .channel(`notifications_${userId}`)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'notifications',
+      filter: `recipient_id=eq.${userId}`
+    }, () => onChange())
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
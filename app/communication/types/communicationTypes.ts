@@ -45,12 +45,16 @@ export interface Topic {
 }
 
 /**
- * Reply to a communication post
+ * Reply to a communication post, or to another reply on it
  */
 export interface Reply {
   id: string;
+  // Reply being answered; null for a reply to the post itself
+  parentId: string | null;
   user: User;
   content: string;
+  // Users mentioned with @name
+  mentions: User[];
   createdAt: Date;
 }
 
@@ -65,7 +69,9 @@ export interface Post {
   topics: Topic[];
   likeCount: number;
   liked: boolean;
-  replies: Reply[];
+  replyCount: number;
+  // Loaded when the thread is first opened; null until then
+  replies: Reply[] | null;
   imageUrl: string | null;
   expiresAt: Date;
   createdAt: Date;
@@ -76,6 +82,56 @@ export interface Post {
  */
 export type PostFilter = 'all' | `zone:${string}` | `topic:${string}`;
 
+/**
+ * Position in the feed: the created_at (as returned by the database, to
+ * keep microsecond precision) and id of the last post already loaded
+ */
+export interface FeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+/**
+ * One page of the communication feed
+ */
+export interface FeedPage {
+  posts: Post[];
+  // Null when there are no older posts
+  nextCursor: FeedCursor | null;
+}
+
+/**
+ * Search box text and filters
+ */
+export interface SearchFilters {
+  // Words, "quoted phrases", or and -exclusions; Thai or English
+  query: string;
+  zoneId: string | null;
+  // Bangkok dates as "yyyy-MM-dd", both included
+  from: string | null;
+  to: string | null;
+  // Only posts with an image
+  hasImage: boolean;
+}
+
+/**
+ * A post found by search, with the replies that matched
+ */
+export interface SearchResult {
+  post: Post;
+  rank: number;
+  // Up to three, best match first
+  matchingReplies: { id: string; content: string; authorName: string }[];
+}
+
+/**
+ * One page of search results
+ */
+export interface SearchPage {
+  results: SearchResult[];
+  hasMore: boolean;
+}
+
 /**
  * Post creation parameters
  */
@@ -85,4 +141,68 @@ export interface CreatePostParams {
   imageUrl: string | null;
   expiresAt: Date;
   hashtags: string[];
-} 
\ No newline at end of file
+} 
+/**
+ * A post as sent in a realtime change, before author, topics and counts
+ * are joined in
+ */
+export interface PostChange {
+  id: string;
+  userId: string;
+  content: string;
+  zoneId: string | null;
+  imageUrl: string | null;
+  expiresAt: Date;
+  createdAt: Date;
+  // Hidden by a moderator
+  isHidden: boolean;
+}
+
+/**
+ * A realtime change to the feed. Deletions only carry the row id (RLS
+ * strips the rest of the old row), so the feed has to work out which
+ * post they belong to.
+ */
+export type FeedEvent =
+  | { type: 'post_created' | 'post_updated'; post: PostChange }
+  | { type: 'post_deleted'; id: string }
+  | {
+      type: 'reply_created';
+      postId: string;
+      reply: { id: string; parentId: string | null; userId: string; content: string; mentionedUserIds: string[]; createdAt: Date };
+    }
+  | { type: 'reply_deleted'; id: string }
+  | { type: 'like_added'; id: string; postId: string; userId: string }
+  | { type: 'reaction_deleted'; id: string };
+
+/**
+ * Like and reply totals for a post, used to correct the feed after
+ * changes that could not be applied directly
+ */
+export interface PostStats {
+  likeCount: number;
+  liked: boolean;
+  replyCount: number;
+}
+
+/**
+ * What a notification is about: a reply to the user's post, a reply to
+ * one of their replies, or a mention
+ */
+export type NotificationType = 'post_reply' | 'reply_reply' | 'mention';
+
+/**
+ * In-app notification about a reply
+ */
+export interface ReplyNotification {
+  id: string;
+  type: NotificationType;
+  postId: string;
+  replyId: string;
+  // Who replied
+  actor: User;
+  // Start of the reply
+  excerpt: string;
+  createdAt: Date;
+  read: boolean;
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { Post, PostChange, Reply, User } from '../types/communicationTypes';
+import { applyPostStats, insertReply, postMatchesFilter, updatePost } from './feedUpdates';
+
+const author: User = { id: 'user-1', name: 'Ploy', avatar: '/avatars/default.jpg' };
+
+function postChange(overrides: Partial<PostChange> = {}): PostChange {
+  return {
+    id: 'post-1',
+    userId: author.id,
+    content: 'Quiet table free near the window #study',
+    zoneId: 'zone-1',
+    imageUrl: null,
+    expiresAt: new Date('2024-08-02T10:00:00Z'),
+    createdAt: new Date('2024-08-01T10:00:00Z'),
+    isHidden: false,
+    ...overrides,
+  };
+}
+
+function post(id: string, overrides: Partial<Post> = {}): Post {
+  return {
+    id,
+    user: author,
+    content: `Post ${id}`,
+    zone: null,
+    topics: [],
+    likeCount: 0,
+    liked: false,
+    replyCount: 0,
+    replies: null,
+    imageUrl: null,
+    expiresAt: new Date('2024-08-02T10:00:00Z'),
+    createdAt: new Date('2024-08-01T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+function reply(id: string, createdAt: string): Reply {
+  return {
+    id,
+    parentId: null,
+    user: author,
+    content: `Reply ${id}`,
+    mentions: [],
+    createdAt: new Date(createdAt),
+  };
+}
+
+describe('postMatchesFilter', () => {
+  it('shows every visible post in the full feed', () => {
+    expect(postMatchesFilter(postChange(), 'all')).toBe(true);
+  });
+
+  it('never shows hidden posts', () => {
+    const hidden = postChange({ isHidden: true });
+
+    expect(postMatchesFilter(hidden, 'all')).toBe(false);
+    expect(postMatchesFilter(hidden, 'zone:zone-1')).toBe(false);
+    expect(postMatchesFilter(hidden, 'topic:study')).toBe(false);
+  });
+
+  it('matches zone filters on the zone id', () => {
+    expect(postMatchesFilter(postChange(), 'zone:zone-1')).toBe(true);
+    expect(postMatchesFilter(postChange(), 'zone:zone-2')).toBe(false);
+    expect(postMatchesFilter(postChange({ zoneId: null }), 'zone:zone-1')).toBe(false);
+  });
+
+  it('matches topic filters on the hashtags in the content', () => {
+    expect(postMatchesFilter(postChange(), 'topic:study')).toBe(true);
+    expect(postMatchesFilter(postChange(), 'topic:stud')).toBe(false);
+    expect(postMatchesFilter(postChange({ content: 'No tags here' }), 'topic:study')).toBe(false);
+  });
+});
+
+describe('updatePost', () => {
+  it('replaces only the matching post', () => {
+    const posts = [post('a'), post('b')];
+    const updated = updatePost(posts, 'b', current => ({ ...current, likeCount: current.likeCount + 1 }));
+
+    expect(updated).not.toBe(posts);
+    expect(updated[0]).toBe(posts[0]);
+    expect(updated[1].likeCount).toBe(1);
+  });
+
+  it('leaves the posts unchanged when the id is not in the feed', () => {
+    const posts = [post('a')];
+
+    expect(updatePost(posts, 'missing', current => ({ ...current, liked: true }))).toEqual(posts);
+  });
+});
+
+describe('insertReply', () => {
+  it('keeps replies in created order', () => {
+    const replies = [reply('r1', '2024-08-01T10:00:00Z'), reply('r3', '2024-08-01T10:10:00Z')];
+    const inserted = insertReply(replies, reply('r2', '2024-08-01T10:05:00Z'));
+
+    expect(inserted.map(item => item.id)).toEqual(['r1', 'r2', 'r3']);
+    expect(replies).toHaveLength(2);
+  });
+
+  it('ignores a reply that is already in the thread', () => {
+    const replies = [reply('r1', '2024-08-01T10:00:00Z')];
+
+    expect(insertReply(replies, reply('r1', '2024-08-01T10:00:00Z'))).toBe(replies);
+  });
+});
+
+describe('applyPostStats', () => {
+  it('overwrites the totals of posts that have fresh stats', () => {
+    const posts = [post('a', { likeCount: 2, replyCount: 1 }), post('b', { likeCount: 5 })];
+    const stats = new Map([['a', { likeCount: 3, liked: true, replyCount: 4 }]]);
+    const updated = applyPostStats(posts, stats);
+
+    expect(updated[0]).toMatchObject({ likeCount: 3, liked: true, replyCount: 4 });
+    expect(updated[1]).toBe(posts[1]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * FEED UPDATE HELPERS
+ *
+ * Pure functions used by useCommunication to apply realtime changes to the
+ * posts already on screen. Each returns a new array and leaves posts that
+ * are not affected untouched.
+ */
+
+import { Post, PostChange, PostFilter, PostStats, Reply } from '../types/communicationTypes';
+import { extractHashtags } from './extractHashtags';
+
+/**
+ * Check whether a post belongs in the feed for a filter. Hidden posts
+ * never do; topics are read from the post's hashtags, which is how
+ * createPost assigns them.
+ *
+ * @param post - Post from a realtime change
+ * @param filter - Current feed filter
+ */
+export function postMatchesFilter(post: PostChange, filter: PostFilter): boolean {
+  if (post.isHidden) return false;
+  if (filter === 'all') return true;
+
+  const [kind, value] = filter.split(/:(.*)/);
+
+  if (kind === 'zone') {
+    return post.zoneId === value;
+  }
+
+  return extractHashtags(post.content).includes(`#${value}`);
+}
+
+/**
+ * Replace one post using an update function
+ *
+ * @param posts - Posts in the feed
+ * @param postId - Post to update
+ * @param update - Returns the updated post
+ */
+export function updatePost(posts: Post[], postId: string, update: (post: Post) => Post): Post[] {
+  return posts.map(post => (post.id === postId ? update(post) : post));
+}
+
+/**
+ * Add a reply to a thread in created order, ignoring it if it is already
+ * there (the same reply can come from the API response and the realtime
+ * event, in either order)
+ *
+ * @param replies - Replies already loaded
+ * @param reply - Reply to add
+ */
+export function insertReply(replies: Reply[], reply: Reply): Reply[] {
+  if (replies.some(existing => existing.id === reply.id)) {
+    return replies;
+  }
+
+  return [...replies, reply].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Overwrite like and reply totals with freshly counted values
+ *
+ * @param posts - Posts in the feed
+ * @param stats - Totals by post ID from getPostStats
+ */
+export function applyPostStats(posts: Post[], stats: Map<string, PostStats>): Post[] {
+  return posts.map(post => {
+    const postStats = stats.get(post.id);
+    return postStats ? { ...post, ...postStats } : post;
+  });
+}
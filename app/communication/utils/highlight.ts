@@ -0,0 +1,76 @@
+/**
+ * SEARCH HIGHLIGHT UTILITIES
+ *
+ * Helpers for marking search matches in post and reply text. Matching is
+ * done on substrings, like the database's fallback for Thai, so it works
+ * for Thai words inside longer runs of text as well as for English.
+ */
+
+// Common English endings, so "rooms" also highlights "room" (the search
+// itself matches stemmed words)
+const ENGLISH_SUFFIXES = /(?:ing|ed|es|s)$/;
+
+/**
+ * Split a search query into the words to highlight, ignoring quotes,
+ * hashtags, "or" and -exclusions
+ *
+ * @param query - Search box text
+ * @returns Lowercased words, without duplicates
+ */
+export function getSearchTerms(query: string): string[] {
+  const terms = query
+    .replace(/["#]/g, ' ')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(term => term !== '' && term !== 'or' && !term.startsWith('-'));
+
+  return [...new Set(terms)];
+}
+
+/**
+ * Split text into matching and non-matching parts for display
+ *
+ * @param text - Post or reply content
+ * @param terms - Words from getSearchTerms
+ * @returns Segments in order; overlapping matches are merged
+ */
+export function splitHighlights(text: string, terms: string[]): { text: string; match: boolean }[] {
+  const needles = new Set<string>();
+  terms.forEach(term => {
+    needles.add(term);
+    const stem = term.replace(ENGLISH_SUFFIXES, '');
+    if (stem !== term && stem.length >= 3) needles.add(stem);
+  });
+
+  const lowerText = text.toLowerCase();
+  const ranges: [number, number][] = [];
+  needles.forEach(needle => {
+    for (let index = lowerText.indexOf(needle); index !== -1; index = lowerText.indexOf(needle, index + 1)) {
+      ranges.push([index, index + needle.length]);
+    }
+  });
+
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  ranges.forEach(([start, end]) => {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  });
+
+  const segments: { text: string; match: boolean }[] = [];
+  let position = 0;
+  merged.forEach(([start, end]) => {
+    if (start > position) segments.push({ text: text.slice(position, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    position = end;
+  });
+  if (position < text.length) segments.push({ text: text.slice(position), match: false });
+
+  return segments;
+}
@@ -0,0 +1,113 @@
+/**
+ * MENTION UTILITIES
+ *
+ * Helpers for `@name` mentions in replies. Names can contain spaces
+ * ("@Somchai Jaidee"), so a mention is only recognised once the text
+ * after the @ has been compared with real profile names: the first word
+ * is used to look up candidates, then the full name has to follow the @
+ * and end at a space, punctuation or the end of the text.
+ */
+
+import { User } from '../types/communicationTypes';
+
+// At most this many users can be mentioned in one reply (the database
+// enforces the same limit)
+export const MAX_MENTIONS = 10;
+
+// The @word being typed at the end of the text, if any
+const MENTION_QUERY = /(?:^|\s)@([^\s@]*)$/;
+
+// Characters that can follow a complete mention
+const MENTION_END = /[\s.,!?;:)\]}'"]/;
+
+/**
+ * Find the first words of every @mention in a text, to look up the
+ * profiles they may refer to
+ *
+ * @param text - Reply content
+ * @returns Lowercased words, without duplicates
+ */
+export function extractMentionPrefixes(text: string): string[] {
+  const prefixes = Array.from(text.matchAll(/(?:^|\s)@([^\s@.,!?;:]+)/g), match => match[1].toLowerCase());
+  return [...new Set(prefixes)];
+}
+
+/**
+ * Check whether a text mentions a name
+ *
+ * @param text - Reply content
+ * @param name - Profile name
+ */
+export function mentionsName(text: string, name: string): boolean {
+  const lowerText = text.toLowerCase();
+  const needle = `@${name.toLowerCase()}`;
+
+  for (let index = lowerText.indexOf(needle); index !== -1; index = lowerText.indexOf(needle, index + 1)) {
+    const before = lowerText[index - 1];
+    const after = lowerText[index + needle.length];
+    if ((before === undefined || /\s/.test(before)) && (after === undefined || MENTION_END.test(after))) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * The @word being typed at the caret, for suggesting names
+ *
+ * @param textBeforeCaret - Text up to the caret
+ * @returns The word after the @ (possibly empty), or null when the caret is not in a mention
+ */
+export function getMentionQuery(textBeforeCaret: string): string | null {
+  const match = textBeforeCaret.match(MENTION_QUERY);
+  return match ? match[1] : null;
+}
+
+/**
+ * Split reply content into plain text and mentions for display. Longer
+ * names are matched first, so "@Anna Lee" is not shown as "@Anna".
+ *
+ * @param text - Reply content
+ * @param mentions - Users the reply mentions
+ * @returns Segments in order; mention segments carry the user
+ */
+export function splitMentions(text: string, mentions: User[]): { text: string; user?: User }[] {
+  if (mentions.length === 0) return [{ text }];
+
+  const users = [...mentions].sort((a, b) => b.name.length - a.name.length);
+  const lowerText = text.toLowerCase();
+  const segments: { text: string; user?: User }[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const atMention = text[index] === '@' && (index === 0 || /\s/.test(text[index - 1]));
+    const user = atMention
+      ? users.find(candidate => {
+          const end = index + 1 + candidate.name.length;
+          return lowerText.startsWith(candidate.name.toLowerCase(), index + 1)
+            && (end === text.length || MENTION_END.test(text[end]));
+        })
+      : undefined;
+
+    if (!user) {
+      index += 1;
+      continue;
+    }
+
+    if (index > plainStart) {
+      segments.push({ text: text.slice(plainStart, index) });
+    }
+    const end = index + 1 + user.name.length;
+    segments.push({ text: text.slice(index, end), user });
+    index = end;
+    plainStart = end;
+  }
+
+  if (plainStart < text.length) {
+    segments.push({ text: text.slice(plainStart) });
+  }
+
+  return segments;
+}
@@ -75,7 +75,7 @@ const CommunicationsCard = ({
                 </div>
                 <div className="flex items-center">
                   <MessageCircle className="w-3 h-3 mr-1" />
-                  <span>{post.replies.length}</span>
+                  <span>{post.replyCount}</span>
                 </div>
               </div>
             </div>
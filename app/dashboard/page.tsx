@@ -12,7 +12,7 @@ import { useEffect, useState } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { useOccupancy } from '@/contexts/OccupancyContext'
 import { supabase } from '@/lib/supabase'
-import { getPosts } from '@/app/communication/services/communicationService'
+import { getFeedPage } from '@/app/communication/services/communicationService'
 import { Post } from '@/app/communication/types/communicationTypes'
 import { ChartDataPoint, Reservation } from './types'
 import { getInitials } from './utils'
@@ -237,7 +237,8 @@ export default function Dashboard() {
       try {
         const { error } = await supabase
           .from('rooms')
-          .select('count', { count: 'exact' });
+          .select('count', { count: 'exact' })
+          .eq('is_active', true);
         
         if (error) {
           console.error('Error fetching room count:', error);
@@ -279,9 +280,9 @@ export default function Dashboard() {
     const fetchCommunications = async () => {
       try {
         setCommunicationsLoading(true);
-        const posts = await getPosts();
-        // Get most recent 3 posts for the dashboard
-        setRecentCommunications(posts.slice(0, 4));
+        // Only the most recent posts are shown on the dashboard
+        const { posts } = await getFeedPage('all', null, 4);
+        setRecentCommunications(posts);
       } catch (error) {
         console.error("Error fetching communications:", error);
       } finally {
@@ -22,7 +22,7 @@ export interface Reservation {
   end_time: string;
   agenda: string;
   num_people: number;
-  status: 'pending' | 'confirmed' | 'cancelled';
+  status: 'pending' | 'confirmed' | 'cancelled' | 'no_show';
   user_email?: string;
   created_at?: string;
 }
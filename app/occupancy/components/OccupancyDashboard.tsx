@@ -34,6 +34,7 @@ import OccupancyTrends from "./OccupancyTrends";
 import OccupancyWeeklyTrends from "./OccupancyWeeklyTrends";
 import OccupancyTwoDayTrends from "./OccupancyTwoDayTrends";
 import OccupancyPrediction from "./OccupancyPrediction";
+import ReportExportPanel from "@/app/analytics/components/ReportExportPanel";
 
 export default function OccupancyDashboard() {
   /**
@@ -55,7 +56,9 @@ export default function OccupancyDashboard() {
     twoDayData,
     predictionData,
     isLoading, 
-    lastUpdated 
+    lastUpdated,
+    connectionStatus,
+    isStale
   } = useOccupancy();
 
   /**
@@ -79,10 +82,22 @@ export default function OccupancyDashboard() {
    */
   return (
     <div className="space-y-6">
-      {/* Last Updated Timestamp */}
+      {/* Last Updated Timestamp with live/stale indicator */}
       {lastUpdated && (
-        <div className="text-sm text-gray-500 text-right">
-          Last updated: {lastUpdated.toLocaleTimeString()}
+        <div className="flex items-center justify-end gap-2 text-sm text-gray-500">
+          {isStale ? (
+            <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-700">
+              Stale
+            </span>
+          ) : connectionStatus === "live" ? (
+            <span className="flex items-center gap-1 text-xs font-medium text-green-600">
+              <span className="h-2 w-2 rounded-full bg-green-500 animate-pulse" />
+              Live
+            </span>
+          ) : null}
+          <span className={isStale ? "text-amber-700" : undefined}>
+            Last updated: {lastUpdated.toLocaleTimeString()}
+          </span>
         </div>
       )}
       
@@ -133,6 +148,17 @@ export default function OccupancyDashboard() {
           </CardContent>
         </Card>
       </div>
+
+      {/* Export recorded occupancy history */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Export History</CardTitle>
+          <CardDescription>Download recorded occupancy as CSV, Excel or PDF</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ReportExportPanel reports={["occupancy-hourly", "occupancy-daily"]} />
+        </CardContent>
+      </Card>
     </div>
   );
 } 
\ No newline at end of file
@@ -7,7 +7,8 @@
  * 
  * DATA FLOW: 
  *   - Receives prediction data points from parent component
- *   - Visualizes predictions with confidence intervals
+ *   - Visualizes predictions with their 80% prediction interval band
+ *     (when the data source provides lower/upper bounds)
  * 
  * KEY DEPENDENCIES:
  *   - recharts for data visualization
@@ -33,6 +34,14 @@ interface OccupancyPredictionProps {
   data: PredictionDataPoint[];
 }
 
+/**
+ * Prediction point with the interval as a [lower, upper] pair,
+ * the shape recharts expects for a range Area
+ */
+type ChartDataPoint = PredictionDataPoint & {
+  interval?: [number, number];
+};
+
 /**
  * CUSTOM TOOLTIP COMPONENT
  * 
@@ -45,7 +54,7 @@ interface CustomTooltipProps {
     value: number;
     name: string;
     dataKey: string;
-    payload: PredictionDataPoint;
+    payload: ChartDataPoint;
   }>;
   label?: string;
 }
@@ -59,7 +68,7 @@ export default function OccupancyPrediction({ data }: OccupancyPredictionProps)
    */
   const CustomTooltip = ({ active, payload }: CustomTooltipProps) => {
     if (active && payload && payload.length) {
-      const { formattedDay, formattedTime, predicted, confidence } = payload[0].payload;
+      const { formattedDay, formattedTime, predicted, confidence, lower, upper } = payload[0].payload;
       const confidencePercent = Math.round(confidence * 100);
       
       return (
@@ -78,6 +87,14 @@ export default function OccupancyPrediction({ data }: OccupancyPredictionProps)
                 {confidencePercent}%
               </span>
             </div>
+            {lower !== undefined && upper !== undefined && (
+              <div className="flex justify-between items-center">
+                <span className="text-gray-600">Likely range:</span>
+                <span className="font-semibold text-gray-700">
+                  {Math.round(lower * 100)}–{Math.round(upper * 100)}%
+                </span>
+              </div>
+            )}
           </div>
         </div>
       );
@@ -108,11 +125,23 @@ export default function OccupancyPrediction({ data }: OccupancyPredictionProps)
     return `${parts[0]} ${parts[1].split(':')[0]}h`;
   };
 
+  /**
+   * ATTACH INTERVAL RANGES
+   * 
+   * Only forecasts learned from recorded history carry interval bounds
+   */
+  const chartData: ChartDataPoint[] = data.map((point) =>
+    point.lower !== undefined && point.upper !== undefined
+      ? { ...point, interval: [point.lower, point.upper] }
+      : point
+  );
+  const hasIntervals = chartData.some((point) => point.interval);
+
   return (
     <div className="h-[300px] w-full">
       <ResponsiveContainer width="100%" height="100%">
         <AreaChart
-          data={data}
+          data={chartData}
           margin={{ top: 10, right: 10, left: 0, bottom: 10 }}
         >
           {/* Background Grid */}
@@ -152,6 +181,19 @@ export default function OccupancyPrediction({ data }: OccupancyPredictionProps)
             </linearGradient>
           </defs>
           
+          {/* Prediction Interval Band */}
+          {hasIntervals && (
+            <Area
+              type="monotone"
+              dataKey="interval"
+              name="80% Prediction Interval"
+              stroke="none"
+              fill="#c4b5fd"
+              fillOpacity={0.4}
+              activeDot={false}
+            />
+          )}
+          
           <Area
             type="monotone"
             dataKey="predicted"
@@ -167,7 +209,11 @@ export default function OccupancyPrediction({ data }: OccupancyPredictionProps)
       {/* Confidence Indicator */}
       <div className="mt-2 flex items-center justify-center text-xs text-gray-500">
         <span className="inline-block h-3 w-3 rounded-full bg-purple-600 mr-1 opacity-70"></span>
-        <span>Prediction confidence decreases with time</span>
+        <span>
+          {hasIntervals
+            ? "Shaded band shows the 80% prediction interval"
+            : "Prediction confidence decreases with time"}
+        </span>
       </div>
     </div>
   );
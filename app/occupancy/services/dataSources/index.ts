@@ -0,0 +1,45 @@
+/**
+ * OCCUPANCY DATA SOURCES
+ *
+ * Picks the OccupancyDataSource used by OccupancyProvider from configuration:
+ *
+ *   NEXT_PUBLIC_OCCUPANCY_SOURCE=supabase   (default) live counts from the ingestion store
+ *   NEXT_PUBLIC_OCCUPANCY_SOURCE=mock       deterministic generator, no database needed
+ *   NEXT_PUBLIC_OCCUPANCY_SOURCE=recorded   replay of NEXT_PUBLIC_OCCUPANCY_RECORDING_URL
+ */
+
+import { OccupancyDataSource, OccupancySourceName } from '../../types/occupancyTypes';
+import { mockDataSource } from './mockDataSource';
+import { supabaseDataSource } from './supabaseDataSource';
+import { createRecordedDataSource } from './recordedDataSource';
+
+export { mockDataSource, supabaseDataSource, createRecordedDataSource };
+export type { OccupancyRecording } from './recordedDataSource';
+
+/**
+ * Resolve the configured occupancy data source
+ *
+ * @returns The data source named by NEXT_PUBLIC_OCCUPANCY_SOURCE
+ */
+export function getOccupancyDataSource(): OccupancyDataSource {
+  // NEXT_PUBLIC_ variables are inlined at build time, so read them explicitly
+  const sourceName = (process.env.NEXT_PUBLIC_OCCUPANCY_SOURCE || 'supabase') as OccupancySourceName;
+
+  switch (sourceName) {
+    case 'mock':
+      return mockDataSource;
+    case 'recorded': {
+      const recordingUrl = process.env.NEXT_PUBLIC_OCCUPANCY_RECORDING_URL;
+      if (!recordingUrl) {
+        console.warn('NEXT_PUBLIC_OCCUPANCY_RECORDING_URL is not set, falling back to mock');
+        return mockDataSource;
+      }
+      return createRecordedDataSource(recordingUrl);
+    }
+    case 'supabase':
+      return supabaseDataSource;
+    default:
+      console.warn(`Unknown occupancy source "${sourceName}", falling back to supabase`);
+      return supabaseDataSource;
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * MOCK OCCUPANCY DATA SOURCE
+ *
+ * Wraps the deterministic generators in utils/mockOccupancyData so they
+ * can stand in for real data during development and testing.
+ */
+
+import {
+  getOverallOccupancy,
+  generateHistoricalData,
+  generateWeeklyData,
+  generateTwoDayData,
+  generatePredictionData,
+} from '@/utils/mockOccupancyData';
+import { OccupancyDataSource } from '../../types/occupancyTypes';
+
+export const mockDataSource: OccupancyDataSource = {
+  name: 'mock',
+  getCurrentOccupancy: async () => getOverallOccupancy(),
+  getHistoricalData: async (hours) => generateHistoricalData(hours),
+  getWeeklyData: async () => generateWeeklyData(),
+  getTwoDayData: async () => generateTwoDayData(),
+  getPredictionData: async () => generatePredictionData(),
+};
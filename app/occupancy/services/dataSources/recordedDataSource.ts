@@ -0,0 +1,67 @@
+/**
+ * RECORDED OCCUPANCY DATA SOURCE
+ *
+ * Replays a recorded occupancy snapshot from a JSON file, so the
+ * dashboards can be run locally against real data without a database.
+ *
+ * The file must contain every series OccupancyContext needs:
+ *   { current, historical, weekly, twoDay, prediction }
+ * Export one from the dashboards of a running instance, or hand-write one
+ * for a test, and serve it from /public.
+ */
+
+import {
+  OccupancyData,
+  OccupancyDataSource,
+  HistoricalDataPoint,
+  WeeklyDataPoint,
+  TwoDayDataPoint,
+  PredictionDataPoint,
+} from '../../types/occupancyTypes';
+
+/**
+ * Shape of a recorded occupancy file
+ */
+export interface OccupancyRecording {
+  current: OccupancyData;
+  historical: HistoricalDataPoint[];
+  weekly: WeeklyDataPoint[];
+  twoDay: TwoDayDataPoint[];
+  prediction: PredictionDataPoint[];
+}
+
+/**
+ * Create a data source that replays a recording
+ *
+ * @param recordingUrl - URL of the recording JSON (e.g. "/recordings/occupancy.json")
+ * @returns Data source that fetches the recording once and serves it from memory
+ */
+export function createRecordedDataSource(recordingUrl: string): OccupancyDataSource {
+  let recording: Promise<OccupancyRecording> | null = null;
+
+  const load = () => {
+    if (!recording) {
+      recording = fetch(recordingUrl).then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`Failed to load occupancy recording: ${response.status}`);
+        }
+        return response.json() as Promise<OccupancyRecording>;
+      });
+      // Allow a retry on the next poll if the fetch failed
+      recording.catch(() => {
+        recording = null;
+      });
+    }
+    return recording;
+  };
+
+  return {
+    name: 'recorded',
+    getCurrentOccupancy: async () => (await load()).current,
+    // Recordings hold the newest samples last; trim to the requested window
+    getHistoricalData: async (hours) => (await load()).historical.slice(-hours),
+    getWeeklyData: async () => (await load()).weekly,
+    getTwoDayData: async () => (await load()).twoDay,
+    getPredictionData: async () => (await load()).prediction,
+  };
+}
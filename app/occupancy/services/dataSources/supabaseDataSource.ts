@@ -0,0 +1,41 @@
+/**
+ * SUPABASE OCCUPANCY DATA SOURCE
+ *
+ * Serves live zone counts maintained by the occupancy ingestion API,
+ * history from the hourly/daily rollup tables and forecasts learned from
+ * that history. Zone count changes are pushed over Supabase Realtime.
+ */
+
+import {
+  getLiveOccupancy,
+  getHistoricalOccupancy,
+  getWeeklyOccupancy,
+  getTwoDayOccupancy,
+  getOccupancyForecast,
+  subscribeToZoneOccupancy,
+} from '../occupancyService';
+import { OccupancyDataSource, PredictionDataPoint } from '../../types/occupancyTypes';
+
+// Forecasts read weeks of history, so reuse one across polls for a while
+const FORECAST_TTL_MS = 10 * 60 * 1000;
+let cachedForecast: { data: PredictionDataPoint[]; computedAt: number } | null = null;
+
+async function getCachedForecast(): Promise<PredictionDataPoint[]> {
+  if (cachedForecast && Date.now() - cachedForecast.computedAt < FORECAST_TTL_MS) {
+    return cachedForecast.data;
+  }
+  const { overall } = await getOccupancyForecast();
+  cachedForecast = { data: overall, computedAt: Date.now() };
+  return overall;
+}
+
+export const supabaseDataSource: OccupancyDataSource = {
+  name: 'supabase',
+  getCurrentOccupancy: () => getLiveOccupancy(),
+  getHistoricalData: (hours) => getHistoricalOccupancy(hours),
+  getWeeklyData: () => getWeeklyOccupancy(),
+  getTwoDayData: () => getTwoDayOccupancy(),
+  getPredictionData: () => getCachedForecast(),
+  subscribeToZoneCounts: (onUpdate, onStatusChange) =>
+    subscribeToZoneOccupancy(onUpdate, onStatusChange),
+};
@@ -0,0 +1,466 @@
+/**
+ * OCCUPANCY SERVICE
+ *
+ * Service to read live library occupancy from Supabase.
+ *
+ * CONTEXT:
+ * Counter events are written by the ingestion API (app/api/occupancy/events),
+ * which keeps a running headcount per zone in the zone_occupancy table.
+ * The scheduled occupancy-rollup function samples those counts into the
+ * occupancy_hourly and occupancy_daily rollup tables.
+ * This service reads both for the Supabase occupancy data source.
+ *
+ * DATA FLOW:
+ * - Reads zone definitions from the shared zone registry (lib/zones)
+ * - Reads live headcounts from zone_occupancy
+ * - Reads history from occupancy_hourly / occupancy_daily
+ * - Converts everything into the shapes used by the dashboards
+ *
+ * KEY DEPENDENCIES:
+ * - Supabase client for database access
+ */
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { supabase } from '@/lib/supabase';
+import { getZones } from '@/lib/zones';
+import { BANGKOK_TZ } from '@/constants/reservationsConstants';
+import {
+  OccupancyData,
+  HistoricalDataPoint,
+  WeeklyDataPoint,
+  TwoDayDataPoint,
+  PredictionDataPoint,
+  ZoneCountUpdate,
+} from '../types/occupancyTypes';
+import {
+  forecastOccupancy,
+  backtestForecast,
+  BacktestReport,
+  OccupancyObservation,
+} from '../utils/occupancyForecast';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Classify an occupancy fraction into a display status
+ *
+ * @param percentage - Occupancy as a fraction of capacity (0-1)
+ * @returns Status label shared by the gauge and zone bars
+ */
+export function getOccupancyStatus(percentage: number): string {
+  if (percentage < 0.3) return 'Low';
+  if (percentage < 0.6) return 'Moderate';
+  if (percentage < 0.85) return 'High';
+  return 'Very High';
+}
+
+/**
+ * Fetch the current occupancy of every zone and the library overall
+ *
+ * @returns Overall occupancy with per-zone breakdown
+ */
+export async function getLiveOccupancy(): Promise<OccupancyData> {
+  const zonesData = await getZones();
+
+  const { data: countsData, error: countsError } = await supabase
+    .from('zone_occupancy')
+    .select('zone_id, current_count');
+
+  if (countsError) {
+    console.error('Error fetching zone occupancy:', countsError);
+    throw countsError;
+  }
+
+  const countsMap = new Map<string, number>();
+  countsData?.forEach(row => {
+    countsMap.set(row.zone_id, row.current_count);
+  });
+
+  const zones = zonesData.map(zone => {
+    // Counters can over-count briefly; never report more than capacity
+    const current = Math.min(zone.capacity, countsMap.get(zone.id) || 0);
+    const percentage = zone.capacity > 0 ? current / zone.capacity : 0;
+
+    return {
+      id: zone.id,
+      name: zone.name,
+      capacity: zone.capacity,
+      floor: zone.floor,
+      current,
+      percentage,
+      status: getOccupancyStatus(percentage),
+    };
+  });
+
+  const occupied = zones.reduce((sum, zone) => sum + zone.current, 0);
+  const capacity = zones.reduce((sum, zone) => sum + zone.capacity, 0);
+  const percentage = capacity > 0 ? occupied / capacity : 0;
+
+  return {
+    occupied,
+    capacity,
+    percentage,
+    status: getOccupancyStatus(percentage),
+    zones,
+  };
+}
+
+/**
+ * Apply a pushed zone count to an occupancy snapshot
+ *
+ * @param data - Current snapshot
+ * @param update - New count for one zone
+ * @returns New snapshot with the zone and library totals recomputed
+ */
+export function applyZoneCount(data: OccupancyData, update: ZoneCountUpdate): OccupancyData {
+  if (!data.zones?.some(zone => zone.id === update.zoneId)) {
+    return data;
+  }
+
+  const zones = data.zones.map(zone => {
+    if (zone.id !== update.zoneId) return zone;
+
+    const current = Math.min(zone.capacity, Math.max(0, update.current));
+    const percentage = zone.capacity > 0 ? current / zone.capacity : 0;
+    return { ...zone, current, percentage, status: getOccupancyStatus(percentage) };
+  });
+
+  const occupied = zones.reduce((sum, zone) => sum + zone.current, 0);
+  const percentage = data.capacity > 0 ? occupied / data.capacity : 0;
+
+  return {
+    ...data,
+    occupied,
+    percentage,
+    status: getOccupancyStatus(percentage),
+    zones,
+  };
+}
+
+/**
+ * Subscribe to live zone count changes over Supabase Realtime
+ *
+ * @param onUpdate - Called with each changed zone count
+ * @param onStatusChange - Called with true once subscribed, false when the channel drops
+ * @returns Unsubscribe function
+ */
+export function subscribeToZoneOccupancy(
+  onUpdate: (update: ZoneCountUpdate) => void,
+  onStatusChange: (connected: boolean) => void
+): () => void {
+  const channel = supabase
+    .channel('zone_occupancy_channel')
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'zone_occupancy'
+    }, (payload) => {
+      const row = payload.new as { zone_id?: string; current_count?: number; updated_at?: string };
+      if (!row?.zone_id || row.current_count === undefined) return;
+
+      onUpdate({
+        zoneId: row.zone_id,
+        current: row.current_count,
+        updatedAt: row.updated_at || new Date().toISOString(),
+      });
+    })
+    .subscribe((status) => {
+      // CHANNEL_ERROR, TIMED_OUT and CLOSED all mean updates are not arriving
+      onStatusChange(status === 'SUBSCRIBED');
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+// PostgREST caps responses (1000 rows by default), so long ranges are paged
+const ROLLUP_PAGE_SIZE = 1000;
+
+/**
+ * Fetch raw hourly rollup rows since a point in time
+ *
+ * @param since - Earliest hour_start to include
+ * @param until - Exclusive upper bound on hour_start (default: no bound)
+ * @returns Per-zone hourly rows, ordered by hour_start
+ */
+async function getHourlyRollupRows(since: Date, until?: Date) {
+  const rows: Array<{ zone_id: string; hour_start: string; avg_count: number; capacity: number }> = [];
+
+  for (let from = 0; ; from += ROLLUP_PAGE_SIZE) {
+    let query = supabase
+      .from('occupancy_hourly')
+      .select('zone_id, hour_start, avg_count, capacity')
+      .gte('hour_start', since.toISOString());
+
+    if (until) {
+      query = query.lt('hour_start', until.toISOString());
+    }
+
+    const { data, error } = await query
+      .order('hour_start')
+      .order('zone_id')
+      .range(from, from + ROLLUP_PAGE_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching hourly occupancy:', error);
+      throw error;
+    }
+
+    rows.push(...(data || []));
+    if (!data || data.length < ROLLUP_PAGE_SIZE) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Fetch hourly rollups for the last `hours` hours and combine zones per hour
+ *
+ * @param hours - How far back to read
+ * @returns Library-wide hourly points with per-zone breakdown, oldest first
+ */
+async function getHourlyRollups(hours: number): Promise<HistoricalDataPoint[]> {
+  const since = new Date();
+  since.setMinutes(0, 0, 0);
+  since.setHours(since.getHours() - hours + 1);
+
+  return getHourlyOccupancyRange(since);
+}
+
+/**
+ * Fetch hourly rollups within a time range and combine zones per hour
+ *
+ * @param since - Earliest hour to include
+ * @param until - Exclusive end of the range (default: now)
+ * @returns Library-wide hourly points with per-zone breakdown, oldest first
+ */
+export async function getHourlyOccupancyRange(since: Date, until?: Date): Promise<HistoricalDataPoint[]> {
+  const rollupsData = await getHourlyRollupRows(since, until);
+
+  if (rollupsData.length === 0) {
+    return [];
+  }
+
+  // Include retired zones so older history keeps its labels
+  const zonesData = await getZones({ includeInactive: true });
+
+  const zoneNames = new Map<string, string>();
+  zonesData.forEach(zone => {
+    zoneNames.set(zone.id, zone.name);
+  });
+
+  // Group the per-zone rows by hour; rows arrive ordered by hour_start
+  const pointsMap = new Map<string, HistoricalDataPoint>();
+  rollupsData.forEach(row => {
+    const time = new Date(row.hour_start);
+    const key = time.toISOString();
+    const count = Math.round(Number(row.avg_count));
+
+    if (!pointsMap.has(key)) {
+      // Label hours in library (Bangkok) time, whatever the browser's zone
+      const hour = Number(formatInTimeZone(time, BANGKOK_TZ, 'H'));
+      pointsMap.set(key, {
+        time: key,
+        hour,
+        formattedTime: `${hour}:00`,
+        overall: 0,
+        totalOccupancy: 0,
+        totalCapacity: 0,
+        zones: [],
+      });
+    }
+
+    const point = pointsMap.get(key)!;
+    point.totalOccupancy += count;
+    point.totalCapacity += row.capacity;
+    point.zones?.push({
+      id: row.zone_id,
+      name: zoneNames.get(row.zone_id) || 'Unknown Zone',
+      count,
+      capacity: row.capacity,
+      percentage: row.capacity > 0 ? count / row.capacity : 0,
+    });
+  });
+
+  return [...pointsMap.values()].map(point => ({
+    ...point,
+    overall: point.totalCapacity > 0 ? point.totalOccupancy / point.totalCapacity : 0,
+  }));
+}
+
+/**
+ * Fetch recorded hourly occupancy for the trend chart
+ *
+ * @param hours - Number of hours of history (default: 12)
+ * @returns Hourly data points, oldest first
+ */
+export async function getHistoricalOccupancy(hours = 12): Promise<HistoricalDataPoint[]> {
+  return getHourlyRollups(hours);
+}
+
+/**
+ * Fetch recorded hourly occupancy for the last 48 hours
+ *
+ * @returns Hourly data points labelled with their day, oldest first
+ */
+export async function getTwoDayOccupancy(): Promise<TwoDayDataPoint[]> {
+  const points = await getHourlyRollups(48);
+
+  return points.map(point => {
+    const formattedDay = formatInTimeZone(point.time, BANGKOK_TZ, 'EEE');
+
+    return {
+      time: point.time,
+      hour: point.hour,
+      formattedTime: point.formattedTime,
+      formattedDay,
+      dayHour: `${formattedDay} ${point.formattedTime}`,
+      overall: point.overall,
+      totalOccupancy: point.totalOccupancy,
+      totalCapacity: point.totalCapacity,
+    };
+  });
+}
+
+/**
+ * Fetch daily occupancy rollups for the last 7 days
+ *
+ * @returns Daily data points, oldest first
+ */
+export async function getWeeklyOccupancy(): Promise<WeeklyDataPoint[]> {
+  const since = new Date();
+  since.setDate(since.getDate() - 6);
+
+  return getDailyOccupancyRange(formatInTimeZone(since, BANGKOK_TZ, 'yyyy-MM-dd'));
+}
+
+/**
+ * Fetch daily occupancy rollups between two Bangkok dates
+ *
+ * @param fromDay - First day, "yyyy-MM-dd"
+ * @param toDay - Last day (inclusive), "yyyy-MM-dd"; default: no bound
+ * @returns Daily data points, oldest first
+ */
+export async function getDailyOccupancyRange(fromDay: string, toDay?: string): Promise<WeeklyDataPoint[]> {
+  let query = supabase
+    .from('occupancy_daily')
+    .select('day, peak_occupancy, average_occupancy, total_visitors')
+    .gte('day', fromDay);
+
+  if (toDay) {
+    query = query.lte('day', toDay);
+  }
+
+  const { data, error } = await query.order('day');
+
+  if (error) {
+    console.error('Error fetching daily occupancy:', error);
+    throw error;
+  }
+
+  return (data || []).map(row => {
+    // `day` is a Bangkok calendar date (YYYY-MM-DD)
+    const date = new Date(`${row.day}T00:00:00+07:00`);
+    const day = new Date(`${row.day}T00:00:00Z`).getUTCDay();
+
+    return {
+      date: date.toISOString(),
+      day,
+      formattedDay: DAY_NAMES[day],
+      peakOccupancy: Number(row.peak_occupancy),
+      averageOccupancy: Number(row.average_occupancy),
+      totalVisitors: row.total_visitors,
+    };
+  });
+}
+
+// Weeks of hourly history the forecaster learns from
+const FORECAST_HISTORY_WEEKS = 8;
+
+/**
+ * Fetch hourly history as forecastable series, library-wide and per zone
+ *
+ * @param weeks - Weeks of history to read
+ * @returns Occupancy-fraction series for the whole library and each zone
+ */
+async function getForecastSeries(weeks: number) {
+  const since = new Date();
+  since.setMinutes(0, 0, 0);
+  since.setDate(since.getDate() - weeks * 7);
+
+  const rows = await getHourlyRollupRows(since);
+
+  const totals = new Map<string, { occupied: number; capacity: number }>();
+  const zones: Record<string, OccupancyObservation[]> = {};
+
+  rows.forEach(row => {
+    const count = Number(row.avg_count);
+
+    if (!zones[row.zone_id]) zones[row.zone_id] = [];
+    zones[row.zone_id].push({
+      time: row.hour_start,
+      value: row.capacity > 0 ? count / row.capacity : 0,
+    });
+
+    const total = totals.get(row.hour_start) || { occupied: 0, capacity: 0 };
+    total.occupied += count;
+    total.capacity += row.capacity;
+    totals.set(row.hour_start, total);
+  });
+
+  const overall: OccupancyObservation[] = [...totals.entries()].map(([time, total]) => ({
+    time,
+    value: total.capacity > 0 ? total.occupied / total.capacity : 0,
+  }));
+
+  return { overall, zones };
+}
+
+/**
+ * Forecast occupancy for the coming hours from recorded history
+ *
+ * @param hours - How many hours ahead to forecast (default: 12)
+ * @returns Library-wide forecast and a forecast per zone id
+ */
+export async function getOccupancyForecast(hours = 12): Promise<{
+  overall: PredictionDataPoint[];
+  zones: Record<string, PredictionDataPoint[]>;
+}> {
+  const series = await getForecastSeries(FORECAST_HISTORY_WEEKS);
+  const from = new Date();
+
+  const zones: Record<string, PredictionDataPoint[]> = {};
+  Object.entries(series.zones).forEach(([zoneId, observations]) => {
+    zones[zoneId] = forecastOccupancy(observations, { from, hours });
+  });
+
+  return {
+    overall: forecastOccupancy(series.overall, { from, hours }),
+    zones,
+  };
+}
+
+/**
+ * Score the forecaster against the most recent week of history
+ *
+ * @param horizonHours - Forecast horizon to score (default: 1)
+ * @returns Error summary library-wide and per zone id (null where history is too short)
+ */
+export async function getOccupancyBacktest(horizonHours = 1): Promise<{
+  overall: BacktestReport | null;
+  zones: Record<string, BacktestReport | null>;
+}> {
+  // One extra week so the held-out week still has a full training history
+  const series = await getForecastSeries(FORECAST_HISTORY_WEEKS + 1);
+
+  const zones: Record<string, BacktestReport | null> = {};
+  Object.entries(series.zones).forEach(([zoneId, observations]) => {
+    zones[zoneId] = backtestForecast(observations, { horizonHours });
+  });
+
+  return {
+    overall: backtestForecast(series.overall, { horizonHours }),
+    zones,
+  };
+}
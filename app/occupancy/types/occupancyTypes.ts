@@ -0,0 +1,154 @@
+/**
+ * OCCUPANCY TYPES
+ *
+ * Type definitions for library occupancy data.
+ *
+ * PURPOSE:
+ * Provides the data shapes shared by OccupancyContext, the occupancy
+ * visualizations and every OccupancyDataSource implementation.
+ *
+ * DATA FLOW:
+ * - Data sources produce these shapes
+ * - OccupancyContext stores and distributes them
+ * - Dashboard and occupancy components render them
+ */
+
+/**
+ * Current occupancy of a single zone
+ */
+export interface ZoneOccupancy {
+  id: string;
+  name: string;
+  capacity: number;
+  current: number;
+  percentage: number;
+  status: string;
+  floor: number;
+}
+
+/**
+ * Current overall occupancy with optional per-zone breakdown
+ */
+export interface OccupancyData {
+  occupied: number;
+  capacity: number;
+  percentage: number;
+  status: string;
+  zones?: ZoneOccupancy[];
+}
+
+/**
+ * Hourly occupancy sample used by the "Today" trend chart
+ */
+export interface HistoricalDataPoint {
+  time: string;
+  hour: number;
+  formattedTime: string;
+  overall: number;
+  totalOccupancy: number;
+  totalCapacity: number;
+  zones?: Array<{
+    id: string;
+    name: string;
+    count: number;
+    capacity: number;
+    percentage: number;
+  }>;
+}
+
+/**
+ * Daily aggregate used by the weekly trend chart
+ */
+export interface WeeklyDataPoint {
+  date: string;
+  day: number;
+  formattedDay: string;
+  peakOccupancy: number;
+  averageOccupancy: number;
+  totalVisitors: number;
+}
+
+/**
+ * Hourly sample used by the 48-hour trend chart
+ */
+export interface TwoDayDataPoint {
+  time: string;
+  hour: number;
+  formattedTime: string;
+  formattedDay: string;
+  dayHour: string;
+  overall: number;
+  totalOccupancy: number;
+  totalCapacity: number;
+}
+
+/**
+ * Forecast point used by the prediction chart
+ */
+export interface PredictionDataPoint {
+  time: string;
+  hour: number;
+  formattedTime: string;
+  formattedDay: string;
+  dayHour: string;
+  predicted: number;
+  confidence: number;
+  /** Lower bound of the 80% prediction interval (0-1), when available */
+  lower?: number;
+  /** Upper bound of the 80% prediction interval (0-1), when available */
+  upper?: number;
+}
+
+/**
+ * A pushed change to one zone's live headcount
+ */
+export interface ZoneCountUpdate {
+  zoneId: string;
+  current: number;
+  /** When the count changed (ISO timestamp) */
+  updatedAt: string;
+}
+
+/**
+ * How OccupancyContext is currently receiving live counts
+ * - live: subscribed to pushed zone updates
+ * - polling: no push channel (or it dropped), refreshing on an interval
+ */
+export type OccupancyConnectionStatus = 'live' | 'polling';
+
+/**
+ * Where OccupancyContext gets its data from
+ *
+ * Implementations: mock generator, Supabase, recorded fixture replay.
+ * Selected by NEXT_PUBLIC_OCCUPANCY_SOURCE (see services/dataSources).
+ */
+export interface OccupancyDataSource {
+  /** Short identifier, shown in logs */
+  name: string;
+  /** Current overall and per-zone occupancy */
+  getCurrentOccupancy(): Promise<OccupancyData>;
+  /** Hourly samples for the last `hours` hours, oldest first */
+  getHistoricalData(hours: number): Promise<HistoricalDataPoint[]>;
+  /** Daily aggregates for the last 7 days, oldest first */
+  getWeeklyData(): Promise<WeeklyDataPoint[]>;
+  /** Hourly samples for the last 48 hours, oldest first */
+  getTwoDayData(): Promise<TwoDayDataPoint[]>;
+  /** Hourly forecast for the coming hours */
+  getPredictionData(): Promise<PredictionDataPoint[]>;
+  /**
+   * Optional push updates of live zone counts
+   *
+   * @param onUpdate - Called for every zone count change
+   * @param onStatusChange - Called with true once connected, false when the channel drops
+   * @returns Unsubscribe function
+   */
+  subscribeToZoneCounts?(
+    onUpdate: (update: ZoneCountUpdate) => void,
+    onStatusChange: (connected: boolean) => void
+  ): () => void;
+}
+
+/**
+ * Names accepted by NEXT_PUBLIC_OCCUPANCY_SOURCE
+ */
+export type OccupancySourceName = 'supabase' | 'mock' | 'recorded';
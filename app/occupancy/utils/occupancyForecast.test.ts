@@ -0,0 +1,204 @@
+import { describe, expect, it } from 'vitest';
+import {
+  backtestForecast,
+  fitForecastModel,
+  forecastOccupancy,
+  OccupancyObservation,
+} from './occupancyForecast';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Start of an hour in Bangkok time
+ */
+function bangkokHour(date: string, hour: number) {
+  return new Date(`${date}T${String(hour).padStart(2, '0')}:00:00+07:00`);
+}
+
+/**
+ * Hourly observations from a Bangkok midnight
+ *
+ * @param startDate - First day, "yyyy-MM-dd"
+ * @param days - Number of days to generate
+ * @param value - Occupancy for the n-th day and the Bangkok hour
+ */
+function hourlySeries(
+  startDate: string,
+  days: number,
+  value: (day: number, hour: number) => number
+): OccupancyObservation[] {
+  const start = bangkokHour(startDate, 0).getTime();
+  return Array.from({ length: days * 24 }, (_, i) => ({
+    time: new Date(start + i * HOUR_MS),
+    value: value(Math.floor(i / 24), i % 24),
+  }));
+}
+
+// Seasonal shape used by the tests: busier as the day goes on
+const baseline = (hour: number) => 0.3 + 0.02 * hour;
+
+/**
+ * Open hours of two Mondays that mirror each other around the baseline
+ *
+ * @param residual - Offset from the baseline on the first Monday; the
+ *   second Monday has the opposite offset (default: 0.1 all day)
+ */
+function twoMondays(residual: (hour: number) => number = () => 0.1): OccupancyObservation[] {
+  const observations: OccupancyObservation[] = [];
+  for (let hour = 8; hour <= 21; hour++) {
+    observations.push({ time: bangkokHour('2024-07-29', hour), value: baseline(hour) + residual(hour) });
+    observations.push({ time: bangkokHour('2024-08-05', hour), value: baseline(hour) - residual(hour) });
+  }
+  return observations;
+}
+
+describe('fitForecastModel', () => {
+  it('averages each Bangkok weekday/hour slot', () => {
+    const model = fitForecastModel([
+      { time: bangkokHour('2024-07-22', 10), value: 0.2 },
+      { time: bangkokHour('2024-07-29', 10), value: 0.4 },
+      { time: bangkokHour('2024-08-05', 10), value: 0.6 },
+    ]);
+
+    // 2024-07-22 is a Monday
+    const slot = model.slots.get('1-10')!;
+    expect(slot.count).toBe(3);
+    expect(slot.mean).toBeCloseTo(0.4);
+    expect(slot.variance).toBeCloseTo(0.04);
+    expect(model.hours.get(10)!.mean).toBeCloseTo(0.4);
+  });
+
+  it('keeps the latest observation of a repeated hour', () => {
+    const model = fitForecastModel([
+      { time: bangkokHour('2024-08-05', 10), value: 0.2 },
+      { time: '2024-08-05T10:30:00+07:00', value: 0.5 },
+    ]);
+
+    expect(model.slots.get('1-10')).toEqual({ mean: 0.5, variance: 0, count: 1 });
+  });
+
+  it('estimates no autocorrelation when residuals are zero', () => {
+    const model = fitForecastModel(hourlySeries('2024-07-22', 14, (_, hour) => baseline(hour)));
+
+    expect(model.phi).toBe(0);
+    expect(model.pooledVariance).toBe(0);
+  });
+
+  it('caps persistent residuals at 0.95', () => {
+    const model = fitForecastModel(twoMondays());
+
+    expect(model.phi).toBe(0.95);
+    expect(model.pooledVariance).toBeGreaterThan(0);
+  });
+
+  it('floors alternating residuals at 0', () => {
+    const model = fitForecastModel(twoMondays(hour => (hour % 2 === 0 ? 0.1 : -0.1)));
+
+    expect(model.phi).toBe(0);
+  });
+});
+
+describe('forecastOccupancy', () => {
+  // Last observation: Monday 2024-08-05 21:00, 0.1 below its baseline
+  const from = bangkokHour('2024-08-05', 21);
+
+  it('returns nothing without history', () => {
+    expect(forecastOccupancy([], { from })).toEqual([]);
+  });
+
+  it('only forecasts open hours, labelled in Bangkok time', () => {
+    const data = forecastOccupancy(twoMondays(), { from, hours: 12 });
+
+    expect(data.map(point => point.dayHour)).toEqual(['Tue 8:00', 'Tue 9:00']);
+    expect(data[0].time).toBe(bangkokHour('2024-08-06', 8).toISOString());
+  });
+
+  it('decays the latest residual towards the baseline', () => {
+    const data = forecastOccupancy(twoMondays(), { from, hours: 12 });
+
+    // Tuesday has no history, so the hour-of-day mean is the baseline
+    expect(data[0].predicted).toBeCloseTo(baseline(8) - 0.1 * 0.95 ** 11);
+    expect(data[1].predicted).toBeCloseTo(baseline(9) - 0.1 * 0.95 ** 12);
+  });
+
+  it('derives the 80% interval from the slot variance', () => {
+    const [point] = forecastOccupancy(twoMondays(), { from, hours: 12 });
+
+    // Two samples 0.1 either side of the mean: variance 0.02
+    const decay = 0.95 ** 11;
+    const halfWidth = 1.2816 * Math.sqrt(0.02 * (1 - decay ** 2) + 0.02 / 2);
+    expect(point.lower!).toBeCloseTo(point.predicted - halfWidth);
+    expect(point.upper!).toBeCloseTo(point.predicted + halfWidth);
+    expect(point.confidence).toBeCloseTo(1 - 2 * halfWidth);
+  });
+
+  it('widens the interval further ahead', () => {
+    const [first, second] = forecastOccupancy(twoMondays(), { from, hours: 12 });
+
+    expect(second.upper! - second.lower!).toBeGreaterThan(first.upper! - first.lower!);
+  });
+
+  it('keeps forecasts and intervals within 0-1', () => {
+    const full = twoMondays().map(obs => ({ ...obs, value: Math.min(1, obs.value + 0.6) }));
+    const data = forecastOccupancy(full, { from, hours: 12 });
+
+    data.forEach(point => {
+      expect(point.lower!).toBeGreaterThanOrEqual(0);
+      expect(point.upper!).toBeLessThanOrEqual(1);
+      expect(point.predicted).toBeLessThanOrEqual(point.upper!);
+    });
+  });
+
+  it('ignores observations after the forecast origin', () => {
+    const later = [...twoMondays(), { time: bangkokHour('2024-08-06', 8), value: 1 }];
+
+    expect(forecastOccupancy(later, { from, hours: 12 })).toEqual(forecastOccupancy(twoMondays(), { from, hours: 12 }));
+  });
+});
+
+describe('backtestForecast', () => {
+  it('returns null without enough history', () => {
+    expect(backtestForecast([])).toBeNull();
+    // A single week is all holdout, with nothing to train on
+    expect(backtestForecast(hourlySeries('2024-07-22', 7, (_, hour) => baseline(hour)))).toBeNull();
+  });
+
+  it('scores open hours of the last week', () => {
+    const report = backtestForecast(hourlySeries('2024-07-22', 21, (_, hour) => baseline(hour)))!;
+
+    expect(report.holdoutStart).toBe(bangkokHour('2024-08-05', 0).toISOString());
+    expect(report.holdoutEnd).toBe(bangkokHour('2024-08-12', 0).toISOString());
+    expect(report.horizonHours).toBe(1);
+    // 7 days of 08:00-21:00
+    expect(report.samples).toBe(7 * 14);
+  });
+
+  it('reports no error for a perfectly seasonal series', () => {
+    const report = backtestForecast(hourlySeries('2024-07-22', 21, (day, hour) => baseline(hour) + 0.01 * (day % 7)))!;
+
+    expect(report.mae).toBeCloseTo(0);
+    expect(report.rmse).toBeCloseTo(0);
+    expect(report.bias).toBeCloseTo(0);
+    expect(report.baselineMae).toBeCloseTo(0);
+    expect(report.intervalCoverage).toBe(1);
+  });
+
+  it('measures the error of a shifted holdout week', () => {
+    // Training weeks follow the baseline; the held-out week runs 0.1 higher
+    const report = backtestForecast(hourlySeries('2024-07-22', 21, (day, hour) => baseline(hour) + (day >= 14 ? 0.1 : 0)))!;
+
+    // Training residuals are all zero, so φ = 0 and the forecast is the baseline
+    expect(report.mae).toBeCloseTo(0.1);
+    expect(report.rmse).toBeCloseTo(0.1);
+    expect(report.bias).toBeCloseTo(-0.1);
+    expect(report.baselineMae).toBeCloseTo(0.1);
+    expect(report.intervalCoverage).toBe(0);
+  });
+
+  it('scores the requested horizon', () => {
+    const report = backtestForecast(hourlySeries('2024-07-22', 21, (_, hour) => baseline(hour)), { horizonHours: 3, holdoutDays: 2 })!;
+
+    expect(report.horizonHours).toBe(3);
+    expect(report.samples).toBe(2 * 14);
+  });
+});
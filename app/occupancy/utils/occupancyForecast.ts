@@ -0,0 +1,370 @@
+/**
+ * OCCUPANCY FORECASTING
+ *
+ * PURPOSE: Forecasts hourly occupancy from recorded history.
+ *
+ * MODEL:
+ *   forecast(t) = baseline(day-of-week, hour-of-day) + φ^k · residual(origin)
+ *
+ *   - baseline: mean occupancy observed in the same Bangkok weekday/hour slot,
+ *     falling back to the hour-of-day mean when a slot has no history
+ *   - residual: how far the last observed hour was from its baseline
+ *     ("recent-trend correction"); it decays towards the baseline with the
+ *     lag-1 autocorrelation φ estimated from the training residuals
+ *   - k: hours between the last observation and the forecast hour
+ *
+ *   Treating residuals as an AR(1) process gives the forecast error variance
+ *     σ²(k) = s²_slot · (1 - φ^2k) + s²_slot / n_slot
+ *   from which an 80% prediction interval is derived.
+ *
+ * INPUTS: Series of hourly observations as occupancy fractions (0-1),
+ * either library-wide or for a single zone.
+ *
+ * KEY DEPENDENCIES: date-fns-tz for Bangkok-local slotting
+ */
+
+import { toZonedTime } from 'date-fns-tz';
+import { BANGKOK_TZ } from '@/constants/reservationsConstants';
+import { PredictionDataPoint } from '../types/occupancyTypes';
+
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOUR_MS = 60 * 60 * 1000;
+
+// z-score of the 80% two-sided prediction interval
+const INTERVAL_Z = 1.2816;
+
+// Opening hours (Bangkok time); forecasts are only produced while open.
+// The last open hour starts at 21:00, matching the 8-21 hours kept by
+// rollup_occupancy_day
+const OPEN_HOUR = 8;
+const CLOSE_HOUR = 22;
+
+/**
+ * One hourly observation of a series
+ */
+export interface OccupancyObservation {
+  /** Start of the hour (ISO string or Date) */
+  time: string | Date;
+  /** Occupancy fraction (0-1) */
+  value: number;
+}
+
+/**
+ * Statistics for one weekday/hour slot
+ */
+interface SlotStats {
+  mean: number;
+  variance: number;
+  count: number;
+}
+
+/**
+ * Fitted seasonal model for one series
+ */
+export interface ForecastModel {
+  /** Keyed by `${dayOfWeek}-${hour}` in Bangkok time */
+  slots: Map<string, SlotStats>;
+  /** Keyed by hour in Bangkok time, used when a weekday slot is empty */
+  hours: Map<number, SlotStats>;
+  /** Variance of all residuals, used when a slot has a single sample */
+  pooledVariance: number;
+  /** Lag-1 autocorrelation of hourly residuals, clamped to [0, 0.95] */
+  phi: number;
+}
+
+/**
+ * Forecast error summary over a held-out period
+ */
+export interface BacktestReport {
+  /** Start of the held-out period */
+  holdoutStart: string;
+  /** End of the held-out period (exclusive) */
+  holdoutEnd: string;
+  /** Hours between forecast origin and forecast target */
+  horizonHours: number;
+  /** Number of held-out hours scored */
+  samples: number;
+  /** Mean absolute error (occupancy fraction) */
+  mae: number;
+  /** Root mean squared error (occupancy fraction) */
+  rmse: number;
+  /** Mean of (forecast - actual); positive means over-forecasting */
+  bias: number;
+  /** MAE of the seasonal baseline alone, for comparison */
+  baselineMae: number;
+  /** Share of actual values inside the 80% prediction interval */
+  intervalCoverage: number;
+}
+
+/**
+ * Bangkok weekday and hour of a timestamp
+ */
+function getSlot(time: Date) {
+  const zoned = toZonedTime(time, BANGKOK_TZ);
+  return { day: zoned.getDay(), hour: zoned.getHours() };
+}
+
+function slotKey(day: number, hour: number) {
+  return `${day}-${hour}`;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * Mean and sample variance of a list of values
+ */
+function summarize(values: number[]): SlotStats {
+  const count = values.length;
+  const mean = values.reduce((sum, v) => sum + v, 0) / count;
+  const variance = count > 1
+    ? values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (count - 1)
+    : 0;
+  return { mean, variance, count };
+}
+
+/**
+ * Normalize and sort observations, dropping duplicates of the same hour
+ */
+function prepare(observations: OccupancyObservation[]) {
+  const byHour = new Map<number, number>();
+  observations.forEach(obs => {
+    const time = new Date(obs.time).getTime();
+    byHour.set(Math.floor(time / HOUR_MS) * HOUR_MS, obs.value);
+  });
+  return [...byHour.entries()]
+    .sort((a, b) => a[0] - b[0])
+    .map(([time, value]) => ({ time: new Date(time), value }));
+}
+
+/**
+ * Baseline statistics for a timestamp, or null if nothing was observed
+ */
+function getBaseline(model: ForecastModel, time: Date): SlotStats | null {
+  const { day, hour } = getSlot(time);
+  const slot = model.slots.get(slotKey(day, hour));
+  if (slot) return slot;
+  return model.hours.get(hour) || null;
+}
+
+/**
+ * Fit the seasonal baseline and residual autocorrelation to a series
+ *
+ * @param observations - Hourly history of one series
+ * @returns Fitted model
+ */
+export function fitForecastModel(observations: OccupancyObservation[]): ForecastModel {
+  const series = prepare(observations);
+
+  const slotValues = new Map<string, number[]>();
+  const hourValues = new Map<number, number[]>();
+  series.forEach(({ time, value }) => {
+    const { day, hour } = getSlot(time);
+    const key = slotKey(day, hour);
+    if (!slotValues.has(key)) slotValues.set(key, []);
+    slotValues.get(key)!.push(value);
+    if (!hourValues.has(hour)) hourValues.set(hour, []);
+    hourValues.get(hour)!.push(value);
+  });
+
+  const slots = new Map<string, SlotStats>();
+  slotValues.forEach((values, key) => slots.set(key, summarize(values)));
+  const hours = new Map<number, SlotStats>();
+  hourValues.forEach((values, hour) => hours.set(hour, summarize(values)));
+
+  const model: ForecastModel = { slots, hours, pooledVariance: 0, phi: 0 };
+
+  // Residuals against the baseline, used for pooled variance and φ
+  const residuals = series.map(({ time, value }) => ({
+    time: time.getTime(),
+    residual: value - (getBaseline(model, time)?.mean ?? value),
+  }));
+
+  if (residuals.length > 1) {
+    model.pooledVariance = summarize(residuals.map(r => r.residual)).variance;
+  }
+
+  // Lag-1 autocorrelation over pairs of consecutive hours only
+  let numerator = 0;
+  let denominator = 0;
+  for (let i = 1; i < residuals.length; i++) {
+    if (residuals[i].time - residuals[i - 1].time === HOUR_MS) {
+      numerator += residuals[i].residual * residuals[i - 1].residual;
+      denominator += residuals[i - 1].residual ** 2;
+    }
+  }
+  model.phi = denominator > 0 ? clamp(numerator / denominator, 0, 0.95) : 0;
+
+  return model;
+}
+
+/**
+ * Forecast one hour from a fitted model
+ *
+ * @param model - Fitted model
+ * @param target - Hour to forecast
+ * @param horizon - Hours between the origin observation and target (>= 1)
+ * @param originResidual - Residual of the last observation, or 0 if unknown
+ * @returns Point forecast with 80% interval, or null if the slot has no history
+ */
+function forecastHour(
+  model: ForecastModel,
+  target: Date,
+  horizon: number,
+  originResidual: number
+) {
+  const baseline = getBaseline(model, target);
+  if (!baseline) return null;
+
+  const slotVariance = baseline.count > 1 ? baseline.variance : model.pooledVariance;
+  const decay = model.phi ** horizon;
+  const variance = slotVariance * (1 - decay ** 2) + slotVariance / baseline.count;
+  const halfWidth = INTERVAL_Z * Math.sqrt(variance);
+  const predicted = clamp(baseline.mean + decay * originResidual, 0, 1);
+
+  return {
+    baseline: baseline.mean,
+    predicted,
+    lower: clamp(predicted - halfWidth, 0, 1),
+    upper: clamp(predicted + halfWidth, 0, 1),
+  };
+}
+
+/**
+ * Forecast the coming opening hours of a series
+ *
+ * @param observations - Hourly history of one series, including the latest hour
+ * @param options.from - Forecast origin (default: now)
+ * @param options.hours - How many hours ahead to look (default: 12)
+ * @returns Prediction points for open hours that have history.
+ *   `confidence` is 1 minus the width of the 80% prediction interval.
+ */
+export function forecastOccupancy(
+  observations: OccupancyObservation[],
+  options: { from?: Date; hours?: number } = {}
+): PredictionDataPoint[] {
+  const from = options.from ?? new Date();
+  const hours = options.hours ?? 12;
+
+  const series = prepare(observations).filter(obs => obs.time <= from);
+  if (series.length === 0) return [];
+
+  const model = fitForecastModel(series);
+
+  // The latest observation anchors the trend correction
+  const origin = series[series.length - 1];
+  const originBaseline = getBaseline(model, origin.time);
+  const originResidual = originBaseline ? origin.value - originBaseline.mean : 0;
+
+  const data: PredictionDataPoint[] = [];
+  // Whole hours, like prepare(), so the local time zone does not matter
+  const start = new Date(Math.floor(from.getTime() / HOUR_MS) * HOUR_MS);
+
+  for (let i = 1; i <= hours; i++) {
+    const time = new Date(start.getTime() + i * HOUR_MS);
+    const { day, hour } = getSlot(time);
+
+    // Skip hours when library is closed
+    if (hour < OPEN_HOUR || hour >= CLOSE_HOUR) continue;
+
+    const horizon = Math.max(1, Math.round((time.getTime() - origin.time.getTime()) / HOUR_MS));
+    const result = forecastHour(model, time, horizon, originResidual);
+    if (!result) continue;
+
+    // Labels are in Bangkok time, whatever the viewer's time zone
+    const formattedDay = DAY_NAMES[day];
+
+    data.push({
+      time: time.toISOString(),
+      hour,
+      formattedTime: `${hour}:00`,
+      formattedDay,
+      dayHour: `${formattedDay} ${hour}:00`,
+      predicted: result.predicted,
+      confidence: clamp(1 - (result.upper - result.lower), 0, 1),
+      lower: result.lower,
+      upper: result.upper,
+    });
+  }
+
+  return data;
+}
+
+/**
+ * Backtest the forecaster on the last week of a series
+ *
+ * The model is fitted on everything before the held-out week. Each held-out
+ * hour is then forecast from the observation `horizonHours` earlier, exactly
+ * as it would have been forecast live.
+ *
+ * @param observations - Hourly history, at least a week longer than the holdout
+ * @param options.holdoutDays - Length of the held-out period (default: 7)
+ * @param options.horizonHours - Forecast horizon to score (default: 1)
+ * @returns Error summary, or null if there is not enough history
+ */
+export function backtestForecast(
+  observations: OccupancyObservation[],
+  options: { holdoutDays?: number; horizonHours?: number } = {}
+): BacktestReport | null {
+  const holdoutDays = options.holdoutDays ?? 7;
+  const horizonHours = options.horizonHours ?? 1;
+
+  const series = prepare(observations);
+  if (series.length === 0) return null;
+
+  const holdoutEnd = new Date(series[series.length - 1].time.getTime() + HOUR_MS);
+  const holdoutStart = new Date(holdoutEnd.getTime() - holdoutDays * 24 * HOUR_MS);
+
+  const training = series.filter(obs => obs.time < holdoutStart);
+  const holdout = series.filter(obs => obs.time >= holdoutStart);
+  if (training.length === 0 || holdout.length === 0) return null;
+
+  const model = fitForecastModel(training);
+  const valuesByTime = new Map(series.map(obs => [obs.time.getTime(), obs.value]));
+
+  let absError = 0;
+  let sqError = 0;
+  let error = 0;
+  let baselineAbsError = 0;
+  let covered = 0;
+  let samples = 0;
+
+  holdout.forEach(({ time, value }) => {
+    // Only score hours a live forecast would have produced
+    const { hour } = getSlot(time);
+    if (hour < OPEN_HOUR || hour >= CLOSE_HOUR) return;
+
+    const originTime = new Date(time.getTime() - horizonHours * HOUR_MS);
+    const originValue = valuesByTime.get(originTime.getTime());
+    const originBaseline = getBaseline(model, originTime);
+    const originResidual = originValue !== undefined && originBaseline
+      ? originValue - originBaseline.mean
+      : 0;
+
+    const result = forecastHour(model, time, horizonHours, originResidual);
+    if (!result) return;
+
+    const diff = result.predicted - value;
+    absError += Math.abs(diff);
+    sqError += diff ** 2;
+    error += diff;
+    baselineAbsError += Math.abs(result.baseline - value);
+    if (value >= result.lower && value <= result.upper) covered++;
+    samples++;
+  });
+
+  if (samples === 0) return null;
+
+  return {
+    holdoutStart: holdoutStart.toISOString(),
+    holdoutEnd: holdoutEnd.toISOString(),
+    horizonHours,
+    samples,
+    mae: absError / samples,
+    rmse: Math.sqrt(sqError / samples),
+    bias: error / samples,
+    baselineMae: baselineAbsError / samples,
+    intervalCoverage: covered / samples,
+  };
+}
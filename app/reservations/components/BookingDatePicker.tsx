@@ -0,0 +1,69 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { CalendarDays } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { getBangkokToday, getLastBookableDate } from '@/lib/logic/reservations';
+import { useReservationStore } from '../store/reservationStore';
+
+/**
+ * BookingDatePicker Component
+ * ===========================
+ * PURPOSE:
+ *   Lets users choose which day to book, from today up to the booking
+ *   horizon (reservation_policy.booking_horizon_days ahead).
+ *
+ * CONTEXT:
+ *   Shown above the time slot grid. The chosen date lives in the
+ *   reservation store so TimelineSelector and ReservationForm share it.
+ */
+
+const BookingDatePicker = () => {
+  const { selectedDate, setSelectedDate, bookingHorizonDays } = useReservationStore();
+  const [open, setOpen] = useState(false);
+
+  // Calendar days are compared as local dates built from Bangkok "yyyy-MM-dd" strings
+  const firstDay = parseISO(getBangkokToday());
+  const lastDay = parseISO(getLastBookableDate(bookingHorizonDays));
+
+  /**
+   * Stores the picked day and closes the calendar
+   *
+   * @param {Date | undefined} day - Day clicked in the calendar
+   */
+  const handleSelect = (day: Date | undefined) => {
+    if (!day) return;
+    setSelectedDate(format(day, 'yyyy-MM-dd'));
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="w-full sm:w-auto justify-start font-normal">
+          <CalendarDays className="h-4 w-4 mr-2" />
+          {format(parseISO(selectedDate), 'EEEE, MMMM d')}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="single"
+          selected={parseISO(selectedDate)}
+          onSelect={handleSelect}
+          fromDate={firstDay}
+          toDate={lastDay}
+          disabled={[{ before: firstDay }, { after: lastDay }]}
+          initialFocus
+        />
+        <p className="px-3 pb-3 text-xs text-gray-500">
+          Rooms can be booked up to {bookingHorizonDays} days ahead.
+        </p>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default BookingDatePicker;
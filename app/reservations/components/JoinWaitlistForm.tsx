@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { addMinutes, format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { bangkokSlotToDate } from '@/lib/logic/reservations';
+import { joinWaitlist } from '../services/reservationApi';
+
+/**
+ * JoinWaitlistForm Component
+ * ==========================
+ * PURPOSE:
+ *   Queues the user for booked time slots in a room. If the booking is
+ *   released, the database offers the user a pending hold they can
+ *   confirm from WaitlistPanel.
+ *
+ * CONTEXT:
+ *   Shown by TimelineSelector after the user picks reserved slots.
+ *   The agenda and party size are kept with the entry because the hold
+ *   is created without the user being present.
+ */
+
+interface JoinWaitlistFormProps {
+  roomId: number;
+  // Consecutive Bangkok slot strings, sorted
+  slots: string[];
+  onJoined: () => void;
+}
+
+const JoinWaitlistForm = ({ roomId, slots, onJoined }: JoinWaitlistFormProps) => {
+  const [agenda, setAgenda] = useState('');
+  const [numPeople, setNumPeople] = useState(1);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const firstSlot = slots[0];
+  const lastSlot = slots[slots.length - 1];
+
+  /**
+   * Adds the selected range to the room's waitlist
+   *
+   * @param {React.FormEvent} e - Form submission event
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!agenda.trim()) {
+      toast.error('Please enter a purpose for your reservation');
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await joinWaitlist({
+        roomId,
+        startTime: bangkokSlotToDate(firstSlot).toISOString(),
+        endTime: addMinutes(bangkokSlotToDate(lastSlot), 30).toISOString(),
+        agenda: agenda.trim(),
+        numPeople,
+      });
+
+      toast.success("You're on the waitlist", {
+        description: "We'll hold the room for you if this time frees up.",
+      });
+      onJoined();
+    } catch (err) {
+      console.error('Error joining waitlist:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to join the waitlist');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-4 p-4 bg-amber-50 rounded-md space-y-3">
+      <div className="font-medium text-amber-800">
+        Join waitlist: {format(parseISO(firstSlot), 'h:mm a')} -{' '}
+        {format(addMinutes(parseISO(lastSlot), 30), 'h:mm a')}
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+        <div className="space-y-1 sm:col-span-3">
+          <Label htmlFor="waitlist-agenda">Purpose</Label>
+          <Input
+            id="waitlist-agenda"
+            value={agenda}
+            onChange={(e) => setAgenda(e.target.value)}
+            placeholder="Enter the purpose of your reservation"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="waitlist-people">People</Label>
+          <Input
+            id="waitlist-people"
+            type="number"
+            min={1}
+            value={numPeople}
+            onChange={(e) => setNumPeople(parseInt(e.target.value) || 1)}
+          />
+        </div>
+      </div>
+      <Button type="submit" variant="outline" className="w-full" disabled={isSubmitting}>
+        {isSubmitting ? 'Joining...' : 'Join Waitlist'}
+      </Button>
+    </form>
+  );
+};
+
+export default JoinWaitlistForm;
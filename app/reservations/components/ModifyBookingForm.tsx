@@ -0,0 +1,237 @@
+'use client';
+
+import { useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  bangkokSlotToDate,
+  describeQuotaUsage,
+  getBangkokToday,
+  getLastBookableDate,
+  getOpeningTimes,
+  toBangkokSlot,
+} from '@/lib/logic/reservations';
+import { useReservationStore } from '../store/reservationStore';
+import { modifyReservation, ModifyReservationInput, ReservationApiError } from '../services/reservationApi';
+import type { QuotaViolation, ReservationWithRoom } from '../types';
+
+/**
+ * ModifyBookingForm Component
+ * ===========================
+ * PURPOSE:
+ *   Lets users change an upcoming booking's room, day, times, purpose or
+ *   number of people without cancelling it first.
+ *
+ * CONTEXT:
+ *   Opened from a booking in MyBookings. Saving sends only the changed
+ *   fields to PATCH /api/reservations/[id]; the change is atomic, so if
+ *   the new room or time is taken the original booking is kept.
+ */
+
+interface ModifyBookingFormProps {
+  reservation: ReservationWithRoom;
+  onSaved: (reservation: ReservationWithRoom) => void;
+  onClose: () => void;
+}
+
+const ModifyBookingForm = ({ reservation, onSaved, onClose }: ModifyBookingFormProps) => {
+  const { rooms, bookingHorizonDays } = useReservationStore();
+
+  // Bangkok wall-clock values of the booking as it is now
+  const originalStart = toBangkokSlot(reservation.start_time);
+  const originalEnd = toBangkokSlot(reservation.end_time);
+
+  const [roomId, setRoomId] = useState(reservation.room_id);
+  const [date, setDate] = useState(originalStart.slice(0, 10));
+  const [startTime, setStartTime] = useState(originalStart.slice(11));
+  const [endTime, setEndTime] = useState(originalEnd.slice(11));
+  const [agenda, setAgenda] = useState(reservation.agenda);
+  const [numPeople, setNumPeople] = useState(reservation.num_people);
+  const [isSaving, setIsSaving] = useState(false);
+  const [quotaViolation, setQuotaViolation] = useState<QuotaViolation | null>(null);
+
+  const selectedRoom = rooms.find(room => room.id === roomId);
+  const dayTimes = getOpeningTimes(date);
+
+  /**
+   * Collects the fields that differ from the current booking
+   *
+   * @returns {ModifyReservationInput} Changed fields only
+   */
+  const getChanges = () => {
+    const changes: ModifyReservationInput = {};
+    const start = `${date}T${startTime}`;
+    const end = `${date}T${endTime}`;
+
+    if (roomId !== reservation.room_id) changes.roomId = roomId;
+    if (start !== originalStart || end !== originalEnd) {
+      changes.startTime = bangkokSlotToDate(start).toISOString();
+      changes.endTime = bangkokSlotToDate(end).toISOString();
+    }
+    if (agenda.trim() !== reservation.agenda) changes.agenda = agenda.trim();
+    if (numPeople !== reservation.num_people) changes.numPeople = numPeople;
+
+    return changes;
+  };
+
+  /**
+   * Saves the changed fields
+   *
+   * @param {React.FormEvent} e - Form submission event
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const changes = getChanges();
+    if (Object.keys(changes).length === 0) {
+      onClose();
+      return;
+    }
+
+    if (endTime <= startTime) {
+      toast.error('End time must be after start time');
+      return;
+    }
+
+    if (!agenda.trim()) {
+      toast.error('Please enter a purpose for your reservation');
+      return;
+    }
+
+    if (selectedRoom && numPeople > selectedRoom.capacity) {
+      toast.error(`The room capacity is ${selectedRoom.capacity} people`);
+      return;
+    }
+
+    setIsSaving(true);
+    setQuotaViolation(null);
+
+    try {
+      const updated = await modifyReservation(reservation.id, changes);
+      toast.success('Booking updated', {
+        description: `${updated.room_name}, ${format(parseISO(`${date}T${startTime}`), 'MMM d, h:mm a')}`,
+      });
+      onSaved({ ...reservation, ...updated });
+    } catch (err) {
+      console.error('Error changing reservation:', err);
+      if (err instanceof ReservationApiError && err.code === 'QUOTA_EXCEEDED') {
+        setQuotaViolation(err.details as QuotaViolation);
+      } else if (err instanceof ReservationApiError && err.code === 'OVERLAP') {
+        toast.error('That room is already booked at this time. Your booking was not changed.');
+      } else {
+        toast.error(err instanceof Error ? err.message : 'Failed to change reservation');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-2 border-t border-green-200 pt-3">
+      <div className="grid grid-cols-2 gap-2">
+        <div className="space-y-1 col-span-2">
+          <Label className="text-xs">Room</Label>
+          <Select value={String(roomId)} onValueChange={(value) => setRoomId(Number(value))}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {/* The booking's own room stays selectable even if the list has not loaded */}
+              {!rooms.some(room => room.id === reservation.room_id) && (
+                <SelectItem value={String(reservation.room_id)}>{reservation.room_name}</SelectItem>
+              )}
+              {rooms.map(room => (
+                <SelectItem key={room.id} value={String(room.id)}>
+                  {room.name} (up to {room.capacity})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1 col-span-2">
+          <Label htmlFor={`modify-date-${reservation.id}`} className="text-xs">Date</Label>
+          <Input
+            id={`modify-date-${reservation.id}`}
+            type="date"
+            className="h-8 text-xs"
+            min={getBangkokToday()}
+            max={reservation.series_id ? undefined : getLastBookableDate(bookingHorizonDays)}
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Start</Label>
+          <Select value={startTime} onValueChange={setStartTime}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="Start" />
+            </SelectTrigger>
+            <SelectContent>
+              {dayTimes.slice(0, -1).map(time => (
+                <SelectItem key={time} value={time}>
+                  {format(parseISO(`${date}T${time}`), 'h:mm a')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">End</Label>
+          <Select value={endTime} onValueChange={setEndTime}>
+            <SelectTrigger className="h-8 text-xs">
+              <SelectValue placeholder="End" />
+            </SelectTrigger>
+            <SelectContent>
+              {dayTimes.slice(1).map(time => (
+                <SelectItem key={time} value={time}>
+                  {format(parseISO(`${date}T${time}`), 'h:mm a')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`modify-agenda-${reservation.id}`} className="text-xs">Purpose</Label>
+          <Input
+            id={`modify-agenda-${reservation.id}`}
+            className="h-8 text-xs"
+            value={agenda}
+            onChange={(e) => setAgenda(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`modify-people-${reservation.id}`} className="text-xs">People</Label>
+          <Input
+            id={`modify-people-${reservation.id}`}
+            type="number"
+            className="h-8 text-xs"
+            min={1}
+            max={selectedRoom?.capacity}
+            value={numPeople}
+            onChange={(e) => setNumPeople(parseInt(e.target.value) || 1)}
+          />
+        </div>
+      </div>
+      {/* Booking limit the change ran into (from the booking_quotas rules) */}
+      {quotaViolation && (
+        <div className="rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+          {quotaViolation.message}. {describeQuotaUsage(quotaViolation)}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onClose}>
+          Keep as is
+        </Button>
+        <Button type="submit" size="sm" className="h-7 px-2 text-xs" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save changes'}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default ModifyBookingForm;
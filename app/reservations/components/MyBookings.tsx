@@ -5,12 +5,21 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/lib/supabase';
-import { format, parseISO, isAfter } from 'date-fns';
+import { format, parseISO, isAfter, addMinutes, subMinutes } from 'date-fns';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import type { Reservation } from '../types';
+import { BOOKING_HORIZON_DAYS } from '@/constants/reservationsConstants';
+import type { ReservationPolicy, ReservationWithRoom } from '../types';
+import {
+  cancelReservation,
+  checkInReservation,
+  getBookingPolicy,
+  listMyReservations,
+} from '../services/reservationApi';
 import { motion, AnimatePresence } from 'framer-motion';
-import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { CheckCircle2, ChevronDown, ChevronUp, Pencil, Repeat, X } from 'lucide-react';
+import ModifyBookingForm from './ModifyBookingForm';
+import { useReservationStore } from '../store/reservationStore';
 
 /**
  * MyBookings Component
@@ -27,6 +36,9 @@ import { ChevronDown, ChevronUp, X } from 'lucide-react';
  *   - Real-time updates when reservations change
  *   - Visual distinction between active and past reservations
  *   - Ability to cancel upcoming reservations
+ *   - Upcoming reservations can be changed (room, time, purpose, people) in place
+ *   - Recurring bookings can be cancelled one date at a time or as a whole series
+ *   - Check-in button around the start time, plus a notice while bookings are blocked
  *   - Clear empty state when no bookings exist
  *   - Compact, space-efficient design with animations
  *   - Expandable/collapsible interface
@@ -34,18 +46,34 @@ import { ChevronDown, ChevronUp, X } from 'lucide-react';
  * BUSINESS RULES:
  *   - Only shows confirmed reservations (not pending or cancelled)
  *   - Only allows cancellation of active (future) reservations
+ *   - Only reservations that have not started can be changed; a failed change
+ *     leaves the original booking as it was
+ *   - Cancelling a series only cancels its dates that have not started yet
+ *   - Bookings must be checked in within the grace period or they are released
+ *     as no-shows (see reservation_policy); repeat no-shows block new bookings
  *   - Only shows today's reservations and future ones
  */
 
-// Extended reservation type that includes room name
-// This is necessary for displaying the room name without additional lookups
-interface ReservationWithRoom extends Reservation {
-  room_name: string;
-}
+// Used until reservation_policy loads; mirrors the table defaults
+const DEFAULT_POLICY: ReservationPolicy = {
+  check_in_opens_minutes: 10,
+  no_show_grace_minutes: 15,
+  no_show_limit: 3,
+  no_show_window_days: 30,
+  block_days: 7,
+  booking_horizon_days: BOOKING_HORIZON_DAYS,
+};
+
+const SERIES_LABELS = {
+  daily: 'Repeats daily',
+  weekly: 'Repeats weekly',
+  custom: 'Repeats on set weekdays',
+};
 
 const MyBookings = () => {
   // Access authentication context for user information
   const { user } = useAuth();
+  const setBookingHorizonDays = useReservationStore(state => state.setBookingHorizonDays);
   
   // Local state for reservation data and UI states
   const [reservations, setReservations] = useState<ReservationWithRoom[]>([]);
@@ -53,14 +81,49 @@ const MyBookings = () => {
   const [error, setError] = useState<string | null>(null);
   // State for expanding/collapsing the reservations section
   const [isExpanded, setIsExpanded] = useState(true);
+  // Check-in window settings and any active no-show booking block
+  const [policy, setPolicy] = useState<ReservationPolicy>(DEFAULT_POLICY);
+  const [blockedUntil, setBlockedUntil] = useState<string | null>(null);
+  // Booking whose change form is open
+  const [editingId, setEditingId] = useState<string | null>(null);
+  // Re-render every minute so check-in buttons appear on time
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
+  /**
+   * Loads the booking policy and the user's active booking block; the
+   * booking horizon goes to the store for the date pickers
+   */
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchPolicy = async () => {
+      try {
+        const { policy: savedPolicy, blockedUntil: blockEnd } = await getBookingPolicy();
+        if (savedPolicy) {
+          setPolicy(savedPolicy);
+          setBookingHorizonDays(savedPolicy.booking_horizon_days);
+        }
+        setBlockedUntil(blockEnd);
+      } catch (err) {
+        console.error('Error fetching reservation policy:', err);
+      }
+    };
+
+    fetchPolicy();
+  }, [user, setBookingHorizonDays]);
 
   /**
-   * Fetches the user's active reservations from the database
+   * Fetches the user's active reservations from the reservation API
    * 
    * IMPLEMENTATION DETAILS:
-   * - Fetches only confirmed reservations from today onwards
-   * - Includes room name via Supabase's nested query syntax
-   * - Orders by start time for chronological display
+   * - GET /api/reservations returns confirmed reservations from today onwards
+   * - Each one carries its room name and series frequency
+   * - Ordered by start time for chronological display
    * - Sets up real-time subscription for live updates
    * 
    * SIDE EFFECTS:
@@ -80,114 +143,12 @@ const MyBookings = () => {
       setError(null);
 
       try {
-        // Get today's date (start of day) for filtering
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        // Try to use the join query first (this requires the foreign key constraint)
-        let reservationsData;
-        let useJoinMethod = true;
-        
-        // First attempt: join query
-        try {
-          const { data, error } = await supabase
-            .from('reservations')
-            .select('*, rooms(name)')  // Get reservation data and room name
-            .eq('user_email', user.email)
-            .eq('status', 'confirmed')
-            .gte('start_time', today.toISOString())
-            .order('start_time');
-
-          if (error) {
-            console.error('Join query failed:', JSON.stringify(error));
-            // If this fails, we'll try the separate queries method instead
-            useJoinMethod = false;
-          } else {
-            reservationsData = data;
-          }
-        } catch (joinError) {
-          console.error('Join query error:', joinError);
-          useJoinMethod = false;
-        }
-        
-        // If join method failed, use separate queries as fallback
-        if (!useJoinMethod) {
-          console.log('Falling back to separate queries method');
-          
-          // Get reservations without joining
-          const { data: reservationsResult, error: reservationsError } = await supabase
-            .from('reservations')
-            .select('*')
-            .eq('user_email', user.email)
-            .eq('status', 'confirmed')
-            .gte('start_time', today.toISOString())
-            .order('start_time');
-            
-          if (reservationsError) {
-            console.error('Reservations query error:', JSON.stringify(reservationsError));
-            throw reservationsError;
-          }
-          
-          reservationsData = reservationsResult;
-        }
-        
-        // It's normal to have no data if the user hasn't made any reservations
-        if (!reservationsData || reservationsData.length === 0) {
-          setReservations([]);
-          setIsLoading(false);
-          return;
-        }
-        
-        // Process the data based on which method was used
-        try {
-          let reservationsWithRoom;
-          
-          if (useJoinMethod) {
-            // Process data from join query
-            reservationsWithRoom = reservationsData.map(item => ({
-              ...item,
-              room_name: item.rooms?.name || 'Unknown Room'
-            }));
-          } else {
-            // Get room data separately and then combine
-            const roomIds = [...new Set(reservationsData.map(res => res.room_id))];
-            
-            const { data: roomsData, error: roomsError } = await supabase
-              .from('rooms')
-              .select('id, name')
-              .in('id', roomIds);
-              
-            if (roomsError) {
-              console.error('Rooms query error:', JSON.stringify(roomsError));
-              throw roomsError;
-            }
-            
-            // Create a mapping of room IDs to room names
-            const roomMap = new Map();
-            roomsData?.forEach(room => {
-              roomMap.set(room.id, room.name);
-            });
-            
-            // Combine reservation data with room names
-            reservationsWithRoom = reservationsData.map(reservation => ({
-              ...reservation,
-              room_name: roomMap.get(reservation.room_id) || 'Unknown Room'
-            }));
-          }
-          
-          setReservations(reservationsWithRoom as ReservationWithRoom[]);
-        } catch (formatErr) {
-          console.error('Error processing reservation data:', formatErr);
-          setError('Error processing reservation data');
-        }
+        setReservations(await listMyReservations());
       } catch (err) {
         console.error('Error fetching reservations:', err);
         // Show a user-friendly error but log details for debugging
         setError('Failed to load your reservations');
-        // Don't show an error toast if there just aren't any reservations yet
-        if (err instanceof Error && err.message !== 'No data found') {
-          toast.error('Failed to load your reservations');
-        }
+        toast.error('Failed to load your reservations');
       } finally {
         setIsLoading(false);
       }
@@ -219,17 +180,17 @@ const MyBookings = () => {
   }, [user]);
 
   /**
-   * Cancels a reservation by updating its status in the database
+   * Cancels a reservation through the reservation API
    * 
    * PROCESS:
    * 1. Confirms the user's intent with a confirmation dialog
-   * 2. Updates the reservation status to 'cancelled' in the database
+   * 2. Asks the API to mark the reservation 'cancelled'
    * 3. Updates local state to reflect the change immediately
    * 4. Provides feedback via toast notifications
    * 
    * SECURITY:
    * - Verifies user is authenticated before proceeding
-   * - Includes user email in query to ensure users can only cancel their own reservations
+   * - The API only cancels reservations belonging to the signed-in user
    * 
    * @param {string} id - The UUID of the reservation to cancel
    */
@@ -246,15 +207,7 @@ const MyBookings = () => {
     }
 
     try {
-      // Update reservation status to cancelled in the database
-      // Using user_email in the filter ensures users can only cancel their own reservations
-      const { error } = await supabase
-        .from('reservations')
-        .update({ status: 'cancelled' })
-        .eq('id', id)
-        .eq('user_email', user.email);
-
-      if (error) throw error;
+      await cancelReservation(id);
 
       toast.success('Reservation cancelled successfully');
       
@@ -263,7 +216,68 @@ const MyBookings = () => {
       setReservations(reservations.filter(res => res.id !== id));
     } catch (err) {
       console.error('Error cancelling reservation:', err);
-      toast.error('Failed to cancel reservation');
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel reservation');
+    }
+  };
+
+  /**
+   * Cancels every upcoming reservation in a recurring series
+   * 
+   * Dates that have already started are left alone so past bookings
+   * keep their history.
+   * 
+   * @param {string} id - The UUID of any reservation in the series
+   */
+  const handleCancelSeries = async (id: string) => {
+    if (!user) {
+      toast.error('You must be logged in to cancel a reservation');
+      return;
+    }
+
+    if (!confirm('Cancel every upcoming date in this recurring booking?')) {
+      return;
+    }
+
+    try {
+      const cancelled = await cancelReservation(id, { series: true });
+
+      toast.success('Recurring booking cancelled successfully');
+
+      setReservations(reservations.filter(res => !cancelled.includes(res.id)));
+    } catch (err) {
+      console.error('Error cancelling reservation series:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to cancel recurring booking');
+    }
+  };
+
+  /**
+   * Replaces a booking with its changed version and closes the form
+   * 
+   * @param {ReservationWithRoom} updated - The booking as saved by the API
+   */
+  const handleModified = (updated: ReservationWithRoom) => {
+    setEditingId(null);
+    setReservations(reservations
+      .map(res => res.id === updated.id ? updated : res)
+      .sort((a, b) => a.start_time.localeCompare(b.start_time)));
+  };
+
+  /**
+   * Checks the user in to a reservation that is about to start or running
+   * 
+   * @param {string} id - The UUID of the reservation to check in
+   */
+  const handleCheckIn = async (id: string) => {
+    try {
+      const checkedInAt = await checkInReservation(id);
+
+      toast.success('Checked in. Enjoy your session!');
+      setReservations(reservations.map(res =>
+        res.id === id ? { ...res, checked_in_at: checkedInAt } : res
+      ));
+    } catch (err) {
+      console.error('Error checking in:', err);
+      toast.error(err instanceof Error ? `Failed to check in: ${err.message}` : 'Failed to check in');
     }
   };
 
@@ -341,6 +355,13 @@ const MyBookings = () => {
         className="overflow-hidden"
       >
         <CardContent className="px-4 pb-3">
+          {/* Booking block caused by repeated no-shows */}
+          {blockedUntil && (
+            <div className="mb-2 rounded-md border border-red-200 bg-red-50 p-2 text-xs text-red-700">
+              You missed {policy.no_show_limit} or more bookings without checking in, so you can&apos;t
+              make new bookings until {format(parseISO(blockedUntil), 'MMM d, h:mm a')}.
+            </div>
+          )}
           {/* Empty state when user has no reservations - made more compact */}
           {reservations.length === 0 ? (
             <div className="text-center text-gray-500 py-2 text-sm">
@@ -355,7 +376,14 @@ const MyBookings = () => {
                   const startTime = parseISO(reservation.start_time);
                   const endTime = parseISO(reservation.end_time);
                   // Determine if reservation is in the future (still active)
-                  const isActive = isAfter(endTime, new Date());
+                  const isActive = isAfter(endTime, now);
+                  // Changes are only allowed before the booking starts
+                  const canModify = isAfter(startTime, now);
+                  // Check-in opens shortly before the start and closes with the grace period
+                  const checkInDeadline = addMinutes(startTime, policy.no_show_grace_minutes);
+                  const canCheckIn = !reservation.checked_in_at
+                    && !isAfter(subMinutes(startTime, policy.check_in_opens_minutes), now)
+                    && isAfter(checkInDeadline, now);
                   
                   return (
                     <motion.div
@@ -379,19 +407,78 @@ const MyBookings = () => {
                           </div>
                           {/* Reservation purpose */}
                           <div className="text-xs text-gray-700 mt-1 truncate">{reservation.agenda}</div>
+                          {/* Check-in state */}
+                          {reservation.checked_in_at ? (
+                            <div className="flex items-center gap-1 text-xs text-green-700 mt-1">
+                              <CheckCircle2 className="h-3 w-3" />
+                              Checked in
+                            </div>
+                          ) : isActive && (
+                            <div className="text-xs text-gray-500 mt-1">
+                              Check in by {format(checkInDeadline, 'h:mm a')} or the room is released
+                            </div>
+                          )}
+                          {/* Recurring series marker */}
+                          {reservation.series_id && (
+                            <div className="flex items-center gap-1 text-xs text-blue-700 mt-1">
+                              <Repeat className="h-3 w-3" />
+                              {reservation.series_frequency ? SERIES_LABELS[reservation.series_frequency] : 'Recurring'}
+                            </div>
+                          )}
                         </div>
-                        {/* Cancel button only shown for active reservations */}
+                        {/* Cancel buttons only shown for active reservations */}
                         {isActive && (
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            className="h-7 w-7 p-0 text-gray-500 hover:text-red-600 hover:bg-red-50"
-                            onClick={() => handleCancelReservation(reservation.id)}
-                          >
-                            <X className="h-4 w-4" />
-                          </Button>
+                          <div className="flex items-center gap-1">
+                            {canCheckIn && (
+                              <Button
+                                size="sm"
+                                className="h-7 px-2 text-xs"
+                                onClick={() => handleCheckIn(reservation.id)}
+                              >
+                                Check in
+                              </Button>
+                            )}
+                            {canModify && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 w-7 p-0 text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                                onClick={() => setEditingId(editingId === reservation.id ? null : reservation.id)}
+                                title="Change booking"
+                              >
+                                <Pencil className="h-3.5 w-3.5" />
+                              </Button>
+                            )}
+                            {reservation.series_id && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="h-7 px-2 text-xs text-gray-500 hover:text-red-600 hover:bg-red-50"
+                                onClick={() => handleCancelSeries(reservation.id)}
+                              >
+                                Cancel series
+                              </Button>
+                            )}
+                            <Button 
+                              variant="ghost" 
+                              size="sm"
+                              className="h-7 w-7 p-0 text-gray-500 hover:text-red-600 hover:bg-red-50"
+                              onClick={() => handleCancelReservation(reservation.id)}
+                              title={reservation.series_id ? 'Cancel this date only' : 'Cancel reservation'}
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
                         )}
                       </div>
+                      {/* Inline change form */}
+                      {canModify && editingId === reservation.id && (
+                        <ModifyBookingForm
+                          reservation={reservation}
+                          onSaved={handleModified}
+                          onClose={() => setEditingId(null)}
+                        />
+                      )}
                     </motion.div>
                   );
                 })}
@@ -0,0 +1,152 @@
+'use client';
+
+import { format, parseISO } from 'date-fns';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { MAX_SERIES_OCCURRENCES } from '@/constants/reservationsConstants';
+import type { RecurrenceFrequency, RecurrenceRule } from '../types';
+
+/**
+ * RecurrenceOptions Component
+ * ===========================
+ * PURPOSE:
+ *   Lets users repeat a booking daily, weekly or on chosen weekdays,
+ *   ending on a date or after a number of occurrences.
+ *
+ * CONTEXT:
+ *   Rendered inside ReservationForm. The rule itself is expanded into
+ *   dates by the database (preview_reservation_series), so this component
+ *   only edits the rule.
+ */
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface RecurrenceOptionsProps {
+  rule: RecurrenceRule;
+  onChange: (rule: RecurrenceRule) => void;
+  // First day of the series ("yyyy-MM-dd", Bangkok)
+  startDate: string;
+}
+
+const RecurrenceOptions = ({ rule, onChange, startDate }: RecurrenceOptionsProps) => {
+  const start = parseISO(startDate);
+
+  /**
+   * Adds or removes a weekday from a custom rule
+   *
+   * @param {number} day - 0 = Sunday ... 6 = Saturday
+   */
+  const toggleWeekday = (day: number) => {
+    const weekdays = rule.weekdays.includes(day)
+      ? rule.weekdays.filter(d => d !== day)
+      : [...rule.weekdays, day].sort();
+    onChange({ ...rule, weekdays });
+  };
+
+  /**
+   * Switches frequency, seeding custom rules with the start date's weekday
+   *
+   * @param {string} value - Selected frequency
+   */
+  const handleFrequencyChange = (value: string) => {
+    const frequency = value as RecurrenceFrequency;
+    const weekdays = frequency === 'custom' && rule.weekdays.length === 0
+      ? [start.getDay()]
+      : rule.weekdays;
+    onChange({ ...rule, frequency, weekdays });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label>Repeat</Label>
+        <Select value={rule.frequency} onValueChange={handleFrequencyChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="daily">Every day</SelectItem>
+            <SelectItem value="weekly">Every week on {format(start, 'EEEE')}</SelectItem>
+            <SelectItem value="custom">On selected weekdays</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {rule.frequency === 'custom' && (
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <Button
+              key={label}
+              type="button"
+              size="sm"
+              variant={rule.weekdays.includes(day) ? 'default' : 'outline'}
+              className="h-8 w-12 px-0"
+              onClick={() => toggleWeekday(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {rule.frequency !== 'none' && (
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <Label>Ends</Label>
+            <Select
+              value={rule.endType}
+              onValueChange={(value) => onChange({ ...rule, endType: value as RecurrenceRule['endType'] })}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="until">On date</SelectItem>
+                <SelectItem value="count">After</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {rule.endType === 'until' ? (
+            <Input
+              type="date"
+              className="w-[170px]"
+              value={rule.untilDate}
+              min={startDate}
+              onChange={(e) => e.target.value && onChange({ ...rule, untilDate: e.target.value })}
+            />
+          ) : (
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                className="w-[90px]"
+                min={1}
+                max={MAX_SERIES_OCCURRENCES}
+                value={rule.occurrenceCount}
+                onChange={(e) => onChange({ ...rule, occurrenceCount: parseInt(e.target.value) || 0 })}
+              />
+              <span className="text-sm text-gray-600">occurrences</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {rule.frequency !== 'none' && (
+        <p className="text-xs text-gray-500">
+          A series can hold up to {MAX_SERIES_OCCURRENCES} bookings.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RecurrenceOptions;
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Label } from '@/components/ui/label';
@@ -8,10 +8,22 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { format, parseISO, addMinutes } from 'date-fns';
 import { useReservationStore } from '../store/reservationStore';
-import { supabase } from '@/lib/supabase';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 import { useRouter } from 'next/navigation';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { bangkokSlotToDate, describeQuotaUsage } from '@/lib/logic/reservations';
+import { MAX_SERIES_OCCURRENCES } from '@/constants/reservationsConstants';
+import RecurrenceOptions from './RecurrenceOptions';
+import SeriesConflictReport from './SeriesConflictReport';
+import {
+  createReservation,
+  createSeries,
+  previewSeries,
+  ReservationApiError,
+  SeriesRuleInput,
+} from '../services/reservationApi';
+import type { QuotaViolation, RecurrenceRule, SeriesOccurrence } from '../types';
 
 /**
  * ReservationForm Component
@@ -36,8 +48,20 @@ import { useRouter } from 'next/navigation';
  * IMPLEMENTATION NOTES:
  *   Uses a two-step reservation process with a temporary hold to prevent
  *   race conditions when multiple users try to book the same slot.
+ *   Recurring bookings are previewed first (/api/reservations/series/preview)
+ *   so users see conflicting dates, then booked in one transaction by
+ *   POST /api/reservations/series, which skips the conflicts.
  */
 
+// Single booking by default; a new series ends after four occurrences
+const DEFAULT_RULE: RecurrenceRule = {
+  frequency: 'none',
+  weekdays: [],
+  endType: 'count',
+  untilDate: '',
+  occurrenceCount: 4,
+};
+
 const ReservationForm = () => {
   // Get authentication context for user information
   const { user } = useAuth();
@@ -56,6 +80,20 @@ const ReservationForm = () => {
   // Local state to track form submission
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Recurrence rule and the conflict preview for it
+  const [rule, setRule] = useState<RecurrenceRule>(DEFAULT_RULE);
+  const [preview, setPreview] = useState<SeriesOccurrence[] | null>(null);
+  const isRecurring = rule.frequency !== 'none';
+
+  // Booking limit the last attempt ran into, shown above the submit button
+  const [quotaViolation, setQuotaViolation] = useState<QuotaViolation | null>(null);
+
+  // A preview or limit error only describes the rule, room and slots it was made for
+  useEffect(() => {
+    setPreview(null);
+    setQuotaViolation(null);
+  }, [rule, selectedRoomId, selectedSlots]);
+
   // Find the selected room details from the rooms array
   const selectedRoom = rooms.find(room => room.id === selectedRoomId);
 
@@ -103,22 +141,119 @@ const ReservationForm = () => {
       return false;
     }
 
+    if (isRecurring && !isRuleValid()) return false;
+
+    return true;
+  };
+
+  /**
+   * Validates the recurrence rule of a repeating booking
+   *
+   * @returns {boolean} Whether the rule can be previewed and booked
+   */
+  const isRuleValid = () => {
+    if (rule.frequency === 'custom' && rule.weekdays.length === 0) {
+      toast.error('Please choose at least one weekday to repeat on');
+      return false;
+    }
+
+    if (rule.endType === 'until' && !rule.untilDate) {
+      toast.error('Please choose when the series ends');
+      return false;
+    }
+
+    if (rule.endType === 'count' && (rule.occurrenceCount < 1 || rule.occurrenceCount > MAX_SERIES_OCCURRENCES)) {
+      toast.error(`A series can have between 1 and ${MAX_SERIES_OCCURRENCES} occurrences`);
+      return false;
+    }
+
     return true;
   };
 
+  /**
+   * Builds the recurrence rule for the selected series
+   *
+   * Slots are Bangkok wall-clock strings, so the date and times of day
+   * can be read straight off them.
+   */
+  const getSeriesRule = (): SeriesRuleInput => {
+    const sortedSlots = [...selectedSlots].sort();
+    const lastSlot = parseISO(sortedSlots[sortedSlots.length - 1]);
+
+    return {
+      roomId: Number(selectedRoomId),
+      frequency: rule.frequency as SeriesRuleInput['frequency'],
+      weekdays: rule.frequency === 'custom' ? rule.weekdays : [],
+      startDate: sortedSlots[0].slice(0, 10),
+      untilDate: rule.endType === 'until' ? rule.untilDate : null,
+      occurrenceCount: rule.endType === 'count' ? rule.occurrenceCount : null,
+      slotStart: sortedSlots[0].slice(11),
+      slotEnd: format(addMinutes(lastSlot, 30), 'HH:mm:ss'),
+    };
+  };
+
+  /**
+   * Lists the series' dates and which of them are already booked
+   */
+  const handlePreview = async () => {
+    try {
+      setPreview(await previewSeries(getSeriesRule()));
+    } catch (error) {
+      console.error('Error previewing reservation series:', error);
+      toast.error(`Failed to check availability: ${error instanceof Error ? error.message : 'Please try again.'}`);
+    }
+  };
+
+  /**
+   * Books every free date of the previewed series
+   */
+  const handleCreateSeries = async () => {
+    try {
+      const { created, skipped } = await createSeries({
+        ...getSeriesRule(),
+        agenda: formData.agenda.trim(),
+        numPeople: Number(formData.numPeople),
+      });
+
+      toast.success(
+        `Booked ${created} recurring reservation${created === 1 ? '' : 's'} in ${selectedRoom?.name}, ${formatTimeDisplay()}.`,
+        {
+          duration: 5000,
+          description: skipped.length > 0
+            ? `${skipped.length} date${skipped.length === 1 ? ' was' : 's were'} already booked and skipped.`
+            : "You can view all your bookings in the 'My Bookings' section below."
+        }
+      );
+      resetFormData();
+      setRule(DEFAULT_RULE);
+      router.refresh();
+    } catch (error) {
+      console.error('Error creating reservation series:', error);
+      if (!(error instanceof ReservationApiError)) {
+        toast.error('Failed to create recurring reservation. Please try again.');
+      } else if (error.code === 'QUOTA_EXCEEDED') {
+        setQuotaViolation(error.details as QuotaViolation);
+        toast.error(error.message);
+      } else if (error.code === 'OVERLAP') {
+        toast.error('Every date in this series is already booked. Please choose another time.');
+      } else {
+        toast.error(`Failed to create recurring reservation: ${error.message}`);
+      }
+    }
+  };
+
   /**
    * Handles form submission to create a reservation
    * 
    * PROCESS:
    * 1. Validates form data
-   * 2. Creates a reservation with temporary hold
-   * 3. Confirms the reservation if no conflicts occur
-   * 4. Provides user feedback and resets form
+   * 2. Books the room through the reservation API (hold, then confirm)
+   * 3. Provides user feedback and resets form
    * 
    * TECHNICAL DETAILS:
-   * - First tries to use Supabase RPC calls to database functions
-   * - Falls back to direct table access if RPC fails
-   * - Implements error handling for various failure scenarios
+   * - Single bookings go through POST /api/reservations, which validates
+   *   the request and runs the hold + confirm steps on the server
+   * - Failures are reported by the API's error code
    * - Manages loading state during async operations
    * 
    * @param {React.FormEvent} e - Form submission event
@@ -137,98 +272,34 @@ const ReservationForm = () => {
         return;
       }
 
-      const sortedSlots = [...selectedSlots].sort();
-      const startTime = parseISO(sortedSlots[0]);
-      const lastSlot = parseISO(sortedSlots[sortedSlots.length - 1]);
-      const endTime = addMinutes(lastSlot, 30);
-      
-      // Create the reservation using RPC function instead of direct insert
-      console.log('Calling create_reservation_with_hold with:', {
-        p_room_id: selectedRoomId,
-        p_start_time: startTime.toISOString(),
-        p_end_time: endTime.toISOString(),
-        p_agenda: formData.agenda,
-        p_num_people: formData.numPeople
-      });
-      
-      // Make sure all parameters are of the correct type
-      const params = {
-        p_room_id: Number(selectedRoomId), // Ensure it's a number
-        p_start_time: startTime.toISOString(),
-        p_end_time: endTime.toISOString(),
-        p_agenda: String(formData.agenda), // Ensure it's a string
-        p_num_people: Number(formData.numPeople) // Ensure it's a number
-      };
-      
-      console.log('Sending parameters with types:', {
-        'p_room_id': typeof params.p_room_id + ' → ' + params.p_room_id,
-        'p_start_time': typeof params.p_start_time + ' → ' + params.p_start_time,
-        'p_end_time': typeof params.p_end_time + ' → ' + params.p_end_time,
-        'p_agenda': typeof params.p_agenda + ' → ' + params.p_agenda,
-        'p_num_people': typeof params.p_num_people + ' → ' + params.p_num_people
-      });
-      
-      const { data, error } = await supabase.rpc('create_reservation_with_hold', params);
-      
-      console.log('Response from create_reservation_with_hold:', { data, error });
-        
-      if (error) {
-        console.error('Error during create_reservation_with_hold:', error);
-        if (error.message?.includes('Overlapping reservation')) {
-          toast.error('This time slot is already booked. Please select another time.');
+      // Repeating bookings: show the conflict report first, then book
+      if (isRecurring) {
+        if (preview === null) {
+          await handlePreview();
         } else {
-          toast.error(`Failed to initiate reservation: ${error.message}`);
+          await handleCreateSeries();
         }
-        // Stop execution if there was an error creating the hold
-        setIsSubmitting(false);
-        return; 
-      }
-
-      // Ensure data (reservation ID) is valid before proceeding
-      if (!data) {
-        console.error('No reservation ID returned from create_reservation_with_hold');
-        toast.error('Failed to get reservation ID. Please try again.');
-        setIsSubmitting(false);
         return;
       }
 
-      // If we got here, we have a reservation ID. Now confirm it.
-      console.log(`Calling confirm_reservation with ID: ${data}`);
-      const confirmResponse = await supabase.rpc('confirm_reservation', {
-        p_reservation_id: data
-      });
-
-      console.log('Response from confirm_reservation:', confirmResponse);
-      
-      // Check if there was an RPC call error
-      if (confirmResponse.error) {
-        console.error('Error during confirm_reservation RPC call:', confirmResponse.error);
-        toast.error(`Failed to confirm reservation: ${confirmResponse.error.message}`);
-        setIsSubmitting(false);
-        return;
-      }
+      // Slots are Bangkok wall-clock times; convert to real instants for the database
+      const sortedSlots = [...selectedSlots].sort();
+      const startTime = bangkokSlotToDate(sortedSlots[0]);
+      const lastSlot = bangkokSlotToDate(sortedSlots[sortedSlots.length - 1]);
+      const endTime = addMinutes(lastSlot, 30);
       
-      // Check if there was a business logic error returned in the data
-      const confirmError = confirmResponse.data?.confirmError;
-      if (confirmError) {
-        console.error('Error during confirm_reservation:', confirmError);
-        if (confirmError.includes('Overlapping reservation')) {
-          toast.error('This time slot was just booked by someone else. Please select another time.');
-        } else if (confirmError.includes('Reservation hold has expired')) {
-          toast.error('Your reservation hold expired. Please try again quickly.');
-        } else {
-          toast.error(`Failed to confirm reservation: ${confirmError}`);
-        }
-        // Even if confirmation fails, stop loading
-        setIsSubmitting(false);
-        return; 
-      }
+      await createReservation({
+        roomId: Number(selectedRoomId),
+        agenda: formData.agenda.trim(),
+        numPeople: Number(formData.numPeople),
+        startTime: startTime.toISOString(),
+        endTime: endTime.toISOString(),
+      });
 
       // Success! Clear form and show success message
-      console.log('Reservation confirmed successfully!');
       // Display a success toast with helpful information
       toast.success(
-        `Your room has been booked successfully! You've reserved ${selectedRoom?.name} from ${format(startTime, 'h:mm a')} to ${format(endTime, 'h:mm a')}.`,
+        `Your room has been booked successfully! You've reserved ${selectedRoom?.name} on ${formatDateDisplay()}, ${formatTimeDisplay()}.`,
         {
           duration: 5000, // Show for 5 seconds
           description: "You can view all your bookings in the 'My Bookings' section below."
@@ -239,7 +310,16 @@ const ReservationForm = () => {
       
     } catch (error) {
       console.error('Error creating reservation:', error);
-      toast.error('Failed to create reservation. Please try again.');
+      if (!(error instanceof ReservationApiError)) {
+        toast.error('Failed to create reservation. Please try again.');
+      } else if (error.code === 'QUOTA_EXCEEDED') {
+        setQuotaViolation(error.details as QuotaViolation);
+        toast.error(error.message);
+      } else if (error.code === 'OVERLAP') {
+        toast.error('This time slot was just booked by someone else. Please select another time.');
+      } else {
+        toast.error(error.message);
+      }
     } finally {
       setIsSubmitting(false);
     }
@@ -279,6 +359,18 @@ const ReservationForm = () => {
     );
   }
 
+  /**
+   * Formats the day of the selected slots
+   *
+   * EXAMPLE: "Tuesday, August 6"
+   *
+   * @returns {string} Formatted date string
+   */
+  function formatDateDisplay() {
+    if (selectedSlots.length === 0) return '';
+    return format(parseISO([...selectedSlots].sort()[0]), 'EEEE, MMMM d');
+  }
+
   /**
    * Formats the selected time slots into a human-readable time range
    * 
@@ -286,7 +378,7 @@ const ReservationForm = () => {
    * 
    * @returns {string} Formatted time range string
    */
-  const formatTimeDisplay = () => {
+  function formatTimeDisplay() {
     if (selectedSlots.length === 0) return '';
     
     const sortedSlots = [...selectedSlots].sort();
@@ -295,7 +387,23 @@ const ReservationForm = () => {
     const end = addMinutes(lastSlot, 30);
     
     return `${format(start, 'h:mm a')} - ${format(end, 'h:mm a')} (${selectedSlots.length * 30} minutes)`;
-  };
+  }
+
+  /**
+   * Labels the submit button for the current step
+   *
+   * @returns {string} Button text
+   */
+  function getSubmitLabel() {
+    if (!isRecurring) {
+      return isSubmitting ? 'Creating Reservation...' : 'Confirm Reservation';
+    }
+    if (preview === null) {
+      return isSubmitting ? 'Checking Availability...' : 'Check Availability';
+    }
+    const available = preview.filter(occurrence => !occurrence.has_conflict).length;
+    return isSubmitting ? 'Creating Reservations...' : `Book ${available} Date${available === 1 ? '' : 's'}`;
+  }
 
   // Main form render
   return (
@@ -316,6 +424,17 @@ const ReservationForm = () => {
             />
           </div>
           
+          {/* Date information (non-editable) */}
+          <div className="space-y-1">
+            <Label htmlFor="date">Date</Label>
+            <Input 
+              id="date" 
+              value={formatDateDisplay()} 
+              disabled 
+              className="bg-gray-50"
+            />
+          </div>
+          
           {/* Time slot information (non-editable) */}
           <div className="space-y-1">
             <Label htmlFor="time">Time</Label>
@@ -360,15 +479,33 @@ const ReservationForm = () => {
               className="min-h-[100px]"
             />
           </div>
+
+          {/* Recurrence rule and conflict report */}
+          <RecurrenceOptions
+            rule={rule}
+            onChange={setRule}
+            startDate={[...selectedSlots].sort()[0].slice(0, 10)}
+          />
+          {isRecurring && preview && <SeriesConflictReport occurrences={preview} />}
+
+          {/* Booking limit reached (from the booking_quotas rules) */}
+          {quotaViolation && (
+            <Alert variant="destructive">
+              <AlertTitle>Booking limit reached</AlertTitle>
+              <AlertDescription>
+                {quotaViolation.message}. {describeQuotaUsage(quotaViolation)}
+              </AlertDescription>
+            </Alert>
+          )}
         </CardContent>
         <CardFooter>
           {/* Submit button with loading state */}
           <Button 
             type="submit" 
             className="w-full" 
-            disabled={isSubmitting}
+            disabled={isSubmitting || (isRecurring && preview !== null && preview.every(o => o.has_conflict))}
           >
-            {isSubmitting ? 'Creating Reservation...' : 'Confirm Reservation'}
+            {getSubmitLabel()}
           </Button>
         </CardFooter>
       </form>
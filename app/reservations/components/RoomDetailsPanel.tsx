@@ -4,18 +4,20 @@ import { useEffect, useState } from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/lib/supabase';
 import { useReservationStore } from '../store/reservationStore';
+import { AMENITY_CATEGORIES, RoomAmenity } from '@/lib/amenities';
 import type { Room } from '../types';
 
 /**
  * COMPONENT: RoomDetailsPanel
  * PURPOSE: Displays detailed information about the selected room in a Notion-inspired card layout
  * CONTEXT: Provides users with comprehensive room information after selection from the room list
- * DATA FLOW: Receives selected room ID from store → Fetches room details → Renders clean, minimal UI
+ * DATA FLOW: Receives selected room ID from store → Fetches room details and amenities → Renders clean, minimal UI
  * KEY DEPENDENCIES: Supabase for room data fetching, reservation store for room selection state
  */
 const RoomDetailsPanel = () => {
-  const { selectedRoomId } = useReservationStore();
+  const { selectedRoomId, amenities } = useReservationStore();
   const [room, setRoom] = useState<Room | null>(null);
+  const [roomAmenities, setRoomAmenities] = useState<RoomAmenity[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -32,12 +34,18 @@ const RoomDetailsPanel = () => {
       try {
         const { data, error } = await supabase
           .from('rooms')
-          .select('*')
+          .select('*, room_amenities(amenity_id, notes)')
           .eq('id', selectedRoomId)
           .single();
 
         if (error) throw error;
-        setRoom(data as Room);
+
+        const { room_amenities, ...roomData } = data;
+        const fitted: RoomAmenity[] = (room_amenities || []).map(
+          (amenity: { amenity_id: string; notes: string | null }) => ({ amenityId: amenity.amenity_id, notes: amenity.notes })
+        );
+        setRoomAmenities(fitted);
+        setRoom({ ...roomData, amenity_ids: fitted.map(amenity => amenity.amenityId) } as Room);
       } catch (err) {
         console.error('Error fetching room details:', err);
         setError('Could not load room details');
@@ -97,18 +105,20 @@ const RoomDetailsPanel = () => {
       ),
       label: "Location",
       value: room.location || "Not specified"
-    },
-    {
-      icon: (
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.75 17L9 20l-1 1h8l-1-1-.75-3M3 13h18M5 17h14a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z" />
-        </svg>
-      ),
-      label: "Projector",
-      value: room.has_projector ? "Available" : "Not available"
     }
   ];
 
+  // The room's amenities grouped by catalog category (retired ones are left out)
+  const amenityGroups = AMENITY_CATEGORIES
+    .map(category => ({
+      ...category,
+      items: amenities
+        .filter(amenity => amenity.category === category.id)
+        .map(amenity => ({ amenity, fitted: roomAmenities.find(item => item.amenityId === amenity.id) }))
+        .filter(item => item.fitted),
+    }))
+    .filter(group => group.items.length > 0);
+
   return (
     <div className="h-full flex flex-col">
       {/* Room name header with Notion-style */}
@@ -141,6 +151,28 @@ const RoomDetailsPanel = () => {
         ))}
       </div>
 
+      {/* Amenities by category */}
+      <div className="mt-4 space-y-2">
+        <div className="text-sm text-gray-500">Amenities</div>
+        {amenityGroups.length === 0 ? (
+          <div className="text-sm text-gray-400">No amenities listed</div>
+        ) : (
+          amenityGroups.map(group => (
+            <div key={group.id}>
+              <div className="text-xs uppercase tracking-wide text-gray-400">{group.label}</div>
+              <ul className="mt-1 space-y-0.5">
+                {group.items.map(({ amenity, fitted }) => (
+                  <li key={amenity.id} className="text-sm text-gray-700">
+                    {amenity.name}
+                    {fitted?.notes && <span className="text-gray-500"> · {fitted.notes}</span>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))
+        )}
+      </div>
+
       {/* Additional notes section with placeholder content */}
       <div className="mt-4 p-3 bg-gray-50 rounded-md text-sm text-gray-700 border border-gray-100">
         Please select time slots to make a reservation for this room.
@@ -4,15 +4,17 @@ import { useEffect, useState } from 'react';
 import { Skeleton } from '@/components/ui/skeleton';
 import { supabase } from '@/lib/supabase';
 import { useReservationStore } from '../store/reservationStore';
-import type { Room } from '../types';
+import type { RankedRoom, Room } from '../types';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import { getAmenities } from '@/lib/amenities';
 
 /**
  * COMPONENT: RoomList
  * PURPOSE: Displays available rooms as square Notion-style cards that users can select
  * CONTEXT: First step in the room reservation flow, allowing users to browse and choose rooms
- * DATA FLOW: Fetches rooms from Supabase → Renders as interactive cards → Updates global selection state on click
+ * DATA FLOW: Fetches rooms (with their amenities) and the amenity catalog from Supabase → Renders as interactive cards → Updates global selection state on click
+ *   While a RoomSearchPanel search is applied, shows its ranked results instead (best fit first)
  * KEY DEPENDENCIES: Supabase for room data, reservation store for state management
  */
 interface RoomListProps {
@@ -27,6 +29,9 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
     setSelectedRoomId,
     isLoadingRooms,
     setIsLoadingRooms,
+    searchResults,
+    amenities,
+    setAmenities,
   } = useReservationStore();
 
   const { user } = useAuth();
@@ -44,10 +49,14 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
       setError(null);
       
       try {
-        const { data, error } = await supabase
-          .from('rooms')
-          .select('*')
-          .order('name');
+        const [{ data, error }, catalog] = await Promise.all([
+          supabase
+            .from('rooms')
+            .select('*, room_amenities(amenity_id)')
+            .eq('is_active', true)
+            .order('name'),
+          getAmenities(),
+        ]);
 
         if (error) throw error;
         
@@ -56,7 +65,11 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
           return;
         }
 
-        setRooms(data as Room[]);
+        setAmenities(catalog);
+        setRooms(data.map(({ room_amenities, ...room }) => ({
+          ...room,
+          amenity_ids: (room_amenities || []).map((amenity: { amenity_id: string }) => amenity.amenity_id),
+        })) as Room[]);
       } catch (error) {
         console.error('Error fetching rooms:', error);
         setError('Failed to load rooms. Please try again.');
@@ -67,7 +80,7 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
     };
 
     fetchRooms();
-  }, [setRooms, setIsLoadingRooms, user]);
+  }, [setRooms, setAmenities, setIsLoadingRooms, user]);
 
   // Error state - Notion-style empty state
   if (error) {
@@ -89,6 +102,15 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
     );
   }
 
+  // Search with no matches
+  if (searchResults && !searchResults.length) {
+    return (
+      <div className="text-gray-500 text-sm py-4 flex items-center justify-center">
+        <span className="bg-gray-100 px-3 py-1 rounded-md">No rooms match your search</span>
+      </div>
+    );
+  }
+
   // Empty state - Notion-style message
   if (!rooms.length) {
     return (
@@ -98,13 +120,21 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
     );
   }
 
+  // Names of a room's active amenities, in catalog order
+  const getAmenityNames = (room: Room) =>
+    amenities.filter(amenity => room.amenity_ids.includes(amenity.id)).map(amenity => amenity.name);
+
+  // Search results when a search is applied, otherwise every room unranked
+  const displayedRooms: RankedRoom[] = searchResults
+    ?? rooms.map(room => ({ ...room, spare_seats: null, recommended: false }));
+
   return (
     <div className={horizontalScroll ? "w-full" : ""}>
       <div className={horizontalScroll 
         ? "flex space-x-3" 
         : "grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3"
       }>
-        {rooms.map((room) => (
+        {displayedRooms.map((room) => (
           <div
             key={room.id}
             className={`
@@ -126,12 +156,21 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
           >
             <div className="flex items-center justify-between mb-2">
               <div className="font-medium text-sm text-gray-800 truncate">{room.name}</div>
-              {room.has_projector && (
-                <div className="text-[10px] bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded-sm">
-                  Projector
-                </div>
-              )}
             </div>
+
+            {/* First couple of amenities, in catalog order */}
+            {getAmenityNames(room).length > 0 && (
+              <div className="flex flex-wrap gap-1 mb-1">
+                {getAmenityNames(room).slice(0, 2).map(name => (
+                  <div key={name} className="text-[10px] bg-blue-100 text-blue-600 px-1.5 py-0.5 rounded-sm truncate">
+                    {name}
+                  </div>
+                ))}
+                {getAmenityNames(room).length > 2 && (
+                  <div className="text-[10px] text-gray-400 py-0.5">+{getAmenityNames(room).length - 2}</div>
+                )}
+              </div>
+            )}
             
             <div className="mt-1 text-xs text-gray-500 flex items-center">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -150,6 +189,18 @@ const RoomList = ({ horizontalScroll = false }: RoomListProps) => {
               </div>
             )}
             
+            {/* Search ranking: best fit and spare seats for the party */}
+            {room.recommended && (
+              <div className="mt-1 text-[10px] w-fit bg-green-100 text-green-700 px-1.5 py-0.5 rounded-sm">
+                Best fit
+              </div>
+            )}
+            {room.spare_seats !== null && room.spare_seats > 0 && (
+              <div className="mt-1 text-xs text-gray-400">
+                {room.spare_seats} spare seat{room.spare_seats === 1 ? '' : 's'}
+              </div>
+            )}
+
             <div className="mt-auto">
               {selectedRoomId === room.id && (
                 <div className="text-xs font-medium text-blue-600 flex items-center mt-2">
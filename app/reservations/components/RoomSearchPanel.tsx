@@ -0,0 +1,280 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { FREE_FOR_OPTIONS } from '@/constants/reservationsConstants';
+import { bangkokSlotToDate, getOpeningTimes } from '@/lib/logic/reservations';
+import { useReservationStore } from '../store/reservationStore';
+import { searchRooms } from '../services/reservationApi';
+import BookingDatePicker from './BookingDatePicker';
+import type { RoomSearchFilters } from '../types';
+
+/**
+ * RoomSearchPanel Component
+ * =========================
+ * PURPOSE:
+ *   Filters the room list by party size, amenities, location and when the
+ *   room has to be free, and ranks the matches so the smallest room that
+ *   fits comes first.
+ *
+ * CONTEXT:
+ *   Sits above RoomList on the reservations page. Results go into the
+ *   reservation store (searchResults), which RoomList shows instead of the
+ *   full list until the search is cleared. Opening the page with
+ *   ?view=available runs a "free for the next hour" search straight away.
+ */
+
+// 'now' = free for the next N minutes, 'range' = free between two times
+type AvailabilityMode = 'any' | 'now' | 'range';
+
+const ANY_LOCATION = 'any';
+
+const RoomSearchPanel = () => {
+  const searchParams = useSearchParams();
+  const {
+    rooms,
+    amenities,
+    selectedDate,
+    searchResults,
+    setSearchResults,
+    formData,
+    setFormData,
+  } = useReservationStore();
+
+  const [partySize, setPartySize] = useState('');
+  // Amenity slugs the room must have
+  const [required, setRequired] = useState<string[]>([]);
+  const [location, setLocation] = useState(ANY_LOCATION);
+  const [mode, setMode] = useState<AvailabilityMode>('any');
+  const [freeForMinutes, setFreeForMinutes] = useState(60);
+  const [freeFrom, setFreeFrom] = useState('');
+  const [freeTo, setFreeTo] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+
+  // Distinct room locations to pick from
+  const locations = [...new Set(rooms.map(room => room.location).filter(Boolean))] as string[];
+  const dayTimes = getOpeningTimes(selectedDate);
+
+  /**
+   * Runs a search and stores the ranked results
+   *
+   * @param {RoomSearchFilters} filters - Filters to search with
+   */
+  const runSearch = async (filters: RoomSearchFilters) => {
+    setIsSearching(true);
+
+    try {
+      const results = await searchRooms(filters);
+      setSearchResults(results);
+
+      // Carry the party size over to the booking form
+      if (filters.partySize) {
+        setFormData({ ...formData, numPeople: filters.partySize });
+      }
+
+      if (results.length === 0) {
+        toast.info('No rooms match your search');
+      }
+    } catch (err) {
+      console.error('Error searching rooms:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to search rooms');
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  // The dashboard's "Find Available" link lands here with ?view=available
+  useEffect(() => {
+    if (searchParams.get('view') !== 'available') return;
+
+    setMode('now');
+    setIsSearching(true);
+    searchRooms({ amenities: [], freeForMinutes: 60 })
+      .then(setSearchResults)
+      .catch((err) => {
+        console.error('Error searching rooms:', err);
+        toast.error('Failed to find available rooms');
+      })
+      .finally(() => setIsSearching(false));
+  }, [searchParams, setSearchResults]);
+
+  /**
+   * Builds filters from the form and searches
+   *
+   * @param {React.FormEvent} e - Form submission event
+   */
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const filters: RoomSearchFilters = {
+      partySize: parseInt(partySize) || undefined,
+      amenities: required,
+      location: location === ANY_LOCATION ? undefined : location,
+    };
+
+    if (mode === 'now') {
+      filters.freeForMinutes = freeForMinutes;
+    } else if (mode === 'range') {
+      if (!freeFrom || !freeTo || freeTo <= freeFrom) {
+        toast.error('Please choose a start and an end time');
+        return;
+      }
+      filters.freeFrom = bangkokSlotToDate(`${selectedDate}T${freeFrom}`).toISOString();
+      filters.freeTo = bangkokSlotToDate(`${selectedDate}T${freeTo}`).toISOString();
+    }
+
+    runSearch(filters);
+  };
+
+  /**
+   * Clears the filters and shows every room again
+   */
+  const handleClear = () => {
+    setPartySize('');
+    setRequired([]);
+    setLocation(ANY_LOCATION);
+    setMode('any');
+    setSearchResults(null);
+  };
+
+  /**
+   * Adds or removes an amenity filter
+   *
+   * @param {string} amenityId - Amenity to toggle
+   * @param {boolean} checked - Whether it is now required
+   */
+  const toggleAmenity = (amenityId: string, checked: boolean) => {
+    setRequired(checked ? [...required, amenityId] : required.filter(value => value !== amenityId));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-3 mb-3">
+      <div className="space-y-1">
+        <Label htmlFor="search-party-size" className="text-xs">People</Label>
+        <Input
+          id="search-party-size"
+          type="number"
+          min={1}
+          placeholder="Any"
+          className="h-8 w-20 text-xs"
+          value={partySize}
+          onChange={(e) => setPartySize(e.target.value)}
+        />
+      </div>
+
+      {amenities.length > 0 && (
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button type="button" variant="outline" size="sm" className="h-8 text-xs">
+              Amenities{required.length > 0 && ` (${required.length})`}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-56 space-y-2" align="start">
+            {amenities.map(amenity => (
+              <div key={amenity.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`search-amenity-${amenity.id}`}
+                  checked={required.includes(amenity.id)}
+                  onCheckedChange={(checked) => toggleAmenity(amenity.id, checked === true)}
+                />
+                <Label htmlFor={`search-amenity-${amenity.id}`} className="text-xs">{amenity.name}</Label>
+              </div>
+            ))}
+          </PopoverContent>
+        </Popover>
+      )}
+
+      {locations.length > 0 && (
+        <div className="space-y-1">
+          <Label className="text-xs">Location</Label>
+          <Select value={location} onValueChange={setLocation}>
+            <SelectTrigger className="h-8 w-36 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY_LOCATION}>Anywhere</SelectItem>
+              {locations.map(value => (
+                <SelectItem key={value} value={value}>{value}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <Label className="text-xs">Free</Label>
+        <Select value={mode} onValueChange={(value) => setMode(value as AvailabilityMode)}>
+          <SelectTrigger className="h-8 w-36 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="any">Any time</SelectItem>
+            <SelectItem value="now">From now</SelectItem>
+            <SelectItem value="range">Between times</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === 'now' && (
+        <div className="space-y-1">
+          <Label className="text-xs">For</Label>
+          <Select value={String(freeForMinutes)} onValueChange={(value) => setFreeForMinutes(Number(value))}>
+            <SelectTrigger className="h-8 w-28 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FREE_FOR_OPTIONS.map(minutes => (
+                <SelectItem key={minutes} value={String(minutes)}>{minutes} minutes</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      {mode === 'range' && (
+        <>
+          <BookingDatePicker />
+          {[
+            { label: 'From', value: freeFrom, onChange: setFreeFrom, times: dayTimes.slice(0, -1) },
+            { label: 'To', value: freeTo, onChange: setFreeTo, times: dayTimes.slice(1) },
+          ].map(field => (
+            <div key={field.label} className="space-y-1">
+              <Label className="text-xs">{field.label}</Label>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger className="h-8 w-28 text-xs">
+                  <SelectValue placeholder="--:--" />
+                </SelectTrigger>
+                <SelectContent>
+                  {field.times.map(time => (
+                    <SelectItem key={time} value={time}>
+                      {format(parseISO(`${selectedDate}T${time}`), 'h:mm a')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </>
+      )}
+
+      <Button type="submit" size="sm" className="h-8" disabled={isSearching}>
+        {isSearching ? 'Searching...' : 'Search'}
+      </Button>
+      {searchResults && (
+        <Button type="button" variant="ghost" size="sm" className="h-8" onClick={handleClear}>
+          Show all rooms
+        </Button>
+      )}
+    </form>
+  );
+};
+
+export default RoomSearchPanel;
@@ -0,0 +1,69 @@
+'use client';
+
+import { formatInTimeZone } from 'date-fns-tz';
+import { Badge } from '@/components/ui/badge';
+import { BANGKOK_TZ } from '@/constants/reservationsConstants';
+import type { SeriesOccurrence } from '../types';
+
+/**
+ * SeriesConflictReport Component
+ * ==============================
+ * PURPOSE:
+ *   Shows every occurrence of a recurring booking and flags the ones
+ *   that collide with confirmed reservations.
+ *
+ * CONTEXT:
+ *   Displayed by ReservationForm after the rule is previewed and before
+ *   the series is booked. Conflicting occurrences are skipped on booking.
+ */
+
+interface SeriesConflictReportProps {
+  occurrences: SeriesOccurrence[];
+}
+
+const SeriesConflictReport = ({ occurrences }: SeriesConflictReportProps) => {
+  const conflicts = occurrences.filter(occurrence => occurrence.has_conflict).length;
+
+  if (occurrences.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        This rule has no upcoming dates. Try a later end date or more occurrences.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-gray-700">
+        {occurrences.length - conflicts} of {occurrences.length} dates are available
+        {conflicts > 0 && `; ${conflicts} already booked will be skipped`}.
+      </p>
+      <ul className="max-h-48 overflow-y-auto rounded-md border divide-y text-sm">
+        {occurrences.map(occurrence => (
+          <li
+            key={occurrence.start_time}
+            className={`flex items-center justify-between px-3 py-1.5 ${
+              occurrence.has_conflict ? 'bg-red-50' : ''
+            }`}
+          >
+            <span>
+              {formatInTimeZone(occurrence.start_time, BANGKOK_TZ, 'EEE, MMM d')}
+              <span className="text-gray-500">
+                {' '}
+                {formatInTimeZone(occurrence.start_time, BANGKOK_TZ, 'h:mm a')} -{' '}
+                {formatInTimeZone(occurrence.end_time, BANGKOK_TZ, 'h:mm a')}
+              </span>
+            </span>
+            {occurrence.has_conflict ? (
+              <Badge variant="destructive">Conflict</Badge>
+            ) : (
+              <Badge variant="secondary">Available</Badge>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SeriesConflictReport;
@@ -1,12 +1,23 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useReservationStore } from '../store/reservationStore';
 import { format, addMinutes, parseISO, isAfter } from 'date-fns';
 import { Skeleton } from '@/components/ui/skeleton';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import {
+  bangkokSlotToDate,
+  getBangkokDateForSlot,
+  getBangkokToday,
+  isWithinBookingHorizon,
+  toBangkokSlot,
+} from '@/lib/logic/reservations';
+import { OPERATING_HOURS } from '@/constants/reservationsConstants';
+import BookingDatePicker from './BookingDatePicker';
+import { getRoomAvailability } from '../services/reservationApi';
+import JoinWaitlistForm from './JoinWaitlistForm';
 
 /**
  * TimelineSelector Component
@@ -26,6 +37,12 @@ import { useAuth } from '@/contexts/AuthContext';
  *   - Enforces consecutive time slot selection
  *   - Dynamically adjusts to display only future time slots
  *   - Handles different operating hours for weekdays and weekends
+ *   - Books any day within the booking horizon (see BookingDatePicker)
+ *   - Reserved slots can be picked to join the room's waitlist
+ *
+ * TIMEZONE:
+ *   Slots are Bangkok wall-clock strings ("yyyy-MM-dd'T'HH:mm:ss"), converted
+ *   to real instants only when talking to the database.
  */
 
 // Define time slot interval in minutes
@@ -33,69 +50,67 @@ import { useAuth } from '@/contexts/AuthContext';
 // 30 minutes is chosen as a balance between flexibility and practicality
 const SLOT_INTERVAL = 30;
 
-// Define operating hours based on library schedule
-// Different hours for weekdays and weekends reflect real-world operation
-// This avoids showing time slots when the library is closed
-const OPERATING_HOURS = {
-  weekday: { start: 8, end: 21 }, // 8:00 AM - 9:00 PM weekdays
-  weekend: { start: 9, end: 18 }  // 9:00 AM - 6:00 PM weekends
-};
-
 const TimelineSelector = () => {
   // Access store values and auth context
-  const { selectedRoomId, selectedSlots, setSelectedSlots } = useReservationStore();
+  const {
+    selectedRoomId,
+    selectedSlots,
+    setSelectedSlots,
+    selectedDate,
+    setSelectedDate,
+    bookingHorizonDays,
+  } = useReservationStore();
   const { user } = useAuth();
   
   // State management for slot availability and loading states
   const [availableSlots, setAvailableSlots] = useState<string[]>([]);
   const [reservedSlots, setReservedSlots] = useState<string[]>([]);
+  // Reserved slots picked for joining the waitlist
+  const [waitlistSlots, setWaitlistSlots] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Get today's date and determine if it's a weekend
+  // Determine if the selected day is a weekend
   // This affects which operating hours we use
-  const today = new Date();
-  const isWeekend = today.getDay() === 0 || today.getDay() === 6;
+  const selectedDay = parseISO(selectedDate);
+  const isWeekend = selectedDay.getDay() === 0 || selectedDay.getDay() === 6;
   
   // Select appropriate operating hours based on whether it's a weekday or weekend
   const hours = isWeekend ? OPERATING_HOURS.weekend : OPERATING_HOURS.weekday;
 
   /**
-   * Generates all possible time slots for today during operating hours
+   * Generates all possible time slots for the selected day during operating hours
    * 
    * PROCESS:
    * 1. Creates a list of time slots from opening until closing time
    * 2. Filters out past time slots (cannot book times that have already passed)
-   * 3. Formats each slot as an ISO string for consistent comparison
+   * 3. Formats each slot as a Bangkok wall-clock string for consistent comparison
    * 
-   * @returns {string[]} Array of time slot strings in ISO format
+   * @returns {string[]} Array of time slot strings
    */
-  const generateTimeSlots = () => {
+  const generateTimeSlots = useCallback(() => {
     const slots: string[] = [];
     
-    // Set start time to today at opening hour
-    const startTime = new Date(today);
-    startTime.setHours(hours.start, 0, 0, 0);
-    
-    // Set end time to today at closing hour
-    const endTime = new Date(today);
-    endTime.setHours(hours.end, 0, 0, 0);
+    // Opening and closing time on the selected day
+    const startTime = getBangkokDateForSlot(hours.start, 0, selectedDate);
+    const endTime = getBangkokDateForSlot(hours.end, 0, selectedDate);
     
     // Generate slots at regular intervals
     let currentSlot = startTime;
     
     while (currentSlot < endTime) {
+      const slot = format(currentSlot, "yyyy-MM-dd'T'HH:mm:ss");
       // Only include future time slots
       // This prevents booking slots in the past
-      if (isAfter(currentSlot, new Date())) {
-        slots.push(format(currentSlot, "yyyy-MM-dd'T'HH:mm:ss"));
+      if (isAfter(bangkokSlotToDate(slot), new Date())) {
+        slots.push(slot);
       }
       // Advance to the next time slot
       currentSlot = addMinutes(currentSlot, SLOT_INTERVAL);
     }
     
     return slots;
-  };
+  }, [hours.start, hours.end, selectedDate]);
 
   /**
    * Fetches reservations for the selected room and calculates available slots
@@ -106,8 +121,9 @@ const TimelineSelector = () => {
    * - Controls loading state
    * 
    * IMPLEMENTATION DETAILS:
+   * - Busy ranges come from GET /api/reservations/availability
    * - Uses Supabase real-time subscriptions to keep data fresh
-   * - Re-fetches when room selection changes
+   * - Re-fetches when room or date selection changes
    * - Handles authentication requirements
    */
   useEffect(() => {
@@ -120,47 +136,8 @@ const TimelineSelector = () => {
       setError(null);
       
       try {
-        // Format today's date range for the query
-        const todayStart = new Date(today);
-        todayStart.setHours(0, 0, 0, 0);
-        
-        const todayEnd = new Date(today);
-        todayEnd.setHours(23, 59, 59, 999);
-        
-        // Fetch all confirmed reservations for this room today
-        const { data: confirmedReservations, error: confirmedError } = await supabase
-          .from('reservations')
-          .select('*')
-          .eq('room_id', selectedRoomId)
-          .eq('status', 'confirmed')
-          .gte('start_time', todayStart.toISOString())
-          .lte('end_time', todayEnd.toISOString());
-          
-        if (confirmedError) {
-          console.error('Error fetching confirmed reservations:', confirmedError);
-          throw confirmedError;
-        }
-        
-        // Fetch all pending reservations for this room today that haven't expired
-        const { data: pendingReservations, error: pendingError } = await supabase
-          .from('reservations')
-          .select('*')
-          .eq('room_id', selectedRoomId)
-          .eq('status', 'pending')
-          .gte('hold_expiry', new Date().toISOString()) // Only pending reservations that haven't expired
-          .gte('start_time', todayStart.toISOString())
-          .lte('end_time', todayEnd.toISOString());
-          
-        if (pendingError) {
-          console.error('Error fetching pending reservations:', pendingError);
-          throw pendingError;
-        }
-        
-        // Combine confirmed and pending reservations
-        const allReservations = [
-          ...(confirmedReservations || []),
-          ...(pendingReservations || [])
-        ];
+        // Confirmed bookings and live holds for this room on the selected day
+        const allReservations = await getRoomAvailability(selectedRoomId, selectedDate);
         
         // Calculate which slots are reserved by expanding reservation time ranges
         // into individual slot time points
@@ -181,7 +158,7 @@ const TimelineSelector = () => {
               // For each reservation, mark all slots between start and end as reserved
               let current = start;
               while (current < end) {
-                reserved.push(format(current, "yyyy-MM-dd'T'HH:mm:ss"));
+                reserved.push(toBangkokSlot(current));
                 current = addMinutes(current, SLOT_INTERVAL);
               }
             } catch (parseError) {
@@ -203,7 +180,7 @@ const TimelineSelector = () => {
         
         // If there are no available slots, show a message
         if (available.length === 0 && allSlots.length > 0) {
-          toast.info('This room is fully booked for today');
+          toast.info('This room is fully booked on the selected day');
         }
       } catch (err) {
         console.error('Error fetching reservations:', err);
@@ -214,15 +191,22 @@ const TimelineSelector = () => {
       }
     };
     
-    // Reset selected slots when changing rooms
+    // A page left open past midnight can hold a date that is no longer bookable
+    if (!isWithinBookingHorizon(selectedDate, bookingHorizonDays)) {
+      setSelectedDate(getBangkokToday());
+      return;
+    }
+
+    // Reset selected slots when changing rooms or dates
     // This prevents invalid selections when switching between rooms
     setSelectedSlots([]);
+    setWaitlistSlots([]);
     fetchReservations();
     
     // Set up real-time subscription for reservations
     // This ensures the UI updates instantly when others make bookings
     const subscription = supabase
-      .channel('room-reservations')
+      .channel(`room-reservations-${selectedRoomId}-${selectedDate}`)
       .on('postgres_changes', 
         { 
           event: '*', 
@@ -248,7 +232,7 @@ const TimelineSelector = () => {
       subscription.unsubscribe();
       clearInterval(refreshInterval);
     };
-  }, [selectedRoomId, setSelectedSlots, user]);
+  }, [selectedRoomId, selectedDate, bookingHorizonDays, setSelectedSlots, setSelectedDate, user, generateTimeSlots]);
 
   /**
    * Helper function to determine if a slot is consecutive to the current selection
@@ -281,6 +265,9 @@ const TimelineSelector = () => {
    * - Provides user feedback for invalid selections
    */
   const handleSlotClick = (slot: string) => {
+    // Booking and waitlisting are separate selections
+    setWaitlistSlots([]);
+
     // If slot is already selected, remove it
     if (selectedSlots.includes(slot)) {
       setSelectedSlots(selectedSlots.filter(s => s !== slot));
@@ -311,6 +298,32 @@ const TimelineSelector = () => {
     setSelectedSlots(allSlots);
   };
 
+  /**
+   * Handles picking reserved slots to join the waitlist
+   *
+   * Follows the same 2-hour, consecutive-only rules as booking.
+   */
+  const handleReservedSlotClick = (slot: string) => {
+    setSelectedSlots([]);
+
+    if (waitlistSlots.includes(slot)) {
+      setWaitlistSlots(waitlistSlots.filter(s => s !== slot));
+      return;
+    }
+
+    if (waitlistSlots.length === 4) {
+      toast.info('You can only wait for up to 2 hours (4 consecutive slots).');
+      return;
+    }
+
+    if (!isConsecutive(waitlistSlots, slot)) {
+      setWaitlistSlots([slot]);
+      return;
+    }
+
+    setWaitlistSlots([...waitlistSlots, slot].sort());
+  };
+
   // Display loading state with skeleton UI
   if (isLoading) {
     return (
@@ -330,6 +343,7 @@ const TimelineSelector = () => {
     return (
       <div className="rounded-lg bg-white shadow p-6">
         <h2 className="text-xl font-semibold mb-4">Available Time Slots</h2>
+        <BookingDatePicker />
         <div className="text-red-500 text-center py-8">
           {error}
         </div>
@@ -341,14 +355,18 @@ const TimelineSelector = () => {
   return (
     <div className="rounded-lg bg-white shadow p-6">
       <h2 className="text-xl font-semibold mb-4">Available Time Slots</h2>
+      <div className="mb-3">
+        <BookingDatePicker />
+      </div>
       <div className="text-sm text-gray-500 mb-4">
-        Select available time slots for today ({format(today, 'EEEE, MMMM d')})
+        Select available time slots for {format(selectedDay, 'EEEE, MMMM d')}
+        {reservedSlots.length > 0 && '. Pick booked slots to join the waitlist.'}
       </div>
       
-      {/* Show message when no slots are available */}
-      {availableSlots.length === 0 ? (
+      {/* Show message when the day has no bookable or waitlistable slots */}
+      {availableSlots.length === 0 && !generateTimeSlots().some(slot => reservedSlots.includes(slot)) ? (
         <div className="text-center text-gray-500 py-8">
-          No available time slots for today. Please try another room.
+          No available time slots on this day. Please try another room or date.
         </div>
       ) : (
         /* Time slot grid with color-coding for different states */
@@ -357,11 +375,16 @@ const TimelineSelector = () => {
             // Determine slot state for proper styling
             const isAvailable = availableSlots.includes(slot);
             const isSelected = selectedSlots.includes(slot);
-            const isPast = !isAvailable && !reservedSlots.includes(slot);
+            const isReserved = reservedSlots.includes(slot);
+            const isWaitlisted = waitlistSlots.includes(slot);
+            const isPast = !isAvailable && !isReserved;
             
             // --- NEW LOGIC: Disable slots that break the 2-hour/4-consecutive rule ---
             let disableSlot = false;
-            if (!isAvailable) {
+            if (isReserved) {
+              // Reserved slots stay clickable for the waitlist
+              disableSlot = false;
+            } else if (!isAvailable) {
               disableSlot = true;
             } else if (selectedSlots.length > 0) {
               // If already 4 slots, disable all others
@@ -382,6 +405,10 @@ const TimelineSelector = () => {
                 className={`px-2 py-3 rounded-md text-sm font-medium transition-colors ${
                   isSelected
                     ? 'bg-indigo-600 text-white' // Selected - highlighted in brand color
+                    : isWaitlisted
+                    ? 'bg-amber-500 text-white' // Picked for the waitlist
+                    : isReserved
+                    ? 'bg-red-100 text-red-800 hover:bg-red-200' // Reserved - click to join the waitlist
                     : isAvailable && !disableSlot
                     ? 'bg-white border border-gray-300 hover:bg-gray-100 text-gray-700' // Available - neutral/clickable
                     : isPast
@@ -389,7 +416,7 @@ const TimelineSelector = () => {
                     : 'bg-red-100 text-red-800 cursor-not-allowed' // Reserved or disabled - red warning color
                 }`}
                 disabled={disableSlot}
-                onClick={() => handleSlotClick(slot)}
+                onClick={() => isReserved ? handleReservedSlotClick(slot) : handleSlotClick(slot)}
               >
                 {format(parseISO(slot), 'h:mm a')}
               </button>
@@ -409,6 +436,15 @@ const TimelineSelector = () => {
           </div>
         </div>
       )}
+
+      {/* Waitlist request for the picked reserved slots */}
+      {waitlistSlots.length > 0 && selectedRoomId && (
+        <JoinWaitlistForm
+          roomId={selectedRoomId}
+          slots={waitlistSlots}
+          onJoined={() => setWaitlistSlots([])}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,195 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format, parseISO } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
+import type { WaitlistEntry } from '../types';
+import {
+  confirmWaitlistOffer,
+  leaveWaitlist,
+  listMyWaitlist,
+  ReservationApiError,
+  WaitlistEntryWithRoom,
+} from '../services/reservationApi';
+
+/**
+ * WaitlistPanel Component
+ * =======================
+ * PURPOSE:
+ *   Lists the user's active waitlist entries and lets them confirm a
+ *   slot that has been offered to them, or leave the waitlist.
+ *
+ * CONTEXT:
+ *   Shown under MyBookings. Offers are made by the database when a
+ *   booking is released (see the reservation_waitlist migration); this
+ *   panel notifies the user through a realtime subscription.
+ *
+ * BUSINESS RULES:
+ *   - An offer is a pending hold that lapses at its hold_expiry, after
+ *     which the next person in line gets the slot
+ *   - Confirming goes through the reservation API, which uses the same
+ *     confirm_reservation call as booking a room
+ */
+
+const WaitlistPanel = () => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<WaitlistEntryWithRoom[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setEntries([]);
+      return;
+    }
+
+    /**
+     * Loads waiting and offered entries for ranges that have not ended
+     */
+    const fetchEntries = async () => {
+      try {
+        setEntries(await listMyWaitlist());
+      } catch (err) {
+        console.error('Error fetching waitlist:', err);
+      }
+    };
+
+    fetchEntries();
+
+    // Refresh on every change and announce new offers
+    const subscription = supabase
+      .channel('user-waitlist')
+      .on('postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'reservation_waitlist',
+          filter: `user_email=eq.${user.email}`
+        },
+        (payload) => {
+          const entry = payload.new as Partial<WaitlistEntry>;
+          if (payload.eventType === 'UPDATE' && entry.status === 'offered' && entry.start_time) {
+            toast.info('A waitlisted time slot is free', {
+              duration: 10000,
+              description: `${format(parseISO(entry.start_time), 'MMM d, h:mm a')} is held for you. Confirm it under Waitlist before the hold expires.`,
+            });
+          }
+          fetchEntries();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      subscription.unsubscribe();
+    };
+  }, [user]);
+
+  /**
+   * Confirms the hold offered for a waitlist entry
+   *
+   * @param {WaitlistEntryWithRoom} entry - Offered entry
+   */
+  const handleConfirm = async (entry: WaitlistEntryWithRoom) => {
+    if (!entry.reservation_id) return;
+    setBusyId(entry.id);
+
+    try {
+      await confirmWaitlistOffer(entry.id);
+
+      toast.success(`Booked ${entry.room_name} from the waitlist`);
+      setEntries(entries.filter(e => e.id !== entry.id));
+    } catch (err) {
+      console.error('Error confirming waitlist offer:', err);
+      if (err instanceof ReservationApiError && err.code === 'HOLD_EXPIRED') {
+        toast.error('This offer has expired and was passed to the next person in line.');
+      } else {
+        toast.error(`Failed to confirm reservation: ${err instanceof Error ? err.message : 'Please try again.'}`);
+      }
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  /**
+   * Leaves the waitlist, passing any outstanding offer on
+   *
+   * @param {string} id - Waitlist entry ID
+   */
+  const handleLeave = async (id: string) => {
+    setBusyId(id);
+
+    try {
+      await leaveWaitlist(id);
+      setEntries(entries.filter(e => e.id !== id));
+    } catch (err) {
+      console.error('Error leaving waitlist:', err);
+      toast.error('Failed to leave the waitlist');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (!user || entries.length === 0) return null;
+
+  return (
+    <Card className="shadow-sm border border-gray-200">
+      <CardHeader className="py-3 px-4">
+        <CardTitle className="text-base">Waitlist</CardTitle>
+      </CardHeader>
+      <CardContent className="px-4 pb-3 space-y-2">
+        {entries.map(entry => {
+          const isOffered = entry.status === 'offered';
+
+          return (
+            <div
+              key={entry.id}
+              className={`rounded-md border p-3 ${
+                isOffered ? 'border-amber-300 bg-amber-50' : 'border-gray-200 bg-gray-50'
+              }`}
+            >
+              <div className="flex justify-between items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <h3 className="font-semibold text-sm truncate">{entry.room_name}</h3>
+                  <div className="text-xs text-gray-600 mt-1">
+                    {format(parseISO(entry.start_time), 'MMM d, h:mm a')} - {format(parseISO(entry.end_time), 'h:mm a')}
+                  </div>
+                  <div className="text-xs mt-1 text-gray-700">
+                    {isOffered && entry.hold_expiry
+                      ? `Held for you until ${format(parseISO(entry.hold_expiry), 'h:mm a')}`
+                      : 'Waiting for this time to free up'}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1">
+                  {isOffered && (
+                    <Button
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      disabled={busyId === entry.id}
+                      onClick={() => handleConfirm(entry)}
+                    >
+                      Confirm
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-xs text-gray-500 hover:text-red-600 hover:bg-red-50"
+                    disabled={busyId === entry.id}
+                    onClick={() => handleLeave(entry.id)}
+                  >
+                    Leave
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default WaitlistPanel;
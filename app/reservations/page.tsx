@@ -1,12 +1,14 @@
 "use client"
 
-import { useEffect } from "react"
+import { Suspense, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import RoomList from "./components/RoomList"
+import RoomSearchPanel from "./components/RoomSearchPanel"
 import RoomDetailsPanel from "./components/RoomDetailsPanel"
 import TimelineSelector from "./components/TimelineSelector"
 import ReservationForm from "./components/ReservationForm"
 import MyBookings from "./components/MyBookings"
+import WaitlistPanel from "./components/WaitlistPanel"
 import Notifications from "./components/Notifications"
 import { useReservationStore } from "./store/reservationStore"
 import { useAuth } from "@/contexts/AuthContext"
@@ -77,6 +79,10 @@ export default function ReservationsPage() {
           <div className="md:col-span-12 mb-3">
             <div className="bg-white rounded-md border border-gray-200 p-3 md:p-4 hover:shadow-sm transition-shadow">
               <h2 className="text-sm font-medium text-gray-700 mb-3">Available Rooms</h2>
+              {/* Search reads ?view=available, which needs a Suspense boundary */}
+              <Suspense fallback={null}>
+                <RoomSearchPanel />
+              </Suspense>
               <div className="w-full overflow-x-auto pb-2 scrollbar-thin scrollbar-thumb-gray-200 scrollbar-track-transparent">
                 <div className="flex space-x-3" style={{ minWidth: "max-content" }}>
                   <RoomList horizontalScroll={true} />
@@ -138,7 +144,10 @@ export default function ReservationsPage() {
           {/* Bottom sections */}
           <div className="md:col-span-6 mb-3">
             <div className="bg-white rounded-md border border-gray-200 p-3 md:p-4 h-full hover:shadow-sm transition-shadow">
-              <MyBookings />
+              <div className="space-y-3">
+                <MyBookings />
+                <WaitlistPanel />
+              </div>
             </div>
           </div>
           
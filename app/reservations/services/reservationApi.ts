@@ -0,0 +1,283 @@
+/**
+ * Reservation API client
+ * ======================
+ * PURPOSE:
+ *   Browser-side wrappers around the /api/reservations endpoints, so the
+ *   reservation components never write to the reservations table directly.
+ *
+ * CONTEXT:
+ *   The routes read the caller from "Authorization: Bearer <token>", so
+ *   every request sends the current Supabase session's access token.
+ *   Failed requests throw a ReservationApiError carrying the route's error
+ *   code (see ReservationErrorCode) for the component to branch on.
+ */
+
+import { supabase } from '@/lib/supabase';
+import {
+  BusyRange,
+  RankedRoom,
+  ReservationErrorCode,
+  ReservationPolicy,
+  ReservationWithRoom,
+  RoomSearchFilters,
+  SeriesOccurrence,
+  WaitlistEntry,
+} from '../types';
+
+export class ReservationApiError extends Error {
+  constructor(
+    message: string,
+    public code: ReservationErrorCode,
+    public status: number,
+    public details?: unknown
+  ) {
+    super(message);
+    this.name = 'ReservationApiError';
+  }
+}
+
+export interface CreateReservationInput {
+  roomId: number;
+  agenda: string;
+  numPeople: number;
+  startTime: string;
+  endTime: string;
+}
+
+export type ModifyReservationInput = Partial<CreateReservationInput>;
+
+// A recurrence rule; times of day are Bangkok "HH:mm:ss" slot boundaries
+export interface SeriesRuleInput {
+  roomId: number;
+  frequency: 'daily' | 'weekly' | 'custom';
+  weekdays: number[];
+  startDate: string;
+  untilDate: string | null;
+  occurrenceCount: number | null;
+  slotStart: string;
+  slotEnd: string;
+}
+
+export interface CreateSeriesInput extends SeriesRuleInput {
+  agenda: string;
+  numPeople: number;
+}
+
+export interface SeriesResult {
+  seriesId: string;
+  created: number;
+  // Dates that were already booked
+  skipped: { start_time: string; end_time: string }[];
+}
+
+// Waitlist entry with the fields joined in by GET /api/reservations/waitlist
+export interface WaitlistEntryWithRoom extends WaitlistEntry {
+  room_name: string;
+  hold_expiry: string | null;
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...(session ? { Authorization: `Bearer ${session.access_token}` } : {}),
+    },
+  });
+
+  const body = await response.json().catch(() => null);
+
+  if (!response.ok) {
+    throw new ReservationApiError(
+      body?.error || 'Request failed',
+      body?.code || 'SERVER_ERROR',
+      response.status,
+      body?.details
+    );
+  }
+
+  return body as T;
+}
+
+/**
+ * Lists the signed-in user's confirmed reservations from today onwards
+ */
+export async function listMyReservations(): Promise<ReservationWithRoom[]> {
+  const { reservations } = await request<{ reservations: ReservationWithRoom[] }>('/api/reservations');
+  return reservations;
+}
+
+/**
+ * Books a room (hold + confirm on the server)
+ *
+ * @param input - Room, times (ISO strings) and meeting details
+ */
+export async function createReservation(input: CreateReservationInput): Promise<ReservationWithRoom> {
+  const { reservation } = await request<{ reservation: ReservationWithRoom }>('/api/reservations', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return reservation;
+}
+
+/**
+ * Changes a reservation's room, time range, agenda or number of people
+ *
+ * Only the fields given are changed; startTime and endTime go together.
+ * Either every change is applied or the booking is left as it was.
+ *
+ * @param id - Reservation to change
+ * @param changes - New values for the fields being changed
+ */
+export async function modifyReservation(
+  id: string,
+  changes: ModifyReservationInput
+): Promise<ReservationWithRoom> {
+  const { reservation } = await request<{ reservation: ReservationWithRoom }>(`/api/reservations/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+  return reservation;
+}
+
+/**
+ * Cancels a reservation, or every upcoming reservation in its series
+ *
+ * @param id - Reservation to cancel
+ * @param options.series - Cancel the whole series the reservation belongs to
+ * @returns IDs of the cancelled reservations
+ */
+export async function cancelReservation(id: string, options: { series?: boolean } = {}): Promise<string[]> {
+  const query = options.series ? '?scope=series' : '';
+  const { cancelled } = await request<{ cancelled: string[] }>(`/api/reservations/${id}${query}`, {
+    method: 'DELETE',
+  });
+  return cancelled;
+}
+
+/**
+ * Lists the dates a recurrence rule would book and which are already taken
+ *
+ * @param rule - Room, recurrence and time of day
+ */
+export async function previewSeries(rule: SeriesRuleInput): Promise<SeriesOccurrence[]> {
+  const { occurrences } = await request<{ occurrences: SeriesOccurrence[] }>('/api/reservations/series/preview', {
+    method: 'POST',
+    body: JSON.stringify(rule),
+  });
+  return occurrences;
+}
+
+/**
+ * Books every free date of a recurring booking; taken dates are skipped
+ *
+ * @param input - Recurrence rule and meeting details
+ */
+export async function createSeries(input: CreateSeriesInput): Promise<SeriesResult> {
+  return request<SeriesResult>('/api/reservations/series', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+/**
+ * Checks in to a booking that is about to start or running
+ *
+ * @param id - Reservation to check in to
+ * @returns When the check-in was recorded
+ */
+export async function checkInReservation(id: string): Promise<string> {
+  const { checkedInAt } = await request<{ checkedInAt: string }>(`/api/reservations/${id}/check-in`, {
+    method: 'POST',
+  });
+  return checkedInAt;
+}
+
+/**
+ * Check-in, no-show and booking horizon settings and the signed-in user's
+ * active booking block
+ *
+ * @returns The policy (null if the row is missing) and the block end, or null
+ */
+export async function getBookingPolicy(): Promise<{ policy: ReservationPolicy | null; blockedUntil: string | null }> {
+  return request<{ policy: ReservationPolicy | null; blockedUntil: string | null }>('/api/reservations/policy');
+}
+
+/**
+ * Lists the signed-in user's waiting and offered waitlist entries
+ */
+export async function listMyWaitlist(): Promise<WaitlistEntryWithRoom[]> {
+  const { entries } = await request<{ entries: WaitlistEntryWithRoom[] }>('/api/reservations/waitlist');
+  return entries;
+}
+
+/**
+ * Queues the user for a booked time range in a room
+ *
+ * @param input - Room, times (ISO strings) and meeting details for the hold
+ * @returns The new waitlist entry's ID
+ */
+export async function joinWaitlist(input: CreateReservationInput): Promise<string> {
+  const { id } = await request<{ id: string }>('/api/reservations/waitlist', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+  return id;
+}
+
+/**
+ * Leaves the waitlist, passing any outstanding offer on
+ *
+ * @param id - Waitlist entry ID
+ */
+export async function leaveWaitlist(id: string): Promise<void> {
+  await request<{ left: string }>(`/api/reservations/waitlist/${id}`, { method: 'DELETE' });
+}
+
+/**
+ * Confirms the hold offered for a waitlist entry
+ *
+ * @param id - Waitlist entry ID
+ * @returns The confirmed reservation's ID
+ */
+export async function confirmWaitlistOffer(id: string): Promise<string> {
+  const { reservationId } = await request<{ reservationId: string }>(`/api/reservations/waitlist/${id}/confirm`, {
+    method: 'POST',
+  });
+  return reservationId;
+}
+
+/**
+ * Busy time ranges (bookings and live holds) in a room on a Bangkok day
+ *
+ * @param roomId - Room to check
+ * @param date - Day as "yyyy-MM-dd"
+ */
+export async function getRoomAvailability(roomId: number, date: string): Promise<BusyRange[]> {
+  const params = new URLSearchParams({ roomId: String(roomId), date });
+  const { busy } = await request<{ busy: BusyRange[] }>(`/api/reservations/availability?${params}`);
+  return busy;
+}
+
+/**
+ * Searches rooms by party size, amenities, location and free time
+ *
+ * @param filters - Search filters; empty ones are left out of the query
+ * @returns Matching rooms, best fit first
+ */
+export async function searchRooms(filters: RoomSearchFilters): Promise<RankedRoom[]> {
+  const params = new URLSearchParams();
+  if (filters.partySize) params.set('partySize', String(filters.partySize));
+  if (filters.amenities.length > 0) params.set('amenities', filters.amenities.join(','));
+  if (filters.location) params.set('location', filters.location);
+  if (filters.freeForMinutes) params.set('freeForMinutes', String(filters.freeForMinutes));
+  if (filters.freeFrom && filters.freeTo) {
+    params.set('freeFrom', filters.freeFrom);
+    params.set('freeTo', filters.freeTo);
+  }
+
+  const { rooms } = await request<{ rooms: RankedRoom[] }>(`/api/rooms/search?${params}`);
+  return rooms;
+}
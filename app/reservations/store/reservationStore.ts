@@ -1,11 +1,22 @@
 import { create } from 'zustand';
-import type { Room, Reservation } from '../types';
+import type { RankedRoom, Room, Reservation } from '../types';
+import { getBangkokToday } from '@/lib/logic/reservations';
+import { BOOKING_HORIZON_DAYS } from '@/constants/reservationsConstants';
+import type { Amenity } from '@/lib/amenities';
 
 interface ReservationStore {
   // Selected room
   selectedRoomId: number | null;
   setSelectedRoomId: (id: number | null) => void;
 
+  // Selected booking date ("yyyy-MM-dd", Bangkok)
+  selectedDate: string;
+  setSelectedDate: (date: string) => void;
+
+  // Days ahead rooms can be booked (reservation_policy, loaded by MyBookings)
+  bookingHorizonDays: number;
+  setBookingHorizonDays: (days: number) => void;
+
   // Selected time slots
   selectedSlots: string[];
   setSelectedSlots: (slots: string[]) => void;
@@ -16,6 +27,14 @@ interface ReservationStore {
   isLoadingRooms: boolean;
   setIsLoadingRooms: (loading: boolean) => void;
 
+  // Active amenity catalog, for labels and search filters
+  amenities: Amenity[];
+  setAmenities: (amenities: Amenity[]) => void;
+
+  // Room search results (null when no search is applied)
+  searchResults: RankedRoom[] | null;
+  setSearchResults: (rooms: RankedRoom[] | null) => void;
+
   // User's reservations
   userReservations: Reservation[];
   setUserReservations: (reservations: Reservation[]) => void;
@@ -40,6 +59,14 @@ export const useReservationStore = create<ReservationStore>((set) => ({
   selectedRoomId: null,
   setSelectedRoomId: (id) => set({ selectedRoomId: id, selectedSlots: [] }), // Reset slots on room change
 
+  // Selected booking date
+  selectedDate: getBangkokToday(),
+  setSelectedDate: (date) => set({ selectedDate: date, selectedSlots: [] }), // Reset slots on date change
+
+  // Booking horizon
+  bookingHorizonDays: BOOKING_HORIZON_DAYS,
+  setBookingHorizonDays: (days) => set({ bookingHorizonDays: days }),
+
   // Selected time slots
   selectedSlots: [],
   setSelectedSlots: (slots) => set({ selectedSlots: slots }),
@@ -50,6 +77,14 @@ export const useReservationStore = create<ReservationStore>((set) => ({
   isLoadingRooms: false,
   setIsLoadingRooms: (loading) => set({ isLoadingRooms: loading }),
 
+  // Amenity catalog
+  amenities: [],
+  setAmenities: (amenities) => set({ amenities }),
+
+  // Room search results
+  searchResults: null,
+  setSearchResults: (rooms) => set({ searchResults: rooms }),
+
   // User's reservations
   userReservations: [],
   setUserReservations: (reservations) => set({ userReservations: reservations }),
@@ -2,7 +2,8 @@ export interface Room {
   id: number;
   name: string;
   capacity: number;
-  has_projector: boolean;
+  // Amenity slugs fitted in the room (see lib/amenities)
+  amenity_ids: string[];
   photo_url?: string;
   location?: string;
 }
@@ -15,11 +16,129 @@ export interface Reservation {
   end_time: string;
   agenda: string;
   num_people: number;
-  status: 'pending' | 'confirmed' | 'cancelled';
+  status: 'pending' | 'confirmed' | 'cancelled' | 'no_show';
   hold_expiry?: string;
+  series_id?: string | null;
+  checked_in_at?: string | null;
   created_at: string;
 }
 
+// How a reservation repeats; 'none' books a single occurrence
+export type RecurrenceFrequency = 'none' | 'daily' | 'weekly' | 'custom';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  // 0 = Sunday ... 6 = Saturday, used by custom rules
+  weekdays: number[];
+  endType: 'until' | 'count';
+  // Last day of the series ("yyyy-MM-dd", Bangkok)
+  untilDate: string;
+  occurrenceCount: number;
+}
+
+export interface SeriesOccurrence {
+  start_time: string;
+  end_time: string;
+  has_conflict: boolean;
+}
+
+// Check-in window, no-show penalty and booking horizon settings
+// (reservation_policy table)
+export interface ReservationPolicy {
+  check_in_opens_minutes: number;
+  no_show_grace_minutes: number;
+  no_show_limit: number;
+  no_show_window_days: number;
+  block_days: number;
+  booking_horizon_days: number;
+}
+
+// Fairness rule a booking broke (raised by the booking_quotas trigger)
+export type QuotaCode =
+  | 'max_hours_per_day'
+  | 'max_hours_per_week'
+  | 'max_upcoming_bookings'
+  | 'max_booking_minutes';
+
+export interface QuotaViolation {
+  code: QuotaCode;
+  message: string;
+  role: string;
+  limit: number;
+  // Already booked (hours, bookings or minutes, matching the rule)
+  used: number;
+  requested: number;
+}
+
+export interface WaitlistEntry {
+  id: string;
+  room_id: number;
+  user_email: string;
+  start_time: string;
+  end_time: string;
+  agenda: string | null;
+  num_people: number | null;
+  // waiting -> offered (a pending hold was created) -> booked, or expired
+  status: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+  reservation_id: string | null;
+  offered_at: string | null;
+  created_at: string;
+}
+
+// Reservation with the fields joined in by GET /api/reservations
+export interface ReservationWithRoom extends Reservation {
+  room_name: string;
+  // Recurrence frequency when the reservation belongs to a series
+  series_frequency?: 'daily' | 'weekly' | 'custom' | null;
+}
+
+// Time taken in a room by a confirmed booking or a live hold
+export interface BusyRange {
+  start_time: string;
+  end_time: string;
+}
+
+// Error codes returned by the /api/reservations endpoints
+export type ReservationErrorCode =
+  | 'UNAUTHENTICATED'
+  | 'FORBIDDEN'
+  | 'INVALID_REQUEST'
+  | 'INVALID_TIME'
+  | 'OUTSIDE_BOOKING_HORIZON'
+  | 'NOT_FOUND'
+  | 'ROOM_NOT_FOUND'
+  | 'OVER_CAPACITY'
+  | 'OVERLAP'
+  | 'QUOTA_EXCEEDED'
+  | 'BOOKING_BLOCKED'
+  | 'HOLD_EXPIRED'
+  | 'NOT_MODIFIABLE'
+  | 'CHECK_IN_UNAVAILABLE'
+  | 'WAITLIST_UNAVAILABLE'
+  | 'SERVER_ERROR';
+
+export interface RoomSearchFilters {
+  // Smallest number of seats needed
+  partySize?: number;
+  // Amenity slugs the room must have, all of them
+  amenities: string[];
+  // Matched against rooms.location, e.g. "2nd floor"
+  location?: string;
+  // Room must be free for this many minutes from now...
+  freeForMinutes?: number;
+  // ...or for this range (ISO strings)
+  freeFrom?: string;
+  freeTo?: string;
+}
+
+// Room search result; best matches come first
+export interface RankedRoom extends Room {
+  // Seats left over for the party, when a party size was given
+  spare_seats: number | null;
+  // The smallest free room that fits the party
+  recommended: boolean;
+}
+
 export interface RoomAvailability {
   roomId: number;
   availableSlots: string[];
@@ -0,0 +1,49 @@
+'use client'
+
+import { useEffect } from 'react'
+import { usePathname, useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+import { getPageRequirement, hasRequiredRole, RoleRequirement } from '@/lib/authz'
+
+interface RoleGuardProps {
+  /** Roles allowed to see the children; defaults to the page's PAGE_ACCESS rule */
+  roles?: RoleRequirement
+  children: React.ReactNode
+}
+
+// middleware.ts already redirects on the server; this covers client-side
+// navigation and sign-out while the page is open
+export default function RoleGuard({ roles, children }: RoleGuardProps) {
+  const { user, role, loading } = useAuth()
+  const router = useRouter()
+  const pathname = usePathname()
+  const requirement = roles ?? getPageRequirement(pathname) ?? 'authenticated'
+
+  // The role arrives after the session, so wait for both
+  const resolving = loading || (user !== null && role === null)
+  const allowed = role !== null && hasRequiredRole(role, requirement)
+
+  useEffect(() => {
+    if (resolving) return
+    if (!user) {
+      router.push('/login')
+    } else if (!allowed) {
+      router.push('/dashboard')
+    }
+  }, [user, allowed, resolving, router])
+
+  // Show nothing while loading or redirecting
+  if (resolving || !allowed) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="text-center">
+          <div className="mb-4 h-12 w-12 animate-spin rounded-full border-4 border-gray-300 border-t-indigo-600 mx-auto"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  // If authorized, render children
+  return <>{children}</>
+}
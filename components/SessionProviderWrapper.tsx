@@ -1,7 +0,0 @@
-'use client';
-
-import { SessionProvider } from 'next-auth/react';
-
-export default function SessionProviderWrapper({ children }: { children: React.ReactNode }) {
-  return <SessionProvider>{children}</SessionProvider>;
-}
\ No newline at end of file
@@ -1,18 +1,27 @@
-export const ROOMS = [
-  { id: 1, name: 'Room 1', hasProjector: true },
-  { id: 2, name: 'Room 2', hasProjector: true },
-  { id: 3, name: 'Room 3', hasProjector: true },
-  { id: 4, name: 'Room 4', hasProjector: true },
-  { id: 5, name: 'Room 5', hasProjector: true },
-  { id: 6, name: 'Room 6', hasProjector: true },
-  { id: 7, name: 'Room 7', hasProjector: true },
-]
-
 export const TIME_SLOTS = Array.from({ length: 26 }, (_, i) => {
   const hour = 8 + Math.floor(i / 2)
   const min = i % 2 === 0 ? '00' : '30'
   return `${hour.toString().padStart(2, '0')}:${min}`
 })
 
+// Library opening hours (Bangkok time), different on weekends
+// Slots are only offered, and bookings only accepted, inside these hours
+export const OPERATING_HOURS = {
+  weekday: { start: 8, end: 21 }, // 8:00 AM - 9:00 PM weekdays
+  weekend: { start: 9, end: 18 }  // 9:00 AM - 6:00 PM weekends
+}
+
 // Set the Bangkok timezone string
-export const BANGKOK_TZ = 'Asia/Bangkok'
\ No newline at end of file
+export const BANGKOK_TZ = 'Asia/Bangkok'
+
+// How many days ahead (after today) rooms can be booked. The real value is
+// reservation_policy.booking_horizon_days; this mirrors its default and is
+// used until the policy loads
+export const BOOKING_HORIZON_DAYS = 7
+
+// Most occurrences a recurring booking may create (a year of weekly meetings)
+// Mirrors the cap in expand_reservation_series
+export const MAX_SERIES_OCCURRENCES = 52
+
+// "Free for the next N minutes" choices in the room search panel
+export const FREE_FOR_OPTIONS = [30, 60, 90, 120]
@@ -0,0 +1,151 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { AuthChangeEvent, Session } from '@supabase/supabase-js'
+import { AuthProvider, useAuth } from './AuthContext'
+
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void
+
+const mocks = vi.hoisted(() => ({
+  getSession: vi.fn(),
+  onAuthStateChange: vi.fn(),
+  signInWithPassword: vi.fn(),
+  signOut: vi.fn(),
+  single: vi.fn(),
+}))
+
+vi.mock('@/lib/supabase', () => ({
+  supabase: {
+    auth: {
+      getSession: mocks.getSession,
+      onAuthStateChange: mocks.onAuthStateChange,
+      signInWithPassword: mocks.signInWithPassword,
+      signOut: mocks.signOut,
+    },
+    from: () => ({ select: () => ({ eq: () => ({ single: mocks.single }) }) }),
+  },
+}))
+
+const session = {
+  access_token: 'access-token',
+  refresh_token: 'refresh-token',
+  user: { id: 'user-1', email: 'student@example.com' },
+} as unknown as Session
+
+// The callback AuthProvider registered with onAuthStateChange
+let emitAuthChange: AuthListener
+
+function renderAuth() {
+  return renderHook(() => useAuth(), { wrapper: AuthProvider })
+}
+
+describe('AuthContext', () => {
+  beforeEach(() => {
+    mocks.getSession.mockResolvedValue({ data: { session: null } })
+    mocks.onAuthStateChange.mockImplementation((listener: AuthListener) => {
+      emitAuthChange = listener
+      return { data: { subscription: { unsubscribe: vi.fn() } } }
+    })
+    mocks.single.mockResolvedValue({ data: { role: 'staff' }, error: null })
+  })
+
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('throws outside an AuthProvider', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    expect(() => renderHook(() => useAuth())).toThrow('useAuth must be used within an AuthProvider')
+  })
+
+  it('starts signed out when there is no stored session', async () => {
+    const { result } = renderAuth()
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.user).toBeNull()
+    expect(result.current.role).toBeNull()
+  })
+
+  describe('sign-in', () => {
+    it('signs in with the email and password', async () => {
+      mocks.signInWithPassword.mockResolvedValue({ data: { session }, error: null })
+      const { result } = renderAuth()
+
+      const { error } = await result.current.signIn('student@example.com', 'secret')
+
+      expect(error).toBeNull()
+      expect(mocks.signInWithPassword).toHaveBeenCalledWith({
+        email: 'student@example.com',
+        password: 'secret',
+      })
+    })
+
+    it('returns the error for wrong credentials', async () => {
+      const authError = { name: 'AuthApiError', message: 'Invalid login credentials' }
+      mocks.signInWithPassword.mockResolvedValue({ data: { session: null }, error: authError })
+      const { result } = renderAuth()
+
+      const { error } = await result.current.signIn('student@example.com', 'wrong')
+
+      expect(error).toBe(authError)
+    })
+
+    it('loads the user and profile role once signed in', async () => {
+      const { result } = renderAuth()
+      await waitFor(() => expect(result.current.loading).toBe(false))
+
+      act(() => emitAuthChange('SIGNED_IN', session))
+
+      await waitFor(() => expect(result.current.role).toBe('staff'))
+      expect(result.current.user?.id).toBe('user-1')
+      expect(result.current.session).toBe(session)
+    })
+
+    it('falls back to the default role without a profile', async () => {
+      mocks.single.mockResolvedValue({ data: null, error: { code: 'PGRST116', message: 'No rows found' } })
+      mocks.getSession.mockResolvedValue({ data: { session } })
+      const { result } = renderAuth()
+
+      await waitFor(() => expect(result.current.role).toBe('student'))
+    })
+  })
+
+  describe('sign-out', () => {
+    it('signs out and clears the user and role', async () => {
+      mocks.getSession.mockResolvedValue({ data: { session } })
+      mocks.signOut.mockImplementation(async () => {
+        emitAuthChange('SIGNED_OUT', null)
+        return { error: null }
+      })
+      const { result } = renderAuth()
+      await waitFor(() => expect(result.current.role).toBe('staff'))
+
+      await act(() => result.current.signOut())
+
+      expect(mocks.signOut).toHaveBeenCalled()
+      expect(result.current.session).toBeNull()
+      expect(result.current.user).toBeNull()
+      expect(result.current.role).toBeNull()
+    })
+
+    it('clears the user when the session ends in another tab', async () => {
+      mocks.getSession.mockResolvedValue({ data: { session } })
+      const { result } = renderAuth()
+      await waitFor(() => expect(result.current.user).not.toBeNull())
+
+      act(() => emitAuthChange('SIGNED_OUT', null))
+
+      expect(result.current.user).toBeNull()
+      await waitFor(() => expect(result.current.role).toBeNull())
+    })
+
+    it('unsubscribes from auth changes on unmount', async () => {
+      const { unmount } = renderAuth()
+      const { data } = mocks.onAuthStateChange.mock.results[0].value
+
+      unmount()
+
+      expect(data.subscription.unsubscribe).toHaveBeenCalled()
+    })
+  })
+})
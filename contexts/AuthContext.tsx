@@ -3,10 +3,12 @@
 import { createContext, useContext, useEffect, useState } from 'react'
 import { Session, User, AuthError, AuthResponse } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabase'
+import { getProfileRole } from '@/lib/authz'
 
 type AuthContextType = {
   session: Session | null
   user: User | null
+  role: string | null
   loading: boolean
   signIn: (email: string, password: string) => Promise<{ error: AuthError | null }>
   signUp: (email: string, password: string) => Promise<{ data: AuthResponse['data'] | null; error: AuthError | null }>
@@ -19,6 +21,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined)
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [session, setSession] = useState<Session | null>(null)
   const [user, setUser] = useState<User | null>(null)
+  const [role, setRole] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
@@ -41,6 +44,26 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => subscription.unsubscribe()
   }, [])
 
+  // Load the user's role whenever the user changes. getProfileRole is the
+  // same lookup middleware.ts and the API routes use, so all three agree.
+  useEffect(() => {
+    if (!user) {
+      setRole(null)
+      return
+    }
+
+    let cancelled = false
+    getProfileRole(supabase, user.id).then((profileRole) => {
+      if (!cancelled) {
+        setRole(profileRole)
+      }
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [user])
+
   const signIn = async (email: string, password: string) => {
     const { error } = await supabase.auth.signInWithPassword({
       email,
@@ -69,6 +92,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const value = {
     session,
     user,
+    role,
     loading,
     signIn,
     signUp,
@@ -8,92 +8,42 @@
  * synchronized occupancy data
  * 
  * DATA FLOW: 
- *   - Manages polling for occupancy data updates
+ *   - Subscribes to live zone-count changes when the data source supports it
+ *   - Falls back to polling when there is no live channel (or it drops)
  *   - Distributes real-time and historical data to subscribed components
  *   - Ensures consistent data visualization across the application
  * 
  * KEY DEPENDENCIES: 
  *   - React Context API for state distribution
- *   - Mock data utilities (to be replaced with real API calls in production)
+ *   - OccupancyDataSource, chosen by NEXT_PUBLIC_OCCUPANCY_SOURCE
+ *     (Supabase, mock generator or recorded fixture)
  */
 
 "use client";
 
-import React, { createContext, useContext, useState, useEffect } from "react";
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback, useRef } from "react";
+import { getOccupancyDataSource } from "@/app/occupancy/services/dataSources";
+import { applyZoneCount } from "@/app/occupancy/services/occupancyService";
 import {
-  getOverallOccupancy,
-  generateHistoricalData,
-  generateWeeklyData,
-  generateTwoDayData,
-  generatePredictionData
-} from "@/utils/mockOccupancyData";
-
-// Define the occupancy data types
-export interface OccupancyData {
-  occupied: number;
-  capacity: number;
-  percentage: number;
-  status: string;
-  zones?: Array<{
-    id: string;
-    name: string;
-    capacity: number;
-    current: number;
-    percentage: number;
-    status: string;
-    floor: number;
-  }>;
-}
-
-// Define types for historical data
-export interface HistoricalDataPoint {
-  time: string;
-  hour: number;
-  formattedTime: string;
-  overall: number;
-  totalOccupancy: number;
-  totalCapacity: number;
-  zones?: Array<{
-    id: string;
-    name: string;
-    count: number;
-    capacity: number;
-    percentage: number;
-  }>;
-}
-
-// Define types for weekly trend data
-export interface WeeklyDataPoint {
-  date: string;
-  day: number;
-  formattedDay: string;
-  peakOccupancy: number;
-  averageOccupancy: number;
-  totalVisitors: number;
-}
+  OccupancyData,
+  OccupancyDataSource,
+  OccupancyConnectionStatus,
+  HistoricalDataPoint,
+  WeeklyDataPoint,
+  TwoDayDataPoint,
+  PredictionDataPoint,
+} from "@/app/occupancy/types/occupancyTypes";
 
-// Define types for 2-day detailed trend data
-export interface TwoDayDataPoint {
-  time: string;
-  hour: number;
-  formattedTime: string;
-  formattedDay: string;
-  dayHour: string;
-  overall: number;
-  totalOccupancy: number;
-  totalCapacity: number;
-}
-
-// Define types for prediction data
-export interface PredictionDataPoint {
-  time: string;
-  hour: number;
-  formattedTime: string;
-  formattedDay: string;
-  dayHour: string;
-  predicted: number;
-  confidence: number;
-}
+// Re-export the data types so existing consumers can keep importing them from here
+export type {
+  OccupancyData,
+  OccupancyDataSource,
+  OccupancyConnectionStatus,
+  HistoricalDataPoint,
+  WeeklyDataPoint,
+  TwoDayDataPoint,
+  PredictionDataPoint,
+};
 
 // Context interface
 interface OccupancyContextType {
@@ -104,9 +54,19 @@ interface OccupancyContextType {
   predictionData: PredictionDataPoint[];
   isLoading: boolean;
   lastUpdated: Date | null;
+  connectionStatus: OccupancyConnectionStatus;
+  isStale: boolean;
   refreshData: () => void;
 }
 
+// Refresh intervals: trends only while live, everything while polling
+const LIVE_REFRESH_MS = 5 * 60 * 1000;
+const POLLING_REFRESH_MS = 15 * 1000;
+
+// Without a live channel, data is flagged as stale in the UI when the
+// last successful poll is older than this
+const STALE_AFTER_MS = 2 * 60 * 1000;
+
 // Create the context with a default value
 const OccupancyContext = createContext<OccupancyContextType>({
   currentOccupancy: null,
@@ -116,11 +76,25 @@ const OccupancyContext = createContext<OccupancyContextType>({
   predictionData: [],
   isLoading: true,
   lastUpdated: null,
+  connectionStatus: "polling",
+  isStale: false,
   refreshData: () => {},
 });
 
+interface OccupancyProviderProps {
+  children: React.ReactNode;
+  /** Overrides the configured data source (e.g. a test fixture) */
+  dataSource?: OccupancyDataSource;
+}
+
 // Create the provider component
-export function OccupancyProvider({ children }: { children: React.ReactNode }) {
+export function OccupancyProvider({ children, dataSource }: OccupancyProviderProps) {
+  // Resolve the data source once; an explicit prop wins over configuration
+  const source = useMemo(
+    () => dataSource ?? getOccupancyDataSource(),
+    [dataSource]
+  );
+
   // STATE: Occupancy data state with proper typing
   const [currentOccupancy, setCurrentOccupancy] = useState<OccupancyData | null>(null);
   const [historicalData, setHistoricalData] = useState<HistoricalDataPoint[]>([]);
@@ -129,62 +103,132 @@ export function OccupancyProvider({ children }: { children: React.ReactNode }) {
   const [predictionData, setPredictionData] = useState<PredictionDataPoint[]>([]);
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [connectionStatus, setConnectionStatus] = useState<OccupancyConnectionStatus>("polling");
+  const [isStale, setIsStale] = useState<boolean>(false);
+  // When fetchData last succeeded; pushed updates do not count, since a
+  // quiet zone can go minutes without one
+  const [lastFetchedAt, setLastFetchedAt] = useState<Date | null>(null);
+
+  // Latest pushed timestamp per zone, to drop updates that arrive out of order
+  const zoneUpdatedAt = useRef<Map<string, number>>(new Map());
 
   /**
    * Fetch Data Function
    * 
-   * Retrieves occupancy data from mock data generator (or API in production)
+   * Retrieves all occupancy series from the active data source in parallel
    * Updates context state with consistent values
    * Tracks last update timestamp for freshness indicators
    */
-  const fetchData = () => {
+  const fetchData = useCallback(async () => {
     try {
-      // Get current overall occupancy
-      const overall = getOverallOccupancy();
-      setCurrentOccupancy(overall);
+      const [overall, historical, weekly, twoDayTrend, prediction] = await Promise.all([
+        // Get current overall occupancy
+        source.getCurrentOccupancy(),
+        // Get 12 hours of historical data (maximum needed by any component)
+        // Components can filter this down as needed
+        source.getHistoricalData(12),
+        // Get weekly trend data
+        source.getWeeklyData(),
+        // Get detailed 2-day trend data
+        source.getTwoDayData(),
+        // Get prediction data
+        source.getPredictionData(),
+      ]);
 
-      // Get 12 hours of historical data (maximum needed by any component)
-      // Components can filter this down as needed
-      const historical = generateHistoricalData(12);
+      setCurrentOccupancy(overall);
       setHistoricalData(historical);
-
-      // Get weekly trend data
-      const weekly = generateWeeklyData();
       setWeeklyData(weekly);
-
-      // Get detailed 2-day trend data
-      const twoDayTrend = generateTwoDayData();
       setTwoDayData(twoDayTrend);
-
-      // Get prediction data
-      const prediction = generatePredictionData();
       setPredictionData(prediction);
 
       // Update last refresh timestamp
-      setLastUpdated(new Date());
+      const fetchedAt = new Date();
+      setLastUpdated(fetchedAt);
+      setLastFetchedAt(fetchedAt);
     } catch (error) {
-      console.error("Error fetching occupancy data:", error);
+      console.error(`Error fetching occupancy data from ${source.name} source:`, error);
     } finally {
       setIsLoading(false);
     }
-  };
+  }, [source]);
+
+  /**
+   * Live Zone Count Subscription
+   * 
+   * Applies pushed zone counts to the current snapshot as they arrive.
+   * The connection status drives the polling fallback below.
+   */
+  useEffect(() => {
+    if (!source.subscribeToZoneCounts) {
+      setConnectionStatus("polling");
+      return;
+    }
+
+    const knownUpdates = zoneUpdatedAt.current;
+    const unsubscribe = source.subscribeToZoneCounts(
+      (update) => {
+        const updatedAt = new Date(update.updatedAt).getTime();
+        if (updatedAt < (knownUpdates.get(update.zoneId) ?? 0)) return;
+        knownUpdates.set(update.zoneId, updatedAt);
+
+        setCurrentOccupancy((current) => current && applyZoneCount(current, update));
+        setLastUpdated(new Date());
+      },
+      (connected) => setConnectionStatus(connected ? "live" : "polling")
+    );
+
+    return () => {
+      unsubscribe();
+      knownUpdates.clear();
+      setConnectionStatus("polling");
+    };
+  }, [source]);
 
   /**
    * Initial Data Load & Polling Setup
    * 
-   * Fetches data immediately on mount and sets up interval
-   * for periodic refresh to simulate real-time data
+   * Fetches data immediately on mount and whenever the connection status
+   * changes (catching up on anything missed while the channel was down).
+   * While live only the trend series need refreshing; otherwise poll
+   * frequently as a fallback.
    */
   useEffect(() => {
     // Initial fetch
     fetchData();
 
-    // Set up polling interval (every 60 seconds)
-    const intervalId = setInterval(fetchData, 60000);
+    const intervalId = setInterval(
+      fetchData,
+      connectionStatus === "live" ? LIVE_REFRESH_MS : POLLING_REFRESH_MS
+    );
 
     // Cleanup on unmount
     return () => clearInterval(intervalId);
-  }, []);
+  }, [fetchData, connectionStatus]);
+
+  /**
+   * Staleness Check
+   * 
+   * Data is fresh while the live channel is connected, however long it
+   * has been since the last push. Otherwise it is flagged as stale once
+   * polling has not succeeded for a while, e.g. the channel dropped and
+   * polling is failing too
+   */
+  useEffect(() => {
+    if (connectionStatus === "live") {
+      setIsStale(false);
+      return;
+    }
+
+    const checkStale = () => {
+      setIsStale(
+        lastFetchedAt !== null && Date.now() - lastFetchedAt.getTime() > STALE_AFTER_MS
+      );
+    };
+
+    checkStale();
+    const intervalId = setInterval(checkStale, 15000);
+    return () => clearInterval(intervalId);
+  }, [connectionStatus, lastFetchedAt]);
 
   // Context value object
   const value = {
@@ -195,6 +239,8 @@ export function OccupancyProvider({ children }: { children: React.ReactNode }) {
     predictionData,
     isLoading,
     lastUpdated,
+    connectionStatus,
+    isStale,
     refreshData: fetchData, // Expose refresh function for manual updates
   };
 
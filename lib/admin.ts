@@ -0,0 +1,491 @@
+/**
+ * ADMIN CONSOLE
+ *
+ * Data access for the /admin screens: rooms, maintenance windows, any
+ * user's reservations, user roles and the audit log. Communication
+ * moderation lives in lib/moderation.
+ *
+ * Every write goes through an admin_* database function, which checks
+ * the caller's role (staff or admin; admin only for role changes) and
+ * records the action in admin_audit_log in the same transaction.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { Role } from '@/lib/authz'
+
+export type UserRole = Role
+
+export const USER_ROLES: { id: UserRole; label: string }[] = [
+  { id: 'student', label: 'Student' },
+  { id: 'faculty', label: 'Faculty' },
+  { id: 'staff', label: 'Staff' },
+  { id: 'admin', label: 'Admin' },
+]
+
+/**
+ * A room as managed in the console, retired rooms included
+ */
+export interface AdminRoom {
+  id: number
+  name: string
+  capacity: number
+  location: string | null
+  photoUrl: string | null
+  isActive: boolean
+}
+
+/**
+ * Editable room fields
+ */
+export type AdminRoomInput = Omit<AdminRoom, 'id' | 'isActive'>
+
+/**
+ * A period during which a room cannot be booked
+ */
+export interface MaintenanceWindow {
+  id: string
+  roomId: number
+  roomName: string
+  startTime: string
+  endTime: string
+  reason: string
+}
+
+/**
+ * Any user's reservation, with its room name
+ */
+export interface AdminReservation {
+  id: string
+  roomId: number
+  roomName: string
+  userEmail: string
+  startTime: string
+  endTime: string
+  agenda: string
+  numPeople: number
+  status: 'pending' | 'confirmed' | 'cancelled' | 'no_show'
+  checkedInAt: string | null
+}
+
+/**
+ * Changes staff can force onto a reservation; omitted fields are kept
+ */
+export interface ReservationOverride {
+  roomId?: number
+  startTime?: string
+  endTime?: string
+  numPeople?: number
+}
+
+export interface AdminUser {
+  id: string
+  email: string
+  name: string | null
+  role: UserRole
+  createdAt: string
+}
+
+export type AuditTargetType = 'room' | 'reservation' | 'maintenance_window' | 'user' | 'post' | 'word_filter' | 'zone' | 'amenity'
+
+/**
+ * One entry in admin_audit_log
+ */
+export interface AuditEntry {
+  id: string
+  actorEmail: string
+  /** e.g. "room.retire", "reservation.cancel", "user.role_change" */
+  action: string
+  targetType: AuditTargetType
+  targetId: string
+  reason: string | null
+  details: Record<string, unknown>
+  createdAt: string
+}
+
+/**
+ * The message raised by an admin_* function, e.g. "A reason is required
+ * for this action", or the fallback for anything else
+ */
+export function describeAdminError(error: unknown, fallback: string) {
+  const message = (error as { message?: string } | null)?.message
+  return message || fallback
+}
+
+type RoomRow = {
+  id: number
+  name: string
+  capacity: number
+  location?: string | null
+  photo_url?: string | null
+  is_active: boolean
+}
+
+function toRoom(row: RoomRow): AdminRoom {
+  return {
+    id: row.id,
+    name: row.name,
+    capacity: row.capacity,
+    location: row.location ?? null,
+    photoUrl: row.photo_url ?? null,
+    isActive: row.is_active,
+  }
+}
+
+type MaintenanceRow = {
+  id: string
+  room_id: number
+  start_time: string
+  end_time: string
+  reason: string
+  rooms: { name: string } | null
+}
+
+type ReservationRow = {
+  id: string
+  room_id: number
+  user_email: string
+  start_time: string
+  end_time: string
+  agenda: string
+  num_people: number
+  status: AdminReservation['status']
+  checked_in_at?: string | null
+  rooms: { name: string } | null
+}
+
+function toReservation(row: ReservationRow): AdminReservation {
+  return {
+    id: row.id,
+    roomId: row.room_id,
+    roomName: row.rooms?.name ?? 'Unknown Room',
+    userEmail: row.user_email,
+    startTime: row.start_time,
+    endTime: row.end_time,
+    agenda: row.agenda,
+    numPeople: row.num_people,
+    status: row.status,
+    checkedInAt: row.checked_in_at ?? null,
+  }
+}
+
+type UserRow = {
+  id: string
+  email: string
+  name: string | null
+  role: string
+  created_at: string
+}
+
+/**
+ * Fetch every room, retired ones included
+ *
+ * @returns Rooms ordered by name
+ */
+export async function getAdminRooms(): Promise<AdminRoom[]> {
+  const { data, error } = await supabase
+    .from('rooms')
+    .select('id, name, capacity, location, photo_url, is_active')
+    .order('name')
+
+  if (error) {
+    console.error('Error fetching rooms:', error)
+    throw error
+  }
+
+  return (data || []).map(toRoom)
+}
+
+/**
+ * Create a room, or update one when roomId is given
+ *
+ * @param roomId - Room to update, or null to create
+ * @param room - Room fields
+ * @param reason - Optional note for the audit log
+ * @returns The saved room
+ */
+export async function saveRoom(roomId: number | null, room: AdminRoomInput, reason?: string): Promise<AdminRoom> {
+  const { data, error } = await supabase.rpc('admin_save_room', {
+    p_room_id: roomId,
+    p_name: room.name,
+    p_capacity: room.capacity,
+    p_location: room.location,
+    p_photo_url: room.photoUrl,
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error saving room:', error)
+    throw error
+  }
+
+  return toRoom(data as RoomRow)
+}
+
+/**
+ * Retire or reactivate a room
+ *
+ * Retiring cancels the room's upcoming bookings.
+ *
+ * @param roomId - Room ID
+ * @param isActive - false to retire, true to reactivate
+ * @param reason - Why, for the audit log
+ */
+export async function setRoomActive(roomId: number, isActive: boolean, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_set_room_active', {
+    p_room_id: roomId,
+    p_is_active: isActive,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error('Error updating room status:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch maintenance windows that have not ended yet
+ *
+ * @returns Windows ordered by start time
+ */
+export async function getMaintenanceWindows(): Promise<MaintenanceWindow[]> {
+  const { data, error } = await supabase
+    .from('room_maintenance_windows')
+    .select('id, room_id, start_time, end_time, reason, rooms(name)')
+    .gt('end_time', new Date().toISOString())
+    .order('start_time')
+
+  if (error) {
+    console.error('Error fetching maintenance windows:', error)
+    throw error
+  }
+
+  return (data as unknown as MaintenanceRow[] | null || []).map((row) => ({
+    id: row.id,
+    roomId: row.room_id,
+    roomName: row.rooms?.name ?? 'Unknown Room',
+    startTime: row.start_time,
+    endTime: row.end_time,
+    reason: row.reason,
+  }))
+}
+
+/**
+ * Block a room for maintenance
+ *
+ * Fails if the room has bookings in the window, unless cancelConflicts
+ * is set, in which case they are cancelled.
+ *
+ * @returns IDs of the reservations that were cancelled
+ */
+export async function blockRoom(block: {
+  roomId: number
+  startTime: string
+  endTime: string
+  reason: string
+  cancelConflicts: boolean
+}): Promise<string[]> {
+  const { data, error } = await supabase.rpc('admin_block_room', {
+    p_room_id: block.roomId,
+    p_start_time: block.startTime,
+    p_end_time: block.endTime,
+    p_reason: block.reason,
+    p_cancel_conflicts: block.cancelConflicts,
+  })
+
+  if (error) {
+    console.error('Error blocking room:', error)
+    throw error
+  }
+
+  return data?.cancelled_reservation_ids ?? []
+}
+
+/**
+ * Remove a maintenance window, reopening the room
+ *
+ * @param windowId - Maintenance window ID
+ * @param reason - Why, for the audit log
+ */
+export async function removeRoomBlock(windowId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_remove_room_block', {
+    p_window_id: windowId,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error('Error removing maintenance window:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch reservations from every user
+ *
+ * @param filters.from - Only reservations ending after this ISO time
+ * @param filters.to - Only reservations starting before this ISO time
+ * @param filters.status - Only this status
+ * @param filters.email - Only users whose email contains this text
+ * @returns Up to 200 reservations ordered by start time
+ */
+export async function getAllReservations(filters: {
+  from: string
+  to: string
+  status?: AdminReservation['status']
+  email?: string
+}): Promise<AdminReservation[]> {
+  let query = supabase
+    .from('reservations')
+    .select('id, room_id, user_email, start_time, end_time, agenda, num_people, status, checked_in_at, rooms(name)')
+    .gt('end_time', filters.from)
+    .lt('start_time', filters.to)
+    .order('start_time')
+    .limit(200)
+
+  if (filters.status) {
+    query = query.eq('status', filters.status)
+  }
+  if (filters.email) {
+    query = query.ilike('user_email', `%${filters.email}%`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching reservations:', error)
+    throw error
+  }
+
+  return (data as unknown as ReservationRow[] | null || []).map(toReservation)
+}
+
+/**
+ * Cancel any user's confirmed or pending reservation
+ *
+ * @param reservationId - Reservation ID
+ * @param reason - Why, for the audit log
+ */
+export async function cancelReservationAsStaff(reservationId: string, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_cancel_reservation', {
+    p_reservation_id: reservationId,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error('Error cancelling reservation:', error)
+    throw error
+  }
+}
+
+/**
+ * Move or resize any user's reservation, bypassing booking quotas
+ *
+ * Double bookings, maintenance windows and room capacity still apply.
+ *
+ * @param reservationId - Reservation ID
+ * @param changes - Fields to change
+ * @param reason - Why, for the audit log
+ */
+export async function overrideReservation(
+  reservationId: string,
+  changes: ReservationOverride,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase.rpc('admin_override_reservation', {
+    p_reservation_id: reservationId,
+    p_reason: reason,
+    p_room_id: changes.roomId,
+    p_start_time: changes.startTime,
+    p_end_time: changes.endTime,
+    p_num_people: changes.numPeople,
+  })
+
+  if (error) {
+    console.error('Error overriding reservation:', error)
+    throw error
+  }
+}
+
+/**
+ * Search users by email or name
+ *
+ * @param search - Text to match, or empty for everyone
+ * @returns Up to 200 users ordered by email
+ */
+export async function getUsers(search?: string): Promise<AdminUser[]> {
+  const { data, error } = await supabase.rpc('admin_list_users', {
+    p_search: search?.trim() || null,
+  })
+
+  if (error) {
+    console.error('Error fetching users:', error)
+    throw error
+  }
+
+  return (data as UserRow[] | null || []).map((row) => ({
+    id: row.id,
+    email: row.email,
+    name: row.name,
+    role: row.role as UserRole,
+    createdAt: row.created_at,
+  }))
+}
+
+/**
+ * Change a user's role (admin only)
+ *
+ * @param userId - Profile ID
+ * @param role - New role
+ * @param reason - Why, for the audit log
+ */
+export async function setUserRole(userId: string, role: UserRole, reason: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_set_user_role', {
+    p_user_id: userId,
+    p_role: role,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error('Error changing user role:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the most recent audit log entries
+ *
+ * @param options.targetType - Only entries about this kind of record
+ * @param options.limit - Maximum entries (default: 100)
+ * @returns Entries, newest first
+ */
+export async function getAuditLog(
+  options: { targetType?: AuditTargetType; limit?: number } = {}
+): Promise<AuditEntry[]> {
+  let query = supabase
+    .from('admin_audit_log')
+    .select('id, actor_email, action, target_type, target_id, reason, details, created_at')
+    .order('created_at', { ascending: false })
+    .limit(options.limit ?? 100)
+
+  if (options.targetType) {
+    query = query.eq('target_type', options.targetType)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching audit log:', error)
+    throw error
+  }
+
+  return (data || []).map((row) => ({
+    id: row.id,
+    actorEmail: row.actor_email,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id,
+    reason: row.reason,
+    details: (row.details ?? {}) as Record<string, unknown>,
+    createdAt: row.created_at,
+  }))
+}
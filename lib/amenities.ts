@@ -0,0 +1,225 @@
+/**
+ * ROOM AMENITIES CATALOG
+ *
+ * Data access for the amenities catalog and the room_amenities join
+ * table. The catalog drives the room search filters and the amenity list
+ * in RoomDetailsPanel; admins edit both at /admin/amenities.
+ *
+ * Writes go through the audited admin_* functions (see the
+ * admin_zones_amenities migration): only admins may change the catalog
+ * or which rooms have which amenities, and every change is recorded in
+ * admin_audit_log.
+ */
+
+import { supabase } from '@/lib/supabase'
+
+export type AmenityCategory = 'equipment' | 'connectivity' | 'accessibility' | 'comfort'
+
+/**
+ * An amenity in the catalog
+ */
+export interface Amenity {
+  /** Stable slug, e.g. "whiteboard" */
+  id: string
+  name: string
+  category: AmenityCategory
+  description: string | null
+  sortOrder: number
+  isActive: boolean
+}
+
+/**
+ * Editable amenity fields
+ */
+export type AmenityInput = Omit<Amenity, 'id'>
+
+/**
+ * An amenity as fitted in a particular room
+ */
+export interface RoomAmenity {
+  amenityId: string
+  /** Room-specific detail, e.g. '65" TV, HDMI and USB-C' */
+  notes: string | null
+}
+
+export const AMENITY_CATEGORIES: { id: AmenityCategory; label: string }[] = [
+  { id: 'equipment', label: 'Equipment' },
+  { id: 'connectivity', label: 'Connectivity' },
+  { id: 'accessibility', label: 'Accessibility' },
+  { id: 'comfort', label: 'Comfort' },
+]
+
+const AMENITY_COLUMNS = 'id, name, category, description, sort_order, is_active'
+
+type AmenityRow = {
+  id: string
+  name: string
+  category: AmenityCategory
+  description: string | null
+  sort_order: number
+  is_active: boolean
+}
+
+function toAmenity(row: AmenityRow): Amenity {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category,
+    description: row.description,
+    sortOrder: row.sort_order,
+    isActive: row.is_active,
+  }
+}
+
+function toArgs(amenity: Partial<AmenityInput>) {
+  return {
+    p_name: amenity.name,
+    p_category: amenity.category,
+    // An empty description clears it
+    p_description: amenity.description === null ? '' : amenity.description,
+    p_sort_order: amenity.sortOrder,
+    p_is_active: amenity.isActive,
+  }
+}
+
+/**
+ * Fetch the catalog in display order
+ *
+ * @param options.includeInactive - Also return retired amenities (default: false)
+ * @returns Amenities ordered by sort order and name
+ */
+export async function getAmenities(options: { includeInactive?: boolean } = {}): Promise<Amenity[]> {
+  let query = supabase
+    .from('amenities')
+    .select(AMENITY_COLUMNS)
+    .order('sort_order')
+    .order('name')
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching amenities:', error)
+    throw error
+  }
+
+  return (data as AmenityRow[] | null || []).map(toAmenity)
+}
+
+/**
+ * Create an amenity (admin only)
+ *
+ * @param id - Slug for the new amenity (lowercase letters, digits, _)
+ * @param amenity - Amenity fields
+ * @param reason - Optional note for the audit log
+ * @returns The created amenity
+ */
+export async function createAmenity(id: string, amenity: AmenityInput, reason?: string): Promise<Amenity> {
+  const { data, error } = await supabase.rpc('admin_create_amenity', {
+    p_amenity_id: id,
+    p_name: amenity.name,
+    p_category: amenity.category,
+    p_description: amenity.description,
+    p_sort_order: amenity.sortOrder,
+    p_is_active: amenity.isActive,
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error creating amenity:', error)
+    throw error
+  }
+
+  return toAmenity(data as AmenityRow)
+}
+
+/**
+ * Update an amenity (admin only)
+ *
+ * @param amenityId - Amenity slug
+ * @param changes - Fields to change
+ * @param reason - Optional note for the audit log
+ * @returns The updated amenity
+ */
+export async function updateAmenity(
+  amenityId: string,
+  changes: Partial<AmenityInput>,
+  reason?: string
+): Promise<Amenity> {
+  const { data, error } = await supabase.rpc('admin_update_amenity', {
+    p_amenity_id: amenityId,
+    ...toArgs(changes),
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error updating amenity:', error)
+    throw error
+  }
+
+  return toAmenity(data as AmenityRow)
+}
+
+/**
+ * Delete an amenity (admin only)
+ *
+ * Also removes it from every room; retire it with
+ * updateAmenity(id, { isActive: false }) to keep room records.
+ *
+ * @param amenityId - Amenity slug
+ * @param reason - Optional note for the audit log
+ */
+export async function deleteAmenity(amenityId: string, reason?: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_delete_amenity', {
+    p_amenity_id: amenityId,
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error deleting amenity:', error)
+    throw error
+  }
+}
+
+/**
+ * Fetch the amenities fitted in a room
+ *
+ * @param roomId - Room ID
+ * @returns The room's amenities with their notes
+ */
+export async function getRoomAmenities(roomId: number): Promise<RoomAmenity[]> {
+  const { data, error } = await supabase
+    .from('room_amenities')
+    .select('amenity_id, notes')
+    .eq('room_id', roomId)
+
+  if (error) {
+    console.error('Error fetching room amenities:', error)
+    throw error
+  }
+
+  return (data || []).map(row => ({ amenityId: row.amenity_id, notes: row.notes }))
+}
+
+/**
+ * Replace the amenities fitted in a room (admin only)
+ *
+ * @param roomId - Room ID
+ * @param amenities - The room's full amenity list after the change
+ * @param reason - Optional note for the audit log
+ */
+export async function setRoomAmenities(roomId: number, amenities: RoomAmenity[], reason?: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_set_room_amenities', {
+    p_room_id: roomId,
+    p_amenities: amenities.map(amenity => ({ amenity_id: amenity.amenityId, notes: amenity.notes })),
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error saving room amenities:', error)
+    throw error
+  }
+}
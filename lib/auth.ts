@@ -1,74 +0,0 @@
-import { NextAuthOptions } from "next-auth"
-import CredentialsProvider from "next-auth/providers/credentials"
-import { supabase } from "./supabase"
-
-export const authOptions: NextAuthOptions = {
-  providers: [
-    CredentialsProvider({
-      name: "Credentials",
-      credentials: {
-        email: { label: "Email", type: "email" },
-        password: { label: "Password", type: "password" }
-      },
-      async authorize(credentials) {
-        if (!credentials?.email || !credentials?.password) {
-          throw new Error('Please enter an email and password')
-        }
-
-        const { data, error } = await supabase.auth.signInWithPassword({
-          email: credentials.email,
-          password: credentials.password,
-        })
-
-        if (error) {
-          throw new Error(error.message)
-        }
-
-        if (!data.user) {
-          throw new Error('No user found')
-        }
-
-        // Get user role from your database
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('role')
-          .eq('id', data.user.id)
-          .single()
-
-        if (profileError && profileError.code !== 'PGRST116') {
-          throw new Error(profileError.message)
-        }
-
-        return {
-          id: data.user.id,
-          email: data.user.email,
-          role: profile?.role || 'student',
-        }
-      }
-    })
-  ],
-  callbacks: {
-    async jwt({ token, user }) {
-      if (user) {
-        token.role = user.role;
-        token.id = user.id;
-        token.email = user.email;
-      }
-      return token
-    },
-    async session({ session, token }) {
-      if (session?.user) {
-        session.user.role = token.role
-        session.user.id = token.id as string
-        session.user.email = token.email as string
-      }
-      return session
-    }
-  },
-  pages: {
-    signIn: '/auth/signin',
-  },
-  session: {
-    strategy: "jwt",
-  },
-} 
\ No newline at end of file
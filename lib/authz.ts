@@ -0,0 +1,87 @@
+/**
+ * ROLE-BASED ACCESS
+ *
+ * The single list of which roles may open which pages, shared by
+ * middleware.ts (server-side redirects) and RoleGuard (client-side
+ * fallback while the role loads). API routes declare their requirement
+ * with withAuth from lib/supabase-server.
+ *
+ * Roles come from profiles.role, read with getProfileRole by AuthContext,
+ * middleware.ts and the API routes alike. This module has no server or
+ * browser dependencies so both sides (and the edge middleware) can import it.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
+
+export type Role = 'student' | 'faculty' | 'staff' | 'admin'
+
+/**
+ * 'authenticated' admits any signed-in user; a list admits only those roles
+ */
+export type RoleRequirement = 'authenticated' | readonly Role[]
+
+export const STAFF_ROLES: readonly Role[] = ['staff', 'admin']
+export const ADMIN_ROLES: readonly Role[] = ['admin']
+
+/** Role assumed when a user has no profile row yet */
+export const DEFAULT_ROLE: Role = 'student'
+
+/**
+ * Pages that need a signed-in user, most specific prefix first.
+ * Pages not listed here are public.
+ */
+export const PAGE_ACCESS: { prefix: string; requirement: RoleRequirement }[] = [
+  // Zones and amenities are admin catalogs (written only through the admin_* functions)
+  { prefix: '/admin/zones', requirement: ADMIN_ROLES },
+  { prefix: '/admin/amenities', requirement: ADMIN_ROLES },
+  { prefix: '/admin', requirement: STAFF_ROLES },
+  // Reports read every reservation, which RLS only exposes to staff and admins
+  { prefix: '/analytics', requirement: STAFF_ROLES },
+  { prefix: '/dashboard', requirement: 'authenticated' },
+  { prefix: '/reservations', requirement: 'authenticated' },
+  { prefix: '/profile', requirement: 'authenticated' },
+]
+
+/**
+ * Find the access rule for a page
+ *
+ * @param pathname - URL path, e.g. "/admin/zones"
+ * @returns The requirement, or null for public pages
+ */
+export function getPageRequirement(pathname: string): RoleRequirement | null {
+  const rule = PAGE_ACCESS.find(({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`))
+  return rule?.requirement ?? null
+}
+
+/**
+ * Check a signed-in user's role against a requirement
+ *
+ * @param role - The user's profiles.role
+ * @param requirement - What the page or route needs
+ */
+export function hasRequiredRole(role: string, requirement: RoleRequirement) {
+  return requirement === 'authenticated' || (requirement as readonly string[]).includes(role)
+}
+
+/**
+ * Look up a user's role from their profile
+ *
+ * @param client - Client acting as the user (RLS lets users read their own profile)
+ * @param userId - auth.users ID
+ * @returns profiles.role, or the default role when there is no profile yet
+ */
+export async function getProfileRole(client: SupabaseClient<Database>, userId: string): Promise<string> {
+  const { data: profile, error } = await client
+    .from('profiles')
+    .select('role')
+    .eq('id', userId)
+    .single()
+
+  // PGRST116: no profile row yet
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error fetching profile role:', error)
+  }
+
+  return profile?.role || DEFAULT_ROLE
+}
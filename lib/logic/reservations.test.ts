@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+import type { QuotaViolation } from '@/app/reservations/types'
+import { describeQuotaUsage, getQuotaViolation } from './reservations'
+
+const violation: QuotaViolation = {
+  code: 'max_hours_per_day',
+  message: 'Students can book up to 4 hours per day',
+  role: 'student',
+  limit: 4,
+  used: 3,
+  requested: 2,
+}
+
+describe('getQuotaViolation', () => {
+  it('reads the violation the quota trigger sends in details', () => {
+    expect(getQuotaViolation({ hint: 'booking_quota', details: JSON.stringify(violation) })).toEqual(violation)
+  })
+
+  it('ignores errors without the booking_quota hint', () => {
+    expect(getQuotaViolation({ hint: 'word_filter', details: JSON.stringify(violation) })).toBeNull()
+    expect(getQuotaViolation({ hint: null, details: JSON.stringify(violation) })).toBeNull()
+  })
+
+  it('returns null when there are no usable details', () => {
+    expect(getQuotaViolation({ hint: 'booking_quota', details: null })).toBeNull()
+    expect(getQuotaViolation({ hint: 'booking_quota', details: 'not json' })).toBeNull()
+  })
+
+  it('returns null for no error', () => {
+    expect(getQuotaViolation(null)).toBeNull()
+  })
+})
+
+describe('describeQuotaUsage', () => {
+  it('describes each quota rule', () => {
+    expect(describeQuotaUsage(violation)).toBe('You already have 3 of 4 hours booked that day.')
+    expect(describeQuotaUsage({ ...violation, code: 'max_hours_per_week', limit: 10, used: 9 }))
+      .toBe('You already have 9 of 10 hours booked that week.')
+    expect(describeQuotaUsage({ ...violation, code: 'max_upcoming_bookings', limit: 3, used: 3 }))
+      .toBe('You already have 3 upcoming bookings. Cancel one to book another.')
+    expect(describeQuotaUsage({ ...violation, code: 'max_booking_minutes', limit: 120, requested: 180 }))
+      .toBe('This booking is 180 minutes long.')
+  })
+})
@@ -1,5 +1,7 @@
-import { BANGKOK_TZ, TIME_SLOTS } from '@/constants/reservationsConstants'
-import { toZonedTime } from 'date-fns-tz'
+import { BANGKOK_TZ, OPERATING_HOURS, TIME_SLOTS } from '@/constants/reservationsConstants'
+import { addDays, addMinutes, differenceInCalendarDays, format, parseISO } from 'date-fns'
+import { formatInTimeZone, fromZonedTime, toZonedTime } from 'date-fns-tz'
+import type { QuotaViolation, RankedRoom, Room } from '@/app/reservations/types'
 // Helper to check if slots are consecutive
 export function areConsecutive(slots: string[]) {
   if (slots.length < 2) return true
@@ -15,12 +17,63 @@ function getBangkokNow() {
   return toZonedTime(new Date(), BANGKOK_TZ)
 }
 
+// Helper to get today's Bangkok date as "yyyy-MM-dd"
+export function getBangkokToday() {
+  return format(getBangkokNow(), 'yyyy-MM-dd')
+}
+
+// Helper to get the last bookable Bangkok date as "yyyy-MM-dd"
+// (horizonDays is reservation_policy.booking_horizon_days)
+export function getLastBookableDate(horizonDays: number) {
+  return format(addDays(parseISO(getBangkokToday()), horizonDays), 'yyyy-MM-dd')
+}
+
+// Helper to check a "yyyy-MM-dd" date is between today and the booking horizon
+export function isWithinBookingHorizon(date: string, horizonDays: number) {
+  const daysAhead = differenceInCalendarDays(parseISO(date), parseISO(getBangkokToday()))
+  return daysAhead >= 0 && daysAhead <= horizonDays
+}
+
 // Helper to get a Date in Bangkok for a given hour/minute
-export function getBangkokDateForSlot(hour: number, min: number) {
-  const now = getBangkokNow()
-  const date = new Date(now)
-  date.setHours(hour, min, 0, 0)
-  return date
+// on `date` ("yyyy-MM-dd", defaults to today)
+export function getBangkokDateForSlot(hour: number, min: number, date?: string) {
+  const day = date ? parseISO(date) : getBangkokNow()
+  const result = new Date(day)
+  result.setHours(hour, min, 0, 0)
+  return result
+}
+
+// Helper to list a "yyyy-MM-dd" day's opening hours as "HH:mm:ss" times,
+// every 30 minutes from opening to closing (both included)
+export function getOpeningTimes(date: string) {
+  const day = parseISO(date).getDay()
+  const hours = day === 0 || day === 6 ? OPERATING_HOURS.weekend : OPERATING_HOURS.weekday
+  const times: string[] = []
+
+  let current = getBangkokDateForSlot(hours.start, 0, date)
+  const closing = getBangkokDateForSlot(hours.end, 0, date)
+  while (current <= closing) {
+    times.push(format(current, 'HH:mm:ss'))
+    current = addMinutes(current, 30)
+  }
+
+  return times
+}
+
+// Slots are Bangkok wall-clock strings ("yyyy-MM-dd'T'HH:mm:ss") so they
+// read the same whatever the browser's timezone is
+export function toBangkokSlot(date: Date | string) {
+  return formatInTimeZone(date, BANGKOK_TZ, "yyyy-MM-dd'T'HH:mm:ss")
+}
+
+// Helper to convert a Bangkok slot string to the real instant (for the database)
+export function bangkokSlotToDate(slot: string) {
+  return fromZonedTime(slot, BANGKOK_TZ)
+}
+
+// Helper to show an instant as a Bangkok date and time, e.g. "5 Aug 2024, 14:30"
+export function formatBangkokDateTime(date: Date | string) {
+  return formatInTimeZone(date, BANGKOK_TZ, 'd MMM yyyy, HH:mm')
 }
 
 // Helper to convert UTC to Bangkok time for display (UTC+7)
@@ -32,4 +85,42 @@ export function utcToBangkokDisplay(utcDateString: string) {
     minute: '2-digit',
     hour12: false
   });
-}
\ No newline at end of file
+}
+
+// Helper to read a booking quota violation from a Supabase error
+// (the quota trigger sends it as JSON in `details` with hint 'booking_quota')
+export function getQuotaViolation(error: { hint?: string | null; details?: string | null } | null) {
+  if (error?.hint !== 'booking_quota' || !error.details) return null
+  try {
+    return JSON.parse(error.details) as QuotaViolation
+  } catch {
+    return null
+  }
+}
+
+// Helper to describe how much of a quota is already used
+export function describeQuotaUsage(violation: QuotaViolation) {
+  switch (violation.code) {
+    case 'max_hours_per_day':
+      return `You already have ${violation.used} of ${violation.limit} hours booked that day.`
+    case 'max_hours_per_week':
+      return `You already have ${violation.used} of ${violation.limit} hours booked that week.`
+    case 'max_upcoming_bookings':
+      return `You already have ${violation.used} upcoming bookings. Cancel one to book another.`
+    case 'max_booking_minutes':
+      return `This booking is ${violation.requested} minutes long.`
+  }
+}
+
+// Helper to order room search results: with a party size, the room with
+// the fewest spare seats comes first and is recommended; otherwise by name
+export function rankRoomsForParty(rooms: Room[], partySize?: number): RankedRoom[] {
+  const ranked = [...rooms].sort((a, b) =>
+    partySize ? a.capacity - b.capacity || a.name.localeCompare(b.name) : a.name.localeCompare(b.name)
+  )
+  return ranked.map((room, index) => ({
+    ...room,
+    spare_seats: partySize ? room.capacity - partySize : null,
+    recommended: Boolean(partySize) && index === 0,
+  }))
+}
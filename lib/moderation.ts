@@ -0,0 +1,394 @@
+/**
+ * COMMUNICATION MODERATION
+ *
+ * Reporting, word filters and posting bans for the communication feed,
+ * plus data access for the moderation tabs of the admin console.
+ *
+ * Moderator actions go through the moderate_* database functions, which
+ * check for a staff role and record the decision, with its reason, in
+ * admin_audit_log. Errors they raise can be shown with describeAdminError.
+ */
+
+import { supabase } from '@/lib/supabase'
+import type { Database } from '@/types/supabase'
+
+export type ReportCategory = 'spam' | 'harassment' | 'inappropriate' | 'misinformation' | 'other'
+
+export const REPORT_CATEGORIES: { id: ReportCategory; label: string }[] = [
+  { id: 'spam', label: 'Spam or advertising' },
+  { id: 'harassment', label: 'Harassment or bullying' },
+  { id: 'inappropriate', label: 'Inappropriate content' },
+  { id: 'misinformation', label: 'False information' },
+  { id: 'other', label: 'Something else' },
+]
+
+/** Ban lengths offered in the console, in hours */
+export const BAN_DURATIONS: { hours: number; label: string }[] = [
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 3, label: '3 days' },
+  { hours: 24 * 7, label: '1 week' },
+  { hours: 24 * 30, label: '30 days' },
+]
+
+/**
+ * A post with open reports, as shown in the moderation queue
+ */
+export interface ModerationQueueItem {
+  postId: string
+  content: string
+  imageUrl: string | null
+  createdAt: string
+  expiresAt: string
+  isHidden: boolean
+  authorId: string
+  authorName: string | null
+  authorEmail: string | null
+  reportCount: number
+  lastReportedAt: string
+  reports: {
+    category: ReportCategory
+    details: string | null
+    reporter: string | null
+    createdAt: string
+  }[]
+}
+
+export interface PostingBan {
+  id: string
+  userId: string
+  userName: string | null
+  userEmail: string | null
+  endsAt: string
+  reason: string
+}
+
+export interface ModerationWarning {
+  id: string
+  message: string
+  createdAt: string
+}
+
+export interface WordFilter {
+  id: string
+  term: string
+  createdAt: string
+}
+
+/**
+ * Raised before insert when a post or reply is not allowed; the message
+ * is meant for the user
+ */
+export class ModerationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ModerationError'
+  }
+}
+
+type QueueRow = Database['public']['Functions']['moderation_queue']['Returns'][number]
+type BanRow = Database['public']['Functions']['moderation_active_bans']['Returns'][number]
+type QueueReportRow = { category: ReportCategory; details: string | null; reporter: string | null; created_at: string }
+
+// ---------------------------------------------------------------------
+// Reporting and user notices
+// ---------------------------------------------------------------------
+
+/**
+ * Report a post to the moderators
+ *
+ * @param postId - Post being reported
+ * @param category - Why it is being reported
+ * @param details - Free text; required for 'other'
+ */
+export async function reportPost(postId: string, category: ReportCategory, details: string) {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.user) {
+    throw new Error('You must be logged in to report posts')
+  }
+
+  const { error } = await supabase
+    .from('post_reports')
+    .insert({
+      post_id: postId,
+      reporter_id: session.user.id,
+      category,
+      details: details.trim() || null,
+    })
+
+  if (error) {
+    // 23505: unique (post_id, reporter_id)
+    if (error.code === '23505') {
+      throw new Error('You have already reported this post')
+    }
+    console.error('Error reporting post:', error)
+    throw error
+  }
+}
+
+/**
+ * The signed-in user's current posting ban, if any
+ *
+ * @returns The ban that ends last, or null
+ */
+export async function getMyPostingBan(): Promise<{ endsAt: string; reason: string } | null> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.user) return null
+
+  const { data, error } = await supabase
+    .from('posting_bans')
+    .select('ends_at, reason')
+    .eq('user_id', session.user.id)
+    .is('lifted_at', null)
+    .gt('ends_at', new Date().toISOString())
+    .order('ends_at', { ascending: false })
+    .limit(1)
+
+  if (error) {
+    console.error('Error fetching posting ban:', error)
+    throw error
+  }
+
+  const ban = data?.[0]
+  return ban ? { endsAt: ban.ends_at, reason: ban.reason } : null
+}
+
+/**
+ * Warnings the signed-in user has not dismissed yet
+ */
+export async function getMyWarnings(): Promise<ModerationWarning[]> {
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session?.user) return []
+
+  const { data, error } = await supabase
+    .from('moderation_warnings')
+    .select('id, message, created_at')
+    .eq('user_id', session.user.id)
+    .is('acknowledged_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching warnings:', error)
+    throw error
+  }
+
+  return (data || []).map((row) => ({ id: row.id, message: row.message, createdAt: row.created_at }))
+}
+
+export async function acknowledgeWarning(warningId: string) {
+  const { error } = await supabase.rpc('acknowledge_moderation_warning', { p_warning_id: warningId })
+
+  if (error) {
+    console.error('Error acknowledging warning:', error)
+    throw error
+  }
+}
+
+// ---------------------------------------------------------------------
+// Word filters
+// ---------------------------------------------------------------------
+
+export async function getWordFilters(): Promise<WordFilter[]> {
+  const { data, error } = await supabase
+    .from('moderation_word_filters')
+    .select('id, term, created_at')
+    .order('term')
+
+  if (error) {
+    console.error('Error fetching word filters:', error)
+    throw error
+  }
+
+  return (data || []).map((row) => ({ id: row.id, term: row.term, createdAt: row.created_at }))
+}
+
+/**
+ * Find the first filtered term in a piece of text. Matching is
+ * case-insensitive and anywhere in the text, as Thai is written without
+ * spaces between words.
+ *
+ * @param text - Post or reply content
+ * @param terms - Filtered terms
+ * @returns The matching term, or null
+ */
+export function findFilteredTerm(text: string, terms: string[]): string | null {
+  const normalized = text.toLocaleLowerCase()
+  return terms.find((term) => normalized.includes(term.toLocaleLowerCase())) ?? null
+}
+
+/**
+ * Check that the signed-in user may publish some content: they are not
+ * banned from posting and it contains no filtered term. Called by
+ * createPost and addReply before inserting, so the user gets a clear
+ * message; RLS enforces the ban and a trigger the word filters as well.
+ *
+ * @param content - Post or reply text
+ * @throws ModerationError with a message for the user
+ */
+export async function assertCanPublish(content: string) {
+  const [ban, filters] = await Promise.all([getMyPostingBan(), getWordFilters()])
+
+  if (ban) {
+    throw new ModerationError(
+      `You cannot post or reply until ${new Date(ban.endsAt).toLocaleString()}. Reason: ${ban.reason}`
+    )
+  }
+
+  const term = findFilteredTerm(content, filters.map((filter) => filter.term))
+  if (term) {
+    throw new ModerationError(`Your message contains "${term}", which is not allowed here. Please edit it and try again.`)
+  }
+}
+
+export async function addWordFilter(term: string): Promise<WordFilter> {
+  const { data, error } = await supabase.rpc('moderate_add_word_filter', { p_term: term })
+
+  if (error) {
+    console.error('Error adding word filter:', error)
+    throw error
+  }
+
+  return { id: data.id, term: data.term, createdAt: data.created_at }
+}
+
+export async function removeWordFilter(filterId: string) {
+  const { error } = await supabase.rpc('moderate_remove_word_filter', { p_filter_id: filterId })
+
+  if (error) {
+    console.error('Error removing word filter:', error)
+    throw error
+  }
+}
+
+// ---------------------------------------------------------------------
+// Moderation queue and actions (staff)
+// ---------------------------------------------------------------------
+
+export async function getModerationQueue(): Promise<ModerationQueueItem[]> {
+  const { data, error } = await supabase.rpc('moderation_queue')
+
+  if (error) {
+    console.error('Error fetching moderation queue:', error)
+    throw error
+  }
+
+  return ((data as QueueRow[] | null) || []).map((row) => ({
+    postId: row.post_id,
+    content: row.content,
+    imageUrl: row.image_url,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    isHidden: row.is_hidden,
+    authorId: row.author_id,
+    authorName: row.author_name,
+    authorEmail: row.author_email,
+    reportCount: row.report_count,
+    lastReportedAt: row.last_reported_at,
+    reports: (row.reports as unknown as QueueReportRow[]).map((report) => ({
+      category: report.category,
+      details: report.details,
+      reporter: report.reporter,
+      createdAt: report.created_at,
+    })),
+  }))
+}
+
+/**
+ * Hide a post from the feed (or restore it); hiding closes its reports
+ */
+export async function setPostHidden(postId: string, hidden: boolean, reason: string) {
+  const { error } = await supabase.rpc('moderate_set_post_hidden', {
+    p_post_id: postId,
+    p_hidden: hidden,
+    p_reason: reason,
+  })
+
+  if (error) {
+    console.error('Error hiding post:', error)
+    throw error
+  }
+}
+
+export async function deletePostAsModerator(postId: string, reason: string) {
+  const { error } = await supabase.rpc('moderate_delete_post', { p_post_id: postId, p_reason: reason })
+
+  if (error) {
+    console.error('Error deleting post:', error)
+    throw error
+  }
+}
+
+/**
+ * Close a post's reports without acting on it
+ */
+export async function dismissReports(postId: string, reason: string) {
+  const { error } = await supabase.rpc('moderate_dismiss_reports', { p_post_id: postId, p_reason: reason })
+
+  if (error) {
+    console.error('Error dismissing reports:', error)
+    throw error
+  }
+}
+
+/**
+ * Warn a user; the reason is what they see
+ *
+ * @param postId - Post that prompted the warning, whose reports are closed
+ */
+export async function warnUser(userId: string, reason: string, postId?: string) {
+  const { error } = await supabase.rpc('moderate_warn_user', {
+    p_user_id: userId,
+    p_reason: reason,
+    p_post_id: postId ?? null,
+  })
+
+  if (error) {
+    console.error('Error warning user:', error)
+    throw error
+  }
+}
+
+/**
+ * Stop a user posting and replying for a number of hours
+ *
+ * @param postId - Post that prompted the ban, whose reports are closed
+ */
+export async function banUser(userId: string, hours: number, reason: string, postId?: string) {
+  const { error } = await supabase.rpc('moderate_ban_user', {
+    p_user_id: userId,
+    p_hours: hours,
+    p_reason: reason,
+    p_post_id: postId ?? null,
+  })
+
+  if (error) {
+    console.error('Error banning user:', error)
+    throw error
+  }
+}
+
+export async function getActiveBans(): Promise<PostingBan[]> {
+  const { data, error } = await supabase.rpc('moderation_active_bans')
+
+  if (error) {
+    console.error('Error fetching posting bans:', error)
+    throw error
+  }
+
+  return ((data as BanRow[] | null) || []).map((row) => ({
+    id: row.id,
+    userId: row.user_id,
+    userName: row.user_name,
+    userEmail: row.user_email,
+    endsAt: row.ends_at,
+    reason: row.reason,
+  }))
+}
+
+export async function liftBan(banId: string, reason: string) {
+  const { error } = await supabase.rpc('moderate_lift_ban', { p_ban_id: banId, p_reason: reason })
+
+  if (error) {
+    console.error('Error lifting ban:', error)
+    throw error
+  }
+}
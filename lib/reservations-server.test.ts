@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mapDatabaseError, validateBookingTimes } from './reservations-server'
+
+// Bangkok is UTC+7 all year, so these are easy to read as local times
+function bangkok(isoLocal: string) {
+  return new Date(`${isoLocal}+07:00`)
+}
+
+async function readError(response: Response | null) {
+  expect(response).not.toBeNull()
+  return { status: response!.status, body: await response!.json() }
+}
+
+describe('validateBookingTimes', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    // Thursday 1 Aug 2024, 10:00 in Bangkok
+    vi.setSystemTime(bangkok('2024-08-01T10:00:00'))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('accepts whole slots within weekday opening hours', () => {
+    expect(validateBookingTimes(bangkok('2024-08-02T08:00:00'), bangkok('2024-08-02T21:00:00'))).toBeNull()
+  })
+
+  it('accepts whole slots within weekend opening hours', () => {
+    expect(validateBookingTimes(bangkok('2024-08-03T09:00:00'), bangkok('2024-08-03T18:00:00'))).toBeNull()
+  })
+
+  it('rejects an end time that is not after the start', async () => {
+    const { status, body } = await readError(
+      validateBookingTimes(bangkok('2024-08-02T10:00:00'), bangkok('2024-08-02T10:00:00'))
+    )
+    expect(status).toBe(422)
+    expect(body).toEqual({ error: 'End time must be after start time', code: 'INVALID_TIME' })
+  })
+
+  it('rejects times off the 30 minute grid', async () => {
+    const { body } = await readError(
+      validateBookingTimes(bangkok('2024-08-02T10:15:00'), bangkok('2024-08-02T11:00:00'))
+    )
+    expect(body.error).toBe('Times must fall on 30 minute slots')
+  })
+
+  it('rejects a start time in the past', async () => {
+    const { body } = await readError(
+      validateBookingTimes(bangkok('2024-08-01T09:30:00'), bangkok('2024-08-01T11:00:00'))
+    )
+    expect(body.error).toBe('Start time must be in the future')
+  })
+
+  it('rejects a booking that runs into the next Bangkok day', async () => {
+    const { body } = await readError(
+      validateBookingTimes(bangkok('2024-08-02T20:00:00'), bangkok('2024-08-03T09:00:00'))
+    )
+    expect(body.error).toBe('A booking must start and end on the same day')
+  })
+
+  it('rejects times outside opening hours', async () => {
+    const weekday = await readError(
+      validateBookingTimes(bangkok('2024-08-02T07:30:00'), bangkok('2024-08-02T09:00:00'))
+    )
+    expect(weekday.body.error).toBe('The library is open 8:00-21:00 on weekdays')
+
+    const weekend = await readError(
+      validateBookingTimes(bangkok('2024-08-04T17:00:00'), bangkok('2024-08-04T18:30:00'))
+    )
+    expect(weekend.body.error).toBe('The library is open 9:00-18:00 on weekends')
+  })
+})
+
+describe('mapDatabaseError', () => {
+  it('returns quota violations with their details', async () => {
+    const violation = {
+      code: 'max_upcoming_bookings',
+      message: 'Students can have up to 3 upcoming bookings',
+      role: 'student',
+      limit: 3,
+      used: 3,
+      requested: 1,
+    }
+
+    const { status, body } = await readError(
+      mapDatabaseError({ message: violation.message, hint: 'booking_quota', details: JSON.stringify(violation) })
+    )
+    expect(status).toBe(422)
+    expect(body).toEqual({ error: violation.message, code: 'QUOTA_EXCEEDED', details: violation })
+  })
+
+  it('maps the booking horizon with the days from the policy', async () => {
+    const { status, body } = await readError(
+      mapDatabaseError({ message: 'Outside the booking horizon: rooms can be booked up to 14 days ahead' })
+    )
+    expect(status).toBe(422)
+    expect(body).toEqual({ error: 'Rooms can be booked up to 14 days ahead', code: 'OUTSIDE_BOOKING_HORIZON' })
+  })
+
+  it('maps overlaps and booking blocks', async () => {
+    const overlap = await readError(
+      mapDatabaseError({ message: 'Overlapping reservation for this room and time period is not allowed' })
+    )
+    expect(overlap.status).toBe(409)
+    expect(overlap.body.code).toBe('OVERLAP')
+
+    const blocked = await readError(
+      mapDatabaseError({ message: 'Booking blocked until 2024-08-10 09:00 because of repeated no-shows' })
+    )
+    expect(blocked.status).toBe(403)
+    expect(blocked.body.code).toBe('BOOKING_BLOCKED')
+  })
+
+  it('hides unknown errors behind a server error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    const { status, body } = await readError(mapDatabaseError({ message: 'relation "rooms" does not exist' }))
+    expect(status).toBe(500)
+    expect(body).toEqual({ error: 'Something went wrong with your reservation', code: 'SERVER_ERROR' })
+
+    vi.restoreAllMocks()
+  })
+})
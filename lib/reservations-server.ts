@@ -0,0 +1,258 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+import { formatInTimeZone } from 'date-fns-tz'
+import { BANGKOK_TZ, MAX_SERIES_OCCURRENCES, OPERATING_HOURS } from '@/constants/reservationsConstants'
+import { getQuotaViolation } from '@/lib/logic/reservations'
+import type { ReservationErrorCode } from '@/app/reservations/types'
+
+// Shared validation and error handling for the /api/reservations routes.
+// Every error response has the shape { error, code, details? } so the
+// client can branch on `code` instead of matching message text.
+
+const STATUS_BY_CODE: Record<ReservationErrorCode, number> = {
+  UNAUTHENTICATED: 401,
+  FORBIDDEN: 403,
+  INVALID_REQUEST: 400,
+  INVALID_TIME: 422,
+  OUTSIDE_BOOKING_HORIZON: 422,
+  NOT_FOUND: 404,
+  ROOM_NOT_FOUND: 404,
+  OVER_CAPACITY: 422,
+  OVERLAP: 409,
+  QUOTA_EXCEEDED: 422,
+  BOOKING_BLOCKED: 403,
+  HOLD_EXPIRED: 409,
+  NOT_MODIFIABLE: 409,
+  CHECK_IN_UNAVAILABLE: 409,
+  WAITLIST_UNAVAILABLE: 409,
+  SERVER_ERROR: 500,
+}
+
+// Bookings are made in whole slots
+const SLOT_MS = 30 * 60 * 1000
+
+/**
+ * Build an error response for a reservation endpoint
+ *
+ * @param code - Machine-readable error code (sets the HTTP status)
+ * @param message - Human-readable message, safe to show to users
+ * @param details - Extra data, e.g. zod issues or a quota violation
+ */
+export function reservationError(code: ReservationErrorCode, message: string, details?: unknown) {
+  return NextResponse.json(
+    details === undefined ? { error: message, code } : { error: message, code, details },
+    { status: STATUS_BY_CODE[code] }
+  )
+}
+
+const isoTime = z.string().datetime({ offset: true })
+
+export const reservationTimesSchema = z.object({
+  startTime: isoTime,
+  endTime: isoTime,
+})
+
+export const createReservationSchema = reservationTimesSchema.extend({
+  roomId: z.number().int().positive(),
+  agenda: z.string().trim().min(1, 'Agenda is required').max(500),
+  numPeople: z.number().int().min(1),
+})
+
+// Any subset of the booking's fields; the times move together
+export const modifyReservationSchema = createReservationSchema
+  .partial()
+  .refine(body => Object.keys(body).length > 0, 'Nothing to change')
+  .refine(
+    body => (body.startTime === undefined) === (body.endTime === undefined),
+    'startTime and endTime must be changed together'
+  )
+
+const bangkokDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected yyyy-MM-dd')
+const slotTime = z.string().regex(/^\d{2}:[03]0:00$/, 'Expected a 30 minute slot as HH:mm:ss')
+
+// A recurrence rule, in the argument shape of expand_reservation_series
+export const seriesRuleSchema = z
+  .object({
+    roomId: z.number().int().positive(),
+    frequency: z.enum(['daily', 'weekly', 'custom']),
+    weekdays: z.array(z.number().int().min(0).max(6)).max(7).default([]),
+    startDate: bangkokDate,
+    untilDate: bangkokDate.nullable().default(null),
+    occurrenceCount: z.number().int().min(1).max(MAX_SERIES_OCCURRENCES).nullable().default(null),
+    slotStart: slotTime,
+    slotEnd: slotTime,
+  })
+  .refine(rule => rule.untilDate !== null || rule.occurrenceCount !== null, 'untilDate or occurrenceCount is required')
+  .refine(rule => rule.frequency !== 'custom' || rule.weekdays.length > 0, 'Custom rules need at least one weekday')
+
+export const createSeriesSchema = z.intersection(
+  seriesRuleSchema,
+  z.object({
+    agenda: z.string().trim().min(1, 'Agenda is required').max(500),
+    numPeople: z.number().int().min(1),
+  })
+)
+
+export const joinWaitlistSchema = createReservationSchema
+
+/**
+ * Map a parsed recurrence rule onto the series functions' arguments
+ *
+ * @param rule - Output of seriesRuleSchema
+ */
+export function toSeriesArgs(rule: z.infer<typeof seriesRuleSchema>) {
+  return {
+    p_room_id: rule.roomId,
+    p_frequency: rule.frequency,
+    p_weekdays: rule.frequency === 'custom' ? rule.weekdays : [],
+    p_start_date: rule.startDate,
+    p_until_date: rule.untilDate,
+    p_occurrence_count: rule.occurrenceCount,
+    p_slot_start: rule.slotStart,
+    p_slot_end: rule.slotEnd,
+  }
+}
+
+export const availabilityQuerySchema = z.object({
+  roomId: z.coerce.number().int().positive(),
+  date: bangkokDate,
+})
+
+export const roomSearchQuerySchema = z
+  .object({
+    partySize: z.coerce.number().int().min(1).optional(),
+    // Comma-separated amenity slugs, e.g. "projector,whiteboard"
+    amenities: z
+      .string()
+      .optional()
+      .transform(value => (value ? value.split(',') : []))
+      .pipe(z.array(z.string().regex(/^[a-z0-9_]+$/, 'Unknown amenity'))),
+    location: z.string().trim().max(100).optional(),
+    freeForMinutes: z.coerce.number().int().min(15).max(12 * 60).optional(),
+    freeFrom: isoTime.optional(),
+    freeTo: isoTime.optional(),
+  })
+  .refine(query => (query.freeFrom === undefined) === (query.freeTo === undefined), 'freeFrom and freeTo go together')
+  .refine(query => !(query.freeForMinutes && query.freeFrom), 'Use either freeForMinutes or freeFrom/freeTo')
+  .refine(query => !query.freeFrom || !query.freeTo || new Date(query.freeFrom) < new Date(query.freeTo), 'freeTo must be after freeFrom')
+
+/**
+ * Check a requested time range against the booking rules the UI applies:
+ * whole 30 minute slots, in the future and within one day's opening hours
+ *
+ * @returns An error response, or null when the times are acceptable
+ */
+export function validateBookingTimes(start: Date, end: Date) {
+  if (end <= start) {
+    return reservationError('INVALID_TIME', 'End time must be after start time')
+  }
+
+  if (start.getTime() % SLOT_MS !== 0 || end.getTime() % SLOT_MS !== 0) {
+    return reservationError('INVALID_TIME', 'Times must fall on 30 minute slots')
+  }
+
+  if (start <= new Date()) {
+    return reservationError('INVALID_TIME', 'Start time must be in the future')
+  }
+
+  const day = formatInTimeZone(start, BANGKOK_TZ, 'yyyy-MM-dd')
+  if (formatInTimeZone(end, BANGKOK_TZ, 'yyyy-MM-dd') !== day) {
+    return reservationError('INVALID_TIME', 'A booking must start and end on the same day')
+  }
+
+  const weekday = Number(formatInTimeZone(start, BANGKOK_TZ, 'i'))
+  const hours = weekday >= 6 ? OPERATING_HOURS.weekend : OPERATING_HOURS.weekday
+  const minuteOfDay = (date: Date) =>
+    Number(formatInTimeZone(date, BANGKOK_TZ, 'H')) * 60 + Number(formatInTimeZone(date, BANGKOK_TZ, 'm'))
+
+  if (minuteOfDay(start) < hours.start * 60 || minuteOfDay(end) > hours.end * 60) {
+    return reservationError(
+      'INVALID_TIME',
+      `The library is open ${hours.start}:00-${hours.end}:00 on ${weekday >= 6 ? 'weekends' : 'weekdays'}`
+    )
+  }
+
+  return null
+}
+
+// check_in_reservation's checkInError values, other than "not found"
+const CHECK_IN_MESSAGES = [
+  'released as a no-show',
+  'Only confirmed reservations can be checked in',
+  'Check-in is not open yet',
+  'has already ended',
+]
+
+// join_reservation_waitlist's refusals; each message is safe to show
+const WAITLIST_MESSAGES = [
+  'Cannot join the waitlist',
+  'please book it directly',
+  'You already have a booking',
+  'already on the waitlist',
+]
+
+/**
+ * Turn an error raised by a reservation database function into a response
+ *
+ * The functions raise plain-text exceptions (see the reservation
+ * migrations); quota violations carry their data in `details`.
+ *
+ * @param error - Supabase/PostgREST error, or a { message } built from a
+ *   jsonb error result such as confirm_reservation's confirmError or
+ *   check_in_reservation's checkInError
+ */
+export function mapDatabaseError(error: { message: string; hint?: string | null; details?: string | null }) {
+  const violation = getQuotaViolation(error)
+  if (violation) {
+    return reservationError('QUOTA_EXCEEDED', violation.message, violation)
+  }
+
+  const { message } = error
+
+  if (message.startsWith('Outside the booking horizon')) {
+    // check_booking_horizon names the days from reservation_policy
+    return reservationError('OUTSIDE_BOOKING_HORIZON', message.replace('Outside the booking horizon: rooms', 'Rooms'))
+  }
+  if (message.includes('Booking blocked')) {
+    return reservationError('BOOKING_BLOCKED', message)
+  }
+  if (message.includes('Overlapping reservation')) {
+    return reservationError('OVERLAP', 'This time slot is already booked')
+  }
+  if (message.includes('hold has expired')) {
+    return reservationError('HOLD_EXPIRED', 'Your reservation hold expired. Please try again.')
+  }
+  if (message.startsWith('Waitlist entry not found')) {
+    return reservationError('NOT_FOUND', 'Waitlist entry not found')
+  }
+  if (message.includes('not found or not yours')) {
+    return reservationError('NOT_FOUND', 'Reservation not found')
+  }
+  if (message.includes('Only upcoming confirmed reservations')) {
+    return reservationError('NOT_MODIFIABLE', message)
+  }
+  if (message === 'Reservation is not in pending state') {
+    return reservationError('NOT_MODIFIABLE', 'This booking is no longer waiting to be confirmed')
+  }
+  if (CHECK_IN_MESSAGES.some(text => message.includes(text))) {
+    return reservationError('CHECK_IN_UNAVAILABLE', message)
+  }
+  if (WAITLIST_MESSAGES.some(text => message.includes(text))) {
+    return reservationError('WAITLIST_UNAVAILABLE', message)
+  }
+  if (message === 'Room not found') {
+    return reservationError('ROOM_NOT_FOUND', message)
+  }
+  if (message.includes('exceeds room capacity')) {
+    return reservationError('OVER_CAPACITY', message)
+  }
+  if (message === 'Agenda is required') {
+    return reservationError('INVALID_REQUEST', message)
+  }
+  if (message.startsWith('Invalid')) {
+    return reservationError('INVALID_TIME', message)
+  }
+
+  console.error('Reservation database error:', error)
+  return reservationError('SERVER_ERROR', 'Something went wrong with your reservation')
+}
@@ -0,0 +1,32 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { Database } from '@/types/supabase'
+
+let adminClient: SupabaseClient<Database> | null = null
+
+// Create (once) a Supabase client with the service role key (bypasses RLS)
+// WARNING: Server-side only - never import this from a client component
+export function getSupabaseAdmin(): SupabaseClient<Database> {
+  if (adminClient) {
+    return adminClient
+  }
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl) {
+    throw new Error('Missing environment variable: NEXT_PUBLIC_SUPABASE_URL')
+  }
+
+  if (!serviceRoleKey) {
+    throw new Error('Missing environment variable: SUPABASE_SERVICE_ROLE_KEY')
+  }
+
+  adminClient = createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+
+  return adminClient
+}
@@ -0,0 +1,129 @@
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js'
+import { createServerClient } from '@supabase/ssr'
+import { NextRequest, NextResponse } from 'next/server'
+import { Database } from '@/types/supabase'
+import { getProfileRole, hasRequiredRole, RoleRequirement } from '@/lib/authz'
+
+// API routes accept the caller's access token as "Authorization: Bearer
+// <token>" (sent by reservationApi and other fetch helpers) or, failing
+// that, the Supabase session cookies the browser client keeps. middleware.ts
+// refreshes those cookies, so route handlers only read them.
+
+/**
+ * Supabase client acting as the caller of an API route
+ */
+export interface RequestSupabase {
+  client: SupabaseClient<Database>
+  user: User
+  /** profiles.role, resolved by getProfileRole like AuthContext */
+  role: string
+}
+
+function createClientForToken(token: string) {
+  return createClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      auth: {
+        persistSession: false,
+        autoRefreshToken: false,
+      },
+      global: {
+        headers: { Authorization: `Bearer ${token}` },
+      },
+    }
+  )
+}
+
+function createClientForCookies(request: NextRequest) {
+  return createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        // Refreshed sessions are written back by middleware.ts
+        setAll: () => {},
+      },
+    }
+  )
+}
+
+/**
+ * Create a Supabase client that runs queries as the request's user, so RLS
+ * applies exactly as it does in the browser
+ *
+ * @param request - Incoming API request
+ * @returns Client, user and role, or null when there is no valid session
+ */
+export async function getSupabaseForRequest(request: NextRequest): Promise<RequestSupabase | null> {
+  const token = request.headers.get('authorization')?.match(/^Bearer (.+)$/)?.[1]
+  const client = token ? createClientForToken(token) : createClientForCookies(request)
+
+  const { data: { user }, error } = await client.auth.getUser(token)
+  if (error || !user) {
+    return null
+  }
+
+  return { client, user, role: await getProfileRole(client, user.id) }
+}
+
+/**
+ * Build the 401/403 response for a request that fails its role requirement.
+ * Same { error, code } shape as the reservation API errors.
+ */
+function authorizationError(code: 'UNAUTHENTICATED' | 'FORBIDDEN') {
+  return code === 'UNAUTHENTICATED'
+    ? NextResponse.json({ error: 'You must be signed in', code }, { status: 401 })
+    : NextResponse.json({ error: 'You do not have permission to do this', code }, { status: 403 })
+}
+
+/**
+ * Resolve the caller and check their role
+ *
+ * For routes whose requirement depends on the request (e.g. the report
+ * being exported); otherwise wrap the handler in withAuth.
+ *
+ * @param request - Incoming API request
+ * @param requirement - Roles the route needs
+ * @returns The caller, or the error response to send
+ */
+export async function authorizeRequest(
+  request: NextRequest,
+  requirement: RoleRequirement
+): Promise<{ caller: RequestSupabase; response?: never } | { caller?: never; response: NextResponse }> {
+  const caller = await getSupabaseForRequest(request)
+  if (!caller) {
+    return { response: authorizationError('UNAUTHENTICATED') }
+  }
+
+  if (!hasRequiredRole(caller.role, requirement)) {
+    return { response: authorizationError('FORBIDDEN') }
+  }
+
+  return { caller }
+}
+
+/**
+ * Wrap an API route handler so it only runs for callers with the
+ * required role
+ *
+ * @example
+ * export const GET = withAuth(STAFF_ROLES, async (request, caller) => { ... })
+ *
+ * @param requirement - 'authenticated' or the roles allowed
+ * @param handler - Receives the request, the resolved caller and the route context
+ */
+export function withAuth<Context = unknown>(
+  requirement: RoleRequirement,
+  handler: (request: NextRequest, caller: RequestSupabase, context: Context) => Promise<Response>
+) {
+  return async (request: NextRequest, context: Context) => {
+    const { caller, response } = await authorizeRequest(request, requirement)
+    if (response) {
+      return response
+    }
+
+    return handler(request, caller, context)
+  }
+}
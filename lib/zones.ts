@@ -0,0 +1,200 @@
+/**
+ * LIBRARY ZONE REGISTRY
+ *
+ * Data access for the library_zones table, the single list of zones used
+ * by occupancy monitoring (OccupancyContext) and the communication feed
+ * (ZoneSelector, post zone tags).
+ *
+ * Writes go through the audited admin_* functions (see the
+ * admin_zones_amenities migration): only admins may create, update or
+ * delete zones, and every change is recorded in admin_audit_log.
+ */
+
+import { supabase } from '@/lib/supabase'
+
+/**
+ * A zone as stored in the registry
+ */
+export interface LibraryZone {
+  id: string
+  name: string
+  floor: number
+  capacity: number
+  description: string | null
+  /** Opening time, "HH:MM" Bangkok time */
+  opensAt: string
+  /** Closing time, "HH:MM" Bangkok time */
+  closesAt: string
+  isActive: boolean
+}
+
+/**
+ * Editable zone fields
+ */
+export type LibraryZoneInput = Omit<LibraryZone, 'id'>
+
+const ZONE_COLUMNS = 'id, name, floor, capacity, description, opens_at, closes_at, is_active'
+
+type ZoneRow = {
+  id: string
+  name: string
+  floor: number
+  capacity: number
+  description: string | null
+  opens_at: string
+  closes_at: string
+  is_active: boolean
+}
+
+function toZone(row: ZoneRow): LibraryZone {
+  return {
+    id: row.id,
+    name: row.name,
+    floor: row.floor,
+    capacity: row.capacity,
+    description: row.description,
+    // Postgres returns time as "HH:MM:SS"
+    opensAt: row.opens_at.slice(0, 5),
+    closesAt: row.closes_at.slice(0, 5),
+    isActive: row.is_active,
+  }
+}
+
+function toArgs(zone: Partial<LibraryZoneInput>) {
+  return {
+    p_name: zone.name,
+    p_floor: zone.floor,
+    p_capacity: zone.capacity,
+    // An empty description clears it
+    p_description: zone.description === null ? '' : zone.description,
+    p_opens_at: zone.opensAt,
+    p_closes_at: zone.closesAt,
+    p_is_active: zone.isActive,
+  }
+}
+
+/**
+ * Fetch zones ordered by floor and name
+ *
+ * @param options.includeInactive - Also return retired zones (default: false)
+ * @returns Zones from the registry
+ */
+export async function getZones(options: { includeInactive?: boolean } = {}): Promise<LibraryZone[]> {
+  let query = supabase
+    .from('library_zones')
+    .select(ZONE_COLUMNS)
+    .order('floor')
+    .order('name')
+
+  if (!options.includeInactive) {
+    query = query.eq('is_active', true)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching zones:', error)
+    throw error
+  }
+
+  return (data as ZoneRow[] | null || []).map(toZone)
+}
+
+/**
+ * Fetch a single zone
+ *
+ * @param zoneId - Zone ID
+ * @returns Zone or null if not found
+ */
+export async function getZoneById(zoneId: string): Promise<LibraryZone | null> {
+  const { data, error } = await supabase
+    .from('library_zones')
+    .select(ZONE_COLUMNS)
+    .eq('id', zoneId)
+    .single()
+
+  if (error) {
+    if (error.code === 'PGRST116') { // Record not found
+      return null
+    }
+    console.error('Error fetching zone:', error)
+    throw error
+  }
+
+  return toZone(data as ZoneRow)
+}
+
+/**
+ * Create a zone (admin only)
+ *
+ * @param zone - Zone fields
+ * @param reason - Optional note for the audit log
+ * @returns The created zone
+ */
+export async function createZone(zone: LibraryZoneInput, reason?: string): Promise<LibraryZone> {
+  const { data, error } = await supabase.rpc('admin_create_zone', {
+    p_name: zone.name,
+    p_floor: zone.floor,
+    p_capacity: zone.capacity,
+    p_description: zone.description,
+    p_opens_at: zone.opensAt,
+    p_closes_at: zone.closesAt,
+    p_is_active: zone.isActive,
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error creating zone:', error)
+    throw error
+  }
+
+  return toZone(data as ZoneRow)
+}
+
+/**
+ * Update a zone (admin only)
+ *
+ * @param zoneId - Zone ID
+ * @param changes - Fields to change
+ * @param reason - Optional note for the audit log
+ * @returns The updated zone
+ */
+export async function updateZone(
+  zoneId: string,
+  changes: Partial<LibraryZoneInput>,
+  reason?: string
+): Promise<LibraryZone> {
+  const { data, error } = await supabase.rpc('admin_update_zone', {
+    p_zone_id: zoneId,
+    ...toArgs(changes),
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error updating zone:', error)
+    throw error
+  }
+
+  return toZone(data as ZoneRow)
+}
+
+/**
+ * Delete a zone (admin only)
+ *
+ * Zones referenced by posts cannot be deleted; retire them with
+ * updateZone(id, { isActive: false }) instead.
+ *
+ * @param zoneId - Zone ID
+ * @param reason - Optional note for the audit log
+ */
+export async function deleteZone(zoneId: string, reason?: string): Promise<void> {
+  const { error } = await supabase.rpc('admin_delete_zone', {
+    p_zone_id: zoneId,
+    p_reason: reason || null,
+  })
+
+  if (error) {
+    console.error('Error deleting zone:', error)
+    throw error
+  }
+}
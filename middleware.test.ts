@@ -0,0 +1,163 @@
+import { NextRequest } from 'next/server'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { middleware } from './middleware'
+
+type CookieToSet = { name: string; value: string; options?: Record<string, unknown> }
+type CookieMethods = { getAll: () => { name: string; value: string }[]; setAll: (cookies: CookieToSet[]) => void }
+
+const mocks = vi.hoisted(() => ({
+  createServerClient: vi.fn(),
+}))
+
+vi.mock('@supabase/ssr', () => ({
+  createServerClient: mocks.createServerClient,
+}))
+
+const user = { id: 'user-1', email: 'student@example.com' }
+
+/**
+ * Stand in for the Supabase server client
+ *
+ * @param options.user - User getUser resolves to, or null when signed out
+ * @param options.role - profiles.role for the user
+ * @param options.refreshed - Cookies Supabase writes while refreshing the session
+ */
+function mockSupabase({
+  user: currentUser = null,
+  role = 'student',
+  refreshed = [],
+}: { user?: typeof user | null; role?: string; refreshed?: CookieToSet[] }) {
+  mocks.createServerClient.mockImplementation((_url: string, _key: string, { cookies }: { cookies: CookieMethods }) => ({
+    auth: {
+      getUser: async () => {
+        if (refreshed.length > 0) cookies.setAll(refreshed)
+        return { data: { user: currentUser }, error: null }
+      },
+    },
+    from: () => ({
+      select: () => ({ eq: () => ({ single: async () => ({ data: { role }, error: null }) }) }),
+    }),
+  }))
+}
+
+function request(pathname: string, cookie?: string) {
+  return new NextRequest(new URL(pathname, 'http://localhost:3000'), {
+    headers: cookie ? { cookie } : {},
+  })
+}
+
+describe('middleware', () => {
+  afterEach(() => {
+    vi.clearAllMocks()
+  })
+
+  describe('session refresh', () => {
+    const refreshed = [
+      { name: 'sb-access-token', value: 'new-access', options: { path: '/', httpOnly: true } },
+      { name: 'sb-refresh-token', value: 'new-refresh', options: { path: '/', httpOnly: true } },
+    ]
+
+    it('reads the session from the request cookies', async () => {
+      mockSupabase({ user })
+      const cookies: { name: string; value: string }[][] = []
+      const createServerClient = mocks.createServerClient.getMockImplementation()!
+      mocks.createServerClient.mockImplementation((url, key, options: { cookies: CookieMethods }) => {
+        cookies.push(options.cookies.getAll())
+        return createServerClient(url, key, options)
+      })
+
+      await middleware(request('/dashboard', 'sb-access-token=old-access'))
+
+      expect(cookies[0]).toEqual([{ name: 'sb-access-token', value: 'old-access' }])
+    })
+
+    it('sends refreshed tokens back to the browser', async () => {
+      mockSupabase({ user, refreshed })
+
+      const response = await middleware(request('/dashboard', 'sb-access-token=old-access'))
+
+      expect(response.headers.get('location')).toBeNull()
+      expect(response.cookies.get('sb-access-token')?.value).toBe('new-access')
+      expect(response.cookies.get('sb-refresh-token')?.value).toBe('new-refresh')
+      expect(response.cookies.get('sb-access-token')?.httpOnly).toBe(true)
+    })
+
+    it('passes refreshed tokens on to the page being rendered', async () => {
+      mockSupabase({ user, refreshed })
+
+      const response = await middleware(request('/dashboard', 'sb-access-token=old-access'))
+
+      // NextResponse.next({ request }) forwards the rewritten request cookies
+      expect(response.headers.get('x-middleware-request-cookie')).toContain('sb-access-token=new-access')
+    })
+
+    it('refreshes the session on public pages too', async () => {
+      mockSupabase({ user, refreshed })
+
+      const response = await middleware(request('/login'))
+
+      expect(response.cookies.get('sb-access-token')?.value).toBe('new-access')
+    })
+  })
+
+  describe('signed-out visitors', () => {
+    it('lets them open public pages', async () => {
+      mockSupabase({})
+
+      const response = await middleware(request('/login'))
+
+      expect(response.headers.get('location')).toBeNull()
+    })
+
+    it.each(['/dashboard', '/reservations/new', '/profile', '/admin'])('sends %s to /login', async (pathname) => {
+      mockSupabase({})
+
+      const response = await middleware(request(pathname))
+
+      expect(response.status).toBe(307)
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login')
+    })
+
+    it('sends them to /login once sign-out has cleared the session cookies', async () => {
+      mockSupabase({ refreshed: [{ name: 'sb-access-token', value: '', options: { maxAge: 0 } }] })
+
+      const response = await middleware(request('/profile', 'sb-access-token=expired'))
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/login')
+    })
+  })
+
+  describe('roles', () => {
+    it('lets any signed-in user open authenticated pages', async () => {
+      mockSupabase({ user, role: 'student' })
+
+      const response = await middleware(request('/reservations'))
+
+      expect(response.headers.get('location')).toBeNull()
+    })
+
+    it('sends users without the role to /dashboard', async () => {
+      mockSupabase({ user, role: 'student' })
+
+      const response = await middleware(request('/admin'))
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/dashboard')
+    })
+
+    it('lets staff open staff pages', async () => {
+      mockSupabase({ user, role: 'staff' })
+
+      const response = await middleware(request('/analytics'))
+
+      expect(response.headers.get('location')).toBeNull()
+    })
+
+    it('keeps admin catalogs to admins', async () => {
+      mockSupabase({ user, role: 'staff' })
+
+      const response = await middleware(request('/admin/zones'))
+
+      expect(response.headers.get('location')).toBe('http://localhost:3000/dashboard')
+    })
+  })
+})
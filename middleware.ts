@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { Database } from '@/types/supabase'
+import { getPageRequirement, getProfileRole, hasRequiredRole } from '@/lib/authz'
+
+/**
+ * Page authorization
+ *
+ * Reads the Supabase session from cookies (refreshing it when it has
+ * expired), then applies the PAGE_ACCESS rules from lib/authz: signed-out
+ * visitors go to /login and signed-in users without the role go to
+ * /dashboard. API routes check their own requirement with withAuth.
+ */
+export async function middleware(request: NextRequest) {
+  let response = NextResponse.next({ request })
+
+  const supabase = createServerClient<Database>(
+    process.env.NEXT_PUBLIC_SUPABASE_URL!,
+    process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    {
+      cookies: {
+        getAll: () => request.cookies.getAll(),
+        setAll: (cookiesToSet) => {
+          // Pass refreshed tokens to the page being rendered and back to the browser
+          cookiesToSet.forEach(({ name, value }) => request.cookies.set(name, value))
+          response = NextResponse.next({ request })
+          cookiesToSet.forEach(({ name, value, options }) => response.cookies.set(name, value, options))
+        },
+      },
+    }
+  )
+
+  // getUser (not getSession) validates the token with Supabase Auth
+  const { data: { user } } = await supabase.auth.getUser()
+
+  const requirement = getPageRequirement(request.nextUrl.pathname)
+  if (!requirement) {
+    return response
+  }
+
+  if (!user) {
+    return NextResponse.redirect(new URL('/login', request.url))
+  }
+
+  if (requirement !== 'authenticated' && !hasRequiredRole(await getProfileRole(supabase, user.id), requirement)) {
+    return NextResponse.redirect(new URL('/dashboard', request.url))
+  }
+
+  return response
+}
+
+export const config = {
+  // Everything except API routes, Next.js assets and static files
+  matcher: ['/((?!api|_next/static|_next/image|favicon.ico|fonts/|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico|ttf)$).*)'],
+}
@@ -15,6 +15,7 @@
  *   1. Handles any CORS preflight requests
  *   2. Connects to Supabase with admin privileges
  *   3. Calls the cleanup_expired_holds database function
+ *      (a trigger then offers each released slot to the next waitlisted user)
  *   4. Returns a success or error response
  * 
  * SECURITY:
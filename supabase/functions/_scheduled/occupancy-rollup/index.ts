@@ -0,0 +1,63 @@
+/**
+ * Occupancy Rollup - Scheduled Edge Function
+ * ==========================================
+ * PURPOSE:
+ *   Persists occupancy history for the trend charts. Each run samples the
+ *   live zone counts and refreshes the hourly and daily rollup tables that
+ *   the Supabase occupancy data source reads.
+ *
+ * EXECUTION CONTEXT:
+ *   Runs as a scheduled Edge Function in Supabase, every 5 minutes.
+ *   Requires service role key to have permission to execute database functions.
+ *
+ * PROCESS:
+ *   1. Handles any CORS preflight requests
+ *   2. Connects to Supabase with admin privileges
+ *   3. Calls the run_occupancy_rollup database function
+ *   4. Returns a success or error response
+ */
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.22.0'
+
+// CORS headers to allow cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests (OPTIONS method)
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Create a Supabase client with admin privileges
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Sample live counts and recompute the current/previous hour and day
+    const { error } = await supabaseAdmin.rpc('run_occupancy_rollup')
+
+    if (error) throw error
+
+    return new Response(
+      JSON.stringify({ message: 'Occupancy rollup completed successfully' }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
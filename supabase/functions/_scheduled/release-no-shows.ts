@@ -0,0 +1,67 @@
+/**
+ * Release No-Shows - Scheduled Edge Function
+ * ==========================================
+ * PURPOSE:
+ *   Frees rooms held by confirmed reservations that nobody checked in to.
+ *   Bookings not checked in within the grace period are marked 'no_show',
+ *   and users who reach the no-show limit get a temporary booking block.
+ *
+ * EXECUTION CONTEXT:
+ *   Runs as a scheduled Edge Function in Supabase, every 5 minutes.
+ *   Requires service role key to have permission to execute database functions.
+ *
+ * PROCESS:
+ *   1. Handles any CORS preflight requests
+ *   2. Connects to Supabase with admin privileges
+ *   3. Calls the release_no_show_reservations database function
+ *   4. Returns how many reservations were released
+ *
+ * CONFIGURATION:
+ *   Grace period and penalty thresholds are read from the reservation_policy
+ *   table by the database function, not from this file.
+ */
+
+import { serve } from "https://deno.land/std@0.177.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.22.0'
+
+// CORS headers to allow cross-origin requests
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests (OPTIONS method)
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Create a Supabase client with admin privileges
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Mark missed bookings as no-shows and apply any penalties
+    const { data: released, error } = await supabaseAdmin.rpc('release_no_show_reservations')
+
+    if (error) throw error
+
+    return new Response(
+      JSON.stringify({ message: `Released ${released ?? 0} no-show reservations` }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 200,
+      }
+    )
+  } catch (error) {
+    return new Response(
+      JSON.stringify({ error: error.message }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        status: 400,
+      }
+    )
+  }
+})
@@ -0,0 +1,124 @@
+-- =================================================================
+-- OCCUPANCY INGESTION
+-- =================================================================
+-- This migration adds the storage behind the occupancy ingestion API
+-- (app/api/occupancy/events). Door counters post entry/exit events per
+-- zone; every event is kept in occupancy_events and a trigger keeps the
+-- running headcount for each zone in zone_occupancy.
+-- =================================================================
+
+-- =================================================================
+-- TABLE DEFINITIONS
+-- =================================================================
+
+-- Raw counter events
+-- One row per entry/exit batch reported by a zone counter
+CREATE TABLE IF NOT EXISTS occupancy_events (
+  id bigserial PRIMARY KEY, -- Monotonic event identifier
+  zone_id uuid NOT NULL REFERENCES library_zones(id) ON DELETE CASCADE, -- Zone the counter belongs to
+  direction text NOT NULL CHECK (direction IN ('entry', 'exit')), -- Whether people entered or left
+  count int NOT NULL DEFAULT 1 CHECK (count > 0), -- Number of people in this batch
+  sensor_id text, -- Identifier of the reporting counter (optional)
+  recorded_at timestamptz NOT NULL DEFAULT now(), -- When the counter observed the movement
+  created_at timestamptz NOT NULL DEFAULT now() -- When the event was received
+);
+
+-- Live zone headcounts
+-- Maintained by the apply_occupancy_event trigger, read by OccupancyContext
+CREATE TABLE IF NOT EXISTS zone_occupancy (
+  zone_id uuid PRIMARY KEY REFERENCES library_zones(id) ON DELETE CASCADE, -- One row per zone
+  current_count int NOT NULL DEFAULT 0 CHECK (current_count >= 0), -- People currently in the zone
+  updated_at timestamptz NOT NULL DEFAULT now() -- When the count last changed
+);
+
+-- Index for time-range queries over a zone's events
+CREATE INDEX IF NOT EXISTS occupancy_events_zone_recorded_idx
+  ON occupancy_events(zone_id, recorded_at);
+
+-- =================================================================
+-- Function: apply_occupancy_event
+-- =================================================================
+-- PURPOSE: Applies a newly inserted counter event to zone_occupancy
+-- NOTES:
+--   Counts never drop below zero; counters occasionally miss an entry,
+--   and a negative headcount would break every percentage downstream.
+-- =================================================================
+CREATE OR REPLACE FUNCTION apply_occupancy_event()
+RETURNS trigger AS $$
+DECLARE
+  v_delta int;
+BEGIN
+  v_delta := CASE WHEN NEW.direction = 'entry' THEN NEW.count ELSE -NEW.count END;
+
+  INSERT INTO zone_occupancy (zone_id, current_count, updated_at)
+  VALUES (NEW.zone_id, GREATEST(0, v_delta), now())
+  ON CONFLICT (zone_id) DO UPDATE
+  SET current_count = GREATEST(0, zone_occupancy.current_count + v_delta),
+      updated_at = now();
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS occupancy_events_apply ON occupancy_events;
+CREATE TRIGGER occupancy_events_apply
+AFTER INSERT ON occupancy_events
+FOR EACH ROW EXECUTE FUNCTION apply_occupancy_event();
+
+-- =================================================================
+-- Function: reset_zone_occupancy
+-- =================================================================
+-- PURPOSE: Zeroes all live counts after closing so counter drift does
+-- not carry over into the next day
+-- =================================================================
+CREATE OR REPLACE FUNCTION reset_zone_occupancy()
+RETURNS void AS $$
+BEGIN
+  UPDATE zone_occupancy
+  SET current_count = 0, updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the trigger and the scheduled reset use these. Supabase also
+-- grants new functions to anon and authenticated, so revoke those too.
+REVOKE EXECUTE ON FUNCTION apply_occupancy_event() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION reset_zone_occupancy() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION reset_zone_occupancy() TO service_role;
+
+-- Reset every night at 23:30 Bangkok time (16:30 UTC), after closing
+SELECT cron.schedule(
+  'reset-zone-occupancy',
+  '30 16 * * *',
+  $$ SELECT reset_zone_occupancy(); $$
+);
+
+-- Seed a zero count for every existing zone so reads always return a row
+INSERT INTO zone_occupancy (zone_id)
+SELECT id FROM library_zones
+ON CONFLICT (zone_id) DO NOTHING;
+
+-- =================================================================
+-- ROW LEVEL SECURITY
+-- =================================================================
+-- Events are written only by the ingestion API using the service role,
+-- which bypasses RLS. Live counts are public, like library_zones.
+
+ALTER TABLE occupancy_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE zone_occupancy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view zone_occupancy"
+ON zone_occupancy FOR SELECT
+USING (true);
+
+CREATE POLICY "Admins can view occupancy_events"
+ON occupancy_events FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1 FROM profiles
+    WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+  )
+);
+
+COMMENT ON TABLE occupancy_events IS 'Entry/exit counter events per library zone, received through the ingestion API';
+COMMENT ON TABLE zone_occupancy IS 'Live headcount per library zone, maintained by the apply_occupancy_event trigger';
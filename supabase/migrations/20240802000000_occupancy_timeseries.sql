@@ -0,0 +1,213 @@
+-- =================================================================
+-- OCCUPANCY TIME-SERIES AND ROLLUPS
+-- =================================================================
+-- This migration persists occupancy history so the trend charts show
+-- what actually happened instead of generated data:
+--   occupancy_samples  - periodic snapshots of zone_occupancy
+--   occupancy_hourly   - per-zone hourly average/peak and entry/exit totals
+--   occupancy_daily    - library-wide daily peak/average/visitor totals
+-- The scheduled occupancy-rollup function calls run_occupancy_rollup()
+-- every 5 minutes; every rollup is an idempotent upsert, so re-running
+-- a period simply recomputes it.
+-- Day and hour boundaries follow Bangkok local time (ICT/UTC+7).
+-- =================================================================
+
+-- =================================================================
+-- TABLE DEFINITIONS
+-- =================================================================
+
+-- Raw snapshots
+-- One row per zone per sampling run; all zones share the same sampled_at
+CREATE TABLE IF NOT EXISTS occupancy_samples (
+  id bigserial PRIMARY KEY, -- Sample identifier
+  zone_id uuid NOT NULL REFERENCES library_zones(id) ON DELETE CASCADE, -- Sampled zone
+  sampled_at timestamptz NOT NULL, -- When the snapshot was taken
+  count int NOT NULL CHECK (count >= 0), -- Headcount at that moment
+  capacity int NOT NULL -- Zone capacity at that moment (capacities can change)
+);
+
+CREATE INDEX IF NOT EXISTS occupancy_samples_sampled_at_idx
+  ON occupancy_samples(sampled_at);
+
+-- Hourly rollup per zone
+CREATE TABLE IF NOT EXISTS occupancy_hourly (
+  zone_id uuid NOT NULL REFERENCES library_zones(id) ON DELETE CASCADE, -- Zone
+  hour_start timestamptz NOT NULL, -- Start of the hour
+  avg_count numeric NOT NULL, -- Mean headcount over the hour's samples
+  peak_count int NOT NULL, -- Highest sampled headcount in the hour
+  capacity int NOT NULL, -- Zone capacity during the hour
+  entries int NOT NULL DEFAULT 0, -- People counted entering during the hour
+  exits int NOT NULL DEFAULT 0, -- People counted leaving during the hour
+  sample_count int NOT NULL, -- Samples the averages are based on
+  PRIMARY KEY (zone_id, hour_start)
+);
+
+CREATE INDEX IF NOT EXISTS occupancy_hourly_hour_start_idx
+  ON occupancy_hourly(hour_start);
+
+-- Daily library-wide rollup
+CREATE TABLE IF NOT EXISTS occupancy_daily (
+  day date PRIMARY KEY, -- Bangkok calendar day
+  peak_occupancy numeric NOT NULL, -- Highest library-wide occupancy fraction (0-1)
+  average_occupancy numeric NOT NULL, -- Mean occupancy fraction during opening hours (0-1)
+  total_visitors int NOT NULL, -- Sum of entry events over the day
+  total_capacity int NOT NULL -- Library capacity on that day
+);
+
+-- =================================================================
+-- Function: record_occupancy_sample
+-- =================================================================
+-- PURPOSE: Copies every zone's live count into occupancy_samples
+-- =================================================================
+CREATE OR REPLACE FUNCTION record_occupancy_sample()
+RETURNS void AS $$
+DECLARE
+  v_now timestamptz := now();
+BEGIN
+  INSERT INTO occupancy_samples (zone_id, sampled_at, count, capacity)
+  SELECT z.id, v_now, COALESCE(o.current_count, 0), z.capacity
+  FROM library_zones z
+  LEFT JOIN zone_occupancy o ON o.zone_id = z.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- Function: rollup_occupancy_hour
+-- =================================================================
+-- PURPOSE: (Re)computes occupancy_hourly for the hour starting at p_hour_start
+-- =================================================================
+CREATE OR REPLACE FUNCTION rollup_occupancy_hour(p_hour_start timestamptz)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO occupancy_hourly (
+    zone_id, hour_start, avg_count, peak_count, capacity, entries, exits, sample_count
+  )
+  SELECT
+    s.zone_id,
+    p_hour_start,
+    AVG(s.count),
+    MAX(s.count),
+    MAX(s.capacity),
+    COALESCE((
+      SELECT SUM(e.count) FROM occupancy_events e
+      WHERE e.zone_id = s.zone_id AND e.direction = 'entry'
+        AND e.recorded_at >= p_hour_start AND e.recorded_at < p_hour_start + interval '1 hour'
+    ), 0),
+    COALESCE((
+      SELECT SUM(e.count) FROM occupancy_events e
+      WHERE e.zone_id = s.zone_id AND e.direction = 'exit'
+        AND e.recorded_at >= p_hour_start AND e.recorded_at < p_hour_start + interval '1 hour'
+    ), 0),
+    COUNT(*)
+  FROM occupancy_samples s
+  WHERE s.sampled_at >= p_hour_start AND s.sampled_at < p_hour_start + interval '1 hour'
+  GROUP BY s.zone_id
+  ON CONFLICT (zone_id, hour_start) DO UPDATE
+  SET avg_count = EXCLUDED.avg_count,
+      peak_count = EXCLUDED.peak_count,
+      capacity = EXCLUDED.capacity,
+      entries = EXCLUDED.entries,
+      exits = EXCLUDED.exits,
+      sample_count = EXCLUDED.sample_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- Function: rollup_occupancy_day
+-- =================================================================
+-- PURPOSE: (Re)computes occupancy_daily for a Bangkok calendar day
+-- NOTES:
+--   Peak is taken over sampling runs (all zones share sampled_at), so it
+--   is the true library-wide peak rather than a sum of zone peaks.
+--   The average only covers opening hours (08:00-22:00) so closed hours
+--   do not drag it towards zero.
+-- =================================================================
+CREATE OR REPLACE FUNCTION rollup_occupancy_day(p_day date)
+RETURNS void AS $$
+DECLARE
+  v_day_start timestamptz := (p_day::timestamp AT TIME ZONE 'Asia/Bangkok');
+  v_day_end timestamptz := ((p_day + 1)::timestamp AT TIME ZONE 'Asia/Bangkok');
+BEGIN
+  WITH runs AS (
+    SELECT sampled_at, SUM(count)::numeric AS occupied, SUM(capacity) AS capacity
+    FROM occupancy_samples
+    WHERE sampled_at >= v_day_start AND sampled_at < v_day_end
+    GROUP BY sampled_at
+  )
+  INSERT INTO occupancy_daily (day, peak_occupancy, average_occupancy, total_visitors, total_capacity)
+  SELECT
+    p_day,
+    COALESCE(MAX(occupied / NULLIF(capacity, 0)), 0),
+    COALESCE(AVG(occupied / NULLIF(capacity, 0)) FILTER (
+      WHERE EXTRACT(hour FROM sampled_at AT TIME ZONE 'Asia/Bangkok') BETWEEN 8 AND 21
+    ), 0),
+    COALESCE((
+      SELECT SUM(e.count) FROM occupancy_events e
+      WHERE e.direction = 'entry' AND e.recorded_at >= v_day_start AND e.recorded_at < v_day_end
+    ), 0),
+    COALESCE(MAX(capacity), 0)
+  FROM runs
+  HAVING COUNT(*) > 0
+  ON CONFLICT (day) DO UPDATE
+  SET peak_occupancy = EXCLUDED.peak_occupancy,
+      average_occupancy = EXCLUDED.average_occupancy,
+      total_visitors = EXCLUDED.total_visitors,
+      total_capacity = EXCLUDED.total_capacity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- Function: run_occupancy_rollup
+-- =================================================================
+-- PURPOSE: Entry point for the scheduled occupancy-rollup function.
+--   1. Takes a new sample
+--   2. Recomputes the current and previous hour
+--   3. Recomputes today and yesterday (Bangkok time)
+-- Recomputing the previous hour/day catches late-arriving counter events.
+-- =================================================================
+CREATE OR REPLACE FUNCTION run_occupancy_rollup()
+RETURNS void AS $$
+DECLARE
+  v_hour timestamptz := date_trunc('hour', now());
+  v_today date := (now() AT TIME ZONE 'Asia/Bangkok')::date;
+BEGIN
+  PERFORM record_occupancy_sample();
+
+  PERFORM rollup_occupancy_hour(v_hour - interval '1 hour');
+  PERFORM rollup_occupancy_hour(v_hour);
+
+  PERFORM rollup_occupancy_day(v_today - 1);
+  PERFORM rollup_occupancy_day(v_today);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Samples and rollups are written only by the scheduled occupancy-rollup
+-- function, which uses the service role. Supabase also grants new
+-- functions to anon and authenticated, so revoke those too.
+REVOKE EXECUTE ON FUNCTION record_occupancy_sample() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rollup_occupancy_hour(timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rollup_occupancy_day(date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION run_occupancy_rollup() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION run_occupancy_rollup() TO service_role;
+
+-- =================================================================
+-- ROW LEVEL SECURITY
+-- =================================================================
+-- Rollups are public like the live counts; raw samples are written and
+-- read only by the rollup functions.
+
+ALTER TABLE occupancy_samples ENABLE ROW LEVEL SECURITY;
+ALTER TABLE occupancy_hourly ENABLE ROW LEVEL SECURITY;
+ALTER TABLE occupancy_daily ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view occupancy_hourly"
+ON occupancy_hourly FOR SELECT
+USING (true);
+
+CREATE POLICY "Anyone can view occupancy_daily"
+ON occupancy_daily FOR SELECT
+USING (true);
+
+COMMENT ON TABLE occupancy_samples IS 'Periodic snapshots of zone_occupancy taken by run_occupancy_rollup';
+COMMENT ON TABLE occupancy_hourly IS 'Hourly occupancy rollup per zone, served as HistoricalDataPoint/TwoDayDataPoint';
+COMMENT ON TABLE occupancy_daily IS 'Daily library-wide occupancy rollup, served as WeeklyDataPoint';
@@ -0,0 +1,12 @@
+-- =================================================================
+-- ZONE OCCUPANCY REALTIME
+-- =================================================================
+-- Publishes zone_occupancy changes over Supabase Realtime so
+-- OccupancyContext can update the gauge and zone bars as counts change
+-- instead of waiting for the next poll.
+-- =================================================================
+
+ALTER PUBLICATION supabase_realtime ADD TABLE zone_occupancy;
+
+-- Send the full row on UPDATE so subscribers receive updated_at as well
+ALTER TABLE zone_occupancy REPLICA IDENTITY FULL;
@@ -0,0 +1,74 @@
+-- =================================================================
+-- LIBRARY ZONE REGISTRY
+-- =================================================================
+-- library_zones becomes the single zone registry shared by occupancy
+-- (OccupancyContext) and communication (ZoneSelector). This migration
+-- adds opening hours and lifecycle columns so admins can manage zones
+-- from the app, and keeps zone_occupancy in step with the registry.
+-- =================================================================
+
+ALTER TABLE library_zones
+  ADD COLUMN IF NOT EXISTS opens_at time NOT NULL DEFAULT '08:00', -- Daily opening time (Bangkok)
+  ADD COLUMN IF NOT EXISTS closes_at time NOT NULL DEFAULT '22:00', -- Daily closing time (Bangkok)
+  ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true, -- Retired zones keep their history and posts
+  ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE library_zones
+  ADD CONSTRAINT library_zones_capacity_positive CHECK (capacity > 0),
+  ADD CONSTRAINT library_zones_hours_valid CHECK (opens_at < closes_at);
+
+-- =================================================================
+-- Function: touch_library_zone
+-- =================================================================
+-- PURPOSE: Keeps updated_at current on every zone edit
+-- =================================================================
+CREATE OR REPLACE FUNCTION touch_library_zone()
+RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS library_zones_touch ON library_zones;
+CREATE TRIGGER library_zones_touch
+BEFORE UPDATE ON library_zones
+FOR EACH ROW EXECUTE FUNCTION touch_library_zone();
+
+-- =================================================================
+-- Function: init_zone_occupancy
+-- =================================================================
+-- PURPOSE: Gives every new zone a zero live count so it shows up in
+-- OccupancyContext before its counter reports anything
+-- =================================================================
+CREATE OR REPLACE FUNCTION init_zone_occupancy()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO zone_occupancy (zone_id)
+  VALUES (NEW.id)
+  ON CONFLICT (zone_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS library_zones_init_occupancy ON library_zones;
+CREATE TRIGGER library_zones_init_occupancy
+AFTER INSERT ON library_zones
+FOR EACH ROW EXECUTE FUNCTION init_zone_occupancy();
+
+-- Samples only cover zones that are in service
+CREATE OR REPLACE FUNCTION record_occupancy_sample()
+RETURNS void AS $$
+DECLARE
+  v_now timestamptz := now();
+BEGIN
+  INSERT INTO occupancy_samples (zone_id, sampled_at, count, capacity)
+  SELECT z.id, v_now, COALESCE(o.current_count, 0), z.capacity
+  FROM library_zones z
+  LEFT JOIN zone_occupancy o ON o.zone_id = z.id
+  WHERE z.is_active;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON TABLE library_zones IS 'Zone registry shared by occupancy monitoring and the communication feed';
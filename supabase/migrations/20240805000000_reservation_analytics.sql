@@ -0,0 +1,17 @@
+-- =================================================================
+-- RESERVATION ANALYTICS ACCESS
+-- =================================================================
+-- The /analytics utilization reports need every reservation, including
+-- cancelled and expired holds, which the existing policies only expose
+-- to the booking owner. Library staff and admins may read them all.
+-- =================================================================
+
+CREATE POLICY "Staff and admins can view all reservations"
+  ON reservations FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
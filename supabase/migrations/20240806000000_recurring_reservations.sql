@@ -0,0 +1,318 @@
+-- =================================================================
+-- RECURRING RESERVATIONS
+-- =================================================================
+-- Study groups book the same room at the same time every week. A
+-- reservation series stores the recurrence rule; each occurrence is an
+-- ordinary reservation row linked back through series_id, so the
+-- timeline, overlap checks and MyBookings keep working unchanged.
+--
+-- Rules are expanded here (not in the browser) so the conflict preview
+-- and the booking itself always agree on the dates.
+-- =================================================================
+
+-- =================================================================
+-- SERIES TABLE
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS reservation_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id int NOT NULL REFERENCES rooms(id),
+  user_email text NOT NULL,
+  agenda text,
+  num_people int,
+  -- daily: every day; weekly: the weekday of start_date; custom: weekdays
+  frequency text NOT NULL CHECK (frequency IN ('daily', 'weekly', 'custom')),
+  -- 0 = Sunday ... 6 = Saturday (only used by custom rules)
+  weekdays int[] NOT NULL DEFAULT '{}',
+  start_date date NOT NULL,
+  until_date date,
+  occurrence_count int CHECK (occurrence_count > 0),
+  -- Bangkok wall-clock time of day for every occurrence
+  slot_start time NOT NULL,
+  slot_end time NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (until_date IS NOT NULL OR occurrence_count IS NOT NULL),
+  CHECK (until_date IS NULL OR until_date >= start_date),
+  CHECK (slot_start < slot_end),
+  CHECK (frequency <> 'custom' OR cardinality(weekdays) > 0)
+);
+
+ALTER TABLE reservations
+  ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES reservation_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_reservations_series_id ON reservations(series_id);
+
+ALTER TABLE reservation_series ENABLE ROW LEVEL SECURITY;
+
+-- Series are created through create_reservation_series only
+CREATE POLICY "Users can view their own reservation series"
+  ON reservation_series FOR SELECT
+  TO authenticated
+  USING (user_email = auth.email());
+
+CREATE POLICY "Staff and admins can view all reservation series"
+  ON reservation_series FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
+
+-- =================================================================
+-- BOOKING TIME RULES
+-- =================================================================
+-- The database side of validateBookingTimes (lib/reservations-server.ts):
+-- whole 30 minute slots, in the future, within one day's opening hours
+-- (weekdays 8:00-21:00, weekends 9:00-18:00). Keep in sync with
+-- OPERATING_HOURS in constants/reservationsConstants.tsx.
+--
+-- The booking horizon (7 days ahead here; a reservation_policy setting
+-- from 20240820000000_booking_horizon_policy) is a separate check
+-- because it only applies to single bookings: a series books its whole
+-- run up front.
+
+CREATE OR REPLACE FUNCTION check_booking_times(
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+RETURNS void AS $$
+DECLARE
+  v_start timestamp := p_start_time AT TIME ZONE 'Asia/Bangkok';
+  v_end timestamp := p_end_time AT TIME ZONE 'Asia/Bangkok';
+  v_weekend boolean := extract(isodow FROM v_start) >= 6;
+  v_open time := CASE WHEN v_weekend THEN '09:00' ELSE '08:00' END;
+  v_close time := CASE WHEN v_weekend THEN '18:00' ELSE '21:00' END;
+BEGIN
+  IF p_end_time <= p_start_time THEN
+    RAISE EXCEPTION 'Invalid time range: end time must be after start time';
+  END IF;
+
+  IF extract(epoch FROM p_start_time)::bigint % 1800 <> 0
+    OR extract(epoch FROM p_end_time)::bigint % 1800 <> 0 THEN
+    RAISE EXCEPTION 'Invalid time range: times must fall on 30 minute slots';
+  END IF;
+
+  IF p_start_time <= now() THEN
+    RAISE EXCEPTION 'Invalid time range: start time must be in the future';
+  END IF;
+
+  IF v_end::date <> v_start::date THEN
+    RAISE EXCEPTION 'Invalid time range: a booking must start and end on the same day';
+  END IF;
+
+  IF v_start::time < v_open OR v_end::time > v_close THEN
+    RAISE EXCEPTION 'Invalid time range: the library is open %-% on %',
+      to_char(v_open, 'HH24:MI'), to_char(v_close, 'HH24:MI'),
+      CASE WHEN v_weekend THEN 'weekends' ELSE 'weekdays' END;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION check_booking_horizon(p_start_time timestamptz)
+RETURNS void AS $$
+BEGIN
+  IF (p_start_time AT TIME ZONE 'Asia/Bangkok')::date > (now() AT TIME ZONE 'Asia/Bangkok')::date + 7 THEN
+    RAISE EXCEPTION 'Outside the booking horizon: rooms can be booked up to 7 days ahead';
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =================================================================
+-- RULE EXPANSION
+-- =================================================================
+-- Returns the upcoming occurrences of a rule, oldest first, capped at
+-- 52 (a year of weekly meetings; keep in sync with
+-- MAX_SERIES_OCCURRENCES in constants/reservationsConstants.tsx).
+-- Series run past the single-booking horizon (up to the end date,
+-- the count or a year), but every occurrence must pass
+-- check_booking_times, so a rule whose time falls outside a day's
+-- opening hours is rejected rather than half-booked.
+
+CREATE OR REPLACE FUNCTION expand_reservation_series(
+  p_frequency text,
+  p_weekdays int[],
+  p_start_date date,
+  p_until_date date,
+  p_occurrence_count int,
+  p_slot_start time,
+  p_slot_end time
+)
+RETURNS TABLE (occurrence_start timestamptz, occurrence_end timestamptz) AS $$
+BEGIN
+  IF p_frequency NOT IN ('daily', 'weekly', 'custom') THEN
+    RAISE EXCEPTION 'Invalid recurrence frequency: %', p_frequency;
+  END IF;
+
+  IF p_frequency = 'custom' AND cardinality(coalesce(p_weekdays, '{}')) = 0 THEN
+    RAISE EXCEPTION 'Custom recurrence needs at least one weekday';
+  END IF;
+
+  IF p_until_date IS NULL AND p_occurrence_count IS NULL THEN
+    RAISE EXCEPTION 'Recurrence needs an end date or an occurrence count';
+  END IF;
+
+  IF p_until_date IS NOT NULL AND p_until_date < p_start_date THEN
+    RAISE EXCEPTION 'Recurrence end date must not be before the start date';
+  END IF;
+
+  IF p_slot_start >= p_slot_end THEN
+    RAISE EXCEPTION 'Invalid time range: start time must be before end time';
+  END IF;
+
+  FOR occurrence_start, occurrence_end IN
+    SELECT
+      (day::date + p_slot_start) AT TIME ZONE 'Asia/Bangkok',
+      (day::date + p_slot_end) AT TIME ZONE 'Asia/Bangkok'
+    FROM generate_series(
+      p_start_date,
+      coalesce(p_until_date, p_start_date + 366),
+      interval '1 day'
+    ) AS day
+    WHERE (
+        p_frequency = 'daily'
+        OR (p_frequency = 'weekly' AND extract(dow FROM day) = extract(dow FROM p_start_date))
+        OR (p_frequency = 'custom' AND extract(dow FROM day)::int = ANY(p_weekdays))
+      )
+      AND (day::date + p_slot_start) AT TIME ZONE 'Asia/Bangkok' > now()
+    ORDER BY day
+    LIMIT least(coalesce(p_occurrence_count, 52), 52)
+  LOOP
+    PERFORM check_booking_times(occurrence_start, occurrence_end);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =================================================================
+-- CONFLICT PREVIEW
+-- =================================================================
+-- Lists every occurrence and whether it collides with a confirmed
+-- reservation, without booking anything.
+
+CREATE OR REPLACE FUNCTION preview_reservation_series(
+  p_room_id int,
+  p_frequency text,
+  p_weekdays int[],
+  p_start_date date,
+  p_until_date date,
+  p_occurrence_count int,
+  p_slot_start time,
+  p_slot_end time
+)
+RETURNS TABLE (start_time timestamptz, end_time timestamptz, has_conflict boolean) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    o.occurrence_start,
+    o.occurrence_end,
+    check_reservation_overlap(p_room_id, o.occurrence_start, o.occurrence_end)
+  FROM expand_reservation_series(
+    p_frequency, p_weekdays, p_start_date, p_until_date,
+    p_occurrence_count, p_slot_start, p_slot_end
+  ) AS o;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =================================================================
+-- SERIES CREATION
+-- =================================================================
+-- Books every free occurrence as a confirmed reservation in one
+-- transaction and skips the ones that collide. The room's capacity is
+-- checked once; the times are checked per occurrence by the expansion. Returns
+-- { seriesId, created, skipped: [{ start_time, end_time }] }.
+
+CREATE OR REPLACE FUNCTION create_reservation_series(
+  p_room_id int,
+  p_frequency text,
+  p_weekdays int[],
+  p_start_date date,
+  p_until_date date,
+  p_occurrence_count int,
+  p_slot_start time,
+  p_slot_end time,
+  p_agenda text,
+  p_num_people int
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_email text;
+  v_capacity int;
+  v_series_id uuid;
+  v_occurrence record;
+  v_created int := 0;
+  v_skipped jsonb := '[]'::jsonb;
+BEGIN
+  -- Get the current user's email from the auth context
+  v_user_email := auth.email();
+
+  IF v_user_email IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to create a reservation';
+  END IF;
+
+  IF btrim(coalesce(p_agenda, '')) = '' THEN
+    RAISE EXCEPTION 'Agenda is required';
+  END IF;
+
+  SELECT capacity FROM rooms WHERE id = p_room_id INTO v_capacity;
+
+  IF v_capacity IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF p_num_people IS NULL OR p_num_people < 1 OR p_num_people > v_capacity THEN
+    RAISE EXCEPTION 'Number of people exceeds room capacity of %', v_capacity;
+  END IF;
+
+  -- Serialize series bookings for the room so two series created at the
+  -- same moment cannot both claim a free occurrence
+  PERFORM pg_advisory_xact_lock(p_room_id);
+
+  INSERT INTO reservation_series (
+    room_id, user_email, agenda, num_people, frequency, weekdays,
+    start_date, until_date, occurrence_count, slot_start, slot_end
+  ) VALUES (
+    p_room_id, v_user_email, p_agenda, p_num_people, p_frequency, coalesce(p_weekdays, '{}'),
+    p_start_date, p_until_date, p_occurrence_count, p_slot_start, p_slot_end
+  ) RETURNING id INTO v_series_id;
+
+  FOR v_occurrence IN
+    SELECT * FROM expand_reservation_series(
+      p_frequency, p_weekdays, p_start_date, p_until_date,
+      p_occurrence_count, p_slot_start, p_slot_end
+    )
+  LOOP
+    IF check_reservation_overlap(p_room_id, v_occurrence.occurrence_start, v_occurrence.occurrence_end) THEN
+      v_skipped := v_skipped || jsonb_build_object(
+        'start_time', v_occurrence.occurrence_start,
+        'end_time', v_occurrence.occurrence_end
+      );
+    ELSE
+      INSERT INTO reservations (
+        room_id, user_email, start_time, end_time, agenda, num_people, status, series_id
+      ) VALUES (
+        p_room_id, v_user_email, v_occurrence.occurrence_start, v_occurrence.occurrence_end,
+        p_agenda, p_num_people, 'confirmed', v_series_id
+      );
+      v_created := v_created + 1;
+    END IF;
+  END LOOP;
+
+  IF v_created = 0 THEN
+    RAISE EXCEPTION 'Overlapping reservation for every occurrence in this series';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'seriesId', v_series_id,
+    'created', v_created,
+    'skipped', v_skipped
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION check_booking_times(timestamptz, timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_booking_horizon(timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION expand_reservation_series(text, int[], date, date, int, time, time) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_reservation_series(int, text, int[], date, date, int, time, time) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_reservation_series(int, text, int[], date, date, int, time, time, text, int) TO authenticated;
@@ -0,0 +1,358 @@
+-- =================================================================
+-- RESERVATION WAITLIST
+-- =================================================================
+-- Users can queue for a room and time range that is already booked.
+-- When a booking in that range goes away (cancelled from MyBookings,
+-- deleted through /api/reservations/cancel, or a hold expiring via
+-- cleanup_expired_holds), the oldest waiting entry whose range is now
+-- free is offered a pending hold, created the same way as
+-- create_reservation_with_hold but for the waitlisted user and with a
+-- longer expiry. The user confirms it with confirm_reservation.
+--
+-- Offers are made by a trigger on reservations, so every release path
+-- is covered without changes to the callers.
+-- =================================================================
+
+-- =================================================================
+-- WAITLIST TABLE
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS reservation_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id int NOT NULL REFERENCES rooms(id),
+  user_email text NOT NULL,
+  start_time timestamptz NOT NULL,
+  end_time timestamptz NOT NULL,
+  agenda text,
+  num_people int,
+  -- waiting -> offered -> booked, or expired when the offer lapses
+  status text NOT NULL DEFAULT 'waiting'
+    CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'cancelled')),
+  -- Pending hold created for this entry when it is offered
+  reservation_id uuid REFERENCES reservations(id) ON DELETE SET NULL,
+  offered_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (start_time < end_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reservation_waitlist_room_status
+  ON reservation_waitlist(room_id, status, created_at);
+
+-- One active entry per user and range
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reservation_waitlist_active_entry
+  ON reservation_waitlist(room_id, user_email, start_time, end_time)
+  WHERE status IN ('waiting', 'offered');
+
+ALTER TABLE reservation_waitlist ENABLE ROW LEVEL SECURITY;
+
+-- Entries are created and changed through the functions below
+CREATE POLICY "Users can view their own waitlist entries"
+  ON reservation_waitlist FOR SELECT
+  TO authenticated
+  USING (user_email = auth.email());
+
+-- Let users hear about offers as soon as they are made
+ALTER PUBLICATION supabase_realtime ADD TABLE reservation_waitlist;
+
+-- =================================================================
+-- OVERLAP CHECK
+-- =================================================================
+-- Unexpired pending holds now block other bookings as well, otherwise a
+-- waitlist offer could be taken by someone else before its owner
+-- confirms it. TimelineSelector already shows such holds as reserved.
+
+CREATE OR REPLACE FUNCTION check_reservation_overlap(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_exclude_reservation_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+DECLARE
+  overlap_exists boolean;
+BEGIN
+  -- Basic input validation
+  IF p_room_id IS NULL OR p_start_time IS NULL OR p_end_time IS NULL THEN
+    RAISE EXCEPTION 'Invalid inputs: room_id, start_time, and end_time cannot be NULL';
+  END IF;
+
+  IF p_start_time >= p_end_time THEN
+    RAISE EXCEPTION 'Invalid time range: start time must be before end time';
+  END IF;
+
+  -- First, cleanup any expired holds to ensure we're working with valid data
+  UPDATE reservations
+  SET status = 'cancelled'
+  WHERE status = 'pending' AND hold_expiry < now();
+
+  -- Confirmed reservations and live holds block new bookings
+  SELECT EXISTS (
+    SELECT 1
+    FROM reservations
+    WHERE room_id = p_room_id
+      AND status IN ('confirmed', 'pending')
+      AND (p_exclude_reservation_id IS NULL OR id != p_exclude_reservation_id)
+      AND p_start_time < end_time
+      AND p_end_time > start_time
+  ) INTO overlap_exists;
+
+  RETURN overlap_exists;
+END;
+$$ LANGUAGE plpgsql;
+
+-- =================================================================
+-- HOLD CREATION
+-- =================================================================
+-- create_reservation_with_hold is split so the waitlist can create a
+-- hold on behalf of another user. The inner function is not callable
+-- by clients: it takes any user's email and hold length, so it is
+-- revoked from anon and authenticated as well as PUBLIC.
+
+CREATE OR REPLACE FUNCTION create_reservation_hold(
+  p_user_email text,
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_agenda text,
+  p_num_people int,
+  p_hold interval
+)
+RETURNS uuid AS $$
+DECLARE
+  v_reservation_id uuid;
+BEGIN
+  -- Check if the requested time slot overlaps with existing reservations
+  IF check_reservation_overlap(p_room_id, p_start_time, p_end_time) THEN
+    RAISE EXCEPTION 'Overlapping reservation for this room and time period is not allowed';
+  END IF;
+
+  INSERT INTO reservations (
+    room_id,
+    user_email,
+    start_time,
+    end_time,
+    agenda,
+    num_people,
+    status,
+    hold_expiry
+  ) VALUES (
+    p_room_id,
+    p_user_email,
+    p_start_time,
+    p_end_time,
+    p_agenda,
+    p_num_people,
+    'pending',
+    now() + p_hold
+  ) RETURNING id INTO v_reservation_id;
+
+  RETURN v_reservation_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION create_reservation_hold(text, int, timestamptz, timestamptz, text, int, interval) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_reservation_with_hold(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_agenda text,
+  p_num_people int
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_email text;
+BEGIN
+  -- Get the current user's email from the auth context
+  v_user_email := auth.email();
+
+  -- Check if the user is authenticated
+  IF v_user_email IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to create a reservation';
+  END IF;
+
+  -- Create the reservation with a 30-second hold
+  RETURN create_reservation_hold(
+    v_user_email, p_room_id, p_start_time, p_end_time,
+    p_agenda, p_num_people, interval '30 seconds'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- OFFERING FREED SLOTS
+-- =================================================================
+-- Walks the waiting entries that overlap a freed range, oldest first,
+-- and offers a 15 minute hold to each one whose whole range is free.
+
+CREATE OR REPLACE FUNCTION offer_waitlisted_slots(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+RETURNS int AS $$
+DECLARE
+  v_entry reservation_waitlist;
+  v_reservation_id uuid;
+  v_offered int := 0;
+BEGIN
+  -- Entries for ranges that have already started can never be offered
+  UPDATE reservation_waitlist
+  SET status = 'expired'
+  WHERE status = 'waiting' AND start_time <= now();
+
+  FOR v_entry IN
+    SELECT * FROM reservation_waitlist
+    WHERE room_id = p_room_id
+      AND status = 'waiting'
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    CONTINUE WHEN check_reservation_overlap(v_entry.room_id, v_entry.start_time, v_entry.end_time);
+
+    v_reservation_id := create_reservation_hold(
+      v_entry.user_email, v_entry.room_id, v_entry.start_time, v_entry.end_time,
+      v_entry.agenda, v_entry.num_people, interval '15 minutes'
+    );
+
+    UPDATE reservation_waitlist
+    SET status = 'offered', reservation_id = v_reservation_id, offered_at = now()
+    WHERE id = v_entry.id;
+
+    v_offered := v_offered + 1;
+  END LOOP;
+
+  RETURN v_offered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the sync trigger offers slots
+REVOKE EXECUTE ON FUNCTION offer_waitlisted_slots(int, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- TRIGGER: KEEP THE WAITLIST IN STEP WITH RESERVATIONS
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION sync_reservation_waitlist()
+RETURNS trigger AS $$
+BEGIN
+  -- A waitlist hold that gets confirmed completes the entry
+  IF TG_OP = 'UPDATE' AND NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+    UPDATE reservation_waitlist
+    SET status = 'booked'
+    WHERE reservation_id = NEW.id AND status = 'offered';
+    RETURN NEW;
+  END IF;
+
+  -- Anything else only matters when a live booking or hold is released
+  IF OLD.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status <> 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  -- An offer that lapsed or was cancelled passes the slot on
+  UPDATE reservation_waitlist
+  SET status = 'expired'
+  WHERE reservation_id = OLD.id AND status = 'offered';
+
+  PERFORM offer_waitlisted_slots(OLD.room_id, OLD.start_time, OLD.end_time);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reservations_waitlist_sync ON reservations;
+CREATE TRIGGER reservations_waitlist_sync
+  AFTER UPDATE OF status OR DELETE ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_reservation_waitlist();
+
+-- =================================================================
+-- CLIENT FUNCTIONS
+-- =================================================================
+
+-- Queue the current user for a booked range
+CREATE OR REPLACE FUNCTION join_reservation_waitlist(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_agenda text,
+  p_num_people int
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_email text;
+  v_entry_id uuid;
+BEGIN
+  v_user_email := auth.email();
+
+  IF v_user_email IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to join a waitlist';
+  END IF;
+
+  IF p_start_time <= now() THEN
+    RAISE EXCEPTION 'Cannot join the waitlist for a time that has already started';
+  END IF;
+
+  IF NOT check_reservation_overlap(p_room_id, p_start_time, p_end_time) THEN
+    RAISE EXCEPTION 'This time is available, please book it directly';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM reservations
+    WHERE room_id = p_room_id
+      AND user_email = v_user_email
+      AND status IN ('confirmed', 'pending')
+      AND p_start_time < end_time
+      AND p_end_time > start_time
+  ) THEN
+    RAISE EXCEPTION 'You already have a booking for this room at this time';
+  END IF;
+
+  INSERT INTO reservation_waitlist (room_id, user_email, start_time, end_time, agenda, num_people)
+  VALUES (p_room_id, v_user_email, p_start_time, p_end_time, p_agenda, p_num_people)
+  RETURNING id INTO v_entry_id;
+
+  RETURN v_entry_id;
+EXCEPTION
+  WHEN unique_violation THEN
+    RAISE EXCEPTION 'You are already on the waitlist for this time';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Leave the waitlist, releasing an outstanding offer to the next user
+CREATE OR REPLACE FUNCTION leave_reservation_waitlist(p_entry_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_entry reservation_waitlist;
+BEGIN
+  SELECT * FROM reservation_waitlist
+  WHERE id = p_entry_id AND user_email = auth.email()
+  INTO v_entry;
+
+  IF v_entry IS NULL THEN
+    RAISE EXCEPTION 'Waitlist entry not found or not yours';
+  END IF;
+
+  UPDATE reservation_waitlist
+  SET status = 'cancelled'
+  WHERE id = p_entry_id AND status IN ('waiting', 'offered');
+
+  -- Cancelling the hold fires the trigger, which offers the slot onwards
+  IF v_entry.status = 'offered' AND v_entry.reservation_id IS NOT NULL THEN
+    UPDATE reservations
+    SET status = 'cancelled'
+    WHERE id = v_entry.reservation_id AND status = 'pending';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION check_reservation_overlap(int, timestamptz, timestamptz, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_reservation_with_hold(int, timestamptz, timestamptz, text, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_reservation_waitlist(int, timestamptz, timestamptz, text, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_reservation_waitlist(uuid) TO authenticated;
@@ -0,0 +1,352 @@
+-- =================================================================
+-- CHECK-IN AND NO-SHOW RELEASE
+-- =================================================================
+-- Confirmed reservations must now be checked in (from MyBookings)
+-- shortly before or after they start. The release-no-shows scheduled
+-- function marks bookings that were not checked in within the grace
+-- period as 'no_show', which frees the room (and offers it to the
+-- waitlist, like a cancellation). Users who rack up no-shows
+-- get a temporary booking block.
+--
+-- Grace period and penalty thresholds live in reservation_policy so
+-- admins can tune them without a deploy.
+-- =================================================================
+
+-- =================================================================
+-- RESERVATION CHANGES
+-- =================================================================
+
+ALTER TABLE reservations DROP CONSTRAINT IF EXISTS reservations_status_check;
+ALTER TABLE reservations
+  ADD CONSTRAINT reservations_status_check
+  CHECK (status IN ('pending', 'confirmed', 'cancelled', 'no_show'));
+
+ALTER TABLE reservations ADD COLUMN IF NOT EXISTS checked_in_at timestamptz;
+
+-- =================================================================
+-- POLICY SETTINGS (single row)
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS reservation_policy (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  -- Check-in opens this long before the start time
+  check_in_opens_minutes int NOT NULL DEFAULT 10 CHECK (check_in_opens_minutes >= 0),
+  -- Bookings not checked in this long after the start are released
+  no_show_grace_minutes int NOT NULL DEFAULT 15 CHECK (no_show_grace_minutes > 0),
+  -- This many no-shows within the window triggers a block
+  no_show_limit int NOT NULL DEFAULT 3 CHECK (no_show_limit > 0),
+  no_show_window_days int NOT NULL DEFAULT 30 CHECK (no_show_window_days > 0),
+  -- Length of the booking block
+  block_days int NOT NULL DEFAULT 7 CHECK (block_days > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO reservation_policy (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE reservation_policy ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view reservation_policy"
+  ON reservation_policy FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can update reservation_policy"
+  ON reservation_policy FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- =================================================================
+-- BOOKING BLOCKS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS booking_blocks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_email text NOT NULL,
+  blocked_until timestamptz NOT NULL,
+  reason text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_blocks_user ON booking_blocks(user_email, blocked_until);
+
+ALTER TABLE booking_blocks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking blocks"
+  ON booking_blocks FOR SELECT
+  TO authenticated
+  USING (user_email = auth.email());
+
+CREATE POLICY "Staff and admins can manage booking blocks"
+  ON booking_blocks FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
+
+-- Latest active block end for a user, or NULL when they may book
+CREATE OR REPLACE FUNCTION booking_blocked_until(p_user_email text)
+RETURNS timestamptz AS $$
+  SELECT max(blocked_until)
+  FROM booking_blocks
+  WHERE user_email = p_user_email AND blocked_until > now();
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Every booking path (holds, series, waitlist offers) inserts into
+-- reservations, so the block is enforced here once. Updates that move a
+-- booking or make it live again are checked too.
+CREATE OR REPLACE FUNCTION enforce_booking_block()
+RETURNS trigger AS $$
+DECLARE
+  v_blocked_until timestamptz;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- UPDATE OF also fires when a column is set to its current value
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_time = OLD.start_time
+    AND NEW.end_time = OLD.end_time
+    AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  v_blocked_until := booking_blocked_until(NEW.user_email);
+
+  IF v_blocked_until IS NOT NULL THEN
+    RAISE EXCEPTION 'Booking blocked until % because of repeated no-shows',
+      to_char(v_blocked_until AT TIME ZONE 'Asia/Bangkok', 'YYYY-MM-DD HH24:MI');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reservations_enforce_booking_block ON reservations;
+CREATE TRIGGER reservations_enforce_booking_block
+  BEFORE INSERT OR UPDATE OF start_time, end_time, status ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_block();
+
+-- Waitlist offers skip blocked users instead of failing the release
+-- that triggered them
+CREATE OR REPLACE FUNCTION offer_waitlisted_slots(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+RETURNS int AS $$
+DECLARE
+  v_entry reservation_waitlist;
+  v_reservation_id uuid;
+  v_offered int := 0;
+BEGIN
+  -- Entries for ranges that have already started can never be offered
+  UPDATE reservation_waitlist
+  SET status = 'expired'
+  WHERE status = 'waiting' AND start_time <= now();
+
+  FOR v_entry IN
+    SELECT * FROM reservation_waitlist
+    WHERE room_id = p_room_id
+      AND status = 'waiting'
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    CONTINUE WHEN booking_blocked_until(v_entry.user_email) IS NOT NULL;
+    CONTINUE WHEN check_reservation_overlap(v_entry.room_id, v_entry.start_time, v_entry.end_time);
+
+    v_reservation_id := create_reservation_hold(
+      v_entry.user_email, v_entry.room_id, v_entry.start_time, v_entry.end_time,
+      v_entry.agenda, v_entry.num_people, interval '15 minutes'
+    );
+
+    UPDATE reservation_waitlist
+    SET status = 'offered', reservation_id = v_reservation_id, offered_at = now()
+    WHERE id = v_entry.id;
+
+    v_offered := v_offered + 1;
+  END LOOP;
+
+  RETURN v_offered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- A no-show frees the room just like a cancellation, so it passes the
+-- slot on to the waitlist too
+CREATE OR REPLACE FUNCTION sync_reservation_waitlist()
+RETURNS trigger AS $$
+BEGIN
+  -- A waitlist hold that gets confirmed completes the entry
+  IF TG_OP = 'UPDATE' AND NEW.status = 'confirmed' AND OLD.status = 'pending' THEN
+    UPDATE reservation_waitlist
+    SET status = 'booked'
+    WHERE reservation_id = NEW.id AND status = 'offered';
+    RETURN NEW;
+  END IF;
+
+  -- Anything else only matters when a live booking or hold is released
+  IF OLD.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status NOT IN ('cancelled', 'no_show') THEN
+    RETURN NEW;
+  END IF;
+
+  -- An offer that lapsed or was cancelled passes the slot on
+  UPDATE reservation_waitlist
+  SET status = 'expired'
+  WHERE reservation_id = OLD.id AND status = 'offered';
+
+  PERFORM offer_waitlisted_slots(OLD.room_id, OLD.start_time, OLD.end_time);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- CHECK-IN
+-- =================================================================
+-- Returns { checkInError } like confirm_reservation returns
+-- { confirmError }: null on success, a message otherwise.
+
+CREATE OR REPLACE FUNCTION check_in_reservation(p_reservation_id uuid)
+RETURNS jsonb AS $$
+DECLARE
+  v_reservation reservations;
+  v_policy reservation_policy;
+BEGIN
+  IF auth.email() IS NULL THEN
+    RETURN jsonb_build_object('checkInError', 'Authentication required to check in');
+  END IF;
+
+  SELECT * FROM reservation_policy INTO v_policy;
+
+  SELECT * FROM reservations
+  WHERE id = p_reservation_id AND user_email = auth.email()
+  INTO v_reservation;
+
+  IF v_reservation IS NULL THEN
+    RETURN jsonb_build_object('checkInError', 'Reservation not found or not yours');
+  END IF;
+
+  IF v_reservation.checked_in_at IS NOT NULL THEN
+    RETURN jsonb_build_object('checkInError', null);
+  END IF;
+
+  IF v_reservation.status = 'no_show' THEN
+    RETURN jsonb_build_object('checkInError', 'Reservation was released as a no-show');
+  END IF;
+
+  IF v_reservation.status != 'confirmed' THEN
+    RETURN jsonb_build_object('checkInError', 'Only confirmed reservations can be checked in');
+  END IF;
+
+  IF now() < v_reservation.start_time - make_interval(mins => v_policy.check_in_opens_minutes) THEN
+    RETURN jsonb_build_object('checkInError', 'Check-in is not open yet');
+  END IF;
+
+  IF now() >= v_reservation.end_time THEN
+    RETURN jsonb_build_object('checkInError', 'Reservation has already ended');
+  END IF;
+
+  UPDATE reservations
+  SET checked_in_at = now()
+  WHERE id = p_reservation_id;
+
+  RETURN jsonb_build_object('checkInError', null);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- DIRECT UPDATES
+-- =================================================================
+-- "Users can update their own reservations" lets the browser client
+-- update any column, which would let users check themselves in or turn
+-- a no-show back into a confirmed booking. Signed-in users may now only
+-- cancel a live booking directly; check-in, changes and releases go
+-- through the SECURITY DEFINER functions, which run as the table owner.
+
+CREATE OR REPLACE FUNCTION protect_reservation_updates()
+RETURNS trigger AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('pending', 'confirmed')
+    AND NEW.status = 'cancelled'
+    AND to_jsonb(NEW) - 'status' = to_jsonb(OLD) - 'status' THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Reservations can only be cancelled directly; other changes go through the reservation API';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reservations_protect_updates ON reservations;
+CREATE TRIGGER reservations_protect_updates
+  BEFORE UPDATE ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_reservation_updates();
+
+-- =================================================================
+-- NO-SHOW RELEASE
+-- =================================================================
+-- Called by the release-no-shows scheduled function. Only bookings that
+-- started within the last day are considered, so reservations made
+-- before check-in existed are never penalised.
+
+CREATE OR REPLACE FUNCTION release_no_show_reservations()
+RETURNS int AS $$
+DECLARE
+  v_policy reservation_policy;
+  v_released int;
+BEGIN
+  SELECT * FROM reservation_policy INTO v_policy;
+
+  UPDATE reservations
+  SET status = 'no_show'
+  WHERE status = 'confirmed'
+    AND checked_in_at IS NULL
+    AND start_time + make_interval(mins => v_policy.no_show_grace_minutes) <= now()
+    AND start_time > now() - interval '1 day';
+
+  GET DIAGNOSTICS v_released = ROW_COUNT;
+
+  -- Block users who reached the no-show limit and are not already blocked
+  INSERT INTO booking_blocks (user_email, blocked_until, reason)
+  SELECT
+    r.user_email,
+    now() + make_interval(days => v_policy.block_days),
+    format('%s no-shows in %s days', count(*), v_policy.no_show_window_days)
+  FROM reservations r
+  WHERE r.status = 'no_show'
+    AND r.start_time > now() - make_interval(days => v_policy.no_show_window_days)
+    -- No-shows already penalised by an earlier block do not count twice
+    AND r.start_time > coalesce(
+      (SELECT max(b.created_at) FROM booking_blocks b WHERE b.user_email = r.user_email),
+      '-infinity'::timestamptz
+    )
+  GROUP BY r.user_email
+  HAVING count(*) >= v_policy.no_show_limit;
+
+  RETURN v_released;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Only the scheduled function (service role) may release bookings
+REVOKE EXECUTE ON FUNCTION release_no_show_reservations() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION check_in_reservation(uuid) TO authenticated;
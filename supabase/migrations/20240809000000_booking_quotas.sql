@@ -0,0 +1,256 @@
+-- =================================================================
+-- BOOKING QUOTAS
+-- =================================================================
+-- Fairness limits per profiles.role: hours per day and per week, number
+-- of upcoming bookings and length of a single booking. NULL means no
+-- limit. Enforced by a trigger on reservations so holds, series and
+-- waitlist offers are all covered, along with updates that move or
+-- revive a booking.
+--
+-- Violations are raised with HINT 'booking_quota' and a JSON DETAIL
+-- ({ code, message, role, limit, used, requested }) that the client
+-- turns into a readable error (see getQuotaViolation).
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS booking_quotas (
+  role text PRIMARY KEY CHECK (role IN ('student', 'faculty', 'staff', 'admin')),
+  max_hours_per_day numeric CHECK (max_hours_per_day > 0),
+  max_hours_per_week numeric CHECK (max_hours_per_week > 0),
+  max_upcoming_bookings int CHECK (max_upcoming_bookings > 0),
+  max_booking_minutes int CHECK (max_booking_minutes > 0),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+INSERT INTO booking_quotas (role, max_hours_per_day, max_hours_per_week, max_upcoming_bookings, max_booking_minutes)
+VALUES
+  ('student', 2, 6, 3, 120),
+  ('faculty', 4, 12, 6, 240),
+  ('staff', 8, 40, 10, 480),
+  ('admin', NULL, NULL, NULL, NULL)
+ON CONFLICT (role) DO NOTHING;
+
+ALTER TABLE booking_quotas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view booking_quotas"
+  ON booking_quotas FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage booking_quotas"
+  ON booking_quotas FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- =================================================================
+-- QUOTA CHECK
+-- =================================================================
+-- Returns NULL when the booking fits the user's quota, otherwise the
+-- first violated rule. Live holds count as bookings.
+
+CREATE OR REPLACE FUNCTION check_booking_quota(
+  p_user_email text,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_exclude_reservation_id uuid DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_role text;
+  v_quota booking_quotas;
+  v_requested numeric;
+  v_used numeric;
+BEGIN
+  SELECT p.role FROM profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE u.email = p_user_email
+  INTO v_role;
+
+  -- Accounts without a profile get the most restrictive role
+  v_role := coalesce(v_role, 'student');
+
+  SELECT * FROM booking_quotas WHERE role = v_role INTO v_quota;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_requested := extract(epoch FROM p_end_time - p_start_time) / 3600;
+
+  IF v_quota.max_booking_minutes IS NOT NULL AND v_requested * 60 > v_quota.max_booking_minutes THEN
+    RETURN jsonb_build_object(
+      'code', 'max_booking_minutes',
+      'message', format('A single booking can be at most %s minutes for %s accounts', v_quota.max_booking_minutes, v_role),
+      'role', v_role,
+      'limit', v_quota.max_booking_minutes,
+      'used', 0,
+      'requested', round(v_requested * 60)
+    );
+  END IF;
+
+  IF v_quota.max_upcoming_bookings IS NOT NULL THEN
+    SELECT count(*) FROM reservations
+    WHERE user_email = p_user_email
+      AND (status = 'confirmed' OR (status = 'pending' AND hold_expiry > now()))
+      AND end_time > now()
+      AND (p_exclude_reservation_id IS NULL OR id != p_exclude_reservation_id)
+    INTO v_used;
+
+    IF v_used + 1 > v_quota.max_upcoming_bookings THEN
+      RETURN jsonb_build_object(
+        'code', 'max_upcoming_bookings',
+        'message', format('%s accounts can have at most %s upcoming bookings', initcap(v_role), v_quota.max_upcoming_bookings),
+        'role', v_role,
+        'limit', v_quota.max_upcoming_bookings,
+        'used', round(v_used, 2),
+        'requested', 1
+      );
+    END IF;
+  END IF;
+
+  IF v_quota.max_hours_per_day IS NOT NULL THEN
+    SELECT coalesce(sum(extract(epoch FROM end_time - start_time) / 3600), 0) FROM reservations
+    WHERE user_email = p_user_email
+      AND (status = 'confirmed' OR (status = 'pending' AND hold_expiry > now()))
+      AND (start_time AT TIME ZONE 'Asia/Bangkok')::date = (p_start_time AT TIME ZONE 'Asia/Bangkok')::date
+      AND (p_exclude_reservation_id IS NULL OR id != p_exclude_reservation_id)
+    INTO v_used;
+
+    IF v_used + v_requested > v_quota.max_hours_per_day THEN
+      RETURN jsonb_build_object(
+        'code', 'max_hours_per_day',
+        'message', format('%s accounts can book at most %s hours per day', initcap(v_role), v_quota.max_hours_per_day),
+        'role', v_role,
+        'limit', v_quota.max_hours_per_day,
+        'used', round(v_used, 2),
+        'requested', round(v_requested, 2)
+      );
+    END IF;
+  END IF;
+
+  IF v_quota.max_hours_per_week IS NOT NULL THEN
+    -- Weeks run Monday to Sunday, Bangkok time
+    SELECT coalesce(sum(extract(epoch FROM end_time - start_time) / 3600), 0) FROM reservations
+    WHERE user_email = p_user_email
+      AND (status = 'confirmed' OR (status = 'pending' AND hold_expiry > now()))
+      AND date_trunc('week', start_time AT TIME ZONE 'Asia/Bangkok')
+        = date_trunc('week', p_start_time AT TIME ZONE 'Asia/Bangkok')
+      AND (p_exclude_reservation_id IS NULL OR id != p_exclude_reservation_id)
+    INTO v_used;
+
+    IF v_used + v_requested > v_quota.max_hours_per_week THEN
+      RETURN jsonb_build_object(
+        'code', 'max_hours_per_week',
+        'message', format('%s accounts can book at most %s hours per week', initcap(v_role), v_quota.max_hours_per_week),
+        'role', v_role,
+        'limit', v_quota.max_hours_per_week,
+        'used', round(v_used, 2),
+        'requested', round(v_requested, 2)
+      );
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Takes any user's email and reports their booked hours, so only the
+-- trigger and the booking functions may call it
+REVOKE EXECUTE ON FUNCTION check_booking_quota(text, timestamptz, timestamptz, uuid) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- TRIGGER
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION enforce_booking_quota()
+RETURNS trigger AS $$
+DECLARE
+  v_violation jsonb;
+BEGIN
+  IF NEW.status NOT IN ('pending', 'confirmed') THEN
+    RETURN NEW;
+  END IF;
+
+  -- Edits that keep the times and status (agenda, check-in) are not re-checked
+  IF TG_OP = 'UPDATE'
+    AND NEW.start_time = OLD.start_time
+    AND NEW.end_time = OLD.end_time
+    AND NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  -- An updated booking must not count against itself
+  v_violation := check_booking_quota(NEW.user_email, NEW.start_time, NEW.end_time, NEW.id);
+
+  IF v_violation IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_violation->>'message'
+      USING DETAIL = v_violation::text, HINT = 'booking_quota';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS reservations_enforce_booking_quota ON reservations;
+CREATE TRIGGER reservations_enforce_booking_quota
+  BEFORE INSERT OR UPDATE OF start_time, end_time, status ON reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_quota();
+
+-- =================================================================
+-- WAITLIST OFFERS
+-- =================================================================
+-- A waitlisted user who is now over quota (or blocked) is skipped; the
+-- failed hold must not abort the cancellation that freed the slot.
+
+CREATE OR REPLACE FUNCTION offer_waitlisted_slots(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+RETURNS int AS $$
+DECLARE
+  v_entry reservation_waitlist;
+  v_reservation_id uuid;
+  v_offered int := 0;
+BEGIN
+  -- Entries for ranges that have already started can never be offered
+  UPDATE reservation_waitlist
+  SET status = 'expired'
+  WHERE status = 'waiting' AND start_time <= now();
+
+  FOR v_entry IN
+    SELECT * FROM reservation_waitlist
+    WHERE room_id = p_room_id
+      AND status = 'waiting'
+      AND start_time < p_end_time
+      AND end_time > p_start_time
+    ORDER BY created_at
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    CONTINUE WHEN check_reservation_overlap(v_entry.room_id, v_entry.start_time, v_entry.end_time);
+
+    BEGIN
+      v_reservation_id := create_reservation_hold(
+        v_entry.user_email, v_entry.room_id, v_entry.start_time, v_entry.end_time,
+        v_entry.agenda, v_entry.num_people, interval '15 minutes'
+      );
+    EXCEPTION
+      WHEN raise_exception THEN
+        CONTINUE;
+    END;
+
+    UPDATE reservation_waitlist
+    SET status = 'offered', reservation_id = v_reservation_id, offered_at = now()
+    WHERE id = v_entry.id;
+
+    v_offered := v_offered + 1;
+  END LOOP;
+
+  RETURN v_offered;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
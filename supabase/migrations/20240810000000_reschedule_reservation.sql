@@ -0,0 +1,80 @@
+-- =================================================================
+-- RESCHEDULE RESERVATION
+-- =================================================================
+-- Moves a confirmed booking to a new time range in one statement, so
+-- the user never loses their original slot when the new one turns out
+-- to be taken. Used by PATCH /api/reservations/[id].
+--
+-- The overlap check excludes the booking itself (the
+-- p_exclude_reservation_id argument of check_reservation_overlap), and
+-- quotas are re-checked the same way. Errors are raised, like
+-- create_reservation_with_hold, so nothing changes on failure.
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION reschedule_reservation(
+  p_reservation_id uuid,
+  p_start_time timestamptz,
+  p_end_time timestamptz
+)
+RETURNS reservations AS $$
+DECLARE
+  v_reservation reservations;
+  v_violation jsonb;
+  v_old_start timestamptz;
+  v_old_end timestamptz;
+BEGIN
+  IF auth.email() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to reschedule a reservation';
+  END IF;
+
+  -- Lock the booking so a concurrent cancel or check-in waits for us
+  SELECT * FROM reservations
+  WHERE id = p_reservation_id AND user_email = auth.email()
+  FOR UPDATE
+  INTO v_reservation;
+
+  IF v_reservation IS NULL THEN
+    RAISE EXCEPTION 'Reservation not found or not yours';
+  END IF;
+
+  IF v_reservation.status != 'confirmed' OR v_reservation.start_time <= now() THEN
+    RAISE EXCEPTION 'Only upcoming confirmed reservations can be rescheduled';
+  END IF;
+
+  IF check_reservation_overlap(v_reservation.room_id, p_start_time, p_end_time, p_reservation_id) THEN
+    RAISE EXCEPTION 'Overlapping reservation for this room and time period is not allowed';
+  END IF;
+
+  v_violation := check_booking_quota(v_reservation.user_email, p_start_time, p_end_time, p_reservation_id);
+
+  IF v_violation IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_violation->>'message'
+      USING DETAIL = v_violation::text, HINT = 'booking_quota';
+  END IF;
+
+  v_old_start := v_reservation.start_time;
+  v_old_end := v_reservation.end_time;
+
+  UPDATE reservations
+  SET start_time = p_start_time, end_time = p_end_time, checked_in_at = NULL
+  WHERE id = p_reservation_id
+  RETURNING * INTO v_reservation;
+
+  -- The old range may now be free for someone on the waitlist
+  PERFORM offer_waitlisted_slots(v_reservation.room_id, v_old_start, v_old_end);
+
+  RETURN v_reservation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION reschedule_reservation(uuid, timestamptz, timestamptz) TO authenticated;
+
+-- =================================================================
+-- DIRECT INSERTS
+-- =================================================================
+-- Bookings are created through create_reservation_with_hold (and the
+-- series and waitlist functions), which run the time, overlap and quota
+-- checks. A direct insert would skip the overlap check, so clients can
+-- no longer insert into reservations themselves.
+
+DROP POLICY IF EXISTS "Users can create reservations" ON reservations;
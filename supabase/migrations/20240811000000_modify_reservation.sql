@@ -0,0 +1,121 @@
+-- =================================================================
+-- MODIFY RESERVATION
+-- =================================================================
+-- Generalises reschedule_reservation: one call can change the room,
+-- time range, agenda and number of people of an upcoming booking.
+-- Arguments left NULL keep their current value. Used by
+-- PATCH /api/reservations/[id] and the "Change" form in MyBookings.
+--
+-- Everything runs in a single statement and errors are raised, so the
+-- booking is either fully updated or left exactly as it was. The
+-- overlap and quota checks exclude the booking itself
+-- (p_exclude_reservation_id), so shifting by 30 minutes into the
+-- booking's own slot is allowed. A new room or time must also pass
+-- check_booking_times and the booking horizon, and the reservation
+-- triggers re-run the booking-block and quota checks on the new times,
+-- so calling the function directly is no looser than the API route.
+-- =================================================================
+
+DROP FUNCTION IF EXISTS reschedule_reservation(uuid, timestamptz, timestamptz);
+
+CREATE OR REPLACE FUNCTION modify_reservation(
+  p_reservation_id uuid,
+  p_room_id int DEFAULT NULL,
+  p_start_time timestamptz DEFAULT NULL,
+  p_end_time timestamptz DEFAULT NULL,
+  p_agenda text DEFAULT NULL,
+  p_num_people int DEFAULT NULL
+)
+RETURNS reservations AS $$
+DECLARE
+  v_reservation reservations;
+  v_room_id int;
+  v_start timestamptz;
+  v_end timestamptz;
+  v_agenda text;
+  v_num_people int;
+  v_capacity int;
+  v_moved boolean;
+  v_old reservations;
+BEGIN
+  IF auth.email() IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to change a reservation';
+  END IF;
+
+  -- Lock the booking so a concurrent cancel or check-in waits for us
+  SELECT * FROM reservations
+  WHERE id = p_reservation_id AND user_email = auth.email()
+  FOR UPDATE
+  INTO v_reservation;
+
+  IF v_reservation IS NULL THEN
+    RAISE EXCEPTION 'Reservation not found or not yours';
+  END IF;
+
+  IF v_reservation.status != 'confirmed' OR v_reservation.start_time <= now() THEN
+    RAISE EXCEPTION 'Only upcoming confirmed reservations can be changed';
+  END IF;
+
+  v_room_id := COALESCE(p_room_id, v_reservation.room_id);
+  v_start := COALESCE(p_start_time, v_reservation.start_time);
+  v_end := COALESCE(p_end_time, v_reservation.end_time);
+  v_agenda := COALESCE(p_agenda, v_reservation.agenda);
+  v_num_people := COALESCE(p_num_people, v_reservation.num_people);
+
+  IF btrim(v_agenda) = '' THEN
+    RAISE EXCEPTION 'Agenda is required';
+  END IF;
+
+  SELECT capacity FROM rooms WHERE id = v_room_id INTO v_capacity;
+
+  IF v_capacity IS NULL THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  IF v_num_people < 1 OR v_num_people > v_capacity THEN
+    RAISE EXCEPTION 'Number of people exceeds room capacity of %', v_capacity;
+  END IF;
+
+  v_moved := v_room_id != v_reservation.room_id
+    OR v_start != v_reservation.start_time
+    OR v_end != v_reservation.end_time;
+
+  IF v_moved THEN
+    -- Same rules as a new booking: slots, opening hours and horizon.
+    -- Series occurrences are booked past the horizon, so they stay
+    -- exempt. Booking blocks and quotas are checked by the reservation
+    -- triggers when the new times are written.
+    PERFORM check_booking_times(v_start, v_end);
+
+    IF v_reservation.series_id IS NULL THEN
+      PERFORM check_booking_horizon(v_start);
+    END IF;
+
+    IF check_reservation_overlap(v_room_id, v_start, v_end, p_reservation_id) THEN
+      RAISE EXCEPTION 'Overlapping reservation for this room and time period is not allowed';
+    END IF;
+  END IF;
+
+  v_old := v_reservation;
+
+  UPDATE reservations
+  SET room_id = v_room_id,
+      start_time = v_start,
+      end_time = v_end,
+      agenda = v_agenda,
+      num_people = v_num_people,
+      -- A check-in only counts for the room and time it was made for
+      checked_in_at = CASE WHEN v_moved THEN NULL ELSE checked_in_at END
+  WHERE id = p_reservation_id
+  RETURNING * INTO v_reservation;
+
+  -- The old room and time may now be free for someone on the waitlist
+  IF v_moved THEN
+    PERFORM offer_waitlisted_slots(v_old.room_id, v_old.start_time, v_old.end_time);
+  END IF;
+
+  RETURN v_reservation;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION modify_reservation(uuid, int, timestamptz, timestamptz, text, int) TO authenticated;
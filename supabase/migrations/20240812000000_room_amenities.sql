@@ -0,0 +1,86 @@
+-- =================================================================
+-- ROOM AMENITIES CATALOG
+-- =================================================================
+-- Replaces the rooms.has_projector flag with a catalog of amenities
+-- (equipment, connectivity, accessibility, comfort) and a join table
+-- recording which rooms have which. Admins manage both from
+-- /admin/amenities; RoomDetailsPanel lists a room's amenities and
+-- GET /api/rooms/search filters on them.
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS amenities (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9_]+$'), -- Stable slug used in search URLs, e.g. 'whiteboard'
+  name text NOT NULL,
+  category text NOT NULL DEFAULT 'equipment'
+    CHECK (category IN ('equipment', 'connectivity', 'accessibility', 'comfort')),
+  description text,
+  sort_order int NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true, -- Retired amenities stay on rooms but are hidden from search
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS room_amenities (
+  room_id int NOT NULL REFERENCES rooms(id) ON DELETE CASCADE,
+  amenity_id text NOT NULL REFERENCES amenities(id) ON DELETE CASCADE,
+  notes text, -- Room-specific detail, e.g. '65" TV, HDMI and USB-C'
+  PRIMARY KEY (room_id, amenity_id)
+);
+
+CREATE INDEX IF NOT EXISTS room_amenities_amenity_idx ON room_amenities (amenity_id);
+
+ALTER TABLE amenities ENABLE ROW LEVEL SECURITY;
+ALTER TABLE room_amenities ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view amenities"
+  ON amenities FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage amenities"
+  ON amenities FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+CREATE POLICY "Anyone can view room_amenities"
+  ON room_amenities FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage room_amenities"
+  ON room_amenities FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role = 'admin'
+    )
+  );
+
+-- =================================================================
+-- STARTING CATALOG
+-- =================================================================
+INSERT INTO amenities (id, name, category, description, sort_order)
+VALUES
+  ('projector', 'Projector', 'equipment', 'Ceiling projector and screen', 10),
+  ('whiteboard', 'Whiteboard', 'equipment', 'Wall whiteboard with markers', 20),
+  ('tv_hdmi', 'TV / HDMI', 'connectivity', 'Wall-mounted display with an HDMI cable', 30),
+  ('video_conferencing', 'Video conferencing', 'connectivity', 'Camera, microphone and speaker for online meetings', 40),
+  ('power_outlets', 'Power outlets', 'comfort', 'Outlets at every seat', 50),
+  ('wheelchair_accessible', 'Wheelchair accessible', 'accessibility', 'Step-free entrance and an accessible table', 60),
+  ('hearing_loop', 'Hearing loop', 'accessibility', 'Induction loop for hearing aids', 70)
+ON CONFLICT (id) DO NOTHING;
+
+-- Carry the old projector flag over, then retire the column
+INSERT INTO room_amenities (room_id, amenity_id)
+SELECT id, 'projector' FROM rooms WHERE has_projector
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE rooms DROP COLUMN IF EXISTS has_projector;
+
+COMMENT ON TABLE amenities IS 'Catalog of room equipment and accessibility features';
+COMMENT ON TABLE room_amenities IS 'Which amenities each room has';
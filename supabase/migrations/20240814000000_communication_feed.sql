@@ -0,0 +1,115 @@
+-- =================================================================
+-- PAGINATED COMMUNICATION FEED
+-- =================================================================
+-- The communication feed used to download every live post together with
+-- all of its replies, reactions and topics, then filter by zone or topic
+-- in the browser. get_communication_feed returns one page at a time:
+--   * keyset pagination on (created_at, id), newest first, so pages stay
+--     stable while new posts arrive
+--   * the zone: and topic: filters are applied here, not client-side
+--   * replies are only counted; the thread is loaded when it is opened
+-- =================================================================
+
+-- =================================================================
+-- INDEXES
+-- =================================================================
+
+CREATE INDEX IF NOT EXISTS communications_feed_idx
+  ON communications (created_at DESC, id DESC);
+
+CREATE INDEX IF NOT EXISTS communications_zone_feed_idx
+  ON communications (zone_id, created_at DESC, id DESC)
+  WHERE zone_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS post_topics_topic_idx ON post_topics (topic_id);
+CREATE INDEX IF NOT EXISTS replies_post_created_idx ON replies (post_id, created_at);
+CREATE INDEX IF NOT EXISTS reactions_post_type_idx ON reactions (post_id, type);
+
+-- =================================================================
+-- FEED PAGE
+-- =================================================================
+
+-- Runs as the caller (SECURITY INVOKER), so the usual RLS policies apply.
+-- Pass the created_at and id of the last post on the previous page as the
+-- cursor; leave both NULL for the first page.
+CREATE OR REPLACE FUNCTION get_communication_feed(
+  p_zone_id uuid DEFAULT NULL,
+  p_topic text DEFAULT NULL,
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  expires_at timestamptz,
+  user_id uuid,
+  author_name text,
+  author_avatar text,
+  zone_id uuid,
+  zone_name text,
+  zone_floor int,
+  zone_capacity int,
+  topics jsonb, -- [{ "id", "name" }]
+  like_count int,
+  liked boolean,
+  reply_count int
+) AS $$
+  WITH page AS (
+    SELECT c.*
+    FROM communications c
+    WHERE c.expires_at > now()
+      AND (p_zone_id IS NULL OR c.zone_id = p_zone_id)
+      AND (
+        p_topic IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM post_topics pt
+          JOIN topics t ON t.id = pt.topic_id
+          WHERE pt.post_id = c.id AND t.name = p_topic
+        )
+      )
+      AND (
+        p_before_created_at IS NULL
+        OR (c.created_at, c.id) < (p_before_created_at, p_before_id)
+      )
+    ORDER BY c.created_at DESC, c.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  )
+  SELECT
+    page.id,
+    page.content,
+    page.image_url,
+    page.created_at,
+    page.expires_at,
+    page.user_id,
+    p.name,
+    p.avatar_url,
+    z.id,
+    z.name,
+    z.floor,
+    z.capacity,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name) ORDER BY t.name)
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id
+        WHERE pt.post_id = page.id
+      ),
+      '[]'::jsonb
+    ),
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = page.id AND r.type = 'like'),
+    EXISTS (
+      SELECT 1 FROM reactions r
+      WHERE r.post_id = page.id AND r.type = 'like' AND r.user_id = auth.uid()
+    ),
+    (SELECT count(*)::int FROM replies rp WHERE rp.post_id = page.id)
+  FROM page
+  LEFT JOIN profiles p ON p.id = page.user_id
+  LEFT JOIN library_zones z ON z.id = page.zone_id
+  ORDER BY page.created_at DESC, page.id DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_communication_feed(uuid, text, timestamptz, uuid, int) TO anon, authenticated;
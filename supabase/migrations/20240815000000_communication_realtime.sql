@@ -0,0 +1,27 @@
+-- =================================================================
+-- COMMUNICATION FEED REALTIME
+-- =================================================================
+-- Publishes posts, replies and reactions over Supabase Realtime so the
+-- feed can apply each change to what is already on screen (new reply,
+-- like count, edited or deleted post) instead of reloading it.
+--
+-- These tables have RLS, so DELETE events only carry the row's id. The
+-- client keeps track of the ids it has seen and re-reads the counts for
+-- deletions it cannot place.
+-- =================================================================
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['communications', 'replies', 'reactions'] LOOP
+    -- communications may already have been added from the dashboard
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,650 @@
+-- =================================================================
+-- COMMUNICATION MODERATION
+-- =================================================================
+-- Lets users report posts and gives staff a moderation queue:
+--   * post_reports: one report per user per post, with a category
+--   * moderators can hide or delete a post, warn its author or ban them
+--     from posting for a while, or dismiss the reports
+--   * moderation_word_filters: terms refused in posts and replies, both
+--     by createPost/addReply and by a trigger on insert or edit
+--
+-- Moderator actions go through the moderate_* functions below, which use
+-- the admin console helpers (require_admin_role, record_admin_action) so
+-- every decision is written to admin_audit_log with its reason.
+-- =================================================================
+
+-- =================================================================
+-- AUDIT LOG TARGETS
+-- =================================================================
+
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_target_type_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_target_type_check
+  CHECK (target_type IN ('room', 'reservation', 'maintenance_window', 'user', 'post', 'word_filter'));
+
+-- =================================================================
+-- HIDDEN POSTS
+-- =================================================================
+
+ALTER TABLE communications ADD COLUMN IF NOT EXISTS is_hidden boolean NOT NULL DEFAULT false;
+
+-- Hidden posts stay visible to their author and to moderators only
+DROP POLICY IF EXISTS "Anyone can view communications" ON communications;
+CREATE POLICY "Anyone can view visible communications"
+  ON communications FOR SELECT
+  USING (
+    NOT is_hidden
+    OR auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
+
+-- =================================================================
+-- REPORTS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS post_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id uuid NOT NULL REFERENCES communications(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  category text NOT NULL CHECK (category IN ('spam', 'harassment', 'inappropriate', 'misinformation', 'other')),
+  details text,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'actioned', 'dismissed')),
+  resolved_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  resolved_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (post_id, reporter_id),
+  -- "Other" means nothing without an explanation
+  CHECK (category <> 'other' OR btrim(coalesce(details, '')) <> '')
+);
+
+CREATE INDEX IF NOT EXISTS post_reports_open_idx ON post_reports (post_id) WHERE status = 'open';
+
+ALTER TABLE post_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can report posts"
+  ON post_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = reporter_id AND status = 'open');
+
+CREATE POLICY "Users see their own reports, staff see all"
+  ON post_reports FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = reporter_id
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
+
+-- =================================================================
+-- WARNINGS AND POSTING BANS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS moderation_warnings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  post_id uuid REFERENCES communications(id) ON DELETE SET NULL,
+  message text NOT NULL,
+  issued_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  acknowledged_at timestamptz -- Set when the user dismisses it in the feed
+);
+
+CREATE TABLE IF NOT EXISTS posting_bans (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  ends_at timestamptz NOT NULL,
+  reason text NOT NULL,
+  issued_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  lifted_at timestamptz -- Set when a moderator ends the ban early
+);
+
+CREATE INDEX IF NOT EXISTS moderation_warnings_user_idx ON moderation_warnings (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS posting_bans_user_idx ON posting_bans (user_id, ends_at DESC);
+
+ALTER TABLE moderation_warnings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE posting_bans ENABLE ROW LEVEL SECURITY;
+
+-- Read-only; rows are written by the moderate_* functions
+CREATE POLICY "Users see their own warnings, staff see all"
+  ON moderation_warnings FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
+
+CREATE POLICY "Users see their own bans, staff see all"
+  ON posting_bans FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM profiles
+      WHERE profiles.id = auth.uid() AND profiles.role IN ('staff', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION is_posting_banned(p_user_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM posting_bans
+    WHERE user_id = p_user_id AND lifted_at IS NULL AND ends_at > now()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Banned users cannot post or reply, whatever the client does
+DROP POLICY IF EXISTS "Authenticated users can insert communications" ON communications;
+CREATE POLICY "Authenticated users can insert communications"
+  ON communications FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT is_hidden AND NOT is_posting_banned(auth.uid()));
+
+DROP POLICY IF EXISTS "Authenticated users can insert replies" ON replies;
+CREATE POLICY "Authenticated users can insert replies"
+  ON replies FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id AND NOT is_posting_banned(auth.uid()));
+
+-- Authors may edit their posts but not un-hide them
+CREATE OR REPLACE FUNCTION protect_post_hidden()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.is_hidden IS DISTINCT FROM OLD.is_hidden
+    AND auth.uid() IS NOT NULL
+    AND current_setting('app.moderation', true) IS DISTINCT FROM 'on' THEN
+    RAISE EXCEPTION 'Posts can only be hidden or restored by a moderator';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS communications_protect_hidden ON communications;
+CREATE TRIGGER communications_protect_hidden
+  BEFORE UPDATE OF is_hidden ON communications
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_post_hidden();
+
+-- =================================================================
+-- WORD FILTERS
+-- =================================================================
+-- Terms are matched case-insensitively anywhere in the text (Thai has no
+-- spaces between words, so whole-word matching would miss them).
+
+CREATE TABLE IF NOT EXISTS moderation_word_filters (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  term text NOT NULL CHECK (btrim(term) <> ''),
+  created_by uuid REFERENCES auth.users ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS moderation_word_filters_term_idx ON moderation_word_filters (lower(term));
+
+ALTER TABLE moderation_word_filters ENABLE ROW LEVEL SECURITY;
+
+-- Signed-in users read the list so posts can be checked before insert
+CREATE POLICY "Authenticated users can view word filters"
+  ON moderation_word_filters FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- assertCanPublish checks first so the user gets a friendly message;
+-- this trigger makes sure a direct insert or edit cannot skip it
+CREATE OR REPLACE FUNCTION enforce_word_filters()
+RETURNS trigger AS $$
+DECLARE
+  v_term text;
+BEGIN
+  SELECT term FROM moderation_word_filters
+  WHERE position(lower(term) IN lower(NEW.content)) > 0
+  ORDER BY term
+  LIMIT 1
+  INTO v_term;
+
+  IF v_term IS NOT NULL THEN
+    RAISE EXCEPTION 'Your message contains "%", which is not allowed here', v_term
+      USING HINT = 'word_filter';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS communications_enforce_word_filters ON communications;
+CREATE TRIGGER communications_enforce_word_filters
+  BEFORE INSERT OR UPDATE OF content ON communications
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_word_filters();
+
+DROP TRIGGER IF EXISTS replies_enforce_word_filters ON replies;
+CREATE TRIGGER replies_enforce_word_filters
+  BEFORE INSERT OR UPDATE OF content ON replies
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_word_filters();
+
+-- =================================================================
+-- FEED
+-- =================================================================
+-- Same as in 20240814000000_communication_feed.sql, minus hidden posts:
+-- RLS still shows them to their author and to moderators, but they
+-- belong in the moderation queue, not the feed.
+
+CREATE OR REPLACE FUNCTION get_communication_feed(
+  p_zone_id uuid DEFAULT NULL,
+  p_topic text DEFAULT NULL,
+  p_before_created_at timestamptz DEFAULT NULL,
+  p_before_id uuid DEFAULT NULL,
+  p_limit int DEFAULT 20
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  expires_at timestamptz,
+  user_id uuid,
+  author_name text,
+  author_avatar text,
+  zone_id uuid,
+  zone_name text,
+  zone_floor int,
+  zone_capacity int,
+  topics jsonb,
+  like_count int,
+  liked boolean,
+  reply_count int
+) AS $$
+  WITH page AS (
+    SELECT c.*
+    FROM communications c
+    WHERE c.expires_at > now()
+      AND NOT c.is_hidden
+      AND (p_zone_id IS NULL OR c.zone_id = p_zone_id)
+      AND (
+        p_topic IS NULL
+        OR EXISTS (
+          SELECT 1
+          FROM post_topics pt
+          JOIN topics t ON t.id = pt.topic_id
+          WHERE pt.post_id = c.id AND t.name = p_topic
+        )
+      )
+      AND (
+        p_before_created_at IS NULL
+        OR (c.created_at, c.id) < (p_before_created_at, p_before_id)
+      )
+    ORDER BY c.created_at DESC, c.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  )
+  SELECT
+    page.id,
+    page.content,
+    page.image_url,
+    page.created_at,
+    page.expires_at,
+    page.user_id,
+    p.name,
+    p.avatar_url,
+    z.id,
+    z.name,
+    z.floor,
+    z.capacity,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name) ORDER BY t.name)
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id
+        WHERE pt.post_id = page.id
+      ),
+      '[]'::jsonb
+    ),
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = page.id AND r.type = 'like'),
+    EXISTS (
+      SELECT 1 FROM reactions r
+      WHERE r.post_id = page.id AND r.type = 'like' AND r.user_id = auth.uid()
+    ),
+    (SELECT count(*)::int FROM replies rp WHERE rp.post_id = page.id)
+  FROM page
+  LEFT JOIN profiles p ON p.id = page.user_id
+  LEFT JOIN library_zones z ON z.id = page.zone_id
+  ORDER BY page.created_at DESC, page.id DESC;
+$$ LANGUAGE sql STABLE;
+
+-- =================================================================
+-- MODERATION QUEUE
+-- =================================================================
+
+-- Posts with open reports, most reported first
+CREATE OR REPLACE FUNCTION moderation_queue()
+RETURNS TABLE (
+  post_id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  expires_at timestamptz,
+  is_hidden boolean,
+  author_id uuid,
+  author_name text,
+  author_email text,
+  report_count int,
+  last_reported_at timestamptz,
+  reports jsonb -- [{ "category", "details", "reporter", "created_at" }]
+) AS $$
+BEGIN
+  PERFORM require_admin_role();
+
+  RETURN QUERY
+  SELECT
+    c.id,
+    c.content,
+    c.image_url,
+    c.created_at,
+    c.expires_at,
+    c.is_hidden,
+    c.user_id,
+    p.name,
+    u.email::text,
+    count(r.id)::int,
+    max(r.created_at),
+    jsonb_agg(
+      jsonb_build_object(
+        'category', r.category,
+        'details', r.details,
+        'reporter', coalesce(rp.name, ru.email),
+        'created_at', r.created_at
+      )
+      ORDER BY r.created_at DESC
+    )
+  FROM post_reports r
+  JOIN communications c ON c.id = r.post_id
+  LEFT JOIN profiles p ON p.id = c.user_id
+  LEFT JOIN auth.users u ON u.id = c.user_id
+  LEFT JOIN profiles rp ON rp.id = r.reporter_id
+  LEFT JOIN auth.users ru ON ru.id = r.reporter_id
+  WHERE r.status = 'open'
+  GROUP BY c.id, p.name, u.email
+  ORDER BY count(r.id) DESC, max(r.created_at) DESC
+  LIMIT 200;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Current and upcoming posting bans, for the moderation tab
+CREATE OR REPLACE FUNCTION moderation_active_bans()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  user_name text,
+  user_email text,
+  ends_at timestamptz,
+  reason text,
+  created_at timestamptz
+) AS $$
+BEGIN
+  PERFORM require_admin_role();
+
+  RETURN QUERY
+  SELECT b.id, b.user_id, p.name, u.email::text, b.ends_at, b.reason, b.created_at
+  FROM posting_bans b
+  LEFT JOIN profiles p ON p.id = b.user_id
+  LEFT JOIN auth.users u ON u.id = b.user_id
+  WHERE b.lifted_at IS NULL AND b.ends_at > now()
+  ORDER BY b.ends_at;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Close a post's open reports once a moderator has dealt with it
+CREATE OR REPLACE FUNCTION resolve_post_reports(p_post_id uuid, p_status text)
+RETURNS int AS $$
+DECLARE
+  v_count int;
+BEGIN
+  UPDATE post_reports
+  SET status = p_status, resolved_by = auth.uid(), resolved_at = now()
+  WHERE post_id = p_post_id AND status = 'open';
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Called only from the moderate_* functions, which check the role first
+REVOKE EXECUTE ON FUNCTION resolve_post_reports(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- =================================================================
+-- MODERATOR ACTIONS
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION moderate_set_post_hidden(p_post_id uuid, p_hidden boolean, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_reason text;
+  v_post communications;
+  v_resolved int := 0;
+BEGIN
+  PERFORM require_admin_role();
+  v_reason := require_admin_reason(p_reason);
+
+  SELECT * FROM communications WHERE id = p_post_id FOR UPDATE INTO v_post;
+
+  IF v_post IS NULL THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  PERFORM set_config('app.moderation', 'on', true);
+  UPDATE communications SET is_hidden = p_hidden WHERE id = p_post_id;
+  PERFORM set_config('app.moderation', 'off', true);
+
+  IF p_hidden THEN
+    v_resolved := resolve_post_reports(p_post_id, 'actioned');
+  END IF;
+
+  PERFORM record_admin_action(CASE WHEN p_hidden THEN 'post.hide' ELSE 'post.unhide' END,
+    'post', p_post_id::text, v_reason,
+    jsonb_build_object('author_id', v_post.user_id, 'content', v_post.content, 'reports_resolved', v_resolved));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The post and its reports are deleted; the audit entry keeps a copy
+CREATE OR REPLACE FUNCTION moderate_delete_post(p_post_id uuid, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_reason text;
+  v_post communications;
+  v_reports int;
+BEGIN
+  PERFORM require_admin_role();
+  v_reason := require_admin_reason(p_reason);
+
+  SELECT * FROM communications WHERE id = p_post_id FOR UPDATE INTO v_post;
+
+  IF v_post IS NULL THEN
+    RAISE EXCEPTION 'Post not found';
+  END IF;
+
+  SELECT count(*) FROM post_reports WHERE post_id = p_post_id AND status = 'open' INTO v_reports;
+
+  DELETE FROM communications WHERE id = p_post_id;
+
+  PERFORM record_admin_action('post.delete', 'post', p_post_id::text, v_reason,
+    jsonb_build_object('author_id', v_post.user_id, 'content', v_post.content,
+      'image_url', v_post.image_url, 'created_at', v_post.created_at, 'reports_resolved', v_reports));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION moderate_dismiss_reports(p_post_id uuid, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_reason text;
+  v_resolved int;
+BEGIN
+  PERFORM require_admin_role();
+  v_reason := require_admin_reason(p_reason);
+
+  v_resolved := resolve_post_reports(p_post_id, 'dismissed');
+
+  IF v_resolved = 0 THEN
+    RAISE EXCEPTION 'This post has no open reports';
+  END IF;
+
+  PERFORM record_admin_action('post.dismiss_reports', 'post', p_post_id::text, v_reason,
+    jsonb_build_object('reports_dismissed', v_resolved));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The reason is shown to the user as the warning
+CREATE OR REPLACE FUNCTION moderate_warn_user(p_user_id uuid, p_reason text, p_post_id uuid DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_reason text;
+  v_resolved int := 0;
+BEGIN
+  PERFORM require_admin_role();
+  v_reason := require_admin_reason(p_reason);
+
+  INSERT INTO moderation_warnings (user_id, post_id, message, issued_by)
+  VALUES (p_user_id, p_post_id, v_reason, auth.uid());
+
+  IF p_post_id IS NOT NULL THEN
+    v_resolved := resolve_post_reports(p_post_id, 'actioned');
+  END IF;
+
+  PERFORM record_admin_action('user.warn', 'user', p_user_id::text, v_reason,
+    jsonb_build_object('post_id', p_post_id, 'reports_resolved', v_resolved));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Temporary only: at most 90 days
+CREATE OR REPLACE FUNCTION moderate_ban_user(p_user_id uuid, p_hours int, p_reason text, p_post_id uuid DEFAULT NULL)
+RETURNS posting_bans AS $$
+DECLARE
+  v_reason text;
+  v_ban posting_bans;
+  v_resolved int := 0;
+BEGIN
+  PERFORM require_admin_role();
+  v_reason := require_admin_reason(p_reason);
+
+  IF p_hours IS NULL OR p_hours < 1 OR p_hours > 24 * 90 THEN
+    RAISE EXCEPTION 'A posting ban must last between 1 hour and 90 days';
+  END IF;
+
+  IF p_user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot ban yourself';
+  END IF;
+
+  INSERT INTO posting_bans (user_id, ends_at, reason, issued_by)
+  VALUES (p_user_id, now() + make_interval(hours => p_hours), v_reason, auth.uid())
+  RETURNING * INTO v_ban;
+
+  IF p_post_id IS NOT NULL THEN
+    v_resolved := resolve_post_reports(p_post_id, 'actioned');
+  END IF;
+
+  PERFORM record_admin_action('user.posting_ban', 'user', p_user_id::text, v_reason,
+    jsonb_build_object('ban_id', v_ban.id, 'ends_at', v_ban.ends_at, 'post_id', p_post_id,
+      'reports_resolved', v_resolved));
+
+  RETURN v_ban;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION moderate_lift_ban(p_ban_id uuid, p_reason text)
+RETURNS void AS $$
+DECLARE
+  v_reason text;
+  v_ban posting_bans;
+BEGIN
+  PERFORM require_admin_role();
+  v_reason := require_admin_reason(p_reason);
+
+  UPDATE posting_bans
+  SET lifted_at = now()
+  WHERE id = p_ban_id AND lifted_at IS NULL
+  RETURNING * INTO v_ban;
+
+  IF v_ban IS NULL THEN
+    RAISE EXCEPTION 'Ban not found or already lifted';
+  END IF;
+
+  PERFORM record_admin_action('user.lift_ban', 'user', v_ban.user_id::text, v_reason,
+    jsonb_build_object('ban_id', v_ban.id, 'ends_at', v_ban.ends_at));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION moderate_add_word_filter(p_term text)
+RETURNS moderation_word_filters AS $$
+DECLARE
+  v_filter moderation_word_filters;
+BEGIN
+  PERFORM require_admin_role();
+
+  IF p_term IS NULL OR btrim(p_term) = '' THEN
+    RAISE EXCEPTION 'Enter a word or phrase to filter';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM moderation_word_filters WHERE lower(term) = lower(btrim(p_term))) THEN
+    RAISE EXCEPTION 'That term is already filtered';
+  END IF;
+
+  INSERT INTO moderation_word_filters (term, created_by)
+  VALUES (btrim(p_term), auth.uid())
+  RETURNING * INTO v_filter;
+
+  PERFORM record_admin_action('word_filter.add', 'word_filter', v_filter.id::text, NULL,
+    jsonb_build_object('term', v_filter.term));
+
+  RETURN v_filter;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION moderate_remove_word_filter(p_filter_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_filter moderation_word_filters;
+BEGIN
+  PERFORM require_admin_role();
+
+  DELETE FROM moderation_word_filters WHERE id = p_filter_id RETURNING * INTO v_filter;
+
+  IF v_filter IS NULL THEN
+    RAISE EXCEPTION 'Word filter not found';
+  END IF;
+
+  PERFORM record_admin_action('word_filter.remove', 'word_filter', p_filter_id::text, NULL,
+    jsonb_build_object('term', v_filter.term));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- USER SIDE
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION acknowledge_moderation_warning(p_warning_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE moderation_warnings
+  SET acknowledged_at = now()
+  WHERE id = p_warning_id AND user_id = auth.uid() AND acknowledged_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION is_posting_banned(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderation_queue() TO authenticated;
+GRANT EXECUTE ON FUNCTION moderation_active_bans() TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_set_post_hidden(uuid, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_delete_post(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_dismiss_reports(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_warn_user(uuid, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_ban_user(uuid, int, text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_lift_ban(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_add_word_filter(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION moderate_remove_word_filter(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION acknowledge_moderation_warning(uuid) TO authenticated;
@@ -0,0 +1,202 @@
+-- =================================================================
+-- THREADED REPLIES, MENTIONS AND NOTIFICATIONS
+-- =================================================================
+-- Replies can answer another reply on the same post (parent_id) and can
+-- mention users by name. Mentions are resolved against profiles by the
+-- client and stored on the reply as user ids, so they arrive with the
+-- reply's realtime event.
+--
+-- Each new reply notifies the post's author, the author of the reply it
+-- answers and the users it mentions (never the person replying, and at
+-- most once per reply). Notifications are written by a trigger, as users
+-- cannot insert rows for each other, and are read and marked read by
+-- their recipient only. read_at is stored, so the unread count is the
+-- same on every device and after a reload.
+-- =================================================================
+
+-- =================================================================
+-- REPLY THREADS AND MENTIONS
+-- =================================================================
+
+ALTER TABLE replies ADD COLUMN IF NOT EXISTS parent_id uuid REFERENCES replies(id) ON DELETE CASCADE;
+ALTER TABLE replies ADD COLUMN IF NOT EXISTS mentioned_user_ids uuid[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE replies DROP CONSTRAINT IF EXISTS replies_mentions_limit;
+ALTER TABLE replies ADD CONSTRAINT replies_mentions_limit
+  CHECK (cardinality(mentioned_user_ids) <= 10);
+
+CREATE INDEX IF NOT EXISTS replies_parent_idx ON replies (parent_id) WHERE parent_id IS NOT NULL;
+
+-- Users can only select their own profile row, so mention suggestions
+-- and reply authors are looked up through these functions, which return
+-- the public columns (id, name, avatar) of other users and nothing else
+CREATE OR REPLACE FUNCTION search_profiles(p_prefix text, p_limit int DEFAULT 5)
+RETURNS TABLE (id uuid, name text, avatar_url text) AS $$
+  SELECT p.id, p.name, p.avatar_url
+  FROM profiles p
+  WHERE auth.uid() IS NOT NULL
+    AND btrim(coalesce(p_prefix, '')) <> ''
+    AND starts_with(lower(p.name), lower(btrim(p_prefix)))
+  ORDER BY p.name
+  LIMIT least(greatest(coalesce(p_limit, 5), 1), 20);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION get_public_profiles(p_user_ids uuid[])
+RETURNS TABLE (id uuid, name text, avatar_url text) AS $$
+  SELECT p.id, p.name, p.avatar_url
+  FROM profiles p
+  WHERE auth.uid() IS NOT NULL
+    AND p.id = ANY (p_user_ids);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- A reply can only answer a reply on the same post
+CREATE OR REPLACE FUNCTION check_reply_parent()
+RETURNS trigger AS $$
+BEGIN
+  IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM replies WHERE id = NEW.parent_id AND post_id = NEW.post_id
+  ) THEN
+    RAISE EXCEPTION 'The reply being answered is not on this post';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS replies_check_parent ON replies;
+CREATE TRIGGER replies_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id, post_id ON replies
+  FOR EACH ROW
+  EXECUTE FUNCTION check_reply_parent();
+
+-- =================================================================
+-- NOTIFICATIONS
+-- =================================================================
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  recipient_id uuid NOT NULL REFERENCES auth.users ON DELETE CASCADE,
+  actor_id uuid REFERENCES auth.users ON DELETE SET NULL,
+  type text NOT NULL CHECK (type IN ('post_reply', 'reply_reply', 'mention')),
+  post_id uuid NOT NULL REFERENCES communications(id) ON DELETE CASCADE,
+  reply_id uuid NOT NULL REFERENCES replies(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  read_at timestamptz,
+  UNIQUE (recipient_id, reply_id)
+);
+
+CREATE INDEX IF NOT EXISTS notifications_recipient_created_idx
+  ON notifications (recipient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS notifications_unread_idx
+  ON notifications (recipient_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+-- Rows are written by notify_reply_recipients and updated by
+-- mark_notifications_read; users can only read their own
+DROP POLICY IF EXISTS "Users can view their own notifications" ON notifications;
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (auth.uid() = recipient_id);
+
+-- One notification per recipient: a mention wins over a reply to their
+-- post, which wins over a reply to their reply
+CREATE OR REPLACE FUNCTION notify_reply_recipients()
+RETURNS trigger AS $$
+BEGIN
+  INSERT INTO notifications (recipient_id, actor_id, type, post_id, reply_id)
+  SELECT DISTINCT ON (candidates.recipient_id)
+    candidates.recipient_id, NEW.user_id, candidates.type, NEW.post_id, NEW.id
+  FROM (
+    SELECT p.id AS recipient_id, 'mention' AS type, 1 AS priority
+    FROM profiles p
+    WHERE p.id = ANY (NEW.mentioned_user_ids)
+    UNION ALL
+    SELECT c.user_id, 'post_reply', 2
+    FROM communications c
+    WHERE c.id = NEW.post_id
+    UNION ALL
+    SELECT r.user_id, 'reply_reply', 3
+    FROM replies r
+    WHERE r.id = NEW.parent_id
+  ) candidates
+  WHERE candidates.recipient_id <> NEW.user_id
+  ORDER BY candidates.recipient_id, candidates.priority
+  ON CONFLICT (recipient_id, reply_id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS replies_notify ON replies;
+CREATE TRIGGER replies_notify
+  AFTER INSERT ON replies
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_reply_recipients();
+
+REVOKE EXECUTE ON FUNCTION notify_reply_recipients() FROM PUBLIC, anon, authenticated;
+
+-- The signed-in user's latest notifications, with who replied and the
+-- start of what they wrote. Runs as the owner so the actor's profile is
+-- readable; rows are still limited to the caller's own.
+CREATE OR REPLACE FUNCTION get_notifications(p_limit int DEFAULT 20)
+RETURNS TABLE (
+  id uuid,
+  type text,
+  post_id uuid,
+  reply_id uuid,
+  actor_id uuid,
+  actor_name text,
+  actor_avatar text,
+  excerpt text,
+  created_at timestamptz,
+  read_at timestamptz
+) AS $$
+  SELECT
+    n.id,
+    n.type,
+    n.post_id,
+    n.reply_id,
+    n.actor_id,
+    p.name,
+    p.avatar_url,
+    left(r.content, 140),
+    n.created_at,
+    n.read_at
+  FROM notifications n
+  JOIN replies r ON r.id = n.reply_id
+  LEFT JOIN profiles p ON p.id = n.actor_id
+  WHERE n.recipient_id = auth.uid()
+  ORDER BY n.created_at DESC, n.id DESC
+  LIMIT least(greatest(coalesce(p_limit, 20), 1), 50);
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+-- Mark some of the caller's notifications read, or all of them when no
+-- ids are given
+CREATE OR REPLACE FUNCTION mark_notifications_read(p_notification_ids uuid[] DEFAULT NULL)
+RETURNS void AS $$
+BEGIN
+  UPDATE notifications
+  SET read_at = now()
+  WHERE recipient_id = auth.uid()
+    AND read_at IS NULL
+    AND (p_notification_ids IS NULL OR id = ANY (p_notification_ids));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION search_profiles(text, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_public_profiles(uuid[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_notifications(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_notifications_read(uuid[]) TO authenticated;
+
+-- Live bell updates; RLS limits each user to their own rows
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END;
+$$;
@@ -0,0 +1,208 @@
+-- =================================================================
+-- COMMUNICATION SEARCH
+-- =================================================================
+-- Full-text search over live posts, their replies and their topics,
+-- with optional zone, date range and "has image" filters.
+--
+-- Thai is written without spaces between words and Postgres has no Thai
+-- dictionary, so a Thai sentence becomes a single lexeme. Text is
+-- therefore matched two ways:
+--   * full-text search: an english (stemmed) plus a simple (unstemmed)
+--     tsvector, searched with websearch_to_tsquery syntax ("quoted
+--     phrases", or, -exclusions)
+--   * substring search: every word of the query appears somewhere in the
+--     text, case-insensitively, which finds Thai words inside longer runs
+--
+-- Matches in the post count most, then topics, then replies. The score
+-- is divided by the post's age so that, among similar matches, recent
+-- posts come first. Live posts expire within a day, so the search only
+-- ever looks at a small set of rows.
+-- =================================================================
+
+-- =================================================================
+-- SEARCH VECTORS
+-- =================================================================
+
+ALTER TABLE communications ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(content, '')) || to_tsvector('simple', coalesce(content, ''))
+  ) STORED;
+
+ALTER TABLE replies ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    to_tsvector('english', coalesce(content, '')) || to_tsvector('simple', coalesce(content, ''))
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS communications_search_idx ON communications USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS replies_search_idx ON replies USING gin (search_vector);
+
+-- =================================================================
+-- MATCHING
+-- =================================================================
+
+-- LIKE patterns for the substring match: the words of a search, with
+-- quotes, hashtags, "or" and -exclusions removed and wildcards escaped
+CREATE OR REPLACE FUNCTION communication_search_patterns(p_query text)
+RETURNS text[] AS $$
+  SELECT coalesce(array_agg(replace(replace(replace(term, '\', '\\'), '%', '\%'), '_', '\_')), '{}')
+  FROM regexp_split_to_table(lower(btrim(regexp_replace(coalesce(p_query, ''), '["#]', ' ', 'g'))), '\s+') AS term
+  WHERE term <> '' AND term <> 'or' AND left(term, 1) <> '-';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Whether a post or reply matches a search, either way
+CREATE OR REPLACE FUNCTION communication_text_matches(
+  p_content text,
+  p_vector tsvector,
+  p_query tsquery,
+  p_patterns text[]
+)
+RETURNS boolean AS $$
+  SELECT p_vector @@ p_query
+    OR (
+      cardinality(p_patterns) > 0
+      AND NOT EXISTS (
+        SELECT 1 FROM unnest(p_patterns) AS pattern
+        WHERE p_content NOT ILIKE '%' || pattern || '%'
+      )
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =================================================================
+-- SEARCH
+-- =================================================================
+
+-- Runs as the caller (SECURITY INVOKER), so the usual RLS policies apply.
+-- Returns the same columns as get_communication_feed plus the score and
+-- up to three matching replies ({id, content, author_name}), best first.
+-- Results are paged with p_limit and p_offset.
+CREATE OR REPLACE FUNCTION search_communications(
+  p_query text,
+  p_zone_id uuid DEFAULT NULL,
+  p_from timestamptz DEFAULT NULL,
+  p_to timestamptz DEFAULT NULL,
+  p_has_image boolean DEFAULT NULL,
+  p_limit int DEFAULT 20,
+  p_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  id uuid,
+  content text,
+  image_url text,
+  created_at timestamptz,
+  expires_at timestamptz,
+  user_id uuid,
+  author_name text,
+  author_avatar text,
+  zone_id uuid,
+  zone_name text,
+  zone_floor int,
+  zone_capacity int,
+  topics jsonb,
+  like_count int,
+  liked boolean,
+  reply_count int,
+  rank real,
+  matching_replies jsonb
+) AS $$
+  WITH search AS (
+    SELECT
+      websearch_to_tsquery('english', coalesce(p_query, ''))
+        || websearch_to_tsquery('simple', coalesce(p_query, '')) AS query,
+      communication_search_patterns(p_query) AS patterns
+  ),
+  candidates AS (
+    SELECT
+      c.*,
+      communication_text_matches(c.content, c.search_vector, s.query, s.patterns) AS content_match,
+      ts_rank(c.search_vector, s.query) AS content_rank,
+      EXISTS (
+        SELECT 1
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id
+        WHERE pt.post_id = c.id
+          AND EXISTS (
+            SELECT 1 FROM unnest(s.patterns) AS pattern
+            WHERE t.name ILIKE '%' || pattern || '%'
+          )
+      ) AS topic_match,
+      reply_matches.best_rank AS reply_rank,
+      reply_matches.replies AS reply_list
+    FROM communications c
+    CROSS JOIN search s
+    LEFT JOIN LATERAL (
+      SELECT
+        max(m.rank) AS best_rank,
+        jsonb_agg(
+          jsonb_build_object('id', m.id, 'content', m.content, 'author_name', m.author_name)
+          ORDER BY m.rank DESC, m.created_at
+        ) AS replies
+      FROM (
+        SELECT r.id, r.content, r.created_at, rp.name AS author_name, ts_rank(r.search_vector, s.query) AS rank
+        FROM replies r
+        LEFT JOIN profiles rp ON rp.id = r.user_id
+        WHERE r.post_id = c.id
+          AND communication_text_matches(r.content, r.search_vector, s.query, s.patterns)
+        ORDER BY rank DESC, r.created_at
+        LIMIT 3
+      ) m
+    ) reply_matches ON true
+    WHERE c.expires_at > now()
+      AND NOT c.is_hidden
+      AND (p_zone_id IS NULL OR c.zone_id = p_zone_id)
+      AND (p_from IS NULL OR c.created_at >= p_from)
+      AND (p_to IS NULL OR c.created_at < p_to)
+      AND (p_has_image IS NULL OR (c.image_url IS NOT NULL) = p_has_image)
+  ),
+  ranked AS (
+    SELECT
+      cand.*,
+      (
+        (CASE WHEN cand.content_match THEN greatest(cand.content_rank, 0.1) ELSE 0 END)
+        + (CASE WHEN cand.topic_match THEN 0.3 ELSE 0 END)
+        + (CASE WHEN cand.reply_list IS NOT NULL THEN 0.5 * greatest(cand.reply_rank, 0.1) ELSE 0 END)
+      -- A post six hours old scores half as much as a new one
+      ) / (1 + extract(epoch FROM now() - cand.created_at) / 21600) AS score
+    FROM candidates cand
+    WHERE cand.content_match OR cand.topic_match OR cand.reply_list IS NOT NULL
+    ORDER BY score DESC, cand.created_at DESC, cand.id DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+    OFFSET GREATEST(COALESCE(p_offset, 0), 0)
+  )
+  SELECT
+    ranked.id,
+    ranked.content,
+    ranked.image_url,
+    ranked.created_at,
+    ranked.expires_at,
+    ranked.user_id,
+    p.name,
+    p.avatar_url,
+    z.id,
+    z.name,
+    z.floor,
+    z.capacity,
+    COALESCE(
+      (
+        SELECT jsonb_agg(jsonb_build_object('id', t.id, 'name', t.name) ORDER BY t.name)
+        FROM post_topics pt
+        JOIN topics t ON t.id = pt.topic_id
+        WHERE pt.post_id = ranked.id
+      ),
+      '[]'::jsonb
+    ),
+    (SELECT count(*)::int FROM reactions r WHERE r.post_id = ranked.id AND r.type = 'like'),
+    EXISTS (
+      SELECT 1 FROM reactions r
+      WHERE r.post_id = ranked.id AND r.type = 'like' AND r.user_id = auth.uid()
+    ),
+    (SELECT count(*)::int FROM replies rp WHERE rp.post_id = ranked.id),
+    ranked.score::real,
+    COALESCE(ranked.reply_list, '[]'::jsonb)
+  FROM ranked
+  LEFT JOIN profiles p ON p.id = ranked.user_id
+  LEFT JOIN library_zones z ON z.id = ranked.zone_id
+  ORDER BY ranked.score DESC, ranked.created_at DESC, ranked.id DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION search_communications(text, uuid, timestamptz, timestamptz, boolean, int, int)
+  TO anon, authenticated;
@@ -0,0 +1,307 @@
+-- =================================================================
+-- AUDITED ZONE AND AMENITY MANAGEMENT
+-- =================================================================
+-- Zones (library_zones), the amenity catalog and the amenities fitted
+-- in each room were edited by writing to the tables directly, so the
+-- changes never reached admin_audit_log. They now go through admin_*
+-- functions like rooms and roles: each checks the caller is an admin
+-- and records the change, with its before and after values, in the
+-- same transaction.
+--
+-- The direct write policies are dropped, so these functions are the
+-- only way for a signed-in user to change the tables.
+-- =================================================================
+
+ALTER TABLE admin_audit_log DROP CONSTRAINT IF EXISTS admin_audit_log_target_type_check;
+ALTER TABLE admin_audit_log ADD CONSTRAINT admin_audit_log_target_type_check
+  CHECK (target_type IN ('room', 'reservation', 'maintenance_window', 'user', 'post', 'word_filter', 'zone', 'amenity'));
+
+DROP POLICY IF EXISTS "Only admins can modify library_zones" ON library_zones;
+DROP POLICY IF EXISTS "Only admins can update library_zones" ON library_zones;
+DROP POLICY IF EXISTS "Only admins can delete library_zones" ON library_zones;
+DROP POLICY IF EXISTS "Admins can manage amenities" ON amenities;
+DROP POLICY IF EXISTS "Admins can manage room_amenities" ON room_amenities;
+
+-- =================================================================
+-- ZONES
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION admin_create_zone(
+  p_name text,
+  p_floor int,
+  p_capacity int,
+  p_description text DEFAULT NULL,
+  p_opens_at time DEFAULT '08:00',
+  p_closes_at time DEFAULT '22:00',
+  p_is_active boolean DEFAULT true,
+  p_reason text DEFAULT NULL
+)
+RETURNS library_zones AS $$
+DECLARE
+  v_zone library_zones;
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Zone name is required';
+  END IF;
+
+  INSERT INTO library_zones (name, floor, capacity, description, opens_at, closes_at, is_active)
+  VALUES (
+    btrim(p_name), p_floor, p_capacity, NULLIF(btrim(p_description), ''),
+    p_opens_at, p_closes_at, COALESCE(p_is_active, true)
+  )
+  RETURNING * INTO v_zone;
+
+  PERFORM record_admin_action('zone.create', 'zone', v_zone.id::text, p_reason,
+    jsonb_build_object('after', to_jsonb(v_zone)));
+
+  RETURN v_zone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Arguments left NULL keep their current value; an empty description
+-- clears it
+CREATE OR REPLACE FUNCTION admin_update_zone(
+  p_zone_id uuid,
+  p_name text DEFAULT NULL,
+  p_floor int DEFAULT NULL,
+  p_capacity int DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_opens_at time DEFAULT NULL,
+  p_closes_at time DEFAULT NULL,
+  p_is_active boolean DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS library_zones AS $$
+DECLARE
+  v_before library_zones;
+  v_zone library_zones;
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  IF p_name IS NOT NULL AND btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Zone name is required';
+  END IF;
+
+  SELECT * FROM library_zones WHERE id = p_zone_id FOR UPDATE INTO v_before;
+
+  IF v_before IS NULL THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  UPDATE library_zones
+  SET name = COALESCE(btrim(p_name), name),
+      floor = COALESCE(p_floor, floor),
+      capacity = COALESCE(p_capacity, capacity),
+      description = CASE WHEN p_description IS NULL THEN description ELSE NULLIF(btrim(p_description), '') END,
+      opens_at = COALESCE(p_opens_at, opens_at),
+      closes_at = COALESCE(p_closes_at, closes_at),
+      is_active = COALESCE(p_is_active, is_active)
+  WHERE id = p_zone_id
+  RETURNING * INTO v_zone;
+
+  PERFORM record_admin_action(
+    CASE
+      WHEN v_zone.is_active AND NOT v_before.is_active THEN 'zone.reactivate'
+      WHEN v_before.is_active AND NOT v_zone.is_active THEN 'zone.retire'
+      ELSE 'zone.update'
+    END,
+    'zone', p_zone_id::text, p_reason,
+    jsonb_build_object('before', to_jsonb(v_before), 'after', to_jsonb(v_zone))
+  );
+
+  RETURN v_zone;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Zones with posts cannot be deleted (communications.zone_id); they are
+-- retired with admin_update_zone(p_is_active => false) instead
+CREATE OR REPLACE FUNCTION admin_delete_zone(p_zone_id uuid, p_reason text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_zone library_zones;
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  BEGIN
+    DELETE FROM library_zones WHERE id = p_zone_id RETURNING * INTO v_zone;
+  EXCEPTION WHEN foreign_key_violation THEN
+    RAISE EXCEPTION 'This zone has posts and cannot be deleted; retire it instead';
+  END;
+
+  IF v_zone IS NULL THEN
+    RAISE EXCEPTION 'Zone not found';
+  END IF;
+
+  PERFORM record_admin_action('zone.delete', 'zone', p_zone_id::text, p_reason,
+    jsonb_build_object('before', to_jsonb(v_zone)));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- AMENITY CATALOG
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION admin_create_amenity(
+  p_amenity_id text,
+  p_name text,
+  p_category text DEFAULT 'equipment',
+  p_description text DEFAULT NULL,
+  p_sort_order int DEFAULT 0,
+  p_is_active boolean DEFAULT true,
+  p_reason text DEFAULT NULL
+)
+RETURNS amenities AS $$
+DECLARE
+  v_amenity amenities;
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  IF p_name IS NULL OR btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Amenity name is required';
+  END IF;
+
+  INSERT INTO amenities (id, name, category, description, sort_order, is_active)
+  VALUES (
+    p_amenity_id, btrim(p_name), COALESCE(p_category, 'equipment'), NULLIF(btrim(p_description), ''),
+    COALESCE(p_sort_order, 0), COALESCE(p_is_active, true)
+  )
+  RETURNING * INTO v_amenity;
+
+  PERFORM record_admin_action('amenity.create', 'amenity', v_amenity.id, p_reason,
+    jsonb_build_object('after', to_jsonb(v_amenity)));
+
+  RETURN v_amenity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Arguments left NULL keep their current value; an empty description
+-- clears it
+CREATE OR REPLACE FUNCTION admin_update_amenity(
+  p_amenity_id text,
+  p_name text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_description text DEFAULT NULL,
+  p_sort_order int DEFAULT NULL,
+  p_is_active boolean DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS amenities AS $$
+DECLARE
+  v_before amenities;
+  v_amenity amenities;
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  IF p_name IS NOT NULL AND btrim(p_name) = '' THEN
+    RAISE EXCEPTION 'Amenity name is required';
+  END IF;
+
+  SELECT * FROM amenities WHERE id = p_amenity_id FOR UPDATE INTO v_before;
+
+  IF v_before IS NULL THEN
+    RAISE EXCEPTION 'Amenity not found';
+  END IF;
+
+  UPDATE amenities
+  SET name = COALESCE(btrim(p_name), name),
+      category = COALESCE(p_category, category),
+      description = CASE WHEN p_description IS NULL THEN description ELSE NULLIF(btrim(p_description), '') END,
+      sort_order = COALESCE(p_sort_order, sort_order),
+      is_active = COALESCE(p_is_active, is_active)
+  WHERE id = p_amenity_id
+  RETURNING * INTO v_amenity;
+
+  PERFORM record_admin_action(
+    CASE
+      WHEN v_amenity.is_active AND NOT v_before.is_active THEN 'amenity.reactivate'
+      WHEN v_before.is_active AND NOT v_amenity.is_active THEN 'amenity.retire'
+      ELSE 'amenity.update'
+    END,
+    'amenity', p_amenity_id, p_reason,
+    jsonb_build_object('before', to_jsonb(v_before), 'after', to_jsonb(v_amenity))
+  );
+
+  RETURN v_amenity;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Deleting an amenity also removes it from every room (ON DELETE
+-- CASCADE); the rooms it was fitted in are kept in the audit details
+CREATE OR REPLACE FUNCTION admin_delete_amenity(p_amenity_id text, p_reason text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_amenity amenities;
+  v_room_ids int[];
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  SELECT array_agg(room_id ORDER BY room_id) FROM room_amenities
+  WHERE amenity_id = p_amenity_id
+  INTO v_room_ids;
+
+  DELETE FROM amenities WHERE id = p_amenity_id RETURNING * INTO v_amenity;
+
+  IF v_amenity IS NULL THEN
+    RAISE EXCEPTION 'Amenity not found';
+  END IF;
+
+  PERFORM record_admin_action('amenity.delete', 'amenity', p_amenity_id, p_reason,
+    jsonb_build_object(
+      'before', to_jsonb(v_amenity),
+      'removed_from_room_ids', COALESCE(to_jsonb(v_room_ids), '[]'::jsonb)
+    ));
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =================================================================
+-- ROOM AMENITIES
+-- =================================================================
+
+-- Replaces a room's amenity list with p_amenities, an array of
+-- { amenity_id, notes }
+CREATE OR REPLACE FUNCTION admin_set_room_amenities(
+  p_room_id int,
+  p_amenities jsonb,
+  p_reason text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_before jsonb;
+  v_after jsonb;
+BEGIN
+  PERFORM require_admin_role(ARRAY['admin']);
+
+  IF NOT EXISTS (SELECT 1 FROM rooms WHERE id = p_room_id) THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('amenity_id', amenity_id, 'notes', notes) ORDER BY amenity_id), '[]'::jsonb)
+  FROM room_amenities WHERE room_id = p_room_id
+  INTO v_before;
+
+  DELETE FROM room_amenities WHERE room_id = p_room_id;
+
+  INSERT INTO room_amenities (room_id, amenity_id, notes)
+  SELECT p_room_id, item->>'amenity_id', NULLIF(btrim(item->>'notes'), '')
+  FROM jsonb_array_elements(COALESCE(p_amenities, '[]'::jsonb)) AS item;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object('amenity_id', amenity_id, 'notes', notes) ORDER BY amenity_id), '[]'::jsonb)
+  FROM room_amenities WHERE room_id = p_room_id
+  INTO v_after;
+
+  IF v_after IS DISTINCT FROM v_before THEN
+    PERFORM record_admin_action('room.amenities', 'room', p_room_id::text, p_reason,
+      jsonb_build_object('before', v_before, 'after', v_after));
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION admin_create_zone(text, int, int, text, time, time, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_update_zone(uuid, text, int, int, text, time, time, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_delete_zone(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_create_amenity(text, text, text, text, int, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_update_amenity(text, text, text, text, int, boolean, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_delete_amenity(text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION admin_set_room_amenities(int, jsonb, text) TO authenticated;
@@ -0,0 +1,77 @@
+-- =================================================================
+-- BOOKING HORIZON POLICY
+-- =================================================================
+-- How many days after today a single booking may start was set in two
+-- places: BOOKING_HORIZON_DAYS in the front end (overridable per
+-- deploy) and a fixed 7 in check_booking_horizon. It is now a column
+-- of reservation_policy, read by the booking pages (through
+-- GET /api/reservations/policy) and by check_booking_horizon, so
+-- admins change it once and every side agrees.
+--
+-- create_reservation_with_hold now runs the booking time and horizon
+-- checks itself, so calling it directly is no looser than
+-- POST /api/reservations.
+-- =================================================================
+
+ALTER TABLE reservation_policy
+  ADD COLUMN IF NOT EXISTS booking_horizon_days int NOT NULL DEFAULT 7
+  CHECK (booking_horizon_days BETWEEN 0 AND 365);
+
+-- =================================================================
+-- HORIZON CHECK
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION check_booking_horizon(p_start_time timestamptz)
+RETURNS void AS $$
+DECLARE
+  v_horizon_days int;
+BEGIN
+  SELECT booking_horizon_days FROM reservation_policy INTO v_horizon_days;
+
+  -- The policy row is seeded by 20240808000000_reservation_check_in
+  v_horizon_days := coalesce(v_horizon_days, 7);
+
+  IF (p_start_time AT TIME ZONE 'Asia/Bangkok')::date
+    > (now() AT TIME ZONE 'Asia/Bangkok')::date + v_horizon_days THEN
+    RAISE EXCEPTION 'Outside the booking horizon: rooms can be booked up to % days ahead', v_horizon_days;
+  END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- =================================================================
+-- HOLD CREATION
+-- =================================================================
+
+CREATE OR REPLACE FUNCTION create_reservation_with_hold(
+  p_room_id int,
+  p_start_time timestamptz,
+  p_end_time timestamptz,
+  p_agenda text,
+  p_num_people int
+)
+RETURNS uuid AS $$
+DECLARE
+  v_user_email text;
+BEGIN
+  -- Get the current user's email from the auth context
+  v_user_email := auth.email();
+
+  -- Check if the user is authenticated
+  IF v_user_email IS NULL THEN
+    RAISE EXCEPTION 'Authentication required to create a reservation';
+  END IF;
+
+  -- Same time rules as POST /api/reservations
+  PERFORM check_booking_times(p_start_time, p_end_time);
+  PERFORM check_booking_horizon(p_start_time);
+
+  -- Create the reservation with a 30-second hold
+  RETURN create_reservation_hold(
+    v_user_email, p_room_id, p_start_time, p_end_time,
+    p_agenda, p_num_people, interval '30 seconds'
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION check_booking_horizon(timestamptz) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_reservation_with_hold(int, timestamptz, timestamptz, text, int) TO authenticated;
@@ -22,30 +22,59 @@ DELETE FROM rooms;
 -- =================================================================
 -- We're creating a variety of room types with different:
 -- - Capacities (from individual pods to large conference rooms)
--- - Equipment options (some with projectors, some without)
+-- - Equipment options (see the amenities below)
 -- - Locations (spread across different floors and wings)
 -- This diversity allows testing all filtering and search capabilities.
 -- =================================================================
-INSERT INTO rooms (name, capacity, has_projector, photo_url, location)
+INSERT INTO rooms (name, capacity, photo_url, location)
 VALUES
   -- Small rooms on the first floor
-  ('Room 101', 4, true, 'https://images.unsplash.com/photo-1497366754035-f200968a6e72', 'Engineering Building, 1st Floor'),
-  ('Room 102', 2, false, 'https://images.unsplash.com/photo-1497366811353-6870744d04b2', 'Engineering Building, 1st Floor'),
+  ('Room 101', 4, 'https://images.unsplash.com/photo-1497366754035-f200968a6e72', 'Engineering Building, 1st Floor'),
+  ('Room 102', 2, 'https://images.unsplash.com/photo-1497366811353-6870744d04b2', 'Engineering Building, 1st Floor'),
   
   -- Medium-sized rooms on the second floor
-  ('Room 201', 6, true, 'https://images.unsplash.com/photo-1497215842964-222b430dc094', 'Engineering Building, 2nd Floor'),
-  ('Room 202', 8, true, 'https://images.unsplash.com/photo-1497215728101-856f4ea42174', 'Engineering Building, 2nd Floor'),
+  ('Room 201', 6, 'https://images.unsplash.com/photo-1497215842964-222b430dc094', 'Engineering Building, 2nd Floor'),
+  ('Room 202', 8, 'https://images.unsplash.com/photo-1497215728101-856f4ea42174', 'Engineering Building, 2nd Floor'),
   
   -- Room on the third floor
-  ('Room 301', 4, false, 'https://images.unsplash.com/photo-1516156008625-3a9d6067fab5', 'Engineering Building, 3rd Floor'),
+  ('Room 301', 4, 'https://images.unsplash.com/photo-1516156008625-3a9d6067fab5', 'Engineering Building, 3rd Floor'),
   
   -- Large conference room for bigger groups
-  ('Conference Room A', 12, true, 'https://images.unsplash.com/photo-1517502884422-41eaead166d4', 'Engineering Building, Ground Floor'),
+  ('Conference Room A', 12, 'https://images.unsplash.com/photo-1517502884422-41eaead166d4', 'Engineering Building, Ground Floor'),
   
   -- Individual study pods for solo work
-  ('Study Pod 1', 1, false, 'https://images.unsplash.com/photo-1535957998253-26ae1ef29506', 'Library, East Wing'),
-  ('Study Pod 2', 1, false, 'https://images.unsplash.com/photo-1535957998253-26ae1ef29506', 'Library, East Wing'),
+  ('Study Pod 1', 1, 'https://images.unsplash.com/photo-1535957998253-26ae1ef29506', 'Library, East Wing'),
+  ('Study Pod 2', 1, 'https://images.unsplash.com/photo-1535957998253-26ae1ef29506', 'Library, East Wing'),
   
   -- Group study rooms in the library
-  ('Group Study Room 1', 6, false, 'https://images.unsplash.com/photo-1517502884422-41eaead166d4', 'Library, West Wing'),
-  ('Group Study Room 2', 8, true, 'https://images.unsplash.com/photo-1517502884422-41eaead166d4', 'Library, West Wing'); 
\ No newline at end of file
+  ('Group Study Room 1', 6, 'https://images.unsplash.com/photo-1517502884422-41eaead166d4', 'Library, West Wing'),
+  ('Group Study Room 2', 8, 'https://images.unsplash.com/photo-1517502884422-41eaead166d4', 'Library, West Wing'); 
+
+-- =================================================================
+-- ROOM AMENITIES
+-- =================================================================
+-- The amenity catalog itself is created by the room_amenities migration.
+-- =================================================================
+INSERT INTO room_amenities (room_id, amenity_id)
+SELECT rooms.id, amenity.id
+FROM (VALUES
+  ('Room 101', 'projector'),
+  ('Room 101', 'whiteboard'),
+  ('Room 102', 'whiteboard'),
+  ('Room 201', 'projector'),
+  ('Room 201', 'tv_hdmi'),
+  ('Room 202', 'projector'),
+  ('Room 202', 'video_conferencing'),
+  ('Room 301', 'whiteboard'),
+  ('Conference Room A', 'projector'),
+  ('Conference Room A', 'video_conferencing'),
+  ('Conference Room A', 'wheelchair_accessible'),
+  ('Conference Room A', 'hearing_loop'),
+  ('Study Pod 1', 'power_outlets'),
+  ('Study Pod 2', 'power_outlets'),
+  ('Group Study Room 1', 'whiteboard'),
+  ('Group Study Room 1', 'wheelchair_accessible'),
+  ('Group Study Room 2', 'projector'),
+  ('Group Study Room 2', 'tv_hdmi')
+) AS amenity (room_name, id)
+JOIN rooms ON rooms.name = amenity.room_name;
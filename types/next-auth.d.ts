@@ -1,19 +0,0 @@
-import NextAuth from "next-auth"
-
-declare module "next-auth" {
-  interface User {
-    role?: string
-  }
-  
-  interface Session {
-    user: User & {
-      role?: string
-    }
-  }
-}
-
-declare module "next-auth/jwt" {
-  interface JWT {
-    role?: string
-  }
-} 
\ No newline at end of file
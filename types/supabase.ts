@@ -14,26 +14,26 @@ export interface Database {
           id: number
           name: string
           capacity: number
-          has_projector: boolean
           photo_url?: string | null
           location?: string | null
+          is_active: boolean
           created_at?: string
         }
         Insert: {
           id?: number
           name: string
           capacity: number
-          has_projector: boolean
           photo_url?: string | null
           location?: string | null
+          is_active?: boolean
         }
         Update: {
           id?: number
           name?: string
           capacity?: number
-          has_projector?: boolean
           photo_url?: string | null
           location?: string | null
+          is_active?: boolean
         }
       }
       reservations: {
@@ -45,8 +45,10 @@ export interface Database {
           end_time: string
           agenda: string
           num_people: number
-          status: 'pending' | 'confirmed' | 'cancelled'
+          status: 'pending' | 'confirmed' | 'cancelled' | 'no_show'
           hold_expiry?: string | null
+          series_id?: string | null
+          checked_in_at?: string | null
           created_at: string
         }
         Insert: {
@@ -57,8 +59,10 @@ export interface Database {
           end_time: string
           agenda: string
           num_people: number
-          status: 'pending' | 'confirmed' | 'cancelled'
+          status: 'pending' | 'confirmed' | 'cancelled' | 'no_show'
           hold_expiry?: string | null
+          series_id?: string | null
+          checked_in_at?: string | null
         }
         Update: {
           id?: string
@@ -68,8 +72,258 @@ export interface Database {
           end_time?: string
           agenda?: string
           num_people?: number
-          status?: 'pending' | 'confirmed' | 'cancelled'
+          status?: 'pending' | 'confirmed' | 'cancelled' | 'no_show'
           hold_expiry?: string | null
+          series_id?: string | null
+          checked_in_at?: string | null
+        }
+      }
+      reservation_policy: {
+        Row: {
+          id: boolean
+          check_in_opens_minutes: number
+          no_show_grace_minutes: number
+          no_show_limit: number
+          no_show_window_days: number
+          block_days: number
+          booking_horizon_days: number
+          updated_at: string
+        }
+        Insert: {
+          id?: boolean
+          check_in_opens_minutes?: number
+          no_show_grace_minutes?: number
+          no_show_limit?: number
+          no_show_window_days?: number
+          block_days?: number
+          booking_horizon_days?: number
+          updated_at?: string
+        }
+        Update: {
+          check_in_opens_minutes?: number
+          no_show_grace_minutes?: number
+          no_show_limit?: number
+          no_show_window_days?: number
+          block_days?: number
+          booking_horizon_days?: number
+          updated_at?: string
+        }
+      }
+      amenities: {
+        Row: {
+          id: string
+          name: string
+          category: 'equipment' | 'connectivity' | 'accessibility' | 'comfort'
+          description: string | null
+          sort_order: number
+          is_active: boolean
+          created_at: string
+        }
+        Insert: {
+          id: string
+          name: string
+          category?: 'equipment' | 'connectivity' | 'accessibility' | 'comfort'
+          description?: string | null
+          sort_order?: number
+          is_active?: boolean
+        }
+        Update: {
+          name?: string
+          category?: 'equipment' | 'connectivity' | 'accessibility' | 'comfort'
+          description?: string | null
+          sort_order?: number
+          is_active?: boolean
+        }
+      }
+      room_amenities: {
+        Row: {
+          room_id: number
+          amenity_id: string
+          notes: string | null
+        }
+        Insert: {
+          room_id: number
+          amenity_id: string
+          notes?: string | null
+        }
+        Update: {
+          notes?: string | null
+        }
+      }
+      room_maintenance_windows: {
+        Row: {
+          id: string
+          room_id: number
+          start_time: string
+          end_time: string
+          reason: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          room_id: number
+          start_time: string
+          end_time: string
+          reason: string
+          created_by?: string | null
+        }
+        Update: {
+          start_time?: string
+          end_time?: string
+          reason?: string
+        }
+      }
+      admin_audit_log: {
+        Row: {
+          id: string
+          actor_id: string | null
+          actor_email: string
+          action: string
+          target_type: 'room' | 'reservation' | 'maintenance_window' | 'user' | 'post' | 'word_filter' | 'zone' | 'amenity'
+          target_id: string
+          reason: string | null
+          details: Json
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          actor_id?: string | null
+          actor_email: string
+          action: string
+          target_type: 'room' | 'reservation' | 'maintenance_window' | 'user' | 'post' | 'word_filter' | 'zone' | 'amenity'
+          target_id: string
+          reason?: string | null
+          details?: Json
+        }
+        Update: Record<string, never>
+      }
+      booking_quotas: {
+        Row: {
+          role: 'student' | 'faculty' | 'staff' | 'admin'
+          max_hours_per_day: number | null
+          max_hours_per_week: number | null
+          max_upcoming_bookings: number | null
+          max_booking_minutes: number | null
+          updated_at: string
+        }
+        Insert: {
+          role: 'student' | 'faculty' | 'staff' | 'admin'
+          max_hours_per_day?: number | null
+          max_hours_per_week?: number | null
+          max_upcoming_bookings?: number | null
+          max_booking_minutes?: number | null
+          updated_at?: string
+        }
+        Update: {
+          max_hours_per_day?: number | null
+          max_hours_per_week?: number | null
+          max_upcoming_bookings?: number | null
+          max_booking_minutes?: number | null
+          updated_at?: string
+        }
+      }
+      booking_blocks: {
+        Row: {
+          id: string
+          user_email: string
+          blocked_until: string
+          reason: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_email: string
+          blocked_until: string
+          reason: string
+        }
+        Update: {
+          blocked_until?: string
+          reason?: string
+        }
+      }
+      reservation_waitlist: {
+        Row: {
+          id: string
+          room_id: number
+          user_email: string
+          start_time: string
+          end_time: string
+          agenda: string | null
+          num_people: number | null
+          status: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled'
+          reservation_id: string | null
+          offered_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          room_id: number
+          user_email: string
+          start_time: string
+          end_time: string
+          agenda?: string | null
+          num_people?: number | null
+          status?: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled'
+          reservation_id?: string | null
+          offered_at?: string | null
+        }
+        Update: {
+          id?: string
+          room_id?: number
+          user_email?: string
+          start_time?: string
+          end_time?: string
+          agenda?: string | null
+          num_people?: number | null
+          status?: 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled'
+          reservation_id?: string | null
+          offered_at?: string | null
+        }
+      }
+      reservation_series: {
+        Row: {
+          id: string
+          room_id: number
+          user_email: string
+          agenda: string | null
+          num_people: number | null
+          frequency: 'daily' | 'weekly' | 'custom'
+          weekdays: number[]
+          start_date: string
+          until_date: string | null
+          occurrence_count: number | null
+          slot_start: string
+          slot_end: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          room_id: number
+          user_email: string
+          agenda?: string | null
+          num_people?: number | null
+          frequency: 'daily' | 'weekly' | 'custom'
+          weekdays?: number[]
+          start_date: string
+          until_date?: string | null
+          occurrence_count?: number | null
+          slot_start: string
+          slot_end: string
+        }
+        Update: {
+          id?: string
+          room_id?: number
+          user_email?: string
+          agenda?: string | null
+          num_people?: number | null
+          frequency?: 'daily' | 'weekly' | 'custom'
+          weekdays?: number[]
+          start_date?: string
+          until_date?: string | null
+          occurrence_count?: number | null
+          slot_start?: string
+          slot_end?: string
         }
       }
       profiles: {
@@ -105,6 +359,11 @@ export interface Database {
           capacity: number
           floor: number
           description: string | null
+          opens_at: string
+          closes_at: string
+          is_active: boolean
+          created_at: string
+          updated_at: string
         }
         Insert: {
           id?: string
@@ -112,6 +371,9 @@ export interface Database {
           capacity: number
           floor: number
           description?: string | null
+          opens_at?: string
+          closes_at?: string
+          is_active?: boolean
         }
         Update: {
           id?: string
@@ -119,6 +381,134 @@ export interface Database {
           capacity?: number
           floor?: number
           description?: string | null
+          opens_at?: string
+          closes_at?: string
+          is_active?: boolean
+        }
+      }
+      // Occupancy ingestion tables
+      occupancy_events: {
+        Row: {
+          id: number
+          zone_id: string
+          direction: 'entry' | 'exit'
+          count: number
+          sensor_id: string | null
+          recorded_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: number
+          zone_id: string
+          direction: 'entry' | 'exit'
+          count?: number
+          sensor_id?: string | null
+          recorded_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: number
+          zone_id?: string
+          direction?: 'entry' | 'exit'
+          count?: number
+          sensor_id?: string | null
+          recorded_at?: string
+          created_at?: string
+        }
+      }
+      zone_occupancy: {
+        Row: {
+          zone_id: string
+          current_count: number
+          updated_at: string
+        }
+        Insert: {
+          zone_id: string
+          current_count?: number
+          updated_at?: string
+        }
+        Update: {
+          zone_id?: string
+          current_count?: number
+          updated_at?: string
+        }
+      }
+      occupancy_samples: {
+        Row: {
+          id: number
+          zone_id: string
+          sampled_at: string
+          count: number
+          capacity: number
+        }
+        Insert: {
+          id?: number
+          zone_id: string
+          sampled_at: string
+          count: number
+          capacity: number
+        }
+        Update: {
+          id?: number
+          zone_id?: string
+          sampled_at?: string
+          count?: number
+          capacity?: number
+        }
+      }
+      occupancy_hourly: {
+        Row: {
+          zone_id: string
+          hour_start: string
+          avg_count: number
+          peak_count: number
+          capacity: number
+          entries: number
+          exits: number
+          sample_count: number
+        }
+        Insert: {
+          zone_id: string
+          hour_start: string
+          avg_count: number
+          peak_count: number
+          capacity: number
+          entries?: number
+          exits?: number
+          sample_count: number
+        }
+        Update: {
+          zone_id?: string
+          hour_start?: string
+          avg_count?: number
+          peak_count?: number
+          capacity?: number
+          entries?: number
+          exits?: number
+          sample_count?: number
+        }
+      }
+      occupancy_daily: {
+        Row: {
+          day: string
+          peak_occupancy: number
+          average_occupancy: number
+          total_visitors: number
+          total_capacity: number
+        }
+        Insert: {
+          day: string
+          peak_occupancy: number
+          average_occupancy: number
+          total_visitors: number
+          total_capacity: number
+        }
+        Update: {
+          day?: string
+          peak_occupancy?: number
+          average_occupancy?: number
+          total_visitors?: number
+          total_capacity?: number
         }
       }
       communications: {
@@ -131,6 +521,8 @@ export interface Database {
           image_url: string | null
           expires_at: string
           created_at: string
+          is_hidden: boolean
+          search_vector: unknown
         }
         Insert: {
           id?: string
@@ -141,6 +533,7 @@ export interface Database {
           image_url?: string | null
           expires_at: string
           created_at?: string
+          is_hidden?: boolean
         }
         Update: {
           id?: string
@@ -151,6 +544,7 @@ export interface Database {
           image_url?: string | null
           expires_at?: string
           created_at?: string
+          is_hidden?: boolean
         }
       }
       reactions: {
@@ -180,22 +574,29 @@ export interface Database {
         Row: {
           id: string
           post_id: string
+          parent_id: string | null
           user_id: string
           content: string
+          mentioned_user_ids: string[]
           created_at: string
+          search_vector: unknown
         }
         Insert: {
           id?: string
           post_id: string
+          parent_id?: string | null
           user_id: string
           content: string
+          mentioned_user_ids?: string[]
           created_at?: string
         }
         Update: {
           id?: string
           post_id?: string
+          parent_id?: string | null
           user_id?: string
           content?: string
+          mentioned_user_ids?: string[]
           created_at?: string
         }
       }
@@ -227,6 +628,79 @@ export interface Database {
           topic_id?: string
         }
       }
+      post_reports: {
+        Row: {
+          id: string
+          post_id: string
+          reporter_id: string
+          category: 'spam' | 'harassment' | 'inappropriate' | 'misinformation' | 'other'
+          details: string | null
+          status: 'open' | 'actioned' | 'dismissed'
+          resolved_by: string | null
+          resolved_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          post_id: string
+          reporter_id: string
+          category: 'spam' | 'harassment' | 'inappropriate' | 'misinformation' | 'other'
+          details?: string | null
+          status?: 'open'
+          created_at?: string
+        }
+        Update: Record<string, never>
+      }
+      moderation_warnings: {
+        Row: {
+          id: string
+          user_id: string
+          post_id: string | null
+          message: string
+          issued_by: string | null
+          created_at: string
+          acknowledged_at: string | null
+        }
+        Insert: Record<string, never>
+        Update: Record<string, never>
+      }
+      posting_bans: {
+        Row: {
+          id: string
+          user_id: string
+          ends_at: string
+          reason: string
+          issued_by: string | null
+          created_at: string
+          lifted_at: string | null
+        }
+        Insert: Record<string, never>
+        Update: Record<string, never>
+      }
+      moderation_word_filters: {
+        Row: {
+          id: string
+          term: string
+          created_by: string | null
+          created_at: string
+        }
+        Insert: Record<string, never>
+        Update: Record<string, never>
+      }
+      notifications: {
+        Row: {
+          id: string
+          recipient_id: string
+          actor_id: string | null
+          type: 'post_reply' | 'reply_reply' | 'mention'
+          post_id: string
+          reply_id: string
+          created_at: string
+          read_at: string | null
+        }
+        Insert: Record<string, never>
+        Update: Record<string, never>
+      }
     }
     Functions: {
       check_reservation_overlap: {
@@ -252,8 +726,432 @@ export interface Database {
         Args: {
           p_reservation_id: string
         }
+        Returns: {
+          confirmError: string | null
+        }
+      }
+      modify_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_room_id?: number
+          p_start_time?: string
+          p_end_time?: string
+          p_agenda?: string
+          p_num_people?: number
+        }
+        Returns: Database['public']['Tables']['reservations']['Row']
+      }
+      admin_save_room: {
+        Args: {
+          p_room_id: number | null
+          p_name: string
+          p_capacity: number
+          p_location?: string | null
+          p_photo_url?: string | null
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['rooms']['Row']
+      }
+      admin_set_room_active: {
+        Args: {
+          p_room_id: number
+          p_is_active: boolean
+          p_reason: string
+        }
+        Returns: Database['public']['Tables']['rooms']['Row']
+      }
+      admin_block_room: {
+        Args: {
+          p_room_id: number
+          p_start_time: string
+          p_end_time: string
+          p_reason: string
+          p_cancel_conflicts?: boolean
+        }
+        Returns: {
+          window_id: string
+          cancelled_reservation_ids: string[]
+        }
+      }
+      admin_remove_room_block: {
+        Args: {
+          p_window_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      admin_cancel_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_reason: string
+        }
+        Returns: Database['public']['Tables']['reservations']['Row']
+      }
+      admin_override_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_reason: string
+          p_room_id?: number
+          p_start_time?: string
+          p_end_time?: string
+          p_num_people?: number
+        }
+        Returns: Database['public']['Tables']['reservations']['Row']
+      }
+      admin_list_users: {
+        Args: {
+          p_search?: string | null
+        }
+        Returns: {
+          id: string
+          email: string
+          name: string | null
+          role: string
+          created_at: string
+        }[]
+      }
+      admin_set_user_role: {
+        Args: {
+          p_user_id: string
+          p_role: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      admin_create_zone: {
+        Args: {
+          p_name: string
+          p_floor: number
+          p_capacity: number
+          p_description?: string | null
+          p_opens_at?: string
+          p_closes_at?: string
+          p_is_active?: boolean
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['library_zones']['Row']
+      }
+      admin_update_zone: {
+        Args: {
+          p_zone_id: string
+          p_name?: string
+          p_floor?: number
+          p_capacity?: number
+          p_description?: string
+          p_opens_at?: string
+          p_closes_at?: string
+          p_is_active?: boolean
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['library_zones']['Row']
+      }
+      admin_delete_zone: {
+        Args: {
+          p_zone_id: string
+          p_reason?: string | null
+        }
+        Returns: undefined
+      }
+      admin_create_amenity: {
+        Args: {
+          p_amenity_id: string
+          p_name: string
+          p_category?: 'equipment' | 'connectivity' | 'accessibility' | 'comfort'
+          p_description?: string | null
+          p_sort_order?: number
+          p_is_active?: boolean
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['amenities']['Row']
+      }
+      admin_update_amenity: {
+        Args: {
+          p_amenity_id: string
+          p_name?: string
+          p_category?: 'equipment' | 'connectivity' | 'accessibility' | 'comfort'
+          p_description?: string
+          p_sort_order?: number
+          p_is_active?: boolean
+          p_reason?: string | null
+        }
+        Returns: Database['public']['Tables']['amenities']['Row']
+      }
+      admin_delete_amenity: {
+        Args: {
+          p_amenity_id: string
+          p_reason?: string | null
+        }
+        Returns: undefined
+      }
+      admin_set_room_amenities: {
+        Args: {
+          p_room_id: number
+          p_amenities: { amenity_id: string; notes: string | null }[]
+          p_reason?: string | null
+        }
+        Returns: undefined
+      }
+      check_in_reservation: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: {
+          checkInError: string | null
+        }
+      }
+      join_reservation_waitlist: {
+        Args: {
+          p_room_id: number
+          p_start_time: string
+          p_end_time: string
+          p_agenda: string
+          p_num_people: number
+        }
+        Returns: string
+      }
+      leave_reservation_waitlist: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: undefined
+      }
+      preview_reservation_series: {
+        Args: {
+          p_room_id: number
+          p_frequency: 'daily' | 'weekly' | 'custom'
+          p_weekdays: number[]
+          p_start_date: string
+          p_until_date: string | null
+          p_occurrence_count: number | null
+          p_slot_start: string
+          p_slot_end: string
+        }
+        Returns: {
+          start_time: string
+          end_time: string
+          has_conflict: boolean
+        }[]
+      }
+      create_reservation_series: {
+        Args: {
+          p_room_id: number
+          p_frequency: 'daily' | 'weekly' | 'custom'
+          p_weekdays: number[]
+          p_start_date: string
+          p_until_date: string | null
+          p_occurrence_count: number | null
+          p_slot_start: string
+          p_slot_end: string
+          p_agenda: string
+          p_num_people: number
+        }
+        Returns: {
+          seriesId: string
+          created: number
+          skipped: { start_time: string; end_time: string }[]
+        }
+      }
+      is_posting_banned: {
+        Args: {
+          p_user_id: string
+        }
         Returns: boolean
       }
+      moderation_queue: {
+        Args: Record<string, never>
+        Returns: {
+          post_id: string
+          content: string
+          image_url: string | null
+          created_at: string
+          expires_at: string
+          is_hidden: boolean
+          author_id: string
+          author_name: string | null
+          author_email: string | null
+          report_count: number
+          last_reported_at: string
+          reports: Json
+        }[]
+      }
+      moderation_active_bans: {
+        Args: Record<string, never>
+        Returns: {
+          id: string
+          user_id: string
+          user_name: string | null
+          user_email: string | null
+          ends_at: string
+          reason: string
+          created_at: string
+        }[]
+      }
+      moderate_set_post_hidden: {
+        Args: {
+          p_post_id: string
+          p_hidden: boolean
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      moderate_delete_post: {
+        Args: {
+          p_post_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      moderate_dismiss_reports: {
+        Args: {
+          p_post_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      moderate_warn_user: {
+        Args: {
+          p_user_id: string
+          p_reason: string
+          p_post_id?: string | null
+        }
+        Returns: undefined
+      }
+      moderate_ban_user: {
+        Args: {
+          p_user_id: string
+          p_hours: number
+          p_reason: string
+          p_post_id?: string | null
+        }
+        Returns: Database['public']['Tables']['posting_bans']['Row']
+      }
+      moderate_lift_ban: {
+        Args: {
+          p_ban_id: string
+          p_reason: string
+        }
+        Returns: undefined
+      }
+      moderate_add_word_filter: {
+        Args: {
+          p_term: string
+        }
+        Returns: Database['public']['Tables']['moderation_word_filters']['Row']
+      }
+      moderate_remove_word_filter: {
+        Args: {
+          p_filter_id: string
+        }
+        Returns: undefined
+      }
+      acknowledge_moderation_warning: {
+        Args: {
+          p_warning_id: string
+        }
+        Returns: undefined
+      }
+      search_profiles: {
+        Args: {
+          p_prefix: string
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          name: string | null
+          avatar_url: string | null
+        }[]
+      }
+      get_public_profiles: {
+        Args: {
+          p_user_ids: string[]
+        }
+        Returns: {
+          id: string
+          name: string | null
+          avatar_url: string | null
+        }[]
+      }
+      get_notifications: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          type: 'post_reply' | 'reply_reply' | 'mention'
+          post_id: string
+          reply_id: string
+          actor_id: string | null
+          actor_name: string | null
+          actor_avatar: string | null
+          excerpt: string
+          created_at: string
+          read_at: string | null
+        }[]
+      }
+      mark_notifications_read: {
+        Args: {
+          p_notification_ids?: string[] | null
+        }
+        Returns: undefined
+      }
+      get_communication_feed: {
+        Args: {
+          p_zone_id?: string | null
+          p_topic?: string | null
+          p_before_created_at?: string | null
+          p_before_id?: string | null
+          p_limit?: number
+        }
+        Returns: {
+          id: string
+          content: string
+          image_url: string | null
+          created_at: string
+          expires_at: string
+          user_id: string
+          author_name: string | null
+          author_avatar: string | null
+          zone_id: string | null
+          zone_name: string | null
+          zone_floor: number | null
+          zone_capacity: number | null
+          topics: Json
+          like_count: number
+          liked: boolean
+          reply_count: number
+        }[]
+      }
+      search_communications: {
+        Args: {
+          p_query: string
+          p_zone_id?: string | null
+          p_from?: string | null
+          p_to?: string | null
+          p_has_image?: boolean | null
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          id: string
+          content: string
+          image_url: string | null
+          created_at: string
+          expires_at: string
+          user_id: string
+          author_name: string | null
+          author_avatar: string | null
+          zone_id: string | null
+          zone_name: string | null
+          zone_floor: number | null
+          zone_capacity: number | null
+          topics: Json
+          like_count: number
+          liked: boolean
+          reply_count: number
+          rank: number
+          matching_replies: Json
+        }[]
+      }
     }
   }
 } 
\ No newline at end of file
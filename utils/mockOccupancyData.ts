@@ -24,6 +24,9 @@
 /**
  * Library zone definitions with capacity information
  * Each zone represents a distinct area in the library with its own occupancy tracking
+ * 
+ * NOTE: Offline fixture only. The real zone registry is the library_zones
+ * table (see lib/zones.ts); these ids do not match it.
  */
 export const LIBRARY_ZONES = [
   { id: "zone1", name: "Main Reading Area", capacity: 120, floor: 1 },